@@ -2,29 +2,61 @@
  * `fluxhive daemon` command — starts the runner daemon.
  *
  * Same startup sequence as the old standalone runner:
- *   1. Load config from env vars + SKILL.md
+ *   1. Load config from flags, env vars, ~/.flux/runner.yaml, and SKILL.md
  *   2. Bootstrap with Flux server (whoami, handshake, hello)
- *   3. Initialize execution backends (OpenClaw → PI → Claude CLI)
- *   4. Start the CadenceLoop (periodic polling)
- *   5. Start the FluxPushClient (real-time WebSocket notifications)
- *   6. Wait indefinitely, processing tasks via poll + push
- *   7. On SIGINT/SIGTERM, gracefully shut down all components
+ *   3. Initialize execution backends (OpenClaw → PI → Claude CLI → Codex CLI),
+ *      then re-probe them periodically; only healthy backends take tasks and
+ *      are advertised in listTasks queries and push filters
+ *   4. Reconcile the task journal left by a previous run
+ *   5. Start the CadenceLoop (periodic polling)
+ *   6. Start the FluxPushClient (real-time WebSocket notifications)
+ *   7. Serve the local control API (status, pause/resume/drain/poll) and,
+ *      when FLUX_METRICS_PORT is set, Prometheus metrics
+ *      (task runs are traced when FLUX_TRACING is set)
+ *   8. Wait indefinitely, processing tasks via poll + push
+ *   9. On SIGHUP or a config file change, reload: re-run backend preflight,
+ *      swap backends/filters/limits, and re-mint the push ticket, leaving
+ *      running tasks alone
+ *  10. On SIGINT/SIGTERM, drain in-flight tasks and shut down all components
  */
 import type { Command } from "commander";
+import type { RunnerConfig } from "../types.js";
 import { mkdirSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import { homedir } from "node:os";
 import process from "node:process";
-import { loadRunnerConfig, fetchSkillManifest } from "../runner/config.js";
+import { isDeepStrictEqual } from "node:util";
+import {
+  loadRunnerConfig,
+  fetchSkillManifest,
+  runnerConfigSources,
+  type RunnerConfigOverrides,
+} from "../runner/config.js";
 import { FluxMcpClient } from "../runner/client.js";
 import { OpenClawClient } from "../runner/openclaw.js";
-import { FluxPushClient } from "../runner/push.js";
+import { FluxPushClient, type PushFilters } from "../runner/push.js";
 import { TaskExecutor } from "../runner/executor.js";
 import { CadenceLoop } from "../runner/cadence.js";
 import { normalizeExecutionBackend, type RunnerExecutionBackend } from "../runner/execution.js";
 import { OpenClawExecutionBackend } from "../runner/openclaw_backend.js";
 import { PiExecutionBackend } from "../runner/pi_backend.js";
 import { ClaudeCliExecutionBackend } from "../runner/claude_cli_backend.js";
+import { CodexCliExecutionBackend } from "../runner/codex_cli_backend.js";
+import { RoutingTable, type TaskFilter } from "../runner/routing.js";
+import { BackendHealthMonitor } from "../runner/health.js";
+import { ConfigWatcher } from "../runner/config_watch.js";
+import { BudgetTracker, type BudgetStatus } from "../runner/budget.js";
+import { WorkspaceManager } from "../runner/workspace.js";
+import { TaskJournal, reconcileTaskJournal } from "../runner/journal.js";
+import { CompletionOutbox } from "../runner/outbox.js";
+import { ControlServer, type RunnerStatus } from "../runner/control.js";
+import { MetricsServer, createRunnerMetrics } from "../runner/metrics.js";
+import {
+  JsonLinesSpanExporter,
+  OtlpHttpExporter,
+  Tracer,
+  type SpanExporter,
+} from "../runner/tracing.js";
 
 /** Converts HTTP(S) URLs to WS(S) for WebSocket connections. */
 function normalizeWsUrl(raw: string | null | undefined): string | null {
@@ -37,8 +69,58 @@ function normalizeWsUrl(raw: string | null | undefined): string | null {
   return null;
 }
 
+/** Settings a reload can't apply; changing them logs a restart hint. */
+const RESTART_REQUIRED_KEYS = [
+  "fluxHost",
+  "fluxToken",
+  "fluxOrgId",
+  "pushReconnectMs",
+  "workspaceDir",
+  "workspaceRetention",
+  "workspaceMaxAgeHours",
+  "metricsPort",
+  "metricsHost",
+  "tracing",
+  "otlpEndpoint",
+  "tracesFile",
+] as const satisfies ReadonlyArray<keyof RunnerConfig>;
+
+/** Settings a reload applies in place, reported in `config.reloaded`. */
+const RELOADABLE_KEYS = [
+  "backend",
+  "streamId",
+  "costClass",
+  "routes",
+  "budgets",
+  "allowDirectCli",
+  "backendFallbackChain",
+  "healthCheckSeconds",
+  "piAgentDir",
+  "openclawGatewayUrl",
+  "openclawAgentId",
+  "cadenceMinutes",
+  "heartbeatSeconds",
+  "executionMaxAttempts",
+  "outputRepairAttempts",
+  "logLevel",
+  "maxConcurrency",
+  "backendConcurrency",
+  "shutdownGraceSeconds",
+] as const satisfies ReadonlyArray<keyof RunnerConfig>;
+
+/** How long aborted tasks get to report their cancellation before the process exits. */
+const SHUTDOWN_ABORT_SETTLE_MS = 10_000;
+
+type LogLevel = "info" | "warn" | "error";
+
+const LOG_LEVEL_RANK: Record<LogLevel, number> = { info: 0, warn: 1, error: 2 };
+
+/** Lines below this level are dropped; set from config.logLevel once loaded. */
+let minLogLevel: LogLevel = "info";
+
 /** Structured JSON logger — each line is a JSON object with ts, level, message, and optional fields. */
-function log(level: "info" | "warn" | "error", message: string, fields?: Record<string, unknown>) {
+function log(level: LogLevel, message: string, fields?: Record<string, unknown>) {
+  if (LOG_LEVEL_RANK[level] < LOG_LEVEL_RANK[minLogLevel]) return;
   const line = {
     ts: new Date().toISOString(),
     level,
@@ -55,20 +137,216 @@ function log(level: "info" | "warn" | "error", message: string, fields?: Record<
   }
 }
 
-async function runDaemon() {
+/** Execution backends registered for one config, plus what a reload can reuse. */
+type RegisteredBackends = {
+  backends: RunnerExecutionBackend[];
+  openclawClient: OpenClawClient | null;
+  /** Gateway settings the client was opened with; a reload keeps the client while they match. */
+  openclawKey: string | null;
+  piAgentDir: string | undefined;
+};
+
+/** The routing table for a config, or undefined when it has no routes. */
+function buildRouting(config: RunnerConfig): RoutingTable | undefined {
+  return config.routes.length > 0 ? new RoutingTable(config.routes) : undefined;
+}
+
+/**
+ * Push ticket filters: the shared fields of the routes whose backend is
+ * available, or the single configured filter.
+ */
+function pushFilters(
+  config: RunnerConfig,
+  routing: RoutingTable | undefined,
+  isAvailable?: (backend: string) => boolean,
+): PushFilters {
+  return routing
+    ? routing.pushFilter(isAvailable)
+    : { backend: config.backend, streamId: config.streamId, costClass: config.costClass };
+}
+
+/** Opens an OpenClaw client that logs its reconnects. */
+function createOpenClawClient(config: RunnerConfig, gatewayUrl: string): OpenClawClient {
+  const client = new OpenClawClient({
+    gatewayUrl,
+    token: config.openclawGatewayToken,
+    password: config.openclawGatewayPassword,
+    defaultAgentId: config.openclawAgentId,
+    clientName: "fluxhive-runner",
+    clientVersion: config.runnerVersion,
+    instanceId: config.runnerInstanceId,
+  });
+  client.on("disconnected", ({ error }: { error: string }) => {
+    log("warn", "openclaw.disconnected", { gatewayUrl, error });
+  });
+  client.on("reconnecting", ({ attempt, delayMs }: { attempt: number; delayMs: number }) => {
+    log("info", "openclaw.reconnecting", { gatewayUrl, attempt, delayMs });
+  });
+  client.on("reconnected", ({ attempt, replayed }: { attempt: number; replayed: number }) => {
+    log("info", "openclaw.reconnected", { gatewayUrl, attempt, replayed });
+  });
+  return client;
+}
+
+/**
+ * Registers the execution backends the filter or routes call for, probing
+ * each one through the health monitor (a gateway ping for OpenClaw, model
+ * discovery for PI). A backend that fails its probe stays registered and is
+ * re-probed on the health interval, so it rejoins once it recovers; only PI
+ * as the explicit filter is fatal. Backends named in the fallback chain are
+ * registered too. On reload, `previous`
+ * supplies instances to keep: the OpenClaw connection while its gateway
+ * settings are unchanged, and backends with the same id and settings.
+ * Throws when no registered backend is healthy; a client opened by the
+ * failed call is closed first.
+ */
+async function registerBackends(
+  config: RunnerConfig,
+  routing: RoutingTable | undefined,
+  health: BackendHealthMonitor,
+  previous?: RegisteredBackends,
+): Promise<RegisteredBackends> {
+  const normalizedBackendFilter = normalizeExecutionBackend(config.backend);
+  const allowDirectCli = config.allowDirectCli;
+  // Backends the filter or routes can send work to; null means any.
+  const wantedBackends = routing
+    ? routing.backends()
+    : normalizedBackendFilter
+      ? [normalizedBackendFilter]
+      : null;
+  // Fallback targets; "openclaw" normalizes to claude-cli, which OpenClaw serves.
+  const fallbackBackends = config.backendFallbackChain
+    .map((name) => normalizeExecutionBackend(name))
+    .filter((name): name is string => Boolean(name));
+  const wants = (id: string) =>
+    wantedBackends === null || wantedBackends.includes(id) || fallbackBackends.includes(id);
+  const reusable = (id: string) => previous?.backends.find((backend) => backend.id === id);
+
+  const executionBackends: RunnerExecutionBackend[] = [];
+
+  // normalizeExecutionBackend maps "openclaw" to claude-cli.
+  const openclawCompatibleFilter = wants("claude-cli") || wants("codex-cli");
+  let openclawClient: OpenClawClient | null = null;
+  let openclawKey: string | null = null;
+  const openclawGatewayUrl = config.openclawGatewayUrl?.trim() || "";
+  const openclawEnabled = openclawGatewayUrl.length > 0;
+  if (openclawEnabled && openclawCompatibleFilter) {
+    openclawKey = JSON.stringify([
+      openclawGatewayUrl,
+      config.openclawGatewayToken ?? "",
+      config.openclawGatewayPassword ?? "",
+      config.openclawAgentId ?? "",
+    ]);
+    const reuseClient = previous?.openclawClient && previous.openclawKey === openclawKey;
+    openclawClient = reuseClient
+      ? previous.openclawClient
+      : createOpenClawClient(config, openclawGatewayUrl);
+    const openclawBackend =
+      (reuseClient ? reusable("openclaw") : undefined) ??
+      new OpenClawExecutionBackend({
+        client: openclawClient!,
+        orgId: config.fluxOrgId,
+        openclawAgentId: config.openclawAgentId,
+      });
+    executionBackends.push(openclawBackend);
+    const [openclawHealth] = await health.check([openclawBackend]);
+    if (openclawHealth.healthy) {
+      log("info", "openclaw.connected", {
+        gatewayUrl: openclawGatewayUrl,
+        openclawAgentId: config.openclawAgentId || "default",
+      });
+    } else {
+      // Kept registered: the health monitor re-probes the gateway.
+      log("warn", "openclaw.disabled", {
+        reason: "gateway_ping_failed",
+        gatewayUrl: openclawGatewayUrl,
+      });
+    }
+  }
+
+  const discardNewClient = () => {
+    if (openclawClient && openclawClient !== previous?.openclawClient) {
+      try { openclawClient.close(); } catch { /* ignore */ }
+    }
+  };
+
+  if (wants("pi")) {
+    const previousPi = reusable("pi");
+    const piBackend =
+      previousPi instanceof PiExecutionBackend && previous?.piAgentDir === config.piAgentDir
+        ? previousPi
+        : new PiExecutionBackend({ agentDir: config.piAgentDir });
+    const [piHealth] = await health.check([piBackend]);
+    if (piHealth.healthy) {
+      executionBackends.push(piBackend);
+      log("info", "pi.ready", {
+        agentDir: piBackend.getAgentDir(),
+      });
+    } else if (wantedBackends?.includes("pi")) {
+      discardNewClient();
+      throw new Error(`PI preflight failed: ${piHealth.reason}`);
+    } else {
+      // Kept registered: the health monitor re-probes it.
+      executionBackends.push(piBackend);
+      log("warn", "pi.disabled", {
+        reason: piHealth.reason,
+      });
+    }
+  }
+
+  if (wants("claude-cli")) {
+    if (openclawEnabled && !allowDirectCli) {
+      log("warn", "claude_cli.disabled", {
+        reason: "openclaw_present",
+        hint: "Set FLUX_ALLOW_DIRECT_CLI=1 (or backends.allowDirectCli in runner.yaml) to enable direct CLI execution.",
+      });
+    } else if (allowDirectCli) {
+      executionBackends.push(reusable("claude-cli") ?? new ClaudeCliExecutionBackend());
+      log("info", "claude_cli.enabled");
+    }
+  }
+
+  // Codex CLI is opt-in: only registered when FLUX_BACKEND=codex-cli, a route, or the fallback chain targets it.
+  if (wantedBackends?.includes("codex-cli") || fallbackBackends.includes("codex-cli")) {
+    if (openclawEnabled && !allowDirectCli) {
+      log("warn", "codex_cli.disabled", {
+        reason: "openclaw_present",
+        hint: "Set FLUX_ALLOW_DIRECT_CLI=1 (or backends.allowDirectCli in runner.yaml) to enable direct CLI execution.",
+      });
+    } else {
+      executionBackends.push(reusable("codex-cli") ?? new CodexCliExecutionBackend());
+      log("info", "codex_cli.enabled");
+    }
+  }
+
+  if (health.healthy(executionBackends).length === 0) {
+    discardNewClient();
+    throw new Error(
+      routing
+        ? `No execution backend registered for routed backends ${(wantedBackends ?? ["(any)"]).join(", ")}.`
+        : `No execution backend registered for FLUX_BACKEND=${normalizedBackendFilter ?? "(unset)"}.`,
+    );
+  }
+
+  return { backends: executionBackends, openclawClient, openclawKey, piAgentDir: config.piAgentDir };
+}
+
+async function runDaemon(overrides: RunnerConfigOverrides = {}) {
   // Ensure ~/.flux/package.json stub exists — pi-agent-core reads package.json
   // from the bundle's directory at import time and crashes without it.
   const fluxDir = join(homedir(), ".flux");
   mkdirSync(fluxDir, { recursive: true });
   writeFileSync(join(fluxDir, "package.json"), JSON.stringify({ name: "fluxhive-runner", version: "0.0.0", type: "module" }) + "\n");
 
-  const config = await loadRunnerConfig();
+  let config = await loadRunnerConfig(overrides);
+  minLogLevel = config.logLevel;
   log("info", "runner.start", {
     fluxHost: config.fluxHost,
     fluxOrgId: config.fluxOrgId,
     skillManifestUrl: config.skillManifestUrl,
     runnerType: config.runnerType,
     runnerVersion: config.runnerVersion,
+    configFile: config.runnerConfigFile ?? null,
   });
 
   const fluxClient = new FluxMcpClient({
@@ -82,8 +360,7 @@ async function runDaemon() {
     serverVersion: whoami.server?.version,
   });
 
-  const backend = process.env.FLUX_BACKEND?.trim() || undefined;
-  const normalizedBackendFilter = normalizeExecutionBackend(backend);
+  const backend = config.backend;
   const handshake = await fluxClient.handshake({
     runnerType: config.runnerType,
     runnerVersion: config.runnerVersion,
@@ -106,107 +383,173 @@ async function runDaemon() {
     });
   }
 
-  const allowDirectCli =
-    (process.env.FLUX_ALLOW_DIRECT_CLI?.trim() || "") === "1" ||
-    (process.env.FLUX_ALLOW_DIRECT_CLI?.trim() || "").toLowerCase() === "true";
+  let routing = buildRouting(config);
+  if (routing) {
+    log("info", "routing.enabled", { routes: routing.list() });
+  }
+  // Backend health: transitions are logged, and every change re-advertises
+  // the filters (applyBackendHealth, set up once the poll and push loops exist).
+  let applyBackendHealth: () => void = () => {};
+  const health = new BackendHealthMonitor({
+    intervalMs: config.healthCheckSeconds * 1000,
+    onTransition: (state) => {
+      log(state.healthy ? "info" : "warn", state.healthy ? "backend.healthy" : "backend.unhealthy", {
+        backend: state.backend,
+        reason: state.reason,
+        since: state.since,
+      });
+    },
+    onChange: () => applyBackendHealth(),
+  });
+  let registered = await registerBackends(config, routing, health);
 
-  const executionBackends: RunnerExecutionBackend[] = [];
+  const workspaces = new WorkspaceManager({
+    rootDir: config.workspaceDir,
+    retention: config.workspaceRetention,
+    maxAgeHours: config.workspaceMaxAgeHours,
+  });
+  const pruned = await workspaces.prune();
+  log("info", "workspaces.ready", {
+    rootDir: workspaces.getRootDir(),
+    retention: config.workspaceRetention,
+    pruned: pruned.length,
+  });
 
-  const openclawCompatibleFilter =
-    !normalizedBackendFilter ||
-    normalizedBackendFilter === "openclaw" ||
-    normalizedBackendFilter === "claude-cli" ||
-    normalizedBackendFilter === "codex-cli";
-  let openclawClient: OpenClawClient | null = null;
-  const openclawGatewayUrl = config.openclawGatewayUrl?.trim() || "";
-  const openclawEnabled = openclawGatewayUrl.length > 0;
-  if (openclawEnabled && openclawCompatibleFilter) {
-    openclawClient = new OpenClawClient({
-      gatewayUrl: openclawGatewayUrl,
-      token: config.openclawGatewayToken,
-      password: config.openclawGatewayPassword,
-      defaultAgentId: config.openclawAgentId,
-      clientName: "fluxhive-runner",
-      clientVersion: config.runnerVersion,
-      instanceId: config.runnerInstanceId,
-    });
-    const pingOk = await openclawClient.ping();
-    if (!pingOk) {
-      log("warn", "openclaw.disabled", {
-        reason: "gateway_ping_failed",
-        gatewayUrl: openclawGatewayUrl,
-      });
-      try { openclawClient.close(); } catch { /* ignore */ }
-      openclawClient = null;
-    } else {
-      executionBackends.push(
-        new OpenClawExecutionBackend({
-          client: openclawClient,
-          orgId: config.fluxOrgId,
-          openclawAgentId: config.openclawAgentId,
-        }),
-      );
-      log("info", "openclaw.connected", {
-        gatewayUrl: openclawGatewayUrl,
-        openclawAgentId: config.openclawAgentId || "default",
-      });
-    }
+  // Sessions left behind by a crash or restart are completed before we claim new work.
+  const journal = new TaskJournal();
+  const reconciled = await reconcileTaskJournal(journal, fluxClient);
+  for (const outcome of reconciled) {
+    log(outcome.action === "kept" ? "warn" : "info", "journal.reconciled", { ...outcome });
   }
+  log("info", "journal.ready", { dir: journal.getDir(), reconciled: reconciled.length });
 
-  const piCompatibleFilter = !normalizedBackendFilter || normalizedBackendFilter === "pi";
-  if (piCompatibleFilter) {
-    const piBackend = new PiExecutionBackend();
-    const preflight = await piBackend.preflight();
-    if (preflight.ok) {
-      executionBackends.push(piBackend);
-      log("info", "pi.ready", {
-        agentDir: piBackend.getAgentDir(),
-      });
-    } else if (normalizedBackendFilter === "pi") {
-      throw new Error(`PI preflight failed: ${preflight.reason}`);
-    } else {
-      log("warn", "pi.disabled", {
-        reason: preflight.reason,
+  // Completions that couldn't be delivered earlier are retried at startup, on
+  // every push reconnect, and once a minute.
+  const outbox = new CompletionOutbox();
+  const flushOutbox = async (trigger: string) => {
+    try {
+      const outcomes = await outbox.flush(fluxClient);
+      for (const outcome of outcomes) {
+        log(outcome.action === "delivered" ? "info" : "warn", "outbox.flush", { trigger, ...outcome });
+      }
+    } catch (err) {
+      log("warn", "outbox.flush.error", {
+        trigger,
+        error: err instanceof Error ? err.message : String(err),
       });
     }
-  }
+  };
+  await flushOutbox("startup");
 
-  const claudeCompatibleFilter = !normalizedBackendFilter || normalizedBackendFilter === "claude-cli";
-  if (claudeCompatibleFilter) {
-    if (openclawEnabled && !allowDirectCli) {
-      log("warn", "claude_cli.disabled", {
-        reason: "openclaw_present",
-        hint: "Set FLUX_ALLOW_DIRECT_CLI=1 to enable direct CLI execution.",
+  // Usage is charged after every execution; exhausted budgets stop matching claims.
+  const budgetFields = (status: BudgetStatus) => ({
+    budget: status.name,
+    period: status.period,
+    match: status.match,
+    tokensUsed: status.tokensUsed,
+    maxTokens: status.maxTokens,
+    costUsd: Number(status.costUsd.toFixed(6)),
+    maxCostUsd: status.maxCostUsd,
+    resetsAt: status.resetsAt,
+  });
+  const budget = new BudgetTracker({
+    budgets: config.budgets,
+    onExhausted: (status) => {
+      log("warn", "budget.exhausted", { ...budgetFields(status), escalate: status.escalate });
+    },
+    onPersistError: (error) => {
+      log("warn", "budget.persist.error", {
+        error: error instanceof Error ? error.message : String(error),
       });
-    } else if (allowDirectCli) {
-      executionBackends.push(new ClaudeCliExecutionBackend());
-      log("info", "claude_cli.enabled");
+    },
+  });
+  if (budget.size > 0) {
+    log("info", "budgets.ready", { file: budget.getFilePath(), budgets: budget.size });
+  }
+  for (const status of budget.status()) {
+    if (status.exhausted) {
+      log("warn", "budget.exhausted", { ...budgetFields(status), atStartup: true });
     }
   }
 
-  if (executionBackends.length === 0) {
-    throw new Error(
-      `No execution backend registered for FLUX_BACKEND=${normalizedBackendFilter ?? "(unset)"}.`,
-    );
+  const metrics = config.metricsPort !== undefined ? createRunnerMetrics() : undefined;
+
+  // Without a collector endpoint, OTLP tracing falls back to the JSONL file.
+  let spanExporter: SpanExporter | undefined;
+  if (config.tracing === "otlp" && config.otlpEndpoint) {
+    spanExporter = new OtlpHttpExporter({ endpoint: config.otlpEndpoint, headers: config.otlpHeaders });
+  } else if (config.tracing === "otlp" || config.tracing === "file") {
+    if (config.tracing === "otlp") {
+      log("warn", "tracing.otlp.no_endpoint", { fallback: config.tracesFile });
+    }
+    spanExporter = new JsonLinesSpanExporter({ filePath: config.tracesFile });
+  } else if (config.tracing === "stdout") {
+    spanExporter = new JsonLinesSpanExporter();
+  }
+  const tracer = new Tracer({
+    serviceName: "fluxhive-runner",
+    serviceVersion: config.runnerVersion,
+    resourceAttributes: {
+      "service.instance.id": config.runnerInstanceId,
+      "host.name": config.machineId,
+      "runner.type": config.runnerType,
+    },
+    exporter: spanExporter,
+    onExportError: (error) => {
+      log("warn", "tracing.export.error", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    },
+  });
+  if (tracer.enabled) {
+    log("info", "tracing.enabled", {
+      mode: config.tracing,
+      endpoint: spanExporter instanceof OtlpHttpExporter ? config.otlpEndpoint : undefined,
+    });
   }
 
   const executor = new TaskExecutor({
     fluxClient,
-    executionBackends,
+    executionBackends: health.healthy(registered.backends),
     runnerType: config.runnerType,
     runnerVersion: config.runnerVersion,
     runnerInstanceId: config.runnerInstanceId,
     machineId: config.machineId,
     backend,
-    heartbeatMs: 30_000,
+    heartbeatMs: config.heartbeatSeconds * 1000,
+    outputRepairAttempts: config.outputRepairAttempts,
+    retry: { maxAttempts: config.executionMaxAttempts },
+    fallbackChain: config.backendFallbackChain,
+    workspaces,
+    journal,
+    outbox,
+    metrics,
+    tracer,
+    routing,
+    budget,
   });
 
+  // Work is only advertised for backends a healthy backend (or its fallback) can run.
+  const isBackendAvailable = (name: string) =>
+    executor.supportsBackend(normalizeExecutionBackend(name) ?? name);
+
+  // The server's batch size also bounds how many tasks we run at once.
+  const listLimit = Math.max(1, handshake.config?.maxBatchSize ?? 10);
   const cadence = new CadenceLoop({
     client: fluxClient,
     executor,
     intervalMs: config.cadenceMinutes * 60_000,
-    listLimit: Math.max(1, handshake.config?.maxBatchSize ?? 10),
+    listLimit,
     backend,
+    streamId: config.streamId,
+    costClass: config.costClass,
+    routing,
+    maxConcurrency: Math.min(config.maxConcurrency ?? 1, listLimit),
+    backendConcurrency: config.backendConcurrency,
+    budget,
+    isBackendAvailable: (name, packet) => executor.supportsBackend(name, packet),
+    defaultModel: (name) => executor.defaultModel(name),
+    metrics,
     onError: (error) => {
       log("error", "cadence.tick.error", {
         error: error instanceof Error ? error.message : String(error),
@@ -217,6 +560,7 @@ async function runDaemon() {
   const pushWsUrl = normalizeWsUrl(handshake.config?.push?.wsUrl || config.skillManifestFrontmatter.mcpPushWs);
   const pushMode = handshake.config?.push?.mode;
   let pushClient: FluxPushClient | null = null;
+  let pushConnected = false;
   if (pushMode !== "polling" && pushWsUrl) {
     pushClient = new FluxPushClient({
       wsUrl: pushWsUrl,
@@ -226,20 +570,31 @@ async function runDaemon() {
       runnerVersion: config.runnerVersion,
       runnerInstanceId: config.runnerInstanceId,
       machineId: config.machineId,
-      backend,
+      ...pushFilters(config, routing, isBackendAvailable),
     });
     pushClient.on("connected", () => {
+      pushConnected = true;
       log("info", "push.connected", { wsUrl: pushWsUrl });
+      void flushOutbox("push_connected");
     });
     pushClient.on("disconnected", () => {
+      pushConnected = false;
       log("warn", "push.disconnected");
     });
+    pushClient.on("reconnecting", (info: { attempt: number; delayMs: number }) => {
+      metrics?.pushReconnects.inc();
+      log("info", "push.reconnecting", info);
+    });
     pushClient.on("error", (error) => {
       log("warn", "push.error", {
         error: error instanceof Error ? error.message : String(error),
       });
     });
-    pushClient.on("task.available", () => {
+    pushClient.on("task.available", (event: TaskFilter) => {
+      // The ticket filter can be broader than the routes; skip events no route takes.
+      if (routing && !routing.matchesEvent(event, isBackendAvailable)) return;
+      if (event.backend && !isBackendAvailable(event.backend)) return;
+      if (budget.exhausted({ backend: event.backend ?? config.backend, streamId: event.streamId })) return;
       cadence.triggerNow();
     });
     await pushClient.start();
@@ -249,6 +604,29 @@ async function runDaemon() {
     });
   }
 
+  // Health changes swap the executor's backends, re-mint the push ticket when
+  // the advertised filters change, and poll right away once a backend is back.
+  let advertisedPushFilters = pushFilters(config, routing, isBackendAvailable);
+  const refreshPushFilters = async () => {
+    const next = pushFilters(config, routing, isBackendAvailable);
+    if (!pushClient || isDeepStrictEqual(next, advertisedPushFilters)) return;
+    advertisedPushFilters = next;
+    await pushClient.updateFilters(next);
+    log("info", "push.filters.updated", { ...next });
+  };
+  applyBackendHealth = () => {
+    if (shuttingDown) return;
+    executor.reconfigure({ executionBackends: health.healthy(registered.backends) });
+    void refreshPushFilters().catch((err) => {
+      log("warn", "push.filters.error", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    });
+    cadence.triggerNow();
+  };
+  health.setBackends(registered.backends);
+  health.start();
+
   // Save initial SKILL.md to ~/.flux/SKILL.md
   const skillMdDir = join(homedir(), ".flux");
   const skillMdPath = join(skillMdDir, "SKILL.md");
@@ -264,10 +642,231 @@ async function runDaemon() {
   }
 
   cadence.start();
+  let maxConcurrency = Math.min(config.maxConcurrency ?? 1, listLimit);
   log("info", "runner.ready", {
     cadenceMinutes: config.cadenceMinutes,
+    maxConcurrency,
   });
 
+  // Local control API, queried by `fluxhive runner status`.
+  const startedAt = Date.now();
+  let shuttingDown = false;
+  let draining = false;
+  const runnerStatus = (): RunnerStatus => {
+    const now = Date.now();
+    const stats = cadence.getStats();
+    return {
+      pid: process.pid,
+      version: config.runnerVersion,
+      runnerInstanceId: config.runnerInstanceId,
+      startedAt: new Date(startedAt).toISOString(),
+      uptimeMs: now - startedAt,
+      state: shuttingDown || draining ? "draining" : cadence.isPaused ? "paused" : "running",
+      backends: health.healthy(registered.backends).map((b) => b.id),
+      unhealthyBackends: health
+        .status()
+        .filter((state) => !state.healthy)
+        .map(({ backend, reason, since }) => ({ backend, reason, since })),
+      push: { enabled: pushClient !== null, connected: pushConnected },
+      maxConcurrency,
+      inFlight: cadence.listInFlight().map((task) => ({
+        taskId: task.taskId,
+        backend: task.backend,
+        startedAt: new Date(task.startedAt).toISOString(),
+        elapsedMs: now - task.startedAt,
+      })),
+      lastPollAt: stats.lastPollAt ? new Date(stats.lastPollAt).toISOString() : null,
+      counters: {
+        polls: stats.polls,
+        pollErrors: stats.pollErrors,
+        dispatched: stats.dispatched,
+        finished: stats.finished,
+        taskErrors: stats.taskErrors,
+        budgetSkipped: stats.budgetSkipped,
+        unavailableSkipped: stats.unavailableSkipped,
+        ...executor.getCompletionCounts(),
+      },
+    };
+  };
+  const controlServer = new ControlServer({
+    defaultDrainTimeoutMs: config.shutdownGraceSeconds * 1000,
+    handlers: {
+      status: runnerStatus,
+      pause: () => {
+        cadence.pause();
+        log("info", "control.pause");
+      },
+      resume: () => {
+        if (shuttingDown) return;
+        cadence.resume();
+        log("info", "control.resume");
+      },
+      drain: async (timeoutMs) => {
+        cadence.pause();
+        draining = true;
+        log("info", "control.drain.start", { inFlight: cadence.activeCount, timeoutMs });
+        try {
+          const idle = await cadence.waitForIdle(timeoutMs);
+          log(idle ? "info" : "warn", "control.drain.done", { idle, inFlight: cadence.activeCount });
+          return idle;
+        } finally {
+          draining = false;
+        }
+      },
+      poll: () => {
+        if (shuttingDown || cadence.isPaused) return false;
+        cadence.triggerNow();
+        return true;
+      },
+    },
+  });
+  try {
+    await controlServer.start();
+    log("info", "control.listening", { socketPath: controlServer.getSocketPath() });
+  } catch (err) {
+    log("warn", "control.start.error", {
+      socketPath: controlServer.getSocketPath(),
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+
+  let metricsServer: MetricsServer | null = null;
+  if (metrics && config.metricsPort !== undefined) {
+    metrics.registry.gauge({
+      name: "fluxhive_runner_in_flight_tasks",
+      help: "Tasks currently executing.",
+      collect: () => cadence.activeCount,
+    });
+    metricsServer = new MetricsServer({
+      registry: metrics.registry,
+      port: config.metricsPort,
+      host: config.metricsHost,
+    });
+    try {
+      const port = await metricsServer.start();
+      log("info", "metrics.listening", { host: config.metricsHost, port });
+    } catch (err) {
+      metricsServer = null;
+      log("warn", "metrics.start.error", {
+        port: config.metricsPort,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  // Config reload (SIGHUP or a changed config file): re-run backend preflight,
+  // swap backends, filters, and limits, and re-mint the push ticket. Running
+  // tasks keep the backend they started on; a replaced OpenClaw connection is
+  // closed once its last task finishes.
+  const retireOpenclaw = (previous: RegisteredBackends) => {
+    const client = previous.openclawClient;
+    if (!client || client === registered.openclawClient) return;
+    const previousBackend = previous.backends.find((b) => b.id === "openclaw");
+    void (previousBackend ? executor.whenBackendIdle(previousBackend) : Promise.resolve()).then(() => {
+      try { client.close(); } catch { /* ignore */ }
+      log("info", "openclaw.retired");
+    });
+  };
+
+  const applyReload = async (trigger: string, files?: string[]) => {
+    let next: RunnerConfig;
+    try {
+      next = await loadRunnerConfig(overrides);
+    } catch (err) {
+      log("error", "config.reload.error", {
+        trigger,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return;
+    }
+    // Identity stays fixed for the life of the process (the instance ID may be random).
+    next = {
+      ...next,
+      runnerType: config.runnerType,
+      runnerVersion: config.runnerVersion,
+      runnerInstanceId: config.runnerInstanceId,
+      machineId: config.machineId,
+    };
+    const restartRequired = RESTART_REQUIRED_KEYS.filter((key) => !isDeepStrictEqual(next[key], config[key]));
+    if (restartRequired.length > 0) {
+      log("warn", "config.reload.restart_required", { trigger, keys: restartRequired });
+    }
+
+    const nextRouting = buildRouting(next);
+    let nextRegistered: RegisteredBackends;
+    try {
+      nextRegistered = await registerBackends(next, nextRouting, health, registered);
+    } catch (err) {
+      log("error", "config.reload.error", {
+        trigger,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return;
+    }
+    if (shuttingDown) return;
+
+    const previousRegistered = registered;
+    const changed = RELOADABLE_KEYS.filter((key) => !isDeepStrictEqual(next[key], config[key]));
+    config = next;
+    routing = nextRouting;
+    registered = nextRegistered;
+    minLogLevel = config.logLevel;
+    budget.setRules(config.budgets);
+    maxConcurrency = Math.min(config.maxConcurrency ?? 1, listLimit);
+    retireOpenclaw(previousRegistered);
+    health.setBackends(registered.backends);
+    health.reconfigure({ intervalMs: config.healthCheckSeconds * 1000 });
+    executor.reconfigure({
+      executionBackends: health.healthy(registered.backends),
+      backend: config.backend,
+      heartbeatMs: config.heartbeatSeconds * 1000,
+      outputRepairAttempts: config.outputRepairAttempts,
+      retry: { maxAttempts: config.executionMaxAttempts },
+      fallbackChain: config.backendFallbackChain,
+      routing,
+    });
+    cadence.reconfigure({
+      intervalMs: config.cadenceMinutes * 60_000,
+      backend: config.backend,
+      streamId: config.streamId,
+      costClass: config.costClass,
+      routing,
+      maxConcurrency,
+      backendConcurrency: config.backendConcurrency,
+    });
+    await refreshPushFilters();
+    log("info", "config.reloaded", {
+      trigger,
+      files,
+      changed,
+      backends: health.healthy(registered.backends).map((b) => b.id),
+      routes: routing?.size ?? 0,
+    });
+  };
+
+  // Reloads run one at a time, in the order they were requested.
+  let reloadQueue: Promise<void> = Promise.resolve();
+  const reload = (trigger: string, files?: string[]) => {
+    reloadQueue = reloadQueue.then(() => (shuttingDown ? undefined : applyReload(trigger, files)));
+    return reloadQueue;
+  };
+
+  const configSources = runnerConfigSources(overrides);
+  const configWatcher = new ConfigWatcher({
+    paths: configSources,
+    onChange: (changedFiles) => {
+      void reload("file_change", changedFiles);
+    },
+    onError: (error, dir) => {
+      log("warn", "config.watch.error", {
+        dir,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    },
+  });
+  configWatcher.start();
+  log("info", "config.watching", { files: configSources });
+
   // Periodically check for SKILL.md updates on each cadence cycle
   const skillCheckTimer = setInterval(async () => {
     try {
@@ -278,6 +877,7 @@ async function runDaemon() {
         lastSkillUpdatedAt = newUpdatedAt;
         log("info", "skill.updated", { path: skillMdPath, updatedAt: newUpdatedAt });
         // Notify the agent via OpenClaw if connected
+        const openclawClient = registered.openclawClient;
         if (openclawClient) {
           try {
             await openclawClient.execute({
@@ -298,19 +898,78 @@ async function runDaemon() {
     }
   }, config.cadenceMinutes * 60_000);
 
+  // Retained workspaces are pruned hourly, not just at startup.
+  const workspacePruneTimer = setInterval(async () => {
+    try {
+      const removed = await workspaces.prune();
+      if (removed.length > 0) {
+        log("info", "workspaces.pruned", { count: removed.length });
+      }
+    } catch (err) {
+      log("warn", "workspaces.prune.error", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }, 3_600_000);
+
+  const outboxFlushTimer = setInterval(() => {
+    void flushOutbox("interval");
+  }, 60_000);
+
+  // Shutdown drains instead of abandoning work: stop claiming, give in-flight
+  // tasks the grace period to finish, then abort the rest (reported as
+  // cancelled) and wait briefly for those completions to go out.
   const shutdown = async (signal: string) => {
-    log("info", "runner.shutdown", { signal });
+    log("info", "runner.shutdown", { signal, inFlight: cadence.activeCount });
     clearInterval(skillCheckTimer);
+    clearInterval(workspacePruneTimer);
+    clearInterval(outboxFlushTimer);
+    health.stop();
+    configWatcher.stop();
     cadence.stop();
     pushClient?.stop();
-    openclawClient?.close();
+    if (cadence.activeCount > 0) {
+      log("info", "runner.drain.start", {
+        inFlight: cadence.activeCount,
+        graceSeconds: config.shutdownGraceSeconds,
+      });
+      const drained = await cadence.waitForIdle(config.shutdownGraceSeconds * 1000);
+      if (!drained) {
+        const aborted = executor.abortAll("Runner shutting down");
+        log("warn", "runner.drain.timeout", { aborted });
+        const settled = await cadence.waitForIdle(SHUTDOWN_ABORT_SETTLE_MS);
+        if (!settled) {
+          log("warn", "runner.drain.abandoned", { inFlight: cadence.activeCount });
+        }
+      }
+      log("info", "runner.drain.done", { inFlight: cadence.activeCount });
+    }
+    try {
+      await fluxClient.disconnect();
+    } catch (err) {
+      log("warn", "runner.disconnect.error", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+    registered.openclawClient?.close();
+    await controlServer.stop();
+    await metricsServer?.stop();
+    await tracer.shutdown();
   };
 
-  process.once("SIGINT", () => {
-    void shutdown("SIGINT").finally(() => process.exit(0));
-  });
-  process.once("SIGTERM", () => {
-    void shutdown("SIGTERM").finally(() => process.exit(0));
+  // A second signal skips the drain.
+  const onSignal = (signal: string) => {
+    if (shuttingDown) {
+      log("warn", "runner.shutdown.forced", { signal });
+      process.exit(1);
+    }
+    shuttingDown = true;
+    void shutdown(signal).finally(() => process.exit(0));
+  };
+  process.on("SIGINT", () => onSignal("SIGINT"));
+  process.on("SIGTERM", () => onSignal("SIGTERM"));
+  process.on("SIGHUP", () => {
+    void reload("SIGHUP");
   });
 
   // Keep process alive while interval/push loops run.
@@ -319,13 +978,37 @@ async function runDaemon() {
   });
 }
 
+/** Parses a numeric flag; unset or non-numeric means "not given". */
+function parseNumberFlag(raw: string | undefined): number | undefined {
+  if (raw === undefined) return undefined;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : undefined;
+}
+
 export function registerDaemonCommand(program: Command): void {
   program
     .command("daemon")
     .description("Start the runner daemon (requires FLUX_TOKEN + FLUX_HOST env vars)")
-    .action(async () => {
+    .option("--config <path>", "Runner config file (default: FLUX_RUNNER_CONFIG or ~/.flux/runner.yaml)")
+    .option("--backend <name>", "Only run tasks for this backend (overrides FLUX_BACKEND)")
+    .option("--max-concurrency <n>", "Tasks to run at once (overrides FLUX_MAX_CONCURRENCY)")
+    .option("--cadence-minutes <n>", "Poll interval in minutes (overrides FLUX_CADENCE_MINUTES)")
+    .option("--log-level <level>", "Minimum log level: info, warn, or error (overrides FLUX_LOG_LEVEL)")
+    .action(async (opts: {
+      config?: string;
+      backend?: string;
+      maxConcurrency?: string;
+      cadenceMinutes?: string;
+      logLevel?: string;
+    }) => {
       try {
-        await runDaemon();
+        await runDaemon({
+          configPath: opts.config,
+          backend: opts.backend,
+          maxConcurrency: parseNumberFlag(opts.maxConcurrency),
+          cadenceMinutes: parseNumberFlag(opts.cadenceMinutes),
+          logLevel: opts.logLevel,
+        });
       } catch (error) {
         const line = {
           ts: new Date().toISOString(),
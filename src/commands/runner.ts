@@ -2,11 +2,89 @@
  * Runner service management commands: install, status, stop, restart, uninstall.
  *
  * Real implementation wrapping handleServiceCommand from runner/service.ts.
+ * `status` also queries the running daemon's control socket, and
+ * pause/resume/drain/poll are sent to it directly. `config validate` checks
+ * ~/.flux/runner.yaml without starting anything.
  */
 import type { Command } from "commander";
+import { readFileSync } from "node:fs";
 import { handleServiceCommand } from "../runner/service.js";
+import {
+  formatRunnerFileIssue,
+  parseRunnerFile,
+  resolveRunnerFilePath,
+} from "../runner/runner_file.js";
+import {
+  ControlUnavailableError,
+  requestControl,
+  type DrainResponse,
+  type RunnerStatus,
+} from "../runner/control.js";
 import * as out from "../output.js";
 
+function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function printRunnerStatus(status: RunnerStatus): void {
+  const state =
+    status.state === "running" ? out.green(status.state) : out.yellow(status.state);
+  console.log(out.bold("Daemon"));
+  out.keyValue([
+    ["State", state],
+    ["PID", String(status.pid)],
+    ["Version", status.version],
+    ["Uptime", formatDuration(status.uptimeMs)],
+    ["Backends", status.backends.join(", ") || undefined],
+    [
+      "Unhealthy",
+      status.unhealthyBackends?.length
+        ? status.unhealthyBackends
+            .map((state) => out.yellow(state.reason ? `${state.backend} (${state.reason})` : state.backend))
+            .join(", ")
+        : undefined,
+    ],
+    [
+      "Push",
+      status.push.enabled ? (status.push.connected ? "connected" : "disconnected") : "disabled",
+    ],
+    ["Last poll", status.lastPollAt ?? undefined],
+    ["In flight", `${status.inFlight.length}/${status.maxConcurrency}`],
+    [
+      "Counters",
+      Object.entries(status.counters)
+        .map(([key, value]) => `${key}=${value}`)
+        .join(" "),
+    ],
+  ]);
+  if (status.inFlight.length > 0) {
+    console.log();
+    out.table(
+      ["Task", "Backend", "Elapsed"],
+      status.inFlight.map((task) => [task.taskId, task.backend, formatDuration(task.elapsedMs)]),
+    );
+  }
+  console.log();
+}
+
+/** Sends a control command and prints the resulting daemon status. */
+async function runControlCommand(
+  endpoint: "/pause" | "/resume",
+  json: boolean,
+): Promise<void> {
+  try {
+    const status = await requestControl<RunnerStatus>("POST", endpoint);
+    if (json) out.json(status);
+    else printRunnerStatus(status);
+  } catch (err) {
+    out.error(err instanceof Error ? err.message : String(err));
+  }
+}
+
 export function registerRunnerCommands(program: Command): void {
   const runner = program
     .command("runner")
@@ -27,8 +105,24 @@ export function registerRunnerCommands(program: Command): void {
 
   runner
     .command("status")
-    .description("Show the runner service status")
-    .action(async () => {
+    .description("Show the runner service status and live daemon state")
+    .action(async (_opts, cmd) => {
+      const globalOpts = cmd.optsWithGlobals();
+      try {
+        const status = await requestControl<RunnerStatus>("GET", "/status", { timeoutMs: 2_000 });
+        if (globalOpts.json) {
+          out.json(status);
+          return;
+        }
+        printRunnerStatus(status);
+      } catch (err) {
+        if (globalOpts.json) {
+          out.error(err instanceof Error ? err.message : String(err));
+        }
+        if (!(err instanceof ControlUnavailableError)) {
+          console.log(`Daemon status unavailable: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
       try {
         handleServiceCommand("status");
       } catch (err) {
@@ -61,6 +155,98 @@ export function registerRunnerCommands(program: Command): void {
       }
     });
 
+  runner
+    .command("pause")
+    .description("Stop claiming new tasks (in-flight tasks keep running)")
+    .action(async (_opts, cmd) => {
+      await runControlCommand("/pause", Boolean(cmd.optsWithGlobals().json));
+    });
+
+  runner
+    .command("resume")
+    .description("Resume claiming tasks after pause or drain")
+    .action(async (_opts, cmd) => {
+      await runControlCommand("/resume", Boolean(cmd.optsWithGlobals().json));
+    });
+
+  runner
+    .command("drain")
+    .description("Stop claiming and wait for in-flight tasks to finish")
+    .option("--timeout <seconds>", "Give up waiting after this many seconds", "600")
+    .action(async (opts: { timeout: string }, cmd) => {
+      const timeoutSeconds = Math.max(0, Number.parseInt(opts.timeout, 10) || 0);
+      try {
+        const res = await requestControl<DrainResponse>("POST", "/drain", {
+          body: { timeoutSeconds },
+          timeoutMs: timeoutSeconds * 1000 + 5_000,
+        });
+        if (cmd.optsWithGlobals().json) {
+          out.json(res);
+          return;
+        }
+        printRunnerStatus(res.status);
+        console.log(
+          res.idle
+            ? out.green("Drained. Run `fluxhive runner resume` to start claiming again.")
+            : out.yellow(`${res.status.inFlight.length} task(s) still running after ${timeoutSeconds}s.`),
+        );
+      } catch (err) {
+        out.error(err instanceof Error ? err.message : String(err));
+      }
+    });
+
+  runner
+    .command("poll")
+    .description("Trigger an immediate poll for available tasks")
+    .action(async (_opts, cmd) => {
+      try {
+        const res = await requestControl<{ triggered: boolean }>("POST", "/poll");
+        if (cmd.optsWithGlobals().json) {
+          out.json(res);
+          return;
+        }
+        console.log(res.triggered ? "Poll triggered." : out.yellow("Runner is paused; poll skipped."));
+      } catch (err) {
+        out.error(err instanceof Error ? err.message : String(err));
+      }
+    });
+
+  const config = runner
+    .command("config")
+    .description("Work with the runner config file (~/.flux/runner.yaml)");
+
+  config
+    .command("validate")
+    .description("Check the runner config file and report problems with line numbers")
+    .option("--file <path>", "Config file to check (default: FLUX_RUNNER_CONFIG or ~/.flux/runner.yaml)")
+    .action(async (opts: { file?: string }, cmd) => {
+      const filePath = resolveRunnerFilePath(opts.file);
+      let text: string;
+      try {
+        text = readFileSync(filePath, "utf8");
+      } catch (err) {
+        out.error(
+          (err as NodeJS.ErrnoException).code === "ENOENT"
+            ? `No runner config at ${filePath}`
+            : err instanceof Error ? err.message : String(err),
+        );
+      }
+      const { issues } = parseRunnerFile(text);
+      if (cmd.optsWithGlobals().json) {
+        out.json({ file: filePath, valid: issues.length === 0, issues });
+        if (issues.length > 0) process.exitCode = 1;
+        return;
+      }
+      if (issues.length === 0) {
+        console.log(out.green(`${filePath} is valid.`));
+        return;
+      }
+      for (const issue of issues) {
+        console.error(`  ${formatRunnerFileIssue(issue)}`);
+      }
+      out.error(`${issues.length} problem(s) in ${filePath}`);
+    });
+
   runner
     .command("uninstall")
     .description("Uninstall the runner service")
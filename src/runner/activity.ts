@@ -0,0 +1,128 @@
+/**
+ * Per-task activity log.
+ *
+ * Backends that stream agent events (OpenClaw) record them here so the
+ * runner can report what the agent did, not just what it answered:
+ *   - Entries are tool calls, thinking and text blocks, lifecycle changes,
+ *     and errors, each stamped with its offset from the start of the task
+ *   - Consecutive text or thinking events are one block, so streamed deltas
+ *     don't flood the log
+ *   - Only the most recent `maxEntries` entries are kept; counts cover
+ *     everything recorded
+ *   - `summary()` is a one-line digest for heartbeat progress, and
+ *     `report()` is the structured form attached to the completion's
+ *     usageJson as `activity`
+ */
+
+export type ActivityKind = "tool" | "thinking" | "text" | "lifecycle" | "error";
+
+export type ActivityEntry = {
+  /** Milliseconds since the log was created. */
+  offsetMs: number;
+  kind: ActivityKind;
+  /** Tool name or lifecycle phase. */
+  name?: string;
+  /** Short detail, e.g. a tool's arguments or an error message. */
+  detail?: string;
+};
+
+/** What `report()` returns; serialized into usageJson. */
+export type ActivityReport = {
+  counts: Partial<Record<ActivityKind, number>>;
+  /** Calls per tool name. */
+  tools: Record<string, number>;
+  entries: ActivityEntry[];
+  /** Entries recorded but no longer kept. */
+  dropped?: number;
+};
+
+export type ActivityLogOptions = {
+  /** Entries kept. Defaults to 50. */
+  maxEntries?: number;
+  now?: () => number;
+};
+
+const DEFAULT_MAX_ENTRIES = 50;
+const DETAIL_MAX_CHARS = 200;
+/** Tools named in the summary; the rest are only counted. */
+const SUMMARY_MAX_TOOLS = 5;
+
+function truncateDetail(detail: string): string {
+  const flat = detail.replace(/\s+/g, " ").trim();
+  return flat.length <= DETAIL_MAX_CHARS ? flat : `${flat.slice(0, DETAIL_MAX_CHARS - 1)}…`;
+}
+
+export class ActivityLog {
+  private readonly opts: ActivityLogOptions;
+  private readonly now: () => number;
+  private readonly startedAt: number;
+  private readonly entries: ActivityEntry[] = [];
+  private readonly counts: Partial<Record<ActivityKind, number>> = {};
+  private readonly tools = new Map<string, number>();
+  private recorded = 0;
+  private lastKind: ActivityKind | null = null;
+
+  constructor(opts: ActivityLogOptions = {}) {
+    this.opts = opts;
+    this.now = opts.now ?? Date.now;
+    this.startedAt = this.now();
+  }
+
+  /** Entries recorded so far, including dropped ones. */
+  get size(): number {
+    return this.recorded;
+  }
+
+  /** Records an entry; a text or thinking event continuing the current block is ignored. */
+  record(entry: Omit<ActivityEntry, "offsetMs">): void {
+    const streaming = entry.kind === "text" || entry.kind === "thinking";
+    if (streaming && this.lastKind === entry.kind) return;
+    this.lastKind = entry.kind;
+    this.recorded += 1;
+    this.counts[entry.kind] = (this.counts[entry.kind] ?? 0) + 1;
+    if (entry.kind === "tool" && entry.name) {
+      this.tools.set(entry.name, (this.tools.get(entry.name) ?? 0) + 1);
+    }
+    this.entries.push({
+      offsetMs: Math.max(0, this.now() - this.startedAt),
+      kind: entry.kind,
+      ...(entry.name ? { name: entry.name } : {}),
+      ...(entry.detail ? { detail: truncateDetail(entry.detail) } : {}),
+    });
+    const maxEntries = Math.max(1, this.opts.maxEntries ?? DEFAULT_MAX_ENTRIES);
+    if (this.entries.length > maxEntries) this.entries.splice(0, this.entries.length - maxEntries);
+  }
+
+  /**
+   * One line for heartbeats, e.g. `4 tool calls (bash ×3, read), 2 thinking
+   * blocks, 1 error`. Empty until a tool call, thinking block, or error is
+   * recorded.
+   */
+  summary(): string {
+    const parts: string[] = [];
+    const toolCalls = this.counts.tool ?? 0;
+    if (toolCalls > 0) {
+      const named = [...this.tools.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, SUMMARY_MAX_TOOLS)
+        .map(([name, count]) => (count > 1 ? `${name} ×${count}` : name));
+      if (this.tools.size > SUMMARY_MAX_TOOLS) named.push("…");
+      parts.push(`${toolCalls} tool call${toolCalls === 1 ? "" : "s"}${named.length > 0 ? ` (${named.join(", ")})` : ""}`);
+    }
+    const thinking = this.counts.thinking ?? 0;
+    if (thinking > 0) parts.push(`${thinking} thinking block${thinking === 1 ? "" : "s"}`);
+    const errors = this.counts.error ?? 0;
+    if (errors > 0) parts.push(`${errors} error${errors === 1 ? "" : "s"}`);
+    return parts.join(", ");
+  }
+
+  report(): ActivityReport {
+    const dropped = this.recorded - this.entries.length;
+    return {
+      counts: { ...this.counts },
+      tools: Object.fromEntries(this.tools),
+      entries: this.entries.map((entry) => ({ ...entry })),
+      ...(dropped > 0 ? { dropped } : {}),
+    };
+  }
+}
@@ -0,0 +1,300 @@
+/**
+ * Task artifacts.
+ *
+ * Files a task produces next to its text output (images, documents, diffs,
+ * reports) are returned by backends as RunnerArtifacts and reported with the
+ * task's completion as McpTaskArtifact metadata:
+ *   - fetchMediaArtifact() reads an OpenClaw payload's `mediaUrl`: http(s)
+ *     and data: URLs through fetch, file:// URLs and absolute paths from disk
+ *     when they are inside one of the allowed `localRoots`
+ *   - collectWorkspaceArtifacts() picks up the packet's declared output
+ *     files (`execution.outputFiles`) from the task workspace
+ *   - uploadArtifacts() hashes each artifact's content and uploads it with
+ *     FluxMcpClient.uploadArtifact(); the completion gets the metadata
+ *   - Reads are bounded by `maxBytes`; an artifact that can't be read or
+ *     uploaded is still reported (by URL when remote) with the error
+ */
+import { createHash } from "node:crypto";
+import { readFile, realpath, stat } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import type { McpTaskArtifact } from "../types.js";
+import { DEFAULT_ARTIFACT_MAX_BYTES, type FluxMcpClient } from "./client.js";
+import { packetOutputFiles, type RunnerArtifact, type RunnerExecutionRequest } from "./execution.js";
+
+export type FetchArtifactOptions = {
+  /** Larger media is reported without its content. Defaults to 25 MiB. */
+  maxBytes?: number;
+  /** Defaults to 30s. */
+  timeoutMs?: number;
+  /**
+   * Directories local media (file:// URLs and absolute paths) may be read
+   * from. A local file anywhere else, including through a symlink, is
+   * reported with `error`. Defaults to none.
+   */
+  localRoots?: string[];
+};
+
+const DEFAULT_MAX_BYTES = 25 * 1024 * 1024;
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+const MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".pdf": "application/pdf",
+  ".json": "application/json",
+  ".zip": "application/zip",
+  ".txt": "text/plain",
+  ".md": "text/markdown",
+  ".csv": "text/csv",
+  ".html": "text/html",
+  ".diff": "text/x-diff",
+  ".patch": "text/x-diff",
+  ".log": "text/plain",
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+  ".mp4": "video/mp4",
+};
+
+/** Guesses a mime type from a file name's extension. */
+export function mimeTypeForName(name: string): string | undefined {
+  return MIME_TYPES[path.extname(name).toLowerCase()];
+}
+
+/** Hex SHA-256 of some content. */
+export function sha256Hex(content: Uint8Array): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+function tooLarge(size: number, maxBytes: number, what = "artifact"): Error {
+  return new Error(`${what} is ${size} bytes, over the ${maxBytes}-byte limit`);
+}
+
+/** Reads a response body, giving up once it passes `maxBytes`; `what` names it in the error. */
+export async function readLimited(res: Response, maxBytes: number, what?: string): Promise<Uint8Array> {
+  const declared = Number(res.headers.get("content-length"));
+  if (Number.isFinite(declared) && declared > maxBytes) throw tooLarge(declared, maxBytes, what);
+  if (!res.body) return new Uint8Array(await res.arrayBuffer());
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = res.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge(size, maxBytes, what);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/** The last path segment of a URL or path, or undefined for data: URLs and bare hosts. */
+export function nameFromSource(source: string): string | undefined {
+  if (source.startsWith("data:")) return undefined;
+  let pathname = source;
+  try {
+    pathname = new URL(source).pathname;
+  } catch {
+    // a plain path
+  }
+  const base = path.posix.basename(decodeURIComponent(pathname));
+  return base.length > 0 ? base : undefined;
+}
+
+function extensionForMime(mimeType: string | undefined): string {
+  if (!mimeType) return "";
+  const match = Object.entries(MIME_TYPES).find(([, type]) => type === mimeType);
+  return match ? match[0] : "";
+}
+
+/** Whether `candidate` is strictly below `root` (both resolved paths). */
+export function isInsideDir(root: string, candidate: string): boolean {
+  const relative = path.relative(root, candidate);
+  return (
+    relative.length > 0 && relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative)
+  );
+}
+
+/** Whether `filePath` is inside one of `roots`, both as given and with symlinks resolved. */
+async function isInsideRoots(roots: string[], filePath: string): Promise<boolean> {
+  const resolved = path.resolve(filePath);
+  const real = await realpath(resolved);
+  for (const root of roots) {
+    const rootPath = path.resolve(root);
+    const realRoot = await realpath(rootPath).catch(() => rootPath);
+    if ((isInsideDir(rootPath, resolved) || isInsideDir(realRoot, resolved)) && isInsideDir(realRoot, real)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Reads the media at `source` into an artifact with its content. Never
+ * throws: a source that can't be read (unsupported scheme, local file
+ * outside `localRoots`, HTTP error, too large, timeout) comes back with
+ * `error` set and no content.
+ * `fallbackName` is used when the source has no file name (data: URLs); an
+ * extension is added from the mime type.
+ */
+export async function fetchMediaArtifact(
+  source: string,
+  fallbackName: string,
+  opts: FetchArtifactOptions = {},
+): Promise<RunnerArtifact> {
+  const maxBytes = opts.maxBytes ?? DEFAULT_MAX_BYTES;
+  const remote = /^https?:\/\//i.test(source);
+  const sourceName = nameFromSource(source);
+  const artifact: RunnerArtifact = {
+    name: sourceName ?? fallbackName,
+    ...(remote ? { url: source } : {}),
+  };
+  try {
+    let content: Uint8Array;
+    let mimeType: string | undefined;
+    if (remote || source.startsWith("data:")) {
+      const res = await fetch(source, { signal: AbortSignal.timeout(opts.timeoutMs ?? DEFAULT_TIMEOUT_MS) });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      content = await readLimited(res, maxBytes);
+      mimeType = res.headers.get("content-type")?.split(";")[0].trim() || undefined;
+    } else if (source.startsWith("file:") || path.isAbsolute(source)) {
+      const filePath = source.startsWith("file:") ? fileURLToPath(source) : source;
+      if (!(await isInsideRoots(opts.localRoots ?? [], filePath))) {
+        throw new Error("outside the allowed media directories");
+      }
+      const { size } = await stat(filePath);
+      if (size > maxBytes) throw tooLarge(size, maxBytes);
+      content = await readFile(filePath);
+    } else {
+      throw new Error("unsupported media URL");
+    }
+    mimeType = mimeType && mimeType !== "application/octet-stream" ? mimeType : mimeTypeForName(artifact.name);
+    if (!sourceName) artifact.name += extensionForMime(mimeType);
+    return {
+      ...artifact,
+      ...(mimeType ? { mimeType } : {}),
+      bytes: content,
+      sizeBytes: content.byteLength,
+      sha256: sha256Hex(content),
+    };
+  } catch (error) {
+    const mimeType = mimeTypeForName(artifact.name);
+    return {
+      ...artifact,
+      ...(mimeType ? { mimeType } : {}),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Collects declared output files from the task workspace as artifacts named
+ * by their relative path. Files are read at upload time. A file that is
+ * missing, not a regular file, over `maxBytes`, or outside the workspace
+ * (including through a symlink) is reported with `error`.
+ */
+export async function collectWorkspaceArtifacts(
+  workspaceDir: string | undefined,
+  outputFiles: string[],
+  opts: { maxBytes?: number } = {},
+): Promise<RunnerArtifact[]> {
+  if (outputFiles.length === 0) return [];
+  const maxBytes = opts.maxBytes ?? DEFAULT_ARTIFACT_MAX_BYTES;
+  const root = workspaceDir ? await realpath(workspaceDir).catch(() => path.resolve(workspaceDir)) : undefined;
+  return await Promise.all(
+    outputFiles.map(async (file): Promise<RunnerArtifact> => {
+      const name = path.normalize(file);
+      const mimeType = mimeTypeForName(name);
+      const artifact: RunnerArtifact = { name, ...(mimeType ? { mimeType } : {}) };
+      if (!root) return { ...artifact, error: "no workspace to collect from" };
+      try {
+        const resolved = path.resolve(root, file);
+        if (!isInsideDir(root, resolved) || !isInsideDir(root, await realpath(resolved))) {
+          return { ...artifact, error: "outside the task workspace" };
+        }
+        const info = await stat(resolved);
+        if (!info.isFile()) return { ...artifact, error: "not a regular file" };
+        if (info.size > maxBytes) return { ...artifact, error: tooLarge(info.size, maxBytes).message };
+        return { ...artifact, path: resolved, sizeBytes: info.size };
+      } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        return { ...artifact, error: code === "ENOENT" ? "not found" : error instanceof Error ? error.message : String(error) };
+      }
+    }),
+  );
+}
+
+/** The request's declared output files, collected from its workspace. */
+export async function collectOutputFiles(
+  request: Pick<RunnerExecutionRequest, "packet" | "workspaceDir">,
+): Promise<RunnerArtifact[]> {
+  return await collectWorkspaceArtifacts(request.workspaceDir, packetOutputFiles(request.packet));
+}
+
+/** An artifact's metadata for the completion, without its content. */
+function taskArtifact(artifact: RunnerArtifact): McpTaskArtifact {
+  return {
+    name: artifact.name,
+    ...(artifact.mimeType ? { mimeType: artifact.mimeType } : {}),
+    ...(artifact.sizeBytes !== undefined ? { sizeBytes: artifact.sizeBytes } : {}),
+    ...(artifact.sha256 ? { sha256: artifact.sha256 } : {}),
+    ...(artifact.url ? { url: artifact.url } : {}),
+    ...(artifact.error ? { error: artifact.error } : {}),
+  };
+}
+
+/**
+ * Uploads the artifacts that have content and returns every artifact's
+ * metadata for the completion, in order. Never throws: an artifact whose
+ * content can't be read or uploaded keeps its metadata with `error` set.
+ * Uploads run one at a time to keep memory bounded.
+ */
+export async function uploadArtifacts(
+  fluxClient: Pick<FluxMcpClient, "uploadArtifact">,
+  taskId: string,
+  sessionId: string,
+  artifacts: RunnerArtifact[],
+): Promise<McpTaskArtifact[]> {
+  const reported: McpTaskArtifact[] = [];
+  for (const artifact of artifacts) {
+    if (artifact.error || (!artifact.bytes && !artifact.path)) {
+      reported.push(taskArtifact(artifact));
+      continue;
+    }
+    let content: Uint8Array;
+    try {
+      content = artifact.bytes ?? (await readFile(artifact.path!));
+    } catch (error) {
+      reported.push(taskArtifact({ ...artifact, error: error instanceof Error ? error.message : String(error) }));
+      continue;
+    }
+    const described: RunnerArtifact = { ...artifact, sizeBytes: content.byteLength, sha256: sha256Hex(content) };
+    try {
+      const uploaded = await fluxClient.uploadArtifact(taskId, sessionId, {
+        name: artifact.name,
+        mimeType: artifact.mimeType,
+        content,
+        sha256: described.sha256!,
+      });
+      reported.push({
+        ...taskArtifact({ ...described, url: uploaded.url ?? artifact.url }),
+        artifactId: uploaded.artifactId,
+      });
+    } catch (error) {
+      reported.push(
+        taskArtifact({
+          ...described,
+          error: `upload failed: ${error instanceof Error ? error.message : String(error)}`,
+        }),
+      );
+    }
+  }
+  return reported;
+}
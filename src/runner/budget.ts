@@ -0,0 +1,318 @@
+/**
+ * Token and cost budgets.
+ *
+ * BudgetTracker accumulates the `tokensUsed` and `costUsd` every execution
+ * reports and checks them against the `budgets:` rules from runner.yaml:
+ *   - Each rule has a period (`daily` or `monthly`, in UTC), an optional
+ *     match on backend, model, and stream, and a token and/or USD limit
+ *   - Usage is stored per UTC day and (backend, model, stream) in
+ *     `~/.flux/budgets.json`, so it survives restarts and a reload that
+ *     adds or changes rules sees the usage already spent
+ *   - `exhausted()` is checked before a task is claimed, against the model
+ *     the task will run with (the backend's default when the packet names
+ *     none); tasks already running when a budget runs out still finish, so
+ *     usage can overshoot
+ *   - `record()` reports the rules a result pushed over their limit, once
+ *     per rule and period, through `onExhausted` (the daemon logs a warning)
+ *     and its return value (the executor escalates when the rule asks to)
+ */
+import { existsSync, mkdirSync, readFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { McpTaskPacket } from "../types.js";
+import { normalizeExecutionBackend } from "./execution.js";
+import { writeJsonAtomic } from "./journal.js";
+
+export type BudgetPeriod = "daily" | "monthly";
+
+export type BudgetRule = {
+  name?: string;
+  period: BudgetPeriod;
+  /** Omitted fields match anything. */
+  match?: {
+    backend?: string;
+    model?: string;
+    streamId?: string;
+  };
+  maxTokens?: number;
+  maxCostUsd?: number;
+  /** Escalate the task whose result exhausted the budget. */
+  escalate?: boolean;
+};
+
+/** What a task or result is charged to. */
+export type BudgetSubject = {
+  backend?: string;
+  model?: string;
+  streamId?: string;
+};
+
+/** A rule with its usage in the current period. */
+export type BudgetStatus = {
+  name: string;
+  period: BudgetPeriod;
+  match: BudgetSubject;
+  maxTokens?: number;
+  maxCostUsd?: number;
+  escalate: boolean;
+  tokensUsed: number;
+  costUsd: number;
+  exhausted: boolean;
+  /** Start of the next period (ISO 8601, UTC). */
+  resetsAt: string;
+};
+
+export type BudgetTrackerOptions = {
+  budgets: BudgetRule[];
+  filePath?: string;
+  now?: () => Date;
+  onExhausted?: (status: BudgetStatus) => void;
+  /** Usage is still counted in memory when the file can't be written. */
+  onPersistError?: (error: unknown) => void;
+};
+
+/** Usage charged to one (backend, model, stream) on one day. */
+type UsageBucket = {
+  backend: string;
+  model: string;
+  streamId: string;
+  tokens: number;
+  costUsd: number;
+};
+
+type BudgetUsageFile = {
+  version: 1;
+  /** Keyed by UTC day, `YYYY-MM-DD`. */
+  days: Record<string, UsageBucket[]>;
+};
+
+/** Days of usage kept on disk; enough for the current and previous month. */
+const RETAIN_DAYS = 62;
+
+type NormalizedRule = Omit<BudgetStatus, "tokensUsed" | "costUsd" | "exhausted" | "resetsAt">;
+
+function normalizeRule(rule: BudgetRule): NormalizedRule {
+  const match: BudgetSubject = {};
+  const backend = normalizeExecutionBackend(rule.match?.backend);
+  const model = rule.match?.model?.trim();
+  const streamId = rule.match?.streamId?.trim();
+  if (backend) match.backend = backend;
+  if (model) match.model = model;
+  if (streamId) match.streamId = streamId;
+  const scope = [match.backend ?? "*", match.model ?? "*", match.streamId ?? "*"].join("/");
+  return {
+    name: rule.name?.trim() || `${rule.period}:${scope}`,
+    period: rule.period,
+    match,
+    maxTokens: rule.maxTokens,
+    maxCostUsd: rule.maxCostUsd,
+    escalate: rule.escalate === true,
+  };
+}
+
+/**
+ * A rule applies only when the subject has every field the rule matches on,
+ * so a push event without a stream is never blocked by a per-stream budget.
+ */
+function ruleApplies(rule: NormalizedRule, subject: BudgetSubject): boolean {
+  return (
+    (!rule.match.backend || rule.match.backend === normalizeExecutionBackend(subject.backend)) &&
+    (!rule.match.model || rule.match.model === subject.model) &&
+    (!rule.match.streamId || rule.match.streamId === subject.streamId)
+  );
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function periodStart(period: BudgetPeriod, date: Date): string {
+  return period === "daily" ? dayKey(date) : `${dayKey(date).slice(0, 7)}-01`;
+}
+
+function nextPeriodStart(period: BudgetPeriod, date: Date): Date {
+  return period === "daily"
+    ? new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1))
+    : new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+}
+
+function isUsageFile(value: unknown): value is BudgetUsageFile {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    (value as BudgetUsageFile).version === 1 &&
+    !!(value as BudgetUsageFile).days &&
+    typeof (value as BudgetUsageFile).days === "object"
+  );
+}
+
+/**
+ * The subject a packet is charged to before it runs; `backend` is the
+ * resolved one, and `defaultModel` the model it runs with when the packet
+ * names none.
+ */
+export function packetBudgetSubject(
+  packet: McpTaskPacket,
+  backend: string | null,
+  defaultModel?: string,
+): BudgetSubject {
+  return {
+    backend: backend ?? undefined,
+    model: packet.execution?.model || defaultModel || undefined,
+    streamId: packet.task?.streamId || packet.streamId || undefined,
+  };
+}
+
+export class BudgetTracker {
+  private readonly opts: BudgetTrackerOptions;
+  private readonly filePath: string;
+  private readonly now: () => Date;
+  private rules: NormalizedRule[];
+  private usage: BudgetUsageFile;
+  /** `<rule>@<period start>` for exhaustions already reported by record(). */
+  private readonly reported = new Set<string>();
+
+  constructor(opts: BudgetTrackerOptions) {
+    this.opts = opts;
+    this.filePath = opts.filePath || path.join(os.homedir(), ".flux", "budgets.json");
+    this.now = opts.now ?? (() => new Date());
+    this.rules = opts.budgets.map(normalizeRule);
+    this.usage = this.load();
+    this.markReported();
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  get size(): number {
+    return this.rules.length;
+  }
+
+  /** Replaces the rules (on config reload); recorded usage is kept. */
+  setRules(budgets: BudgetRule[]): void {
+    this.rules = budgets.map(normalizeRule);
+    this.markReported();
+  }
+
+  /** Budgets already exhausted when loaded aren't reported again by record(). */
+  private markReported(): void {
+    const now = this.now();
+    for (const rule of this.rules) {
+      if (this.ruleStatus(rule, now).exhausted) {
+        this.reported.add(`${rule.name}@${periodStart(rule.period, now)}`);
+      }
+    }
+  }
+
+  private load(): BudgetUsageFile {
+    try {
+      if (existsSync(this.filePath)) {
+        const parsed: unknown = JSON.parse(readFileSync(this.filePath, "utf8"));
+        if (isUsageFile(parsed)) return parsed;
+      }
+    } catch {
+      // A corrupt file starts over rather than blocking the runner.
+    }
+    return { version: 1, days: {} };
+  }
+
+  private ruleStatus(rule: NormalizedRule, now: Date): BudgetStatus {
+    const from = periodStart(rule.period, now);
+    const to = dayKey(now);
+    let tokensUsed = 0;
+    let costUsd = 0;
+    for (const [day, buckets] of Object.entries(this.usage.days)) {
+      if (day < from || day > to) continue;
+      for (const bucket of buckets) {
+        if (!ruleApplies(rule, bucket)) continue;
+        tokensUsed += bucket.tokens;
+        costUsd += bucket.costUsd;
+      }
+    }
+    const exhausted =
+      (rule.maxTokens !== undefined && tokensUsed >= rule.maxTokens) ||
+      (rule.maxCostUsd !== undefined && costUsd >= rule.maxCostUsd);
+    return {
+      ...rule,
+      match: { ...rule.match },
+      tokensUsed,
+      costUsd,
+      exhausted,
+      resetsAt: nextPeriodStart(rule.period, now).toISOString(),
+    };
+  }
+
+  /** Every rule with its usage in the current period. */
+  status(): BudgetStatus[] {
+    const now = this.now();
+    return this.rules.map((rule) => this.ruleStatus(rule, now));
+  }
+
+  /** The first exhausted budget that applies to the subject, or null if it may run. */
+  exhausted(subject: BudgetSubject): BudgetStatus | null {
+    const now = this.now();
+    for (const rule of this.rules) {
+      if (!ruleApplies(rule, subject)) continue;
+      const status = this.ruleStatus(rule, now);
+      if (status.exhausted) return status;
+    }
+    return null;
+  }
+
+  /**
+   * Charges a result's usage and persists it. Returns the budgets this
+   * pushed over their limit (each reported once per period).
+   */
+  record(subject: BudgetSubject, usage: { tokensUsed?: number; costUsd?: number }): BudgetStatus[] {
+    const tokens = typeof usage.tokensUsed === "number" && usage.tokensUsed > 0 ? usage.tokensUsed : 0;
+    const costUsd = typeof usage.costUsd === "number" && usage.costUsd > 0 ? usage.costUsd : 0;
+    if (tokens === 0 && costUsd === 0) return [];
+
+    const now = this.now();
+    const charged = {
+      backend: normalizeExecutionBackend(subject.backend) ?? "unknown",
+      model: subject.model || "unknown",
+      streamId: subject.streamId || "",
+    };
+    const day = dayKey(now);
+    const buckets = (this.usage.days[day] ??= []);
+    let bucket = buckets.find(
+      (b) => b.backend === charged.backend && b.model === charged.model && b.streamId === charged.streamId,
+    );
+    if (!bucket) {
+      bucket = { ...charged, tokens: 0, costUsd: 0 };
+      buckets.push(bucket);
+    }
+    bucket.tokens += tokens;
+    bucket.costUsd += costUsd;
+
+    const newlyExhausted: BudgetStatus[] = [];
+    for (const rule of this.rules) {
+      if (!ruleApplies(rule, charged)) continue;
+      const status = this.ruleStatus(rule, now);
+      const key = `${rule.name}@${periodStart(rule.period, now)}`;
+      if (status.exhausted && !this.reported.has(key)) {
+        this.reported.add(key);
+        newlyExhausted.push(status);
+        this.opts.onExhausted?.(status);
+      }
+    }
+
+    this.prune(now);
+    try {
+      mkdirSync(path.dirname(this.filePath), { recursive: true });
+      writeJsonAtomic(this.filePath, this.usage);
+    } catch (error) {
+      this.opts.onPersistError?.(error);
+    }
+    return newlyExhausted;
+  }
+
+  private prune(now: Date): void {
+    const cutoff = dayKey(new Date(now.getTime() - RETAIN_DAYS * 86_400_000));
+    for (const day of Object.keys(this.usage.days)) {
+      if (day < cutoff) delete this.usage.days[day];
+    }
+  }
+}
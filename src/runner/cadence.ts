@@ -2,16 +2,37 @@
  * Polling cadence loop.
  *
  * CadenceLoop periodically polls the Flux task queue and drains all
- * available tasks by claiming and executing them sequentially. It provides:
+ * available tasks by claiming and executing them through a bounded worker
+ * pool. It provides:
  *   - Configurable poll interval (FLUX_CADENCE_MINUTES)
  *   - Pagination: keeps fetching pages until the queue is empty
+ *   - Routing: with a RoutingTable, one query per route filter in priority
+ *     order (otherwise a single streamId/backend/costClass filter)
+ *   - Budgets: tasks whose backend, model, or stream has an exhausted budget
+ *     are skipped (left unclaimed) until the budget resets
+ *   - Backend health: filters for unhealthy backends aren't polled, and
+ *     tasks no healthy backend can run are left unclaimed
+ *   - Concurrency limits (total and per backend): a task is only claimed
+ *     once a slot is free, so tasks this runner can't start yet stay
+ *     available to other runners
  *   - Concurrent tick guard: if a tick is already running, the next trigger
  *     is deferred (not dropped) via `rerunRequested`
  *   - `triggerNow()`: allows the push client to force an immediate poll
  *     when a task.available WebSocket event arrives
+ *   - `waitForIdle()`: lets shutdown drain in-flight tasks after `stop()`
+ *   - `pause()`/`resume()`: stop claiming without stopping the loop, used by
+ *     the local control API
+ *   - `reconfigure()`: applies reloaded filters, routes, limits, and interval,
+ *     then polls with them right away
+ *   - In-flight task listing, last poll time, and counters for status reporting
  */
 import type { FluxMcpClient } from "./client.js";
 import { TaskExecutor } from "./executor.js";
+import { normalizeExecutionBackend, packetTaskId, resolvePacketBackend } from "./execution.js";
+import type { McpTaskPacket } from "../types.js";
+import type { RunnerMetrics } from "./metrics.js";
+import type { RoutingTable, TaskFilter } from "./routing.js";
+import { packetBudgetSubject, type BudgetTracker } from "./budget.js";
 
 export type CadenceLoopOptions = {
   client: FluxMcpClient;
@@ -21,47 +42,261 @@ export type CadenceLoopOptions = {
   streamId?: string;
   backend?: string;
   costClass?: string;
+  /** Replaces the single streamId/backend/costClass filter when set. */
+  routing?: RoutingTable;
+  /** Maximum number of tasks executing at once across all backends (default 1). */
+  maxConcurrency?: number;
+  /** Per-backend caps keyed by normalized backend name, e.g. `{ pi: 2 }`. */
+  backendConcurrency?: Record<string, number>;
+  budget?: BudgetTracker;
+  /**
+   * Whether a healthy backend can run tasks requesting `backend` (and, when
+   * given, this packet's fallback chain). Defaults to always.
+   */
+  isBackendAvailable?: (backend: string, packet?: McpTaskPacket) => boolean;
+  /** The model tasks for `backend` run with when they name none, for model-scoped budgets. */
+  defaultModel?: (backend: string) => string | undefined;
   onError?: (error: unknown) => void;
+  metrics?: RunnerMetrics;
+};
+
+/** Settings a config reload can change. */
+export type CadenceLoopReconfigure = Partial<
+  Pick<
+    CadenceLoopOptions,
+    | "intervalMs"
+    | "streamId"
+    | "backend"
+    | "costClass"
+    | "routing"
+    | "maxConcurrency"
+    | "backendConcurrency"
+  >
+>;
+
+/** A task dispatched to the executor that has not finished yet. */
+type InFlightTask = {
+  backend: string;
+  startedAt: number;
+  promise: Promise<void>;
+};
+
+/** Public view of an in-flight task. */
+export type CadenceInFlightTask = {
+  taskId: string;
+  backend: string;
+  startedAt: number;
+};
+
+/** Counters since the loop was created. */
+export type CadenceStats = {
+  polls: number;
+  pollErrors: number;
+  dispatched: number;
+  finished: number;
+  taskErrors: number;
+  /** Tasks left unclaimed because a budget was exhausted. */
+  budgetSkipped: number;
+  /** Tasks left unclaimed because no healthy backend could run them. */
+  unavailableSkipped: number;
+  lastPollAt: number | null;
 };
 
 export class CadenceLoop {
-  private readonly opts: CadenceLoopOptions;
+  private opts: CadenceLoopOptions;
   private intervalTimer: ReturnType<typeof setInterval> | null = null;
   private running = false;
   private tickInFlight: Promise<void> | null = null;
   private rerunRequested = false;
+  private readonly inFlight = new Map<string, InFlightTask>();
+  private backlogged = false;
+  private paused = false;
+  private readonly stats: CadenceStats = {
+    polls: 0,
+    pollErrors: 0,
+    dispatched: 0,
+    finished: 0,
+    taskErrors: 0,
+    budgetSkipped: 0,
+    unavailableSkipped: 0,
+    lastPollAt: null,
+  };
 
   constructor(opts: CadenceLoopOptions) {
     this.opts = opts;
   }
 
+  private get maxConcurrency(): number {
+    return Math.max(1, Math.floor(this.opts.maxConcurrency ?? 1));
+  }
+
+  /** Number of tasks currently dispatched to the executor. */
+  get activeCount(): number {
+    return this.inFlight.size;
+  }
+
+  /** True while the loop is running and not paused — i.e. allowed to claim. */
+  private get claiming(): boolean {
+    return this.running && !this.paused;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /** Tasks currently dispatched to the executor, oldest first. */
+  listInFlight(): CadenceInFlightTask[] {
+    return [...this.inFlight.entries()]
+      .map(([taskId, task]) => ({ taskId, backend: task.backend, startedAt: task.startedAt }))
+      .sort((a, b) => a.startedAt - b.startedAt);
+  }
+
+  getStats(): CadenceStats {
+    return { ...this.stats };
+  }
+
+  private countInFlight(backend: string): number {
+    let count = 0;
+    for (const task of this.inFlight.values()) {
+      if (task.backend === backend) count += 1;
+    }
+    return count;
+  }
+
+  /** Resolves once any in-flight task finishes. */
+  private async nextCompletion(): Promise<void> {
+    if (this.inFlight.size === 0) return;
+    await Promise.race([...this.inFlight.values()].map((task) => task.promise));
+  }
+
+  /** Waits until the total concurrency limit leaves room for another task. */
+  private async waitForSlot(): Promise<void> {
+    while (this.claiming && this.inFlight.size >= this.maxConcurrency) {
+      await this.nextCompletion();
+    }
+  }
+
+  /**
+   * Starts executing a task in the background if its backend has a free slot.
+   * Returns false when the task was skipped (already running, over budget,
+   * without a healthy backend, or its backend is at capacity — in which case a rerun is scheduled once a
+   * slot frees up).
+   */
+  private dispatch(task: McpTaskPacket): boolean {
+    const taskId = packetTaskId(task);
+    if (!taskId || this.inFlight.has(taskId)) {
+      return false;
+    }
+    const routed = this.opts.routing?.apply(task).packet ?? task;
+    const backend = resolvePacketBackend(routed, this.opts.backend) ?? "unknown";
+    if (this.opts.isBackendAvailable && !this.opts.isBackendAvailable(backend, routed)) {
+      this.stats.unavailableSkipped += 1;
+      return false;
+    }
+    if (this.opts.budget?.exhausted(packetBudgetSubject(routed, backend, this.opts.defaultModel?.(backend)))) {
+      this.stats.budgetSkipped += 1;
+      return false;
+    }
+    const cap = this.opts.backendConcurrency?.[backend];
+    if (typeof cap === "number" && this.countInFlight(backend) >= Math.max(1, cap)) {
+      this.backlogged = true;
+      return false;
+    }
+    const promise = (async () => {
+      try {
+        await this.opts.executor.claimAndExecuteFromPacket(task);
+      } catch (error) {
+        this.stats.taskErrors += 1;
+        this.opts.onError?.(error);
+      } finally {
+        this.inFlight.delete(taskId);
+        this.stats.finished += 1;
+        if (this.backlogged && this.claiming) {
+          this.backlogged = false;
+          void this.runTick();
+        }
+      }
+    })();
+    this.inFlight.set(taskId, { backend, startedAt: Date.now(), promise });
+    this.stats.dispatched += 1;
+    return true;
+  }
+
   /**
-   * Fetches and executes all available tasks, page by page.
-   * Stops when the server returns fewer tasks than the page limit
-   * (indicating the queue is drained) or when the loop is stopped.
+   * The listTasks filters to drain each tick, highest priority first.
+   * Filters for a backend no healthy backend can run are left out.
    */
+  private listFilters(): TaskFilter[] {
+    const isAvailable = this.opts.isBackendAvailable;
+    if (this.opts.routing && this.opts.routing.size > 0) {
+      return this.opts.routing.listFilters(isAvailable && ((backend) => isAvailable(backend)));
+    }
+    const backend = normalizeExecutionBackend(this.opts.backend);
+    if (backend && isAvailable && !isAvailable(backend)) {
+      return [];
+    }
+    return [{ streamId: this.opts.streamId, backend: this.opts.backend, costClass: this.opts.costClass }];
+  }
+
+  /** Drains every filter in priority order. */
   private async drainOnce(): Promise<void> {
+    for (const filter of this.listFilters()) {
+      if (!this.claiming) {
+        return;
+      }
+      await this.drainFilter(filter);
+    }
+  }
+
+  /**
+   * Fetches all available tasks for one filter page by page and dispatches
+   * them to the worker pool. Stops when the server returns fewer tasks than
+   * the page limit (indicating the queue is drained) or when the loop is
+   * stopped. Dispatched tasks keep running after this returns.
+   */
+  private async drainFilter(filter: TaskFilter): Promise<void> {
     const limit = Math.max(1, this.opts.listLimit ?? 10);
-    while (this.running) {
+    while (this.claiming) {
+      await this.waitForSlot();
+      if (!this.claiming) {
+        return;
+      }
+      this.stats.polls += 1;
+      this.stats.lastPollAt = Date.now();
       const page = await this.opts.client.listTasks({
         status: "todo",
         limit,
         mode: "compact",
         format: "packet",
-        streamId: this.opts.streamId,
-        backend: this.opts.backend,
-        costClass: this.opts.costClass,
+        streamId: filter.streamId,
+        backend: filter.backend,
+        costClass: filter.costClass,
       });
       const tasks = Array.isArray(page.tasks) ? page.tasks : [];
       if (tasks.length === 0) {
         return;
       }
+      let dispatched = 0;
       for (const task of tasks) {
-        await this.opts.executor.claimAndExecuteFromPacket(task);
+        await this.waitForSlot();
+        if (!this.claiming) {
+          return;
+        }
+        if (this.dispatch(task)) {
+          dispatched += 1;
+        }
       }
       if (tasks.length < limit) {
         return;
       }
+      if (dispatched === 0) {
+        // Every task on a full page was skipped; refetching now would return
+        // the same page, so wait for a running task to free its slot first.
+        if (this.inFlight.size === 0) {
+          return;
+        }
+        await this.nextCompletion();
+      }
     }
   }
 
@@ -70,7 +305,7 @@ export class CadenceLoop {
    * in flight, sets rerunRequested so it re-triggers after completion.
    */
   private async runTick() {
-    if (!this.running) {
+    if (!this.claiming) {
       return;
     }
     if (this.tickInFlight) {
@@ -81,6 +316,8 @@ export class CadenceLoop {
       try {
         await this.drainOnce();
       } catch (error) {
+        this.stats.pollErrors += 1;
+        this.opts.metrics?.cadenceTickErrors.inc();
         this.opts.onError?.(error);
       }
     })();
@@ -89,22 +326,42 @@ export class CadenceLoop {
       await this.tickInFlight;
     } finally {
       this.tickInFlight = null;
-      if (this.rerunRequested && this.running) {
+      if (this.rerunRequested && this.claiming) {
         this.rerunRequested = false;
         void this.runTick();
       }
     }
   }
 
+  private startInterval() {
+    this.intervalTimer = setInterval(() => {
+      void this.runTick();
+    }, Math.max(1_000, this.opts.intervalMs));
+  }
+
   start() {
     if (this.running) {
       return;
     }
     this.running = true;
     void this.runTick();
-    this.intervalTimer = setInterval(() => {
-      void this.runTick();
-    }, Math.max(1_000, this.opts.intervalMs));
+    this.startInterval();
+  }
+
+  /**
+   * Applies new settings. In-flight tasks are untouched; the next poll (run
+   * immediately unless paused) uses the new filters and limits, and a new
+   * interval restarts the poll timer.
+   */
+  reconfigure(update: CadenceLoopReconfigure) {
+    const intervalChanged =
+      update.intervalMs !== undefined && update.intervalMs !== this.opts.intervalMs;
+    this.opts = { ...this.opts, ...update };
+    if (intervalChanged && this.intervalTimer) {
+      clearInterval(this.intervalTimer);
+      this.startInterval();
+    }
+    void this.runTick();
   }
 
   stop() {
@@ -115,9 +372,47 @@ export class CadenceLoop {
     }
   }
 
+  /**
+   * Waits for every in-flight task to finish, up to timeoutMs. Call after
+   * stop() so nothing new is dispatched meanwhile. Resolves true once idle,
+   * false if tasks were still running when the timeout elapsed.
+   */
+  async waitForIdle(timeoutMs: number): Promise<boolean> {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let timedOut = false;
+    const timeout = new Promise<void>((resolve) => {
+      timer = setTimeout(() => {
+        timedOut = true;
+        resolve();
+      }, Math.max(0, timeoutMs));
+    });
+    try {
+      while (this.inFlight.size > 0 && !timedOut) {
+        await Promise.race([this.nextCompletion(), timeout]);
+      }
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+    return this.inFlight.size === 0;
+  }
+
+  /** Stops claiming new tasks; in-flight tasks keep running and the loop stays started. */
+  pause() {
+    this.paused = true;
+  }
+
+  /** Resumes claiming and polls immediately. */
+  resume() {
+    if (!this.paused) {
+      return;
+    }
+    this.paused = false;
+    void this.runTick();
+  }
+
   /** Forces an immediate poll tick — called by the push client on task.available events. */
   triggerNow() {
-    if (!this.running) {
+    if (!this.claiming) {
       return;
     }
     void this.runTick();
@@ -2,8 +2,11 @@
  * Claude CLI execution backend.
  *
  * Spawns the `claude` CLI binary as a subprocess to execute tasks.
- * This is the simplest backend — it passes the prompt via `-p` flag,
- * captures JSON output, and extracts the result.
+ * This is the simplest backend — it passes the prompt via `-p` flag and
+ * reads the `--output-format stream-json` event stream: assistant text is
+ * forwarded as progress while the run goes on, and the final `result` event
+ * becomes the output. Declared output files (`execution.outputFiles`) are
+ * collected from the workspace as artifacts.
  *
  * Binary resolution order:
  *   1. CLAUDE_BIN env var
@@ -22,7 +25,12 @@ import type {
   RunnerExecutionRequest,
   RunnerExecutionResult,
 } from "./execution.js";
-import { normalizeExecutionBackend } from "./execution.js";
+import {
+  isTransientErrorMessage,
+  normalizeExecutionBackend,
+  terminateChildProcess,
+} from "./execution.js";
+import { collectOutputFiles } from "./artifacts.js";
 
 /**
  * Parses Claude CLI stdout, which may be JSON-wrapped.
@@ -58,6 +66,49 @@ export function parseClaudeCliOutput(stdout: string): string {
   return trimmed;
 }
 
+/** What one line of `--output-format stream-json` contributes to a run. */
+export type ClaudeStreamEvent =
+  /** Assistant text: a streamed delta (`partial`) or a complete message's text. */
+  | { kind: "text"; text: string; partial: boolean }
+  /** The final `result` event, as printed. */
+  | { kind: "result"; envelope: Record<string, unknown> };
+
+/**
+ * Parses one stream-json line. Returns null for blank or non-JSON lines and
+ * for events that carry no assistant text (system, tool use and results).
+ */
+export function parseClaudeStreamLine(line: string): ClaudeStreamEvent | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("{")) return null;
+  let event: Record<string, unknown>;
+  try {
+    event = JSON.parse(trimmed) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+  if (event.type === "result") {
+    return { kind: "result", envelope: event };
+  }
+  if (event.type === "stream_event" && event.event && typeof event.event === "object") {
+    const inner = event.event as Record<string, unknown>;
+    const delta = inner.delta && typeof inner.delta === "object" ? (inner.delta as Record<string, unknown>) : {};
+    if (inner.type === "content_block_delta" && delta.type === "text_delta" && typeof delta.text === "string") {
+      return { kind: "text", text: delta.text, partial: true };
+    }
+    return null;
+  }
+  if (event.type === "assistant" && event.message && typeof event.message === "object") {
+    const content = (event.message as Record<string, unknown>).content;
+    if (!Array.isArray(content)) return null;
+    const text = content
+      .filter((block): block is { type: "text"; text: string } => block?.type === "text" && typeof block.text === "string")
+      .map((block) => block.text)
+      .join("");
+    return { kind: "text", text, partial: false };
+  }
+  return null;
+}
+
 /** Finds the claude binary by checking known installation paths. */
 function resolveClaudeCommand(): { command: string; prefixArgs: string[] } {
   const envOverride = process.env.CLAUDE_BIN?.trim();
@@ -89,7 +140,12 @@ function buildClaudeArgs(opts: {
   if (opts.model) {
     args.push("--model", opts.model);
   }
-  args.push("--output-format", opts.outputFormat ?? "json");
+  const outputFormat = opts.outputFormat ?? "stream-json";
+  args.push("--output-format", outputFormat);
+  if (outputFormat === "stream-json") {
+    // -p only streams with --verbose; partial messages add the text deltas.
+    args.push("--verbose", "--include-partial-messages");
+  }
   if (opts.allowedTools && opts.allowedTools.length > 0) {
     args.push("--allowedTools", opts.allowedTools.join(","));
   }
@@ -98,6 +154,8 @@ function buildClaudeArgs(opts: {
 
 export class ClaudeCliExecutionBackend implements RunnerExecutionBackend {
   readonly id = "claude-cli";
+  readonly usesWorkspace = true;
+  readonly defaultModel = "claude-cli";
 
   canExecute(backend: string): boolean {
     return normalizeExecutionBackend(backend) === "claude-cli";
@@ -115,7 +173,7 @@ export class ClaudeCliExecutionBackend implements RunnerExecutionBackend {
         prompt: request.prompt,
         model,
         allowedTools,
-        outputFormat: "json",
+        outputFormat: "stream-json",
       }),
     ];
 
@@ -129,15 +187,40 @@ export class ClaudeCliExecutionBackend implements RunnerExecutionBackend {
     }
 
     const child = spawn(command, args, {
-      cwd: process.cwd(),
+      cwd: request.workspaceDir ?? process.cwd(),
       stdio: ["ignore", "pipe", "pipe"],
       env: allowedEnv,
     });
 
-    let stdout = "";
     let stderr = "";
+    let pending = "";
+    let streamed = "";
+    // A complete assistant message repeats the deltas streamed for it; its
+    // text is only used when no deltas arrived.
+    let streamedDeltas = false;
+    let messageEnded = false;
+    let resultEnvelope: Record<string, unknown> | undefined;
+    const handleLine = (line: string) => {
+      const event = parseClaudeStreamLine(line);
+      if (!event) return;
+      if (event.kind === "result") {
+        resultEnvelope = event.envelope;
+        return;
+      }
+      const text = event.partial || !streamedDeltas ? event.text : "";
+      streamedDeltas = event.partial;
+      if (text.length > 0) {
+        streamed += (messageEnded && streamed.length > 0 ? "\n\n" : "") + text;
+        messageEnded = false;
+        request.onProgress?.({ output: streamed });
+      }
+      if (!event.partial) messageEnded = true;
+    };
     child.stdout.on("data", (chunk: Buffer) => {
-      stdout += chunk.toString();
+      pending += chunk.toString();
+      const lines = pending.split("\n");
+      pending = lines.pop() ?? "";
+      for (const line of lines) handleLine(line);
     });
     child.stderr.on("data", (chunk: Buffer) => {
       stderr += chunk.toString();
@@ -147,11 +230,7 @@ export class ClaudeCliExecutionBackend implements RunnerExecutionBackend {
     const killChild = () => {
       if (finished) return;
       finished = true;
-      try {
-        child.kill("SIGTERM");
-      } catch {
-        // ignore
-      }
+      terminateChildProcess(child);
     };
 
     request.abortSignal.addEventListener("abort", killChild, { once: true });
@@ -163,8 +242,11 @@ export class ClaudeCliExecutionBackend implements RunnerExecutionBackend {
     finished = true;
     request.abortSignal.removeEventListener("abort", killChild);
 
+    handleLine(pending);
+
     const durationMs = Math.max(0, Date.now() - start);
-    const output = stdout.trim().length > 0 ? parseClaudeCliOutput(stdout) : "";
+    const resultText = typeof resultEnvelope?.result === "string" ? resultEnvelope.result : undefined;
+    const output = resultEnvelope ? parseClaudeCliOutput(JSON.stringify(resultEnvelope)) : streamed.trim();
 
     if (request.abortSignal.aborted) {
       return {
@@ -174,12 +256,16 @@ export class ClaudeCliExecutionBackend implements RunnerExecutionBackend {
       };
     }
 
-    if (exitCode !== 0) {
-      const details = stderr.trim() || stdout.trim() || `claude exited ${String(exitCode)}`;
+    const artifacts = await collectOutputFiles(request);
+    if (exitCode !== 0 || resultEnvelope?.is_error === true) {
+      const details =
+        stderr.trim() || resultText?.trim() || streamed.trim() || `claude exited ${String(exitCode)}`;
       return {
         status: "failed",
         output: `claude-cli failed: ${details}`,
         durationMs,
+        errorKind: isTransientErrorMessage(details) ? "transient" : "permanent",
+        ...(artifacts.length > 0 ? { artifacts } : {}),
       };
     }
 
@@ -188,6 +274,7 @@ export class ClaudeCliExecutionBackend implements RunnerExecutionBackend {
       output: output.trim().length > 0 ? output : "(empty response)",
       durationMs,
       model: model || "claude-cli",
+      ...(artifacts.length > 0 ? { artifacts } : {}),
     };
   }
 }
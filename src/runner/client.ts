@@ -3,21 +3,36 @@
  *
  * FluxMcpClient wraps all authenticated REST calls to the Flux server:
  * bootstrap (whoami, handshake, hello), task lifecycle (list, claim,
- * heartbeat, complete, escalate), and push setup (mintPushTicket).
+ * heartbeat, complete, escalate), artifact uploads (uploadArtifact), input
+ * blob lookups (resolveBlob), and push setup (mintPushTicket).
  *
  * Every request includes Bearer auth and returns typed responses.
  * Non-2xx responses are thrown as McpHttpError with status, code, and body.
+ *
+ * Transient failures are retried with exponential backoff and jitter:
+ *   - 429 and 503 are retried for every request (the server refused it), waiting
+ *     at least as long as `Retry-After` asks; when it asks for longer than
+ *     `maxDelayMs`, the error is thrown instead
+ *   - Network errors, 502, and 504 are only retried for idempotent requests
+ *     (GETs, heartbeats, completions, artifact chunks), since the server
+ *     may have processed the first attempt
+ *
+ * Requests made inside a sampled trace span carry a W3C `traceparent` header.
  */
 import type {
   JsonRecord,
+  McpBlobResponse,
   McpClaimResponse,
   McpCompleteStatus,
   McpHandshakeResponse,
   McpHeartbeatResponse,
+  McpTaskArtifact,
   McpTaskListResponse,
   McpWhoamiResponse,
 } from "../types.js";
 import { McpHttpError, extractErrorCode, safeMessage } from "../http.js";
+import { classifyExecutionError } from "./execution.js";
+import { traceHeaders } from "./tracing.js";
 
 export { McpHttpError } from "../http.js";
 
@@ -32,6 +47,101 @@ export type ListTaskOptions = {
   costClass?: string;
 };
 
+/** Retry behaviour for transient request failures. */
+export type RetryPolicy = {
+  /** Total attempts including the first. 1 disables retries. */
+  maxAttempts: number;
+  baseDelayMs: number;
+  /**
+   * Upper bound for computed backoff. A Retry-After longer than this is never
+   * shortened: the request stops retrying and throws.
+   */
+  maxDelayMs: number;
+};
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+};
+
+/** Statuses where the server explicitly refused the request, so any method is safe to retry. */
+const REFUSED_STATUSES = new Set([429, 503]);
+/** Statuses where the request may or may not have been processed. */
+const AMBIGUOUS_STATUSES = new Set([502, 504]);
+
+/**
+ * Whether an error from a Flux request is worth retrying later: network
+ * failures and timeouts, 408, 429, and 5xx. Other 4xx responses, and errors
+ * that aren't from the request at all, are permanent.
+ */
+export function isTransientRequestError(error: unknown): boolean {
+  if (error instanceof McpHttpError) {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) return true;
+  return classifyExecutionError(error) === "transient";
+}
+
+/** Parses a Retry-After header (delta-seconds or HTTP-date) into milliseconds. */
+export function parseRetryAfterMs(raw: string | null | undefined, now = Date.now()): number | null {
+  if (!raw) return null;
+  const trimmed = raw.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+/** Exponential backoff with jitter: a random delay in [exp/2, exp], capped at maxDelayMs. */
+export function computeBackoffMs(attempt: number, policy: RetryPolicy, random = Math.random): number {
+  const exp = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(exp / 2 + random() * (exp / 2));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Final result reported to the server when a task completes. */
+export type CompleteTaskResult = {
+  status: McpCompleteStatus;
+  output: string;
+  tokensUsed?: number;
+  costUsd?: number;
+  durationMs?: number;
+  model?: string;
+  usageJson?: string;
+  artifacts?: McpTaskArtifact[];
+};
+
+/** Largest artifact uploadArtifact() accepts unless told otherwise: 50 MiB. */
+export const DEFAULT_ARTIFACT_MAX_BYTES = 50 * 1024 * 1024;
+const DEFAULT_ARTIFACT_CHUNK_BYTES = 1024 * 1024;
+
+/** Content and metadata for one artifact upload. */
+export type ArtifactUpload = {
+  name: string;
+  mimeType?: string;
+  content: Uint8Array;
+  /** Hex SHA-256 of `content`; the server verifies it when the upload completes. */
+  sha256: string;
+};
+
+export type UploadArtifactOptions = {
+  /** Defaults to 1 MiB; the server may ask for smaller chunks. */
+  chunkBytes?: number;
+  /** Defaults to DEFAULT_ARTIFACT_MAX_BYTES; the server may set a lower limit. */
+  maxBytes?: number;
+};
+
+export type UploadedArtifact = {
+  artifactId: string;
+  url?: string;
+};
+
 /** Options passed when claiming a task — identifies this runner to the server. */
 export type ClaimTaskOptions = {
   runnerType: string;
@@ -50,17 +160,55 @@ export type ClaimTaskOptions = {
 export class FluxMcpClient {
   private readonly baseUrl: string;
   private readonly token: string;
+  private readonly retry: RetryPolicy;
 
-  constructor(params: { baseUrl: string; token: string }) {
+  constructor(params: { baseUrl: string; token: string; retry?: Partial<RetryPolicy> }) {
     this.baseUrl = params.baseUrl.replace(/\/+$/, "");
     this.token = params.token;
+    this.retry = { ...DEFAULT_RETRY_POLICY, ...params.retry };
   }
 
-  /** Generic JSON request helper — sends auth header, parses response, throws McpHttpError on failure. */
+  /**
+   * Generic JSON request helper — sends auth header, parses response, throws
+   * McpHttpError on failure. Retries transient failures per the retry policy;
+   * `idempotent` widens retries to network errors and 502/504.
+   */
   private async request<T>(
     method: string,
     path: string,
-    opts?: { query?: URLSearchParams; body?: JsonRecord | JsonRecord[] },
+    opts?: { query?: URLSearchParams; body?: JsonRecord | JsonRecord[]; idempotent?: boolean },
+  ): Promise<T> {
+    const idempotent = opts?.idempotent ?? method === "GET";
+    const maxAttempts = Math.max(1, this.retry.maxAttempts);
+    for (let attempt = 0; ; attempt++) {
+      let retryAfterMs: number | null = null;
+      try {
+        return await this.requestOnce<T>(method, path, opts, (ms) => {
+          retryAfterMs = ms;
+        });
+      } catch (error) {
+        const retryable =
+          error instanceof McpHttpError
+            ? REFUSED_STATUSES.has(error.status) ||
+              (idempotent && AMBIGUOUS_STATUSES.has(error.status))
+            : idempotent;
+        if (!retryable || attempt + 1 >= maxAttempts) {
+          throw error;
+        }
+        if (retryAfterMs !== null && retryAfterMs > this.retry.maxDelayMs) {
+          throw error;
+        }
+        await sleep(Math.max(computeBackoffMs(attempt, this.retry), retryAfterMs ?? 0));
+      }
+    }
+  }
+
+  /** Performs a single HTTP attempt; reports any Retry-After header before throwing. */
+  private async requestOnce<T>(
+    method: string,
+    path: string,
+    opts: { query?: URLSearchParams; body?: JsonRecord | JsonRecord[] } | undefined,
+    onRetryAfter: (ms: number | null) => void,
   ): Promise<T> {
     const url = new URL(`${this.baseUrl}${path}`);
     if (opts?.query) {
@@ -71,6 +219,7 @@ export class FluxMcpClient {
       headers: {
         authorization: `Bearer ${this.token}`,
         "content-type": "application/json",
+        ...traceHeaders(),
       },
       body: opts?.body ? JSON.stringify(opts.body) : undefined,
     });
@@ -84,6 +233,7 @@ export class FluxMcpClient {
     }
 
     if (!res.ok) {
+      onRetryAfter(parseRetryAfterMs(res.headers?.get("retry-after")));
       throw new McpHttpError(
         safeMessage(parsed) ||
           `HTTP ${res.status} ${method} ${url.pathname}${url.search ? `?${url.search}` : ""}`,
@@ -152,6 +302,7 @@ export class FluxMcpClient {
       "POST",
       `/tasks/${encodeURIComponent(taskId)}/heartbeat`,
       {
+        idempotent: true,
         body: {
           sessionId,
           ...(args?.phase ? { phase: args.phase } : {}),
@@ -165,17 +316,10 @@ export class FluxMcpClient {
   async completeTask(
     taskId: string,
     sessionId: string,
-    result: {
-      status: McpCompleteStatus;
-      output: string;
-      tokensUsed?: number;
-      costUsd?: number;
-      durationMs?: number;
-      model?: string;
-      usageJson?: string;
-    },
+    result: CompleteTaskResult,
   ): Promise<JsonRecord> {
     return await this.request<JsonRecord>("POST", `/tasks/${encodeURIComponent(taskId)}/complete`, {
+      idempotent: true,
       body: {
         sessionId,
         ...result,
@@ -199,6 +343,72 @@ export class FluxMcpClient {
     });
   }
 
+  /**
+   * Uploads an artifact for a claimed task in chunks:
+   *   1. `POST /tasks/:id/artifacts` declares it (name, type, size, sha256);
+   *      the server answers with an artifactId and may lower the chunk size
+   *      or the size limit
+   *   2. `PUT .../artifacts/:artifactId/chunks/:index` sends each chunk as base64
+   *   3. `POST .../artifacts/:artifactId/complete` finishes it and returns its URL
+   * Chunks and completion are idempotent, so they're retried like heartbeats.
+   * Throws when the content is over the size limit, before sending anything
+   * if it's over the local one.
+   */
+  async uploadArtifact(
+    taskId: string,
+    sessionId: string,
+    artifact: ArtifactUpload,
+    opts: UploadArtifactOptions = {},
+  ): Promise<UploadedArtifact> {
+    const sizeBytes = artifact.content.byteLength;
+    const checkSize = (maxBytes: number) => {
+      if (sizeBytes > maxBytes) {
+        throw new Error(`artifact ${artifact.name} is ${sizeBytes} bytes, over the ${maxBytes}-byte upload limit`);
+      }
+    };
+    checkSize(opts.maxBytes ?? DEFAULT_ARTIFACT_MAX_BYTES);
+
+    const base = `/tasks/${encodeURIComponent(taskId)}/artifacts`;
+    const created = await this.request<{ artifactId: string; chunkBytes?: number; maxBytes?: number }>("POST", base, {
+      body: {
+        sessionId,
+        name: artifact.name,
+        ...(artifact.mimeType ? { mimeType: artifact.mimeType } : {}),
+        sizeBytes,
+        sha256: artifact.sha256,
+      },
+    });
+    if (typeof created.maxBytes === "number") checkSize(created.maxBytes);
+    const chunkBytes = Math.max(
+      1,
+      Math.min(opts.chunkBytes ?? DEFAULT_ARTIFACT_CHUNK_BYTES, created.chunkBytes ?? Number.POSITIVE_INFINITY),
+    );
+    const artifactPath = `${base}/${encodeURIComponent(created.artifactId)}`;
+    let chunks = 0;
+    for (let offset = 0; offset < sizeBytes; offset += chunkBytes) {
+      const chunk = artifact.content.subarray(offset, Math.min(sizeBytes, offset + chunkBytes));
+      await this.request("PUT", `${artifactPath}/chunks/${chunks}`, {
+        idempotent: true,
+        body: { sessionId, offset, data: Buffer.from(chunk).toString("base64") },
+      });
+      chunks += 1;
+    }
+    const completed = await this.request<{ artifactId?: string; url?: string } | null>(
+      "POST",
+      `${artifactPath}/complete`,
+      { idempotent: true, body: { sessionId, chunks, sha256: artifact.sha256 } },
+    );
+    return {
+      artifactId: completed?.artifactId ?? created.artifactId,
+      ...(typeof completed?.url === "string" ? { url: completed.url } : {}),
+    };
+  }
+
+  /** Resolves a Flux blob reference (a packet input file) to its download URL and metadata. */
+  async resolveBlob(blobRef: string): Promise<McpBlobResponse> {
+    return await this.request<McpBlobResponse>("GET", `/blobs/${encodeURIComponent(blobRef)}`);
+  }
+
   /** Mints a short-lived ticket for authenticating to the push WebSocket. */
   async mintPushTicket(args: {
     wsUrl: string;
@@ -0,0 +1,285 @@
+/**
+ * Codex CLI execution backend.
+ *
+ * Spawns the `codex` CLI binary as a subprocess to execute tasks. Mirrors the
+ * Claude CLI backend: the prompt is passed to `codex exec`, which runs
+ * non-interactively and streams JSONL events on stdout. Agent messages are
+ * forwarded as progress output and reasoning as the activity digest while
+ * the run goes on; the final agent message becomes the task output and
+ * `turn.completed` usage is summed into token counts. Declared output files (`execution.outputFiles`) are
+ * collected from the workspace as artifacts.
+ *
+ * Binary resolution order:
+ *   1. CODEX_BIN env var
+ *   2. Local node_modules/.bin/codex
+ *   3. ~/.local/bin/codex
+ *   4. /usr/local/bin/codex
+ *   5. /opt/homebrew/bin/codex
+ *   6. Falls back to bare "codex" (relies on PATH)
+ */
+import { spawn } from "node:child_process";
+import { existsSync } from "node:fs";
+import os from "node:os";
+import { resolve } from "node:path";
+import type {
+  RunnerExecutionBackend,
+  RunnerExecutionProgress,
+  RunnerExecutionRequest,
+  RunnerExecutionResult,
+} from "./execution.js";
+import {
+  isTransientErrorMessage,
+  normalizeExecutionBackend,
+  terminateChildProcess,
+} from "./execution.js";
+import { collectOutputFiles } from "./artifacts.js";
+
+/** Result of parsing `codex exec --json` output. */
+export type CodexCliOutput = {
+  output: string;
+  inputTokens?: number;
+  cachedInputTokens?: number;
+  outputTokens?: number;
+  costUsd?: number;
+  error?: string;
+};
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function addTokens(current: number | undefined, value: unknown): number | undefined {
+  const n = asNumber(value);
+  if (n === undefined) return current;
+  return (current ?? 0) + n;
+}
+
+/**
+ * Parses the JSONL event stream printed by `codex exec --json`.
+ * Uses the last `agent_message` item as the output, sums usage across
+ * `turn.completed` events, and captures `turn.failed` / `error` messages.
+ * Falls back to the raw trimmed stdout when no events are recognized.
+ */
+export function parseCodexCliOutput(stdout: string): CodexCliOutput {
+  const result: CodexCliOutput = { output: "" };
+  let recognized = false;
+  for (const line of stdout.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith("{")) continue;
+    let event: Record<string, unknown>;
+    try {
+      event = JSON.parse(trimmed) as Record<string, unknown>;
+    } catch {
+      continue;
+    }
+    if (typeof event.type !== "string") continue;
+    recognized = true;
+
+    if (event.type === "item.completed" && event.item && typeof event.item === "object") {
+      const item = event.item as Record<string, unknown>;
+      if (item.type === "agent_message" && typeof item.text === "string") {
+        result.output = item.text;
+      }
+    } else if (event.type === "turn.completed" && event.usage && typeof event.usage === "object") {
+      const usage = event.usage as Record<string, unknown>;
+      result.inputTokens = addTokens(result.inputTokens, usage.input_tokens);
+      result.cachedInputTokens = addTokens(result.cachedInputTokens, usage.cached_input_tokens);
+      result.outputTokens = addTokens(result.outputTokens, usage.output_tokens);
+      const cost = asNumber(usage.cost_usd) ?? asNumber(event.total_cost_usd);
+      if (cost !== undefined) result.costUsd = (result.costUsd ?? 0) + cost;
+    } else if (event.type === "turn.failed") {
+      const error = event.error && typeof event.error === "object"
+        ? (event.error as Record<string, unknown>)
+        : {};
+      result.error = typeof error.message === "string" ? error.message : "codex turn failed";
+    } else if (event.type === "error" && typeof event.message === "string") {
+      result.error = event.message;
+    }
+  }
+  if (!recognized) {
+    result.output = stdout.trim();
+  }
+  return result;
+}
+
+/** Longest reasoning excerpt reported as activity. */
+const ACTIVITY_MAX_CHARS = 200;
+
+/**
+ * Reads one `codex exec --json` line for live progress: a completed agent
+ * message becomes `output` (that message's text) and a completed reasoning
+ * item becomes `activity` (flattened and truncated). Other lines are null.
+ */
+export function parseCodexProgressLine(line: string): RunnerExecutionProgress | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("{")) return null;
+  let event: Record<string, unknown>;
+  try {
+    event = JSON.parse(trimmed) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+  if (event.type !== "item.completed" || !event.item || typeof event.item !== "object") return null;
+  const item = event.item as Record<string, unknown>;
+  if (typeof item.text !== "string" || item.text.trim().length === 0) return null;
+  if (item.type === "agent_message") {
+    return { output: item.text };
+  }
+  if (item.type === "reasoning") {
+    const flat = item.text.replace(/\s+/g, " ").trim();
+    return {
+      activity: `Reasoning: ${flat.length <= ACTIVITY_MAX_CHARS ? flat : `${flat.slice(0, ACTIVITY_MAX_CHARS - 1)}…`}`,
+    };
+  }
+  return null;
+}
+
+/** Finds the codex binary by checking known installation paths. */
+function resolveCodexCommand(): { command: string; prefixArgs: string[] } {
+  const envOverride = process.env.CODEX_BIN?.trim();
+  const candidates = [
+    envOverride,
+    resolve(process.cwd(), "node_modules/.bin/codex"),
+    resolve(os.homedir(), ".local/bin/codex"),
+    "/usr/local/bin/codex",
+    "/opt/homebrew/bin/codex",
+  ].filter((value): value is string => Boolean(value));
+
+  for (const candidate of candidates) {
+    if (existsSync(candidate)) {
+      return { command: candidate, prefixArgs: [] };
+    }
+  }
+
+  return { command: "codex", prefixArgs: [] };
+}
+
+/** Assembles the CLI arguments for a non-interactive `codex exec` run. */
+function buildCodexArgs(opts: { prompt: string; model?: string }): string[] {
+  const args = ["exec", "--json", "--skip-git-repo-check"];
+  if (opts.model) {
+    args.push("--model", opts.model);
+  }
+  args.push("--", opts.prompt);
+  return args;
+}
+
+export class CodexCliExecutionBackend implements RunnerExecutionBackend {
+  readonly id = "codex-cli";
+  readonly usesWorkspace = true;
+  readonly defaultModel = "codex-cli";
+
+  canExecute(backend: string): boolean {
+    return normalizeExecutionBackend(backend) === "codex-cli";
+  }
+
+  async execute(request: RunnerExecutionRequest): Promise<RunnerExecutionResult> {
+    const bin = resolveCodexCommand();
+    const model = request.packet.execution?.model?.trim() || undefined;
+
+    const command = bin.command;
+    const args = [...bin.prefixArgs, ...buildCodexArgs({ prompt: request.prompt, model })];
+
+    const start = Date.now();
+    // Whitelist env vars — explicitly exclude secrets (FLUX_TOKEN, OPENCLAW_*)
+    const allowedEnv: Record<string, string> = {};
+    const envKeys = ["PATH", "HOME", "TMPDIR", "LANG", "TERM", "CODEX_BIN", "CODEX_HOME"] as const;
+    for (const key of envKeys) {
+      const val = process.env[key];
+      if (val !== undefined) allowedEnv[key] = val;
+    }
+
+    const child = spawn(command, args, {
+      cwd: request.workspaceDir ?? process.cwd(),
+      stdio: ["ignore", "pipe", "pipe"],
+      env: allowedEnv,
+    });
+
+    let stdout = "";
+    let stderr = "";
+    let pending = "";
+    let messages = "";
+    let activity: string | undefined;
+    const handleLine = (line: string) => {
+      const progress = parseCodexProgressLine(line);
+      if (!progress) return;
+      if (progress.output) messages += (messages.length > 0 ? "\n\n" : "") + progress.output;
+      if (progress.activity) activity = progress.activity;
+      request.onProgress?.({ ...(messages ? { output: messages } : {}), ...(activity ? { activity } : {}) });
+    };
+    child.stdout.on("data", (chunk: Buffer) => {
+      const text = chunk.toString();
+      stdout += text;
+      pending += text;
+      const lines = pending.split("\n");
+      pending = lines.pop() ?? "";
+      for (const line of lines) handleLine(line);
+    });
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+
+    let finished = false;
+    const killChild = () => {
+      if (finished) return;
+      finished = true;
+      terminateChildProcess(child);
+    };
+
+    request.abortSignal.addEventListener("abort", killChild, { once: true });
+
+    const exitCode: number | null = await new Promise((resolve) => {
+      child.on("close", (code) => resolve(code ?? null));
+      child.on("error", () => resolve(1));
+    });
+    finished = true;
+    request.abortSignal.removeEventListener("abort", killChild);
+
+    const durationMs = Math.max(0, Date.now() - start);
+
+    if (request.abortSignal.aborted) {
+      return {
+        status: "cancelled",
+        output: "Cancelled by user request",
+        durationMs,
+      };
+    }
+
+    const parsed = parseCodexCliOutput(stdout);
+    const artifacts = await collectOutputFiles(request);
+    if (exitCode !== 0 || parsed.error) {
+      const details =
+        parsed.error || stderr.trim() || stdout.trim() || `codex exited ${String(exitCode)}`;
+      return {
+        status: "failed",
+        output: `codex-cli failed: ${details}`,
+        durationMs,
+        errorKind: isTransientErrorMessage(details) ? "transient" : "permanent",
+        ...(artifacts.length > 0 ? { artifacts } : {}),
+      };
+    }
+
+    const tokensUsed =
+      parsed.inputTokens !== undefined || parsed.outputTokens !== undefined
+        ? (parsed.inputTokens ?? 0) + (parsed.outputTokens ?? 0)
+        : undefined;
+    const usageObj: Record<string, unknown> = {};
+    if (tokensUsed !== undefined) usageObj.tokensUsed = tokensUsed;
+    if (parsed.inputTokens !== undefined) usageObj.inputTokens = parsed.inputTokens;
+    if (parsed.cachedInputTokens !== undefined) usageObj.cachedInputTokens = parsed.cachedInputTokens;
+    if (parsed.outputTokens !== undefined) usageObj.outputTokens = parsed.outputTokens;
+    if (parsed.costUsd !== undefined) usageObj.costUsd = parsed.costUsd;
+    if (model) usageObj.model = model;
+
+    return {
+      status: "done",
+      output: parsed.output.trim().length > 0 ? parsed.output : "(empty response)",
+      tokensUsed,
+      costUsd: parsed.costUsd,
+      durationMs,
+      model: model || "codex-cli",
+      usageJson: Object.keys(usageObj).length > 0 ? JSON.stringify(usageObj) : undefined,
+      ...(artifacts.length > 0 ? { artifacts } : {}),
+    };
+  }
+}
@@ -7,10 +7,11 @@
  * protocol version.
  *
  * Config loading order:
- *   1. .env / .env.local (if present, for local dev ergonomics)
+ *   1. .env / .env.local in the working directory (for local dev ergonomics),
+ *      then ~/.flux/.env (where the installed service keeps secrets)
  *   2. FLUX_TOKEN, FLUX_HOST from env vars → fallback to ~/.flux/config.json
  *   3. OPENCLAW_* from env vars → fallback to ~/.openclaw/openclaw.json
- *   4. Optional env vars: FLUX_ORG_ID, FLUX_CADENCE_MINUTES, etc.
+ *   4. Optional env vars: FLUX_ORG_ID, FLUX_CADENCE_MINUTES, FLUX_MAX_CONCURRENCY, etc.
  *   5. SKILL.md fetch → frontmatter parse → orgId + MCP base resolution
  */
 import process from "node:process";
@@ -18,10 +19,15 @@ import { randomUUID } from "node:crypto";
 import { existsSync, readFileSync } from "node:fs";
 import { join } from "node:path";
 import { homedir } from "node:os";
+import util from "node:util";
 import YAML from "yaml";
 import type { RunnerConfig, SkillManifestFrontmatter } from "../types.js";
 import { VERSION } from "../version.js";
 import { readConfigFile } from "../config.js";
+import { normalizeExecutionBackend, normalizeFallbackBackend } from "./execution.js";
+import { parseWorkspaceRetention } from "./workspace.js";
+import { parseOtlpHeaders, parseTracingMode } from "./tracing.js";
+import { expandHomePath, loadRunnerFile, resolveRunnerFilePath } from "./runner_file.js";
 
 /** Reads a required environment variable or throws with a clear message. */
 function requiredEnv(name: string): string {
@@ -42,6 +48,79 @@ function parseNumberEnv(name: string, fallback: number): number {
   return Number.isFinite(n) ? n : fallback;
 }
 
+/** Parses a TCP port (1-65535) from an env var; anything else means "not set". */
+function parsePortEnv(name: string): number | undefined {
+  const raw = process.env[name]?.trim();
+  if (!raw) return undefined;
+  const n = Number(raw);
+  return Number.isInteger(n) && n >= 1 && n <= 65_535 ? n : undefined;
+}
+
+/** Reads a boolean env var (`1`/`true`), or null when unset. */
+function parseBooleanEnv(name: string): boolean | null {
+  const raw = process.env[name]?.trim();
+  if (!raw) return null;
+  return raw === "1" || raw.toLowerCase() === "true";
+}
+
+/** Normalizes backend names in a per-backend limit map, dropping malformed or non-positive entries. */
+function normalizeBackendLimits(entries: Array<[string, unknown]>): Record<string, number> {
+  const limits: Record<string, number> = {};
+  for (const [key, value] of entries) {
+    const backend = normalizeExecutionBackend(key);
+    const n = Number(typeof value === "string" ? value.trim() : value);
+    if (backend && Number.isFinite(n) && n >= 1) {
+      limits[backend] = Math.floor(n);
+    }
+  }
+  return limits;
+}
+
+/**
+ * Parses a per-backend limit map from an env var formatted as
+ * `backend=n,backend=n` (e.g. `pi=2,claude-cli=1`), or null when unset.
+ */
+function parseBackendLimitsEnv(name: string): Record<string, number> | null {
+  const raw = process.env[name]?.trim();
+  if (!raw) {
+    return null;
+  }
+  return normalizeBackendLimits(
+    raw.split(",").map((entry): [string, unknown] => {
+      const [key, value] = entry.split("=");
+      return [key, value];
+    }),
+  );
+}
+
+/** Normalizes a fallback chain, dropping empty entries and repeats. */
+function normalizeFallbackChain(names: string[]): string[] {
+  const chain: string[] = [];
+  for (const name of names) {
+    const backend = normalizeFallbackBackend(name);
+    if (backend && !chain.includes(backend)) chain.push(backend);
+  }
+  return chain;
+}
+
+/** Parses a backend chain from an env var formatted as `a,b,c`, or null when unset. */
+function parseFallbackChainEnv(name: string): string[] | null {
+  const raw = process.env[name]?.trim();
+  if (!raw) {
+    return null;
+  }
+  return normalizeFallbackChain(raw.split(","));
+}
+
+/** Parses a daemon log level, returning null for unknown values. */
+function parseLogLevel(raw: string | null | undefined): RunnerConfig["logLevel"] | null {
+  const normalized = raw?.trim().toLowerCase();
+  if (normalized === "info" || normalized === "warn" || normalized === "error") {
+    return normalized;
+  }
+  return null;
+}
+
 /** Strips trailing slashes from a URL base so paths can be appended cleanly. */
 function normalizeHttpBase(base: string): string {
   return base.replace(/\/+$/, "");
@@ -135,10 +214,14 @@ export async function fetchSkillManifest(
   return { url, body, frontmatter };
 }
 
+function openclawConfigPath(): string {
+  return join(homedir(), ".openclaw", "openclaw.json");
+}
+
 /** Reads OpenClaw config from ~/.openclaw/openclaw.json for runtime fallback. */
 function loadOpenclawConfig(): { url?: string; token?: string; password?: string; agentId?: string } {
   try {
-    const configPath = join(homedir(), ".openclaw", "openclaw.json");
+    const configPath = openclawConfigPath();
     if (!existsSync(configPath)) return {};
     const config = JSON.parse(readFileSync(configPath, "utf8")) as Record<string, unknown>;
     const gw = config.gateway as Record<string, unknown> | undefined;
@@ -153,22 +236,57 @@ function loadOpenclawConfig(): { url?: string; token?: string; password?: string
   } catch { return {}; }
 }
 
+/** `fluxhive daemon` flags; each one beats the env var and runner.yaml. */
+export type RunnerConfigOverrides = {
+  configPath?: string;
+  backend?: string;
+  maxConcurrency?: number;
+  cadenceMinutes?: number;
+  logLevel?: string;
+};
+
+/**
+ * Files loadRunnerConfig() reads, for the daemon to watch: runner.yaml,
+ * ~/.flux/config.json, and ~/.openclaw/openclaw.json.
+ */
+export function runnerConfigSources(overrides: RunnerConfigOverrides = {}): string[] {
+  return [
+    resolveRunnerFilePath(overrides.configPath),
+    join(homedir(), ".flux", "config.json"),
+    openclawConfigPath(),
+  ];
+}
+
+/**
+ * Loads an env file into process.env without overriding vars that are
+ * already set. A missing or unreadable file is skipped.
+ */
+function loadEnvFile(file: string): void {
+  if (typeof util.parseEnv !== "function") return;
+  let content: string;
+  try {
+    content = readFileSync(file, "utf8");
+  } catch {
+    return;
+  }
+  for (const [key, value] of Object.entries(util.parseEnv(content))) {
+    if (value !== undefined && process.env[key] === undefined) process.env[key] = value;
+  }
+}
+
 /**
  * Builds the complete runner configuration.
- * Loads .env files for local dev, reads FLUX_* env vars with fallbacks to
- * config files for secrets, fetches the SKILL.md, validates protocol version
+ * Loads .env files for local dev, then resolves each setting as
+ * flags > FLUX_* env vars > ~/.flux/runner.yaml > defaults (secrets fall back
+ * to config files instead), fetches the SKILL.md, validates protocol version
  * and orgId match, then returns a fully resolved RunnerConfig ready for the
- * main loop.
+ * main loop. An invalid runner.yaml throws RunnerFileError.
  */
-export async function loadRunnerConfig(): Promise<RunnerConfig> {
+export async function loadRunnerConfig(overrides: RunnerConfigOverrides = {}): Promise<RunnerConfig> {
   // Keep local dev ergonomic without overwriting already-exported vars.
-  if (typeof process.loadEnvFile === "function") {
-    try {
-      process.loadEnvFile(".env");
-      process.loadEnvFile(".env.local");
-    } catch {
-      // Ignore local env loading errors; required vars are validated below.
-    }
+  // ~/.flux/.env is loaded by absolute path: service units set no working directory.
+  for (const envFile of [".env", ".env.local", join(homedir(), ".flux", ".env")]) {
+    loadEnvFile(envFile);
   }
 
   // FLUX_TOKEN and FLUX_HOST: env vars first, then ~/.flux/config.json
@@ -178,20 +296,108 @@ export async function loadRunnerConfig(): Promise<RunnerConfig> {
   const fluxHost = process.env.FLUX_HOST?.trim() || configFile?.host;
   if (!fluxHost) throw new Error("Missing required FLUX_HOST. Set env var or run 'fluxhive access redeem'.");
 
+  const runnerFile = loadRunnerFile(resolveRunnerFilePath(overrides.configPath));
+  const file = runnerFile?.config ?? {};
+
   const fluxOrgId = process.env.FLUX_ORG_ID?.trim() || null;
   const runnerType = process.env.FLUX_RUNNER_TYPE?.trim() || "fluxhive-openclaw-runner";
   const runnerVersion = process.env.FLUX_RUNNER_VERSION?.trim() || VERSION;
   const runnerInstanceId = process.env.FLUX_RUNNER_ID?.trim() || randomUUID();
   const machineId = process.env.FLUX_MACHINE_ID?.trim() || process.env.HOSTNAME || "unknown";
-  const cadenceMinutes = Math.max(1, parseNumberEnv("FLUX_CADENCE_MINUTES", 15));
-  const pushReconnectMs = Math.max(250, parseNumberEnv("FLUX_PUSH_RECONNECT_MS", 5000));
+  const backend =
+    overrides.backend?.trim() || process.env.FLUX_BACKEND?.trim() || file.filters?.backend || undefined;
+  const streamId = process.env.FLUX_STREAM_ID?.trim() || file.filters?.streamId || undefined;
+  const costClass = process.env.FLUX_COST_CLASS?.trim() || file.filters?.costClass || undefined;
+  const allowDirectCli =
+    parseBooleanEnv("FLUX_ALLOW_DIRECT_CLI") ?? file.backends?.allowDirectCli ?? false;
+  const backendFallbackChain =
+    parseFallbackChainEnv("FLUX_BACKEND_FALLBACK") ??
+    normalizeFallbackChain(file.backends?.fallbackChain ?? []);
+  const healthCheckSeconds = Math.max(
+    5,
+    parseNumberEnv("FLUX_HEALTH_CHECK_SECONDS", file.backends?.healthCheckSeconds ?? 30),
+  );
+  const piAgentDirRaw = process.env.FLUX_PI_AGENT_DIR?.trim() || file.backends?.pi?.agentDir;
+  const cadenceMinutes = Math.max(
+    1,
+    overrides.cadenceMinutes ??
+      parseNumberEnv("FLUX_CADENCE_MINUTES", file.polling?.cadenceMinutes ?? 15),
+  );
+  const pushReconnectMs = Math.max(
+    250,
+    parseNumberEnv("FLUX_PUSH_RECONNECT_MS", file.polling?.pushReconnectMs ?? 5000),
+  );
+  const heartbeatSeconds = Math.max(
+    10,
+    parseNumberEnv("FLUX_HEARTBEAT_SECONDS", file.timeouts?.heartbeatSeconds ?? 30),
+  );
+  const executionMaxAttempts = Math.min(
+    10,
+    Math.max(
+      1,
+      Math.floor(parseNumberEnv("FLUX_EXECUTION_MAX_ATTEMPTS", file.execution?.maxAttempts ?? 3)),
+    ),
+  );
+  const outputRepairAttempts = Math.min(
+    5,
+    Math.max(
+      0,
+      Math.floor(
+        parseNumberEnv("FLUX_OUTPUT_REPAIR_ATTEMPTS", file.execution?.outputRepairAttempts ?? 0),
+      ),
+    ),
+  );
+  const logLevel =
+    parseLogLevel(overrides.logLevel) ??
+    parseLogLevel(process.env.FLUX_LOG_LEVEL) ??
+    file.logging?.level ??
+    "info";
+  const maxConcurrency = Math.max(
+    1,
+    Math.floor(
+      overrides.maxConcurrency ??
+        parseNumberEnv("FLUX_MAX_CONCURRENCY", file.concurrency?.max ?? 1),
+    ),
+  );
+  const backendConcurrency =
+    parseBackendLimitsEnv("FLUX_BACKEND_CONCURRENCY") ??
+    normalizeBackendLimits(Object.entries(file.concurrency?.perBackend ?? {}));
+  const workspaceDirRaw = process.env.FLUX_WORKSPACE_DIR?.trim() || file.workspaces?.dir;
+  const workspaceRetention =
+    parseWorkspaceRetention(process.env.FLUX_WORKSPACE_RETENTION) ??
+    file.workspaces?.retention ??
+    "keep-failed";
+  const workspaceMaxAgeHours = Math.max(
+    0,
+    parseNumberEnv("FLUX_WORKSPACE_MAX_AGE_HOURS", file.workspaces?.maxAgeHours ?? 72),
+  );
+  const shutdownGraceSeconds = Math.max(
+    0,
+    parseNumberEnv("FLUX_SHUTDOWN_GRACE_SECONDS", file.timeouts?.shutdownGraceSeconds ?? 60),
+  );
+  const metricsPort = parsePortEnv("FLUX_METRICS_PORT") ?? file.metrics?.port;
+  const metricsHost =
+    process.env.FLUX_METRICS_HOST?.trim() || file.metrics?.host || "127.0.0.1";
+  const tracing = parseTracingMode(process.env.FLUX_TRACING) ?? file.tracing?.exporter;
+  const otlpEndpoint =
+    process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT?.trim() ||
+    process.env.OTEL_EXPORTER_OTLP_ENDPOINT?.trim() ||
+    file.tracing?.endpoint ||
+    undefined;
+  const otlpHeaders = parseOtlpHeaders(process.env.OTEL_EXPORTER_OTLP_HEADERS);
+  const tracesFileRaw = process.env.FLUX_TRACES_FILE?.trim() || file.tracing?.file;
+  const tracesFile = tracesFileRaw
+    ? expandHomePath(tracesFileRaw)
+    : join(homedir(), ".flux", "traces.jsonl");
 
   // OpenClaw: env vars first, then ~/.openclaw/openclaw.json
   const oc = loadOpenclawConfig();
-  const openclawGatewayUrl = process.env.OPENCLAW_GATEWAY_URL?.trim() || oc.url || "";
+  const openclawGatewayUrl =
+    process.env.OPENCLAW_GATEWAY_URL?.trim() || file.backends?.openclaw?.gatewayUrl || oc.url || "";
   const openclawGatewayToken = process.env.OPENCLAW_GATEWAY_TOKEN?.trim() || oc.token;
   const openclawGatewayPassword = process.env.OPENCLAW_GATEWAY_PASSWORD?.trim() || oc.password;
-  const openclawAgentId = process.env.OPENCLAW_AGENT_ID?.trim() || oc.agentId;
+  const openclawAgentId =
+    process.env.OPENCLAW_AGENT_ID?.trim() || file.backends?.openclaw?.agentId || oc.agentId;
 
   const skill = await fetchSkillManifest(fluxHost, fluxOrgId, fluxToken);
   if (skill.frontmatter.protocolVersion !== "1") {
@@ -217,8 +423,34 @@ export async function loadRunnerConfig(): Promise<RunnerConfig> {
     runnerVersion,
     runnerInstanceId,
     machineId,
+    runnerConfigFile: runnerFile?.path,
+    backend,
+    streamId,
+    costClass,
+    routes: runnerFile?.config.routes ?? [],
+    budgets: runnerFile?.config.budgets ?? [],
+    allowDirectCli,
+    backendFallbackChain,
+    healthCheckSeconds,
+    piAgentDir: piAgentDirRaw ? expandHomePath(piAgentDirRaw) : undefined,
     cadenceMinutes,
     pushReconnectMs,
+    heartbeatSeconds,
+    executionMaxAttempts,
+    outputRepairAttempts,
+    logLevel,
+    maxConcurrency,
+    backendConcurrency,
+    workspaceDir: workspaceDirRaw ? expandHomePath(workspaceDirRaw) : undefined,
+    workspaceRetention,
+    workspaceMaxAgeHours,
+    shutdownGraceSeconds,
+    metricsPort,
+    metricsHost,
+    tracing,
+    otlpEndpoint,
+    otlpHeaders,
+    tracesFile,
     openclawGatewayUrl: openclawGatewayUrl || undefined,
     openclawGatewayToken: openclawGatewayToken || undefined,
     openclawGatewayPassword: openclawGatewayPassword || undefined,
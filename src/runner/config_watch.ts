@@ -0,0 +1,87 @@
+/**
+ * Watches the runner's config files and reports changes.
+ *
+ * ConfigWatcher watches each file's parent directory rather than the file
+ * itself, so it keeps working when an editor replaces the file atomically
+ * (write temp + rename) and when a file that didn't exist yet is created.
+ * Events are debounced: a burst of writes produces one `onChange` call with
+ * every path that changed. Directories that don't exist are skipped.
+ *
+ * The daemon reloads its configuration from `onChange` (and on SIGHUP).
+ */
+import { existsSync, watch, type FSWatcher } from "node:fs";
+import path from "node:path";
+
+export type ConfigWatcherOptions = {
+  paths: string[];
+  /** Quiet period after the last event before onChange fires. Defaults to 500ms. */
+  debounceMs?: number;
+  onChange: (changed: string[]) => void;
+  onError?: (error: unknown, dir: string) => void;
+};
+
+export class ConfigWatcher {
+  private readonly opts: ConfigWatcherOptions;
+  private readonly watchers: FSWatcher[] = [];
+  private readonly pending = new Set<string>();
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(opts: ConfigWatcherOptions) {
+    this.opts = opts;
+  }
+
+  /** Starts watching. Returns the directories actually being watched. */
+  start(): string[] {
+    const byDir = new Map<string, Set<string>>();
+    for (const filePath of this.opts.paths) {
+      const resolved = path.resolve(filePath);
+      const dir = path.dirname(resolved);
+      const names = byDir.get(dir) ?? new Set<string>();
+      names.add(path.basename(resolved));
+      byDir.set(dir, names);
+    }
+
+    const watched: string[] = [];
+    for (const [dir, names] of byDir) {
+      if (!existsSync(dir)) continue;
+      try {
+        const watcher = watch(dir, { persistent: false }, (_event, filename) => {
+          const name = filename?.toString();
+          if (name && names.has(name)) {
+            this.queue(path.join(dir, name));
+          }
+        });
+        watcher.on("error", (error) => this.opts.onError?.(error, dir));
+        this.watchers.push(watcher);
+        watched.push(dir);
+      } catch (error) {
+        this.opts.onError?.(error, dir);
+      }
+    }
+    return watched;
+  }
+
+  stop(): void {
+    for (const watcher of this.watchers.splice(0)) {
+      watcher.close();
+    }
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.pending.clear();
+  }
+
+  private queue(filePath: string): void {
+    this.pending.add(filePath);
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      const changed = [...this.pending];
+      this.pending.clear();
+      this.opts.onChange(changed);
+    }, Math.max(0, this.opts.debounceMs ?? 500));
+  }
+}
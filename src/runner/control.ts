@@ -0,0 +1,300 @@
+/**
+ * Local control and status API for the daemon.
+ *
+ * ControlServer serves a small JSON-over-HTTP API on a unix socket
+ * (`~/.flux/runner.sock`, mode 0600), so only the local user can reach it:
+ *   - GET  /status  — backends and their health, push state, in-flight tasks,
+ *                     last poll, counters
+ *   - POST /pause   — stop claiming new tasks (in-flight tasks keep running)
+ *   - POST /resume  — resume claiming and poll immediately
+ *   - POST /drain   — pause, then wait for in-flight tasks to finish
+ *   - POST /poll    — trigger an immediate poll
+ *
+ * requestControl() is the client side, used by `fluxhive runner status`.
+ */
+import http from "node:http";
+import net from "node:net";
+import { chmodSync, existsSync, mkdirSync, unlinkSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+export type RunnerControlState = "running" | "paused" | "draining";
+
+export type RunnerStatusTask = {
+  taskId: string;
+  backend: string;
+  startedAt: string;
+  elapsedMs: number;
+};
+
+/** A registered backend whose last health check failed. */
+export type RunnerStatusUnhealthyBackend = {
+  backend: string;
+  reason?: string;
+  since: string;
+};
+
+export type RunnerStatus = {
+  pid: number;
+  version: string;
+  runnerInstanceId: string;
+  startedAt: string;
+  uptimeMs: number;
+  state: RunnerControlState;
+  /** Healthy backends taking tasks. */
+  backends: string[];
+  /** Absent from daemons that predate health checks. */
+  unhealthyBackends?: RunnerStatusUnhealthyBackend[];
+  push: {
+    enabled: boolean;
+    connected: boolean;
+  };
+  maxConcurrency: number;
+  inFlight: RunnerStatusTask[];
+  lastPollAt: string | null;
+  counters: Record<string, number>;
+};
+
+/** Daemon callbacks behind each control endpoint. */
+export type ControlHandlers = {
+  status: () => RunnerStatus;
+  pause: () => void;
+  resume: () => void;
+  /** Resolves true once idle, false if tasks were still running after timeoutMs. */
+  drain: (timeoutMs: number) => Promise<boolean>;
+  poll: () => boolean;
+};
+
+export type ControlServerOptions = {
+  socketPath?: string;
+  handlers: ControlHandlers;
+  /** Drain timeout when the request doesn't specify one. */
+  defaultDrainTimeoutMs?: number;
+};
+
+/** Response body of POST /drain. */
+export type DrainResponse = {
+  idle: boolean;
+  status: RunnerStatus;
+};
+
+/** Thrown by requestControl when no daemon is listening. */
+export class ControlUnavailableError extends Error {
+  constructor(socketPath: string, cause?: unknown) {
+    super(`Runner daemon is not reachable at ${socketPath}`);
+    this.name = "ControlUnavailableError";
+    this.cause = cause;
+  }
+}
+
+/** The control socket path: FLUX_CONTROL_SOCKET or ~/.flux/runner.sock. */
+export function resolveControlSocketPath(explicit?: string): string {
+  return (
+    explicit?.trim() ||
+    process.env.FLUX_CONTROL_SOCKET?.trim() ||
+    path.join(os.homedir(), ".flux", "runner.sock")
+  );
+}
+
+/** Caps how much request body the server will read — commands carry tiny JSON. */
+const MAX_BODY_BYTES = 16 * 1024;
+
+function readJsonBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      const raw = Buffer.concat(chunks).toString("utf8").trim();
+      if (!raw) return resolve({});
+      try {
+        const parsed: unknown = JSON.parse(raw);
+        resolve(parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : {});
+      } catch {
+        reject(new Error("Request body is not valid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/** Resolves true if something is accepting connections on the socket. */
+function probeSocket(socketPath: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const conn = net.connect(socketPath);
+    conn.once("connect", () => {
+      conn.destroy();
+      resolve(true);
+    });
+    conn.once("error", () => resolve(false));
+  });
+}
+
+export class ControlServer {
+  private readonly opts: ControlServerOptions;
+  private readonly socketPath: string;
+  private server: http.Server | null = null;
+
+  constructor(opts: ControlServerOptions) {
+    this.opts = opts;
+    this.socketPath = resolveControlSocketPath(opts.socketPath);
+  }
+
+  getSocketPath(): string {
+    return this.socketPath;
+  }
+
+  /**
+   * Starts listening. A stale socket left by a crashed daemon is replaced;
+   * a socket another live daemon is serving is an error.
+   */
+  async start(): Promise<void> {
+    if (this.server) return;
+    mkdirSync(path.dirname(this.socketPath), { recursive: true, mode: 0o700 });
+    if (existsSync(this.socketPath)) {
+      if (await probeSocket(this.socketPath)) {
+        throw new Error(`Another runner is already listening on ${this.socketPath}`);
+      }
+      unlinkSync(this.socketPath);
+    }
+    const server = http.createServer((req, res) => {
+      void this.handle(req, res);
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.socketPath, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    chmodSync(this.socketPath, 0o600);
+    this.server = server;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+    try {
+      unlinkSync(this.socketPath);
+    } catch {
+      // Already gone.
+    }
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const { handlers } = this.opts;
+    const route = `${req.method ?? "GET"} ${(req.url ?? "/").split("?")[0]}`;
+    try {
+      switch (route) {
+        case "GET /status":
+          return sendJson(res, 200, handlers.status());
+        case "POST /pause":
+          handlers.pause();
+          return sendJson(res, 200, handlers.status());
+        case "POST /resume":
+          handlers.resume();
+          return sendJson(res, 200, handlers.status());
+        case "POST /poll":
+          return sendJson(res, 200, { triggered: handlers.poll() });
+        case "POST /drain": {
+          const body = await readJsonBody(req);
+          const timeoutMs =
+            typeof body.timeoutSeconds === "number" && body.timeoutSeconds >= 0
+              ? body.timeoutSeconds * 1000
+              : (this.opts.defaultDrainTimeoutMs ?? 60_000);
+          const idle = await handlers.drain(timeoutMs);
+          const response: DrainResponse = { idle, status: handlers.status() };
+          return sendJson(res, 200, response);
+        }
+        default:
+          return sendJson(res, 404, { error: `Unknown control endpoint: ${route}` });
+      }
+    } catch (error) {
+      sendJson(res, 500, { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+}
+
+export type ControlRequestOptions = {
+  socketPath?: string;
+  body?: Record<string, unknown>;
+  timeoutMs?: number;
+};
+
+/**
+ * Calls the daemon's control API. Throws ControlUnavailableError when no
+ * daemon is listening, or an Error carrying the server's message on non-2xx.
+ */
+export function requestControl<T>(
+  method: "GET" | "POST",
+  endpoint: string,
+  opts: ControlRequestOptions = {},
+): Promise<T> {
+  const socketPath = resolveControlSocketPath(opts.socketPath);
+  const payload = opts.body ? JSON.stringify(opts.body) : undefined;
+  return new Promise<T>((resolve, reject) => {
+    const req = http.request(
+      {
+        socketPath,
+        path: endpoint,
+        method,
+        headers: payload
+          ? { "content-type": "application/json", "content-length": Buffer.byteLength(payload) }
+          : undefined,
+        timeout: opts.timeoutMs ?? 5_000,
+      },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk: Buffer) => chunks.push(chunk));
+        res.on("end", () => {
+          const raw = Buffer.concat(chunks).toString("utf8");
+          let parsed: unknown;
+          try {
+            parsed = raw ? JSON.parse(raw) : {};
+          } catch {
+            return reject(new Error(`Invalid control response: ${raw.slice(0, 200)}`));
+          }
+          const status = res.statusCode ?? 0;
+          if (status < 200 || status >= 300) {
+            const message =
+              parsed && typeof parsed === "object" && typeof (parsed as { error?: unknown }).error === "string"
+                ? (parsed as { error: string }).error
+                : `HTTP ${status}`;
+            return reject(new Error(message));
+          }
+          resolve(parsed as T);
+        });
+      },
+    );
+    req.on("timeout", () => {
+      req.destroy(new Error(`Control request timed out: ${method} ${endpoint}`));
+    });
+    req.on("error", (error: NodeJS.ErrnoException) => {
+      if (error.code === "ENOENT" || error.code === "ECONNREFUSED") {
+        reject(new ControlUnavailableError(socketPath, error));
+      } else {
+        reject(error);
+      }
+    });
+    if (payload) req.write(payload);
+    req.end();
+  });
+}
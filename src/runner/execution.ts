@@ -7,8 +7,34 @@
  *
  * A task packet may have fields at the top level or nested under `task` —
  * the `packet*` helpers normalize both shapes into a single accessor.
+ *
+ * Subprocess backends share terminateChildProcess() so a cancelled or
+ * timed-out CLI gets SIGTERM first and SIGKILL if it doesn't exit.
+ *
+ * Failures are classified as transient (network errors, dropped gateway
+ * connections, rate limits, overloaded providers) or permanent, so the
+ * executor only retries the ones that might succeed on another attempt.
+ *
+ * Backends report produced files as RunnerArtifacts (content on disk or in
+ * memory); the executor uploads them and completes the task with their
+ * metadata.
+ *
+ * Backends with a `preflight()` can report that they can't take a task right
+ * now (OpenClaw gateway down, PI models file missing); when the task has a
+ * fallback chain, the executor then moves on to the next backend in it.
  */
-import type { McpCompleteStatus, McpTaskPacket } from "../types.js";
+import type { ChildProcess } from "node:child_process";
+import type { McpCompleteStatus, McpTaskInputFile, McpTaskPacket } from "../types.js";
+
+/** Partial progress a backend reports while a task is still running. */
+export type RunnerExecutionProgress = {
+  /** Short label for what the backend is doing, e.g. "executing" or "tool:bash". */
+  phase?: string;
+  /** Latest partial output so far (cumulative, not a delta). */
+  output?: string;
+  /** One-line digest of the agent's activity so far, e.g. "3 tool calls (bash ×2, read)". */
+  activity?: string;
+};
 
 /** Everything an execution backend needs to run a single task. */
 export type RunnerExecutionRequest = {
@@ -18,6 +44,38 @@ export type RunnerExecutionRequest = {
   prompt: string;
   startedAt: number;
   abortSignal: AbortSignal;
+  /** Per-task working directory, set when the backend uses workspaces. */
+  workspaceDir?: string;
+  /**
+   * The packet's timeout. The executor aborts the task when it elapses;
+   * backends that run remotely pass it on so the far side stops too.
+   */
+  timeoutMs?: number;
+  /** Called with partial output/phase; the executor throttles these into heartbeats. */
+  onProgress?: (progress: RunnerExecutionProgress) => void;
+};
+
+/** Whether a backend can take a task right now, and why not. */
+export type RunnerPreflightResult = { ok: true } | { ok: false; reason: string };
+
+/** Whether retrying a failed execution might succeed. */
+export type RunnerErrorKind = "transient" | "permanent";
+
+/**
+ * A file a backend produced. Content comes from `path` or `bytes`; an
+ * artifact with neither is reported by reference (`url`) only, and one with
+ * `error` is reported as unreadable.
+ */
+export type RunnerArtifact = {
+  name: string;
+  mimeType?: string;
+  path?: string;
+  bytes?: Uint8Array;
+  sizeBytes?: number;
+  /** Hex SHA-256 of the content; computed at upload when unset. */
+  sha256?: string;
+  url?: string;
+  error?: string;
 };
 
 /** What a backend returns after executing a task. */
@@ -29,6 +87,10 @@ export type RunnerExecutionResult = {
   durationMs?: number;
   model?: string;
   usageJson?: string;
+  /** For `failed` results: whether the executor may retry. Unset means permanent. */
+  errorKind?: RunnerErrorKind;
+  /** Files the run produced; uploaded and reported with the completion. */
+  artifacts?: RunnerArtifact[];
 };
 
 /**
@@ -37,8 +99,57 @@ export type RunnerExecutionResult = {
  */
 export interface RunnerExecutionBackend {
   readonly id: string;
+  /** Local backends set this to run each task in its own workspace directory. */
+  readonly usesWorkspace?: boolean;
+  /**
+   * The model a task without `execution.model` runs with, as results report
+   * it. Budgets scoped to a model use it before a task is claimed.
+   */
+  readonly defaultModel?: string;
   canExecute(backend: string): boolean;
   execute(request: RunnerExecutionRequest): Promise<RunnerExecutionResult>;
+  /** Classifies an error thrown by execute(). Defaults to classifyExecutionError(). */
+  classifyError?(error: unknown): RunnerErrorKind;
+  /** Checked before a task with a fallback chain runs here; a failure moves on to the next backend. */
+  preflight?(): Promise<RunnerPreflightResult>;
+}
+
+/** Error codes for network failures that may clear up on their own. */
+const TRANSIENT_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "ENETUNREACH",
+  "EHOSTUNREACH",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+const TRANSIENT_MESSAGE =
+  /rate.?limit|too many requests|\b429\b|\b50[234]\b|overloaded|temporarily unavailable|service unavailable|bad gateway|gateway time-?out|socket hang up|connection (?:reset|refused|closed)|network error|fetch failed/i;
+
+/** True if an error message or CLI output reads like a transient failure (rate limit, 5xx, network). */
+export function isTransientErrorMessage(message: string): boolean {
+  return TRANSIENT_MESSAGE.test(message);
+}
+
+/**
+ * Default classification for errors thrown by a backend: network error codes
+ * (on the error or its `cause`) and transient-looking messages are transient,
+ * anything else is permanent.
+ */
+export function classifyExecutionError(error: unknown): RunnerErrorKind {
+  for (let current: unknown = error, depth = 0; current && depth < 3; depth += 1) {
+    const code = (current as { code?: unknown }).code;
+    if (typeof code === "string" && TRANSIENT_ERROR_CODES.has(code)) return "transient";
+    const message = current instanceof Error ? current.message : String(current);
+    if (isTransientErrorMessage(message)) return "transient";
+    current = current instanceof Error ? current.cause : undefined;
+  }
+  return "permanent";
 }
 
 /**
@@ -64,6 +175,16 @@ export function normalizeExecutionBackend(raw: string | null | undefined): strin
   return normalized;
 }
 
+/**
+ * Normalizes a backend name in a fallback chain. Unlike normalizeExecutionBackend,
+ * "openclaw" is kept, so a chain can name the OpenClaw backend itself
+ * (openclaw → claude-cli → pi) rather than whichever backend runs claude-cli.
+ */
+export function normalizeFallbackBackend(raw: string | null | undefined): string | null {
+  if (typeof raw === "string" && raw.trim().toLowerCase() === "openclaw") return "openclaw";
+  return normalizeExecutionBackend(raw);
+}
+
 // --- Packet field accessors ---
 // McpTaskPacket fields can live at the top level or nested under `task`.
 // These helpers check both locations so callers don't need to worry about shape.
@@ -88,6 +209,48 @@ export function packetInput(packet: McpTaskPacket): string | undefined {
   return packet.task?.input;
 }
 
+/** Declared input files (`inputFiles`) that name a URL or a blob ref. */
+export function packetInputFiles(packet: McpTaskPacket): McpTaskInputFile[] {
+  const files = packet.inputFiles;
+  if (!Array.isArray(files)) return [];
+  return files.filter(
+    (file): file is McpTaskInputFile =>
+      typeof file === "object" &&
+      file !== null &&
+      ((typeof file.url === "string" && file.url.trim().length > 0) ||
+        (typeof file.blobRef === "string" && file.blobRef.trim().length > 0)),
+  );
+}
+
+/** Declared output files (`execution.outputFiles`), trimmed, without blanks. */
+export function packetOutputFiles(packet: McpTaskPacket): string[] {
+  const files = packet.execution?.outputFiles;
+  if (!Array.isArray(files)) return [];
+  return files
+    .filter((file): file is string => typeof file === "string")
+    .map((file) => file.trim())
+    .filter((file) => file.length > 0);
+}
+
+/**
+ * The task timeout in ms: `execution.timeoutSec`, else `policy.taskTimeoutSeconds`.
+ * Null when neither is a positive number.
+ */
+export function packetTimeoutMs(packet: McpTaskPacket): number | null {
+  const fromExecution =
+    typeof packet.execution?.timeoutSec === "number" && Number.isFinite(packet.execution.timeoutSec)
+      ? packet.execution.timeoutSec
+      : null;
+  const fromPolicy =
+    typeof packet.policy?.taskTimeoutSeconds === "number" &&
+    Number.isFinite(packet.policy.taskTimeoutSeconds)
+      ? packet.policy.taskTimeoutSeconds
+      : null;
+  const seconds = fromExecution ?? fromPolicy;
+  if (seconds === null || seconds <= 0) return null;
+  return Math.floor(seconds * 1000);
+}
+
 /**
  * Builds the final prompt string to send to the execution backend.
  * Prefers `packet.prompt.rendered` (server-rendered). Falls back to
@@ -134,3 +297,32 @@ export function resolvePacketBackend(
     "claude-cli"
   );
 }
+
+/** How long a subprocess gets to exit after SIGTERM before it is sent SIGKILL. */
+export const CHILD_KILL_GRACE_MS = 5_000;
+
+/**
+ * Stops a subprocess: SIGTERM now, SIGKILL if it hasn't closed within
+ * graceMs. The timer doesn't keep the process alive.
+ */
+export function terminateChildProcess(child: ChildProcess, graceMs = CHILD_KILL_GRACE_MS): void {
+  let closed = false;
+  const escalate = setTimeout(() => {
+    if (closed) return;
+    try {
+      child.kill("SIGKILL");
+    } catch {
+      // already gone
+    }
+  }, graceMs);
+  escalate.unref?.();
+  child.once("close", () => {
+    closed = true;
+    clearTimeout(escalate);
+  });
+  try {
+    child.kill("SIGTERM");
+  } catch {
+    // already gone
+  }
+}
@@ -7,20 +7,70 @@
  *   - 409 conflicts (task already claimed by another runner)
  *   - Missing packets (fails gracefully)
  *   - Unsupported backends (reports failure)
+ *   - Fallback chains: when the packet's backend isn't registered or fails
+ *     its preflight, the next available backend in `execution.fallbackBackends`
+ *     (or the runner's chain) runs the task, recorded as `fallback` in usageJson
  *   - Heartbeat-driven abort/cancel signals
+ *   - Packet timeouts (`execution.timeoutSec` / `policy.taskTimeoutSeconds`)
+ *     for every backend: the task is aborted when its time is up and reported
+ *     as failed with `timedOut` in its usage; a backend that ignores the abort
+ *     is abandoned after a grace period
+ *   - Throttled progress heartbeats carrying the backend's partial output
+ *     and, when it reports one, a digest of its activity
  *   - OpenClaw approval errors (escalates to human)
+ *   - Retrying transient backend failures (network errors, dropped gateway
+ *     connections, rate limits) with backoff, within the packet's timeout;
+ *     every attempt is listed in the completion's usageJson
+ *   - Validating `done` output against the packet's `execution.outputSchemaJson`
+ *     for every backend, re-prompting with the errors up to `outputRepairAttempts`
+ *     times before failing the task
+ *   - Charging usage to budgets, escalating the task that exhausts one when
+ *     the budget asks for it
+ *   - Per-task workspaces for local backends (created before, released after)
+ *   - Fetching the packet's input files into the workspace (or, without one,
+ *     resolving their URLs) and listing them in the prompt
+ *   - Uploading the artifacts a backend returns before completing the task,
+ *     which then reports their metadata (ids, sizes, sha256)
+ *   - A durable journal of claimed sessions, so a crash mid-task can be reconciled
+ *   - An on-disk outbox for completions that can't be delivered right now
+ *   - Aborting every running task at shutdown (`abortAll`), reported as cancelled
+ *   - Swapping backends, filters, and routes at runtime (`reconfigure`) without
+ *     touching running tasks, which keep the backend they started on
+ *   - Optional Prometheus metrics for claims, completions, duration, usage, heartbeats
+ *   - Route overrides (backend, model) applied to the claimed packet
+ *   - A trace per task run: spans for claim, backend execution, each heartbeat,
+ *     and completion, with the trace context sent to the Flux API
  */
-import type { FluxMcpClient } from "./client.js";
-import { McpHttpError } from "./client.js";
-import type { McpTaskPacket } from "../types.js";
+import type { CompleteTaskResult, FluxMcpClient, RetryPolicy } from "./client.js";
+import { McpHttpError, computeBackoffMs, isTransientRequestError } from "./client.js";
+import type { McpCompleteStatus, McpTaskPacket } from "../types.js";
 import {
+  type RunnerErrorKind,
   type RunnerExecutionBackend,
+  type RunnerExecutionProgress,
+  type RunnerExecutionRequest,
+  type RunnerExecutionResult,
+  type RunnerPreflightResult,
+  classifyExecutionError,
+  normalizeFallbackBackend,
+  packetInputFiles,
   packetTaskId,
   packetTaskType,
+  packetTimeoutMs,
   renderPrompt,
   resolvePacketBackend,
 } from "./execution.js";
 import { isApprovalError } from "./openclaw_backend.js";
+import type { TaskJournal } from "./journal.js";
+import type { CompletionOutbox } from "./outbox.js";
+import type { TaskWorkspace, WorkspaceManager } from "./workspace.js";
+import { type MaterializedInputFile, inputFilesPrompt, materializeInputFiles } from "./inputs.js";
+import type { RunnerMetrics } from "./metrics.js";
+import { SpanKind, Tracer, type Span } from "./tracing.js";
+import type { RoutingTable } from "./routing.js";
+import { packetBudgetSubject, type BudgetStatus, type BudgetTracker } from "./budget.js";
+import { compileOutputSchema, repairPrompt } from "./output_schema.js";
+import { uploadArtifacts } from "./artifacts.js";
 
 export type TaskExecutorOptions = {
   fluxClient: FluxMcpClient;
@@ -31,129 +81,940 @@ export type TaskExecutorOptions = {
   machineId: string;
   backend?: string;
   heartbeatMs?: number;
+  /** Minimum gap between progress-triggered heartbeats. Defaults to 5s. */
+  progressIntervalMs?: number;
+  /**
+   * How long a timed-out backend gets to stop after the abort before the
+   * task is completed without it. Defaults to 10s.
+   */
+  timeoutGraceMs?: number;
+  /**
+   * How many times output that fails `execution.outputSchemaJson` is sent back
+   * to the backend for repair before the task fails. Defaults to 0.
+   */
+  outputRepairAttempts?: number;
+  /**
+   * Retries for transient backend failures; `maxAttempts` includes the first.
+   * Defaults to 3 attempts with a 2s base delay, capped at 30s.
+   */
+  retry?: Partial<RetryPolicy>;
+  /**
+   * Ordered backend chain, e.g. `["openclaw", "claude-cli", "pi"]`. A task
+   * whose backend is in the chain can fall back to the backends after it.
+   * A packet's `execution.fallbackBackends` takes precedence.
+   */
+  fallbackChain?: string[];
+  workspaces?: WorkspaceManager;
+  journal?: TaskJournal;
+  outbox?: CompletionOutbox;
+  metrics?: RunnerMetrics;
+  /** Defaults to a tracer without an exporter (spans are not recorded). */
+  tracer?: Tracer;
+  /** Applies the matching route's backend/model overrides to claimed packets. */
+  routing?: RoutingTable;
+  budget?: BudgetTracker;
+};
+
+/** Settings a config reload can change; running tasks keep what they started with. */
+export type TaskExecutorReconfigure = Partial<
+  Pick<
+    TaskExecutorOptions,
+    | "executionBackends"
+    | "backend"
+    | "heartbeatMs"
+    | "routing"
+    | "outputRepairAttempts"
+    | "retry"
+    | "fallbackChain"
+  >
+>;
+
+/** A task executing on a backend, with the handle that aborts it. */
+type RunningTask = {
+  backend: RunnerExecutionBackend;
+  abort: (reason: string) => void;
+};
+
+/** A backend passed over on the way down a fallback chain. */
+type SkippedBackend = {
+  backend: string;
+  reason: string;
 };
 
+/** The backend chosen for a task, and the ones skipped before it. */
+type BackendSelection = {
+  backend: RunnerExecutionBackend | null;
+  /** The backend the packet asked for. */
+  requested: string;
+  skipped: SkippedBackend[];
+};
+
+/** One backend call, as recorded in usageJson when a task needed more than one. */
+type ExecutionAttempt = {
+  attempt: number;
+  /** `error` when the backend threw instead of returning a result. */
+  status: McpCompleteStatus | "error";
+  errorKind?: RunnerErrorKind;
+  error?: string;
+  durationMs: number;
+  /** Backoff before the next attempt. */
+  retryInMs?: number;
+};
+
+const DEFAULT_EXECUTION_RETRY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 2_000,
+  maxDelayMs: 30_000,
+};
+
+/** Error text kept per attempt in usageJson. */
+const ATTEMPT_ERROR_MAX_CHARS = 200;
+
+/** Resolves after ms, or as soon as the signal aborts. */
+function sleepUnlessAborted(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done, { once: true });
+  });
+}
+
+/** Progress text sent with heartbeats is capped to its most recent characters. */
+const PROGRESS_MAX_CHARS = 2_000;
+
+/** Keeps the tail of partial output — the most recent text is what watchers care about. */
+function tailProgress(output: string): string {
+  if (output.length <= PROGRESS_MAX_CHARS) return output;
+  return `…${output.slice(output.length - PROGRESS_MAX_CHARS + 1)}`;
+}
+
+/** Heartbeat progress: the activity digest on its own line, then the output tail. */
+function heartbeatProgress(activity: string | undefined, output: string | undefined): string | undefined {
+  if (!activity) return output;
+  return output ? `Activity: ${activity}\n\n${output}` : `Activity: ${activity}`;
+}
+
+/** Usage of a repair attempt added to the attempts before it; the last attempt's model and usageJson win. */
+function sumAttempts(
+  previous: RunnerExecutionResult,
+  next: RunnerExecutionResult,
+  startedAt: number,
+): RunnerExecutionResult {
+  const add = (a?: number, b?: number) => (a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0));
+  return {
+    ...next,
+    tokensUsed: add(previous.tokensUsed, next.tokensUsed),
+    costUsd: add(previous.costUsd, next.costUsd),
+    durationMs: Math.max(0, Date.now() - startedAt),
+    model: next.model ?? previous.model,
+  };
+}
+
+/** Adds fields to a backend's usageJson; a value that isn't a JSON object is kept under `backend`. */
+function mergeUsageJson(usageJson: string | undefined, fields: Record<string, unknown>): string {
+  let base: Record<string, unknown> = {};
+  if (usageJson) {
+    try {
+      const parsed: unknown = JSON.parse(usageJson);
+      base = parsed && typeof parsed === "object" && !Array.isArray(parsed)
+        ? (parsed as Record<string, unknown>)
+        : { backend: parsed };
+    } catch {
+      base = { backend: usageJson };
+    }
+  }
+  return JSON.stringify({ ...base, ...fields });
+}
+
 export class TaskExecutor {
-  private readonly opts: TaskExecutorOptions;
+  private opts: TaskExecutorOptions;
+  /** Tasks currently executing, keyed by task ID. */
+  private readonly running = new Map<string, RunningTask>();
+  /** Callers of whenBackendIdle() waiting for a backend's last task to finish. */
+  private backendIdleWaiters: Array<{ backend: RunnerExecutionBackend; resolve: () => void }> = [];
+  /** Completions reported (or queued) by this executor, by status. */
+  private readonly completed: Record<McpCompleteStatus, number> = {
+    done: 0,
+    failed: 0,
+    cancelled: 0,
+  };
+
+  private readonly tracer: Tracer;
 
   constructor(opts: TaskExecutorOptions) {
     this.opts = opts;
+    this.tracer = opts.tracer ?? new Tracer({ serviceName: "fluxhive-runner" });
+  }
+
+  /** Number of tasks currently executing on a backend. */
+  get activeCount(): number {
+    return this.running.size;
+  }
+
+  /** Counts of completions reported by this executor, by status. */
+  getCompletionCounts(): Record<McpCompleteStatus, number> {
+    return { ...this.completed };
+  }
+
+  /**
+   * Aborts every executing task; each is completed as cancelled with the
+   * given reason as its output. Returns how many tasks were aborted.
+   */
+  abortAll(reason: string): number {
+    const tasks = [...this.running.values()];
+    for (const task of tasks) {
+      task.abort(reason);
+    }
+    return tasks.length;
+  }
+
+  /**
+   * Applies reloaded settings to tasks claimed from now on. A backend dropped
+   * from the list stays in use by the tasks already running on it.
+   */
+  reconfigure(update: TaskExecutorReconfigure): void {
+    this.opts = { ...this.opts, ...update };
+  }
+
+  /** Resolves once no running task uses the backend, e.g. before closing its connection. */
+  whenBackendIdle(backend: RunnerExecutionBackend): Promise<void> {
+    if (!this.isBackendBusy(backend)) return Promise.resolve();
+    return new Promise((resolve) => {
+      this.backendIdleWaiters.push({ backend, resolve });
+    });
+  }
+
+  private isBackendBusy(backend: RunnerExecutionBackend): boolean {
+    for (const task of this.running.values()) {
+      if (task.backend === backend) return true;
+    }
+    return false;
+  }
+
+  private settleBackendIdleWaiters(): void {
+    if (this.backendIdleWaiters.length === 0) return;
+    const waiting: typeof this.backendIdleWaiters = [];
+    for (const waiter of this.backendIdleWaiters) {
+      if (this.isBackendBusy(waiter.backend)) {
+        waiting.push(waiter);
+      } else {
+        waiter.resolve();
+      }
+    }
+    this.backendIdleWaiters = waiting;
+  }
+
+  /**
+   * True when a task requesting `requested` can run here: a registered
+   * backend handles it, or a later entry of its fallback chain (the
+   * packet's, when given, else the runner's) is registered.
+   */
+  supportsBackend(requested: string, packet?: McpTaskPacket): boolean {
+    if (this.opts.executionBackends.some((backend) => backend.canExecute(requested))) return true;
+    return this.fallbackNames(packet?.execution?.fallbackBackends, requested, undefined).some(
+      (name) => this.findFallbackBackend(name) !== undefined,
+    );
+  }
+
+  /** The model a task requesting `requested` runs with when it names none, if known. */
+  defaultModel(requested: string): string | undefined {
+    return this.opts.executionBackends.find((backend) => backend.canExecute(requested))?.defaultModel;
+  }
+
+  /** A fallback entry's backend: the one with that id, else the first that can execute it. */
+  private findFallbackBackend(name: string): RunnerExecutionBackend | undefined {
+    const backends = this.opts.executionBackends;
+    return (
+      backends.find((backend) => backend.id === name) ??
+      (name === "openclaw" ? undefined : backends.find((backend) => backend.canExecute(name)))
+    );
+  }
+
+  /**
+   * The backends to fall back to, in order: the packet's own chain, else
+   * the entries after the requested backend in the runner's chain.
+   */
+  private fallbackNames(
+    fromPacket: string[] | undefined,
+    requested: string,
+    primary: RunnerExecutionBackend | undefined,
+  ): string[] {
+    const normalize = (names: string[]) =>
+      names.map(normalizeFallbackBackend).filter((name): name is string => Boolean(name));
+    if (Array.isArray(fromPacket) && fromPacket.length > 0) return normalize(fromPacket);
+    const chain = normalize(this.opts.fallbackChain ?? []);
+    const index = chain.findIndex((name) => name === requested || name === primary?.id);
+    return index < 0 ? [] : chain.slice(index + 1);
+  }
+
+  /**
+   * Finds the first registered backend that can handle this packet's requested
+   * backend. With a fallback chain, each candidate's preflight must pass too;
+   * candidates that aren't registered or fail it are skipped in order.
+   */
+  private async resolveExecutionBackend(packet: McpTaskPacket): Promise<BackendSelection> {
+    const requested = resolvePacketBackend(packet, this.opts.backend) ?? "unknown";
+    const primary = this.opts.executionBackends.find((backend) => backend.canExecute(requested));
+    const fallbacks = this.fallbackNames(packet.execution?.fallbackBackends, requested, primary);
+    if (fallbacks.length === 0) {
+      return { backend: primary ?? null, requested, skipped: [] };
+    }
+
+    const skipped: SkippedBackend[] = [];
+    const tried = new Set<RunnerExecutionBackend>();
+    for (const [index, name] of [requested, ...fallbacks].entries()) {
+      const backend = index === 0 ? primary : this.findFallbackBackend(name);
+      if (!backend) {
+        skipped.push({ backend: name, reason: "not available on this runner" });
+        continue;
+      }
+      if (tried.has(backend)) continue;
+      tried.add(backend);
+      let preflight: RunnerPreflightResult;
+      try {
+        preflight = (await backend.preflight?.()) ?? { ok: true };
+      } catch (error) {
+        preflight = { ok: false, reason: error instanceof Error ? error.message : String(error) };
+      }
+      if (preflight.ok) return { backend, requested, skipped };
+      skipped.push({ backend: backend.id, reason: preflight.reason });
+    }
+    return { backend: null, requested, skipped };
+  }
+
+  /** Applies a journal update; journal I/O failures are logged but never fail the task. */
+  private journalUpdate(taskId: string, update: (journal: TaskJournal) => void): void {
+    if (!this.opts.journal) return;
+    try {
+      update(this.opts.journal);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn(`[runner] journal warning for ${taskId}: ${String(error)}`);
+    }
+  }
+
+  /**
+   * Reports completion, journaling the result first so it can be re-delivered
+   * after a crash. If delivery still fails transiently after the client's
+   * retries, the result moves to the outbox; permanent rejections throw.
+   */
+  private async completeTask(
+    taskId: string,
+    sessionId: string,
+    result: CompleteTaskResult,
+    backend = "unknown",
+  ): Promise<void> {
+    this.journalUpdate(taskId, (journal) => journal.markCompleting(taskId, result));
+    await this.tracer.trace(
+      "task.complete",
+      { kind: SpanKind.CLIENT, attributes: { "flux.task.status": result.status } },
+      async (span) => {
+        try {
+          await this.opts.fluxClient.completeTask(taskId, sessionId, result);
+        } catch (error) {
+          if (!this.opts.outbox || !isTransientRequestError(error)) {
+            throw error;
+          }
+          // If the outbox write itself fails this throws, leaving the journal entry in place.
+          this.opts.outbox.enqueue(taskId, sessionId, result, error);
+          span.recordError(error).setAttribute("runner.outbox.queued", true);
+          // eslint-disable-next-line no-console
+          console.warn(`[runner] completion for ${taskId} queued in outbox: ${String(error)}`);
+        }
+      },
+    );
+    this.completed[result.status] += 1;
+    this.opts.metrics?.completions.inc({ status: result.status, backend });
+    this.journalUpdate(taskId, (journal) => journal.remove(taskId));
+  }
+
+  /**
+   * Charges a result's usage to the budgets; returns those it exhausted.
+   * `backend` is the fallback that ran, when it wasn't the requested one.
+   */
+  private chargeBudget(
+    packet: McpTaskPacket,
+    result: RunnerExecutionResult,
+    backend?: string,
+  ): BudgetStatus[] {
+    if (!this.opts.budget) return [];
+    const subject = packetBudgetSubject(packet, backend ?? resolvePacketBackend(packet, this.opts.backend));
+    return this.opts.budget.record(
+      { ...subject, model: result.model || subject.model },
+      { tokensUsed: result.tokensUsed, costUsd: result.costUsd },
+    );
+  }
+
+  /**
+   * Escalates a task whose result exhausted budgets that ask for it. Runs
+   * before the task is completed, while its session is still open; failures
+   * are logged and never fail the task.
+   */
+  private async escalateBudgets(taskId: string, sessionId: string, exhausted: BudgetStatus[]): Promise<void> {
+    for (const budget of exhausted) {
+      if (!budget.escalate) continue;
+      const limits = [
+        budget.maxTokens !== undefined ? `${budget.tokensUsed}/${budget.maxTokens} tokens` : null,
+        budget.maxCostUsd !== undefined
+          ? `$${budget.costUsd.toFixed(2)}/$${budget.maxCostUsd.toFixed(2)}`
+          : null,
+      ].filter(Boolean);
+      try {
+        await this.opts.fluxClient.escalateTask(
+          taskId,
+          sessionId,
+          `Runner ${budget.period} budget "${budget.name}" exhausted (${limits.join(", ")})`,
+          `Raise the budget in runner.yaml or wait until ${budget.resetsAt}; matching tasks are not claimed until then`,
+        );
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.warn(`[runner] budget escalation for ${taskId} failed (${budget.name}): ${String(error)}`);
+      }
+    }
+  }
+
+  /**
+   * Runs one backend call, retrying transient failures with backoff. Retrying
+   * stops when attempts run out, the task is aborted, or the next attempt
+   * couldn't start before the packet's timeout; the last failure is then
+   * returned (or thrown) as is. Usage from failed attempts is added to the
+   * result, and every attempt is appended to `attempts`.
+   */
+  private async executeWithRetry(
+    backend: RunnerExecutionBackend,
+    request: RunnerExecutionRequest,
+    attempts: ExecutionAttempt[],
+  ): Promise<RunnerExecutionResult> {
+    const policy = { ...DEFAULT_EXECUTION_RETRY, ...this.opts.retry };
+    let spent: RunnerExecutionResult | undefined;
+    for (let attempt = 1; ; attempt += 1) {
+      const attemptStart = Date.now();
+      let result: RunnerExecutionResult | undefined;
+      let thrown: unknown;
+      try {
+        result = await backend.execute(request);
+      } catch (error) {
+        thrown = error;
+      }
+      const record: ExecutionAttempt = {
+        attempt: attempts.length + 1,
+        status: result ? (result.status ?? "done") : "error",
+        durationMs: Math.max(0, Date.now() - attemptStart),
+      };
+      if (!result) {
+        record.errorKind = backend.classifyError?.(thrown) ?? classifyExecutionError(thrown);
+        record.error = (thrown instanceof Error ? thrown.message : String(thrown)).slice(0, ATTEMPT_ERROR_MAX_CHARS);
+      } else if (result.status === "failed") {
+        record.errorKind = result.errorKind ?? "permanent";
+        record.error = result.output?.slice(0, ATTEMPT_ERROR_MAX_CHARS);
+      }
+      attempts.push(record);
+
+      const delayMs = computeBackoffMs(attempt - 1, policy);
+      const deadline = request.timeoutMs !== undefined ? request.startedAt + request.timeoutMs : Infinity;
+      const retry =
+        record.errorKind === "transient" &&
+        attempt < policy.maxAttempts &&
+        !request.abortSignal.aborted &&
+        Date.now() + delayMs < deadline;
+      if (retry) {
+        record.retryInMs = delayMs;
+        this.opts.metrics?.executionRetries.inc({ backend: backend.id });
+        await sleepUnlessAborted(delayMs, request.abortSignal);
+      }
+      if (!retry || request.abortSignal.aborted) {
+        if (!result) throw thrown;
+        return spent ? sumAttempts(spent, result, request.startedAt) : result;
+      }
+      if (result) {
+        spent = spent ? sumAttempts(spent, result, request.startedAt) : result;
+      }
+    }
   }
 
-  /** Finds the first registered backend that can handle this packet's requested backend. */
-  private resolveExecutionBackend(packet: McpTaskPacket): RunnerExecutionBackend | null {
-    const requested = resolvePacketBackend(packet, this.opts.backend);
-    if (!requested) return null;
-    return this.opts.executionBackends.find((backend) => backend.canExecute(requested)) ?? null;
+  /**
+   * Runs the backend and validates a `done` result against the packet's
+   * output schema. Invalid output is sent back with the errors while repair
+   * attempts remain; after that the result becomes a failure. Usage from
+   * every attempt is summed, and `outputRepairs` is added to usageJson.
+   */
+  private async executeValidated(
+    backend: RunnerExecutionBackend,
+    request: RunnerExecutionRequest,
+    attempts: ExecutionAttempt[],
+  ): Promise<RunnerExecutionResult> {
+    const schemaJson = request.packet.execution?.outputSchemaJson?.trim();
+    // An unusable schema fails the task before the backend spends anything on it.
+    const validate = schemaJson ? compileOutputSchema(schemaJson) : null;
+    let result = await this.executeWithRetry(backend, request, attempts);
+    if (!schemaJson || !validate) return result;
+
+    const maxRepairs = Math.max(0, Math.floor(this.opts.outputRepairAttempts ?? 0));
+    let repairs = 0;
+    while ((result.status ?? "done") === "done" && !request.abortSignal.aborted) {
+      const output = result.output ?? "";
+      const error = validate(output);
+      if (!error) break;
+      if (repairs >= maxRepairs) {
+        result = {
+          ...result,
+          status: "failed",
+          output: `Output validation failed${repairs > 0 ? ` after ${repairs} repair attempt(s)` : ""}: ${error}`,
+        };
+        break;
+      }
+      repairs += 1;
+      const next = await this.executeWithRetry(
+        backend,
+        { ...request, prompt: repairPrompt(request.prompt, schemaJson, output, error) },
+        attempts,
+      );
+      result = sumAttempts(result, next, request.startedAt);
+    }
+    return repairs > 0
+      ? { ...result, usageJson: mergeUsageJson(result.usageJson, { outputRepairs: repairs }) }
+      : result;
+  }
+
+  /** Records execution duration and usage metrics once a backend has finished. */
+  private recordExecution(
+    backend: string,
+    status: McpCompleteStatus,
+    durationMs: number,
+    result?: RunnerExecutionResult,
+  ): void {
+    const metrics = this.opts.metrics;
+    if (!metrics) return;
+    metrics.executionDuration.observe({ backend, status }, durationMs / 1000);
+    const model = result?.model ?? "unknown";
+    if (typeof result?.tokensUsed === "number") {
+      metrics.tokens.inc({ backend, model }, result.tokensUsed);
+    }
+    if (typeof result?.costUsd === "number") {
+      metrics.costUsd.inc({ backend, model }, result.costUsd);
+    }
   }
 
   /**
    * Claims a task by ID, executes it, and reports the result.
    * If the claim returns 409 (already claimed), silently returns.
    * An optional hintedPacket is used as fallback if the claim response omits the packet.
+   * Each call is one trace, rooted at a `task.run` span.
    */
   async claimAndExecuteTask(taskId: string, hintedPacket?: McpTaskPacket): Promise<void> {
-    let claim:
-      | {
-          sessionId: string;
-          packet?: McpTaskPacket;
+    await this.tracer.trace(
+      "task.run",
+      {
+        parent: null,
+        attributes: {
+          "flux.task.id": taskId,
+          "runner.instance_id": this.opts.runnerInstanceId,
+          "runner.type": this.opts.runnerType,
+        },
+      },
+      (span) => this.runTask(taskId, hintedPacket, span),
+    );
+  }
+
+  private async runTask(
+    taskId: string,
+    hintedPacket: McpTaskPacket | undefined,
+    runSpan: Span,
+  ): Promise<void> {
+    const claim = await this.tracer.trace(
+      "task.claim",
+      { kind: SpanKind.CLIENT },
+      async (span) => {
+        try {
+          return await this.opts.fluxClient.claimTask(taskId, {
+            runnerType: this.opts.runnerType,
+            runnerVersion: this.opts.runnerVersion,
+            runnerInstanceId: this.opts.runnerInstanceId,
+            machineId: this.opts.machineId,
+            backend: this.opts.backend,
+            format: "packet",
+          });
+        } catch (error) {
+          if (error instanceof McpHttpError && error.status === 409) {
+            span.setAttribute("flux.claim.conflict", true);
+            return undefined;
+          }
+          throw error;
         }
-      | undefined;
-    try {
-      claim = await this.opts.fluxClient.claimTask(taskId, {
-        runnerType: this.opts.runnerType,
-        runnerVersion: this.opts.runnerVersion,
-        runnerInstanceId: this.opts.runnerInstanceId,
-        machineId: this.opts.machineId,
-        backend: this.opts.backend,
-        format: "packet",
-      });
-    } catch (error) {
-      if (error instanceof McpHttpError && error.status === 409) {
-        return;
-      }
-      throw error;
+      },
+    );
+    if (!claim) {
+      this.opts.metrics?.claimConflicts.inc();
+      return;
     }
+    this.opts.metrics?.claims.inc();
 
     const sessionId = claim.sessionId;
-    const packet = claim.packet ?? hintedPacket;
-    if (!packet) {
-      await this.opts.fluxClient.completeTask(taskId, sessionId, {
+    runSpan.setAttribute("flux.session.id", sessionId);
+    this.journalUpdate(taskId, (journal) => journal.recordClaim(taskId, sessionId));
+    const claimedPacket = claim.packet ?? hintedPacket;
+    if (!claimedPacket) {
+      await this.completeTask(taskId, sessionId, {
         status: "failed",
         output: "Runner claim response missing packet payload",
       });
       return;
     }
+    const routed = this.opts.routing?.apply(claimedPacket);
+    const packet = routed?.packet ?? claimedPacket;
+    if (routed?.route) {
+      runSpan.setAttribute("runner.route", routed.route.name);
+    }
 
-    const executionBackend = this.resolveExecutionBackend(packet);
+    const selection = await this.resolveExecutionBackend(packet);
+    const executionBackend = selection.backend;
     if (!executionBackend) {
-      const requested = resolvePacketBackend(packet, this.opts.backend) || "unknown";
-      await this.opts.fluxClient.completeTask(taskId, sessionId, {
-        status: "failed",
-        output: `Runner does not support execution backend: ${requested}`,
-      });
+      const unavailable = selection.skipped.map((skip) => `${skip.backend} (${skip.reason})`).join("; ");
+      await this.completeTask(
+        taskId,
+        sessionId,
+        {
+          status: "failed",
+          output: unavailable
+            ? `No execution backend available for ${selection.requested}: ${unavailable}`
+            : `Runner does not support execution backend: ${selection.requested}`,
+        },
+        selection.requested,
+      );
       return;
     }
+    const fallback =
+      selection.skipped.length > 0
+        ? { requested: selection.requested, backend: executionBackend.id, skipped: selection.skipped }
+        : undefined;
+    if (fallback) {
+      runSpan.setAttribute("runner.fallback_from", fallback.requested);
+      this.opts.metrics?.backendFallbacks.inc({ requested: fallback.requested, backend: fallback.backend });
+    }
 
-    const taskType = packetTaskType(packet);
-    const prompt = renderPrompt(packet);
-    const startTime = Date.now();
+    let workspace: TaskWorkspace | undefined;
+    // The task counts as running, and heartbeats keep its session alive, from here on:
+    // a large checkout or slow input download must not outlast the lease.
     const abortController = new AbortController();
     const heartbeatRequired = packet.policy?.heartbeatRequired !== false;
 
     let cancelled = false;
+    let cancelReason: string | undefined;
+    let finalStatus: McpCompleteStatus = "failed";
     let heartbeatError: unknown = undefined;
+    let phase = "preparing";
+    let progressText: string | undefined;
+    let activityText: string | undefined;
+    let progressDirty = false;
+    let progressTimer: ReturnType<typeof setTimeout> | null = null;
+    let heartbeatInFlight = false;
+    let lastHeartbeatAt = 0;
+    let executionFinished = false;
+    const progressIntervalMs = Math.max(0, this.opts.progressIntervalMs ?? 5_000);
+
+    // Heartbeats never overlap: a progress update that arrives mid-request is
+    // sent once the current one returns, no sooner than progressIntervalMs later.
+    const sendHeartbeat = async (): Promise<void> => {
+      if (heartbeatInFlight || executionFinished) return;
+      heartbeatInFlight = true;
+      progressDirty = false;
+      lastHeartbeatAt = Date.now();
+      const span = this.tracer.startSpan("task.heartbeat", {
+        parent: runSpan,
+        kind: SpanKind.CLIENT,
+        attributes: { "runner.phase": phase },
+      });
+      try {
+        const heartbeat = await this.tracer.withSpan(span, () =>
+          this.opts.fluxClient.heartbeat(taskId, sessionId, {
+            phase,
+            progress: heartbeatProgress(activityText, progressText),
+          }),
+        );
+        span.setAttributes({
+          "flux.heartbeat.should_abort": heartbeat.shouldAbort === true,
+          "flux.heartbeat.cancel_pending": heartbeat.cancelPending === true,
+        });
+        if (heartbeat.shouldAbort || heartbeat.cancelPending) {
+          cancelled = true;
+          abortController.abort();
+        }
+      } catch (error) {
+        heartbeatError = error instanceof Error ? error : new Error(String(error));
+        span.recordError(error);
+        this.opts.metrics?.heartbeatFailures.inc({ backend: executionBackend.id });
+      } finally {
+        span.end();
+        heartbeatInFlight = false;
+      }
+      if (progressDirty) scheduleProgressHeartbeat();
+    };
+
+    const scheduleProgressHeartbeat = () => {
+      if (progressTimer || executionFinished) return;
+      const delay = Math.max(0, lastHeartbeatAt + progressIntervalMs - Date.now());
+      progressTimer = setTimeout(() => {
+        progressTimer = null;
+        void sendHeartbeat();
+      }, delay);
+    };
+
+    const onProgress = (progress: RunnerExecutionProgress) => {
+      if (executionFinished) return;
+      if (progress.phase) phase = progress.phase;
+      if (typeof progress.output === "string" && progress.output.length > 0) {
+        progressText = tailProgress(progress.output);
+      }
+      if (progress.activity) activityText = progress.activity;
+      progressDirty = true;
+      if (!heartbeatInFlight) scheduleProgressHeartbeat();
+    };
+
     const heartbeatMs = Math.max(10_000, this.opts.heartbeatMs ?? 30_000);
     const heartbeatTimer = heartbeatRequired
-      ? setInterval(async () => {
-          try {
-            const heartbeat = await this.opts.fluxClient.heartbeat(taskId, sessionId, {
-              phase: "executing",
-            });
-            if (heartbeat.shouldAbort || heartbeat.cancelPending) {
-              cancelled = true;
-              abortController.abort();
-            }
-          } catch (error) {
-            heartbeatError = error instanceof Error ? error : new Error(String(error));
-          }
+      ? setInterval(() => {
+          void sendHeartbeat();
         }, heartbeatMs)
       : null;
 
+    this.running.set(taskId, {
+      backend: executionBackend,
+      abort: (reason) => {
+        cancelled = true;
+        cancelReason = reason;
+        abortController.abort();
+      },
+    });
+
+    // Stops heartbeats and running-task bookkeeping; the execution timers are cleared separately.
+    const stopBookkeeping = () => {
+      this.running.delete(taskId);
+      this.settleBackendIdleWaiters();
+      executionFinished = true;
+      if (heartbeatTimer) {
+        clearInterval(heartbeatTimer);
+      }
+      if (progressTimer) {
+        clearTimeout(progressTimer);
+      }
+      if (heartbeatError) {
+        // Heartbeat failures are non-fatal while execution is ongoing; emit as plain stderr.
+        // eslint-disable-next-line no-console
+        console.warn(`[runner] heartbeat warning for ${taskId}: ${String(heartbeatError)}`);
+      }
+    };
+    // Reports a task that failed (or was cancelled) before its backend ran.
+    const failBeforeExecution = async (what: string, error: unknown): Promise<void> => {
+      const status = cancelled ? "cancelled" : "failed";
+      try {
+        await this.completeTask(
+          taskId,
+          sessionId,
+          {
+            status,
+            output:
+              cancelReason ??
+              (cancelled
+                ? "Cancelled by user request"
+                : `Runner failed to ${what}: ${error instanceof Error ? error.message : String(error)}`),
+          },
+          executionBackend.id,
+        );
+      } finally {
+        stopBookkeeping();
+        if (workspace) await this.releaseWorkspace(taskId, workspace, status);
+      }
+    };
+
+    if (executionBackend.usesWorkspace && this.opts.workspaces) {
+      try {
+        workspace = await this.opts.workspaces.prepare(taskId, packet, abortController.signal);
+      } catch (error) {
+        await failBeforeExecution("prepare workspace", error);
+        return;
+      }
+    }
+
+    let inputFiles: MaterializedInputFile[] = [];
+    const declaredInputs = packetInputFiles(packet);
+    if (declaredInputs.length > 0) {
+      try {
+        inputFiles = await materializeInputFiles(this.opts.fluxClient, declaredInputs, workspace?.dir, {
+          signal: abortController.signal,
+        });
+      } catch (error) {
+        await failBeforeExecution("fetch input files", error);
+        return;
+      }
+      runSpan.setAttribute("runner.input_files", inputFiles.length);
+    }
+
+    phase = "executing";
+    this.journalUpdate(taskId, (journal) => journal.markExecuting(taskId, executionBackend.id));
+    const taskType = packetTaskType(packet);
+    runSpan.setAttributes({ "flux.task.type": taskType, "runner.backend": executionBackend.id });
+    const inputsSection = inputFilesPrompt(inputFiles);
+    const prompt = inputsSection ? `${renderPrompt(packet)}\n\n${inputsSection}` : renderPrompt(packet);
+    const startTime = Date.now();
+    const timeoutMs = packetTimeoutMs(packet);
+    let timedOut = false;
+    let timeoutTimer: ReturnType<typeof setTimeout> | null = null;
+    let graceTimer: ReturnType<typeof setTimeout> | null = null;
+    const timeoutOutput = () => {
+      const message = `Task timed out after ${String((timeoutMs ?? 0) / 1000)}s`;
+      return progressText ? `${message}. Partial output:\n${progressText}` : message;
+    };
+    const attempts: ExecutionAttempt[] = [];
+    // What the runner adds to the backend's usageJson: the timeout, attempts when there
+    // were retries, and the fallback when another backend ran the task.
+    const withRunnerUsage = (usageJson: string | undefined): string | undefined => {
+      const fields: Record<string, unknown> = {
+        ...(timedOut && !cancelled ? { timedOut: true, timeoutMs } : {}),
+        ...(attempts.length > 1 ? { attempts } : {}),
+        ...(fallback ? { fallback } : {}),
+      };
+      return Object.keys(fields).length > 0 ? mergeUsageJson(usageJson, fields) : usageJson;
+    };
+
+    let resultProduced = false;
+    const executeSpan = this.tracer.startSpan("task.execute", {
+      attributes: { "runner.backend": executionBackend.id },
+    });
     try {
-      const result = await executionBackend.execute({
+      const execution = this.tracer.withSpan(executeSpan, () =>
+        this.executeValidated(
+          executionBackend,
+          {
+            taskId,
+            taskType,
+            packet,
+            prompt,
+            startedAt: startTime,
+            abortSignal: abortController.signal,
+            workspaceDir: workspace?.dir,
+            timeoutMs: timeoutMs ?? undefined,
+            onProgress,
+          },
+          attempts,
+        ),
+      );
+      const result =
+        timeoutMs === null
+          ? await execution
+          : await new Promise<RunnerExecutionResult>((resolve, reject) => {
+              execution.then(resolve, reject);
+              timeoutTimer = setTimeout(() => {
+                if (cancelled) return;
+                timedOut = true;
+                this.opts.metrics?.timeouts.inc({ backend: executionBackend.id });
+                abortController.abort();
+                // A backend that ignores the abort is left behind; its late result is dropped.
+                graceTimer = setTimeout(
+                  () => resolve({ status: "failed" }),
+                  Math.max(0, this.opts.timeoutGraceMs ?? 10_000),
+                );
+              }, timeoutMs);
+            });
+      const status = cancelled ? "cancelled" : timedOut ? "failed" : result.status ?? "done";
+      finalStatus = status;
+      resultProduced = true;
+      const durationMs =
+        typeof result.durationMs === "number" ? result.durationMs : Date.now() - startTime;
+      this.recordExecution(executionBackend.id, status, durationMs, result);
+      const exhaustedBudgets = this.chargeBudget(packet, result, fallback?.backend);
+      const artifacts = result.artifacts?.length
+        ? await uploadArtifacts(this.opts.fluxClient, taskId, sessionId, result.artifacts)
+        : [];
+      executeSpan
+        .setAttributes({
+          "flux.task.status": status,
+          "runner.timed_out": timedOut,
+          "runner.attempts": attempts.length,
+          "gen_ai.request.model": result.model,
+          "gen_ai.usage.total_tokens": result.tokensUsed,
+          "runner.cost_usd": result.costUsd,
+        })
+        .end();
+      await this.escalateBudgets(taskId, sessionId, exhaustedBudgets);
+      await this.completeTask(
         taskId,
-        taskType,
-        packet,
-        prompt,
-        startedAt: startTime,
-        abortSignal: abortController.signal,
-      });
-      const status = cancelled ? "cancelled" : result.status ?? "done";
-      await this.opts.fluxClient.completeTask(taskId, sessionId, {
-        status,
-        output:
-          typeof result.output === "string" && result.output.trim().length > 0
-            ? result.output
-            : status === "cancelled"
-              ? "Cancelled by user request"
-              : "(empty response)",
-        tokensUsed: result.tokensUsed,
-        costUsd: result.costUsd,
-        durationMs:
-          typeof result.durationMs === "number" ? result.durationMs : Date.now() - startTime,
-        model: result.model,
-        usageJson: result.usageJson,
-      });
+        sessionId,
+        {
+          status,
+          output:
+            cancelReason ??
+            (timedOut
+              ? timeoutOutput()
+              : typeof result.output === "string" && result.output.trim().length > 0
+                ? result.output
+                : status === "cancelled"
+                  ? "Cancelled by user request"
+                  : "(empty response)"),
+          tokensUsed: result.tokensUsed,
+          costUsd: result.costUsd,
+          durationMs,
+          model: result.model,
+          usageJson: withRunnerUsage(result.usageJson),
+          ...(artifacts.length > 0 ? { artifacts } : {}),
+        },
+        executionBackend.id,
+      );
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
-      const status = cancelled || abortController.signal.aborted ? "cancelled" : "failed";
+      if (resultProduced && error instanceof McpHttpError && !isTransientRequestError(error)) {
+        // Flux rejected the completion (session expired, task already completed):
+        // re-sending it at startup can't succeed, so don't keep it.
+        this.journalUpdate(taskId, (journal) => journal.remove(taskId));
+        // eslint-disable-next-line no-console
+        console.warn(`[runner] completion for ${taskId} rejected; result dropped: ${errorMsg}`);
+        return;
+      }
+      if (resultProduced && this.opts.journal) {
+        // The backend finished but delivery failed: keep the journaled result for
+        // startup reconciliation instead of overwriting it with an error.
+        // eslint-disable-next-line no-console
+        console.warn(`[runner] completion delivery failed for ${taskId}; result kept in journal: ${errorMsg}`);
+        return;
+      }
+      const status =
+        cancelled || (abortController.signal.aborted && !timedOut) ? "cancelled" : "failed";
+      finalStatus = status;
+      const durationMs = Math.max(0, Date.now() - startTime);
+      if (!resultProduced) {
+        this.recordExecution(executionBackend.id, status, durationMs);
+        executeSpan
+          .recordError(error)
+          .setAttributes({
+            "flux.task.status": status,
+            "runner.timed_out": timedOut,
+            "runner.attempts": attempts.length,
+          })
+          .end();
+      }
       try {
-        await this.opts.fluxClient.completeTask(taskId, sessionId, {
-          status,
-          output: `Runner execution error (${taskType}): ${errorMsg}`,
-          durationMs: Math.max(0, Date.now() - startTime),
-        });
+        await this.completeTask(
+          taskId,
+          sessionId,
+          {
+            status,
+            output:
+              cancelReason ??
+              (timedOut && !cancelled
+                ? timeoutOutput()
+                : `Runner execution error (${taskType}): ${errorMsg}`),
+            durationMs,
+            usageJson: withRunnerUsage(undefined),
+          },
+          executionBackend.id,
+        );
       } catch {
         // Ignore secondary completion failures so we can still surface escalation.
       }
@@ -170,14 +1031,28 @@ export class TaskExecutor {
         }
       }
     } finally {
-      if (heartbeatTimer) {
-        clearInterval(heartbeatTimer);
+      executeSpan.end();
+      if (timeoutTimer) {
+        clearTimeout(timeoutTimer);
       }
-      if (heartbeatError) {
-        // Heartbeat failures are non-fatal while execution is ongoing; emit as plain stderr.
-        // eslint-disable-next-line no-console
-        console.warn(`[runner] heartbeat warning for ${taskId}: ${String(heartbeatError)}`);
+      if (graceTimer) {
+        clearTimeout(graceTimer);
       }
+      stopBookkeeping();
+      if (workspace) {
+        await this.releaseWorkspace(taskId, workspace, finalStatus);
+      }
+    }
+  }
+
+  /** Releases a task's workspace; cleanup failures are only warned about. */
+  private async releaseWorkspace(taskId: string, workspace: TaskWorkspace, status: McpCompleteStatus): Promise<void> {
+    if (!this.opts.workspaces) return;
+    try {
+      await this.opts.workspaces.release(workspace, status);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn(`[runner] workspace cleanup warning for ${taskId}: ${String(error)}`);
     }
   }
 
@@ -0,0 +1,162 @@
+/**
+ * Backend health monitor.
+ *
+ * Startup preflight only tells us whether a backend worked at that moment.
+ * BackendHealthMonitor re-probes every registered backend on an interval
+ * and tracks whether it is healthy right now:
+ *   - A probe is the backend's `preflight()`, bounded by `probeTimeoutMs`;
+ *     a throw or a timeout counts as unhealthy, and backends without a
+ *     preflight are always healthy
+ *   - Backends start out healthy until their first probe says otherwise
+ *   - `onTransition` fires when a probed backend flips state (not on its
+ *     first probe), and `onChange` once per check that flipped anything —
+ *     the daemon logs the former and re-advertises its filters on the latter
+ *   - Checks run one at a time; a check requested while one is running
+ *     waits for it
+ */
+import type { RunnerExecutionBackend, RunnerPreflightResult } from "./execution.js";
+
+/** The last probe result for one backend. */
+export type BackendHealth = {
+  backend: string;
+  healthy: boolean;
+  /** Why the last probe failed; unset while healthy. */
+  reason?: string;
+  /** When the backend entered its current state (ISO 8601). */
+  since: string;
+  /** When it was last probed (ISO 8601). */
+  checkedAt: string;
+};
+
+export type BackendHealthMonitorOptions = {
+  /** Time between checks. Defaults to 30s. */
+  intervalMs?: number;
+  /** How long one probe may take before it counts as failed. Defaults to 15s. */
+  probeTimeoutMs?: number;
+  onTransition?: (health: BackendHealth) => void;
+  /** Called after a check in which at least one backend changed state. */
+  onChange?: () => void;
+  now?: () => Date;
+};
+
+const DEFAULT_INTERVAL_MS = 30_000;
+const DEFAULT_PROBE_TIMEOUT_MS = 15_000;
+
+export class BackendHealthMonitor {
+  private opts: BackendHealthMonitorOptions;
+  private readonly now: () => Date;
+  private backends: RunnerExecutionBackend[] = [];
+  private readonly health = new Map<string, BackendHealth>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private checkQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(opts: BackendHealthMonitorOptions = {}) {
+    this.opts = opts;
+    this.now = opts.now ?? (() => new Date());
+  }
+
+  /** Sets the backends the interval probes. State for backends no longer listed is dropped. */
+  setBackends(backends: RunnerExecutionBackend[]): void {
+    this.backends = [...backends];
+    const ids = new Set(backends.map((backend) => backend.id));
+    for (const id of this.health.keys()) {
+      if (!ids.has(id)) this.health.delete(id);
+    }
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      void this.check();
+    }, Math.max(1_000, this.opts.intervalMs ?? DEFAULT_INTERVAL_MS));
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Applies a new interval; a running timer restarts with it. */
+  reconfigure(update: Pick<BackendHealthMonitorOptions, "intervalMs">): void {
+    this.opts = { ...this.opts, ...update };
+    if (this.timer) {
+      this.stop();
+      this.start();
+    }
+  }
+
+  /** False only when the backend's last probe failed. */
+  isHealthy(backend: RunnerExecutionBackend): boolean {
+    return this.health.get(backend.id)?.healthy ?? true;
+  }
+
+  /** The given backends minus the unhealthy ones, in order. */
+  healthy(backends: RunnerExecutionBackend[]): RunnerExecutionBackend[] {
+    return backends.filter((backend) => this.isHealthy(backend));
+  }
+
+  /** Last probe result for every probed backend. */
+  status(): BackendHealth[] {
+    return [...this.health.values()].map((health) => ({ ...health }));
+  }
+
+  /**
+   * Probes the backends (by default the ones set with setBackends), records
+   * the results, and returns them in the same order.
+   */
+  check(backends: RunnerExecutionBackend[] = this.backends): Promise<BackendHealth[]> {
+    const run = () => this.probeAll(backends);
+    const result = this.checkQueue.then(run, run);
+    this.checkQueue = result;
+    return result;
+  }
+
+  private async probeAll(backends: RunnerExecutionBackend[]): Promise<BackendHealth[]> {
+    const results = await Promise.all(backends.map((backend) => this.probe(backend)));
+    const checked: BackendHealth[] = [];
+    let changed = false;
+    for (const [index, backend] of backends.entries()) {
+      const result = results[index];
+      const checkedAt = this.now().toISOString();
+      const previous = this.health.get(backend.id);
+      const flipped = previous !== undefined && previous.healthy !== result.ok;
+      const next: BackendHealth = {
+        backend: backend.id,
+        healthy: result.ok,
+        reason: result.ok ? undefined : result.reason,
+        since: previous && !flipped ? previous.since : checkedAt,
+        checkedAt,
+      };
+      this.health.set(backend.id, next);
+      checked.push({ ...next });
+      if (flipped) {
+        changed = true;
+        this.opts.onTransition?.({ ...next });
+      }
+    }
+    if (changed) this.opts.onChange?.();
+    return checked;
+  }
+
+  private async probe(backend: RunnerExecutionBackend): Promise<RunnerPreflightResult> {
+    if (!backend.preflight) return { ok: true };
+    const timeoutMs = this.opts.probeTimeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const timeout = new Promise<RunnerPreflightResult>((resolve) => {
+      timer = setTimeout(
+        () => resolve({ ok: false, reason: `health check timed out after ${timeoutMs}ms` }),
+        timeoutMs,
+      );
+    });
+    try {
+      return await Promise.race([backend.preflight(), timeout]);
+    } catch (error) {
+      return { ok: false, reason: error instanceof Error ? error.message : String(error) };
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Task input files.
+ *
+ * Packets can declare input files (`inputFiles`) instead of inlining large
+ * context into the prompt. The executor fetches them before the backend runs:
+ *   - Each file is an http(s) `url` or a Flux `blobRef`, which
+ *     FluxMcpClient.resolveBlob() turns into a download URL
+ *   - With a workspace, each file is downloaded to its `path` (default
+ *     `inputs/<name>`), bounded by `maxBytes` and `timeoutMs`, and checked
+ *     against the declared `sha256` and the blob's own
+ *   - Backends without a workspace (OpenClaw) get the download URLs instead
+ *   - inputFilesPrompt() lists the files in a prompt section
+ *   - A file that can't be fetched, verified, or written inside the
+ *     workspace throws, and the task fails before it runs
+ *   - Aborting `signal` stops the download in progress and rejects
+ */
+import { mkdir, realpath, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { McpTaskInputFile } from "../types.js";
+import { isInsideDir, mimeTypeForName, nameFromSource, readLimited, sha256Hex } from "./artifacts.js";
+import type { FluxMcpClient } from "./client.js";
+
+export type InputFileOptions = {
+  /** Largest file downloaded. Defaults to 100 MiB. */
+  maxBytes?: number;
+  /** Per file. Defaults to 60s. */
+  timeoutMs?: number;
+  /** Aborts the remaining downloads, e.g. when the task is cancelled. */
+  signal?: AbortSignal;
+};
+
+/** A fetched (or, without a workspace, located) input file, as the prompt lists it. */
+export type MaterializedInputFile = {
+  /** Workspace-relative path. */
+  path: string;
+  /** Set when the file wasn't downloaded: where the backend can fetch it. */
+  url?: string;
+  mimeType?: string;
+  sizeBytes?: number;
+  sha256?: string;
+};
+
+const DEFAULT_MAX_BYTES = 100 * 1024 * 1024;
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+/** Where a file comes from, for error messages. */
+function describeSource(file: McpTaskInputFile): string {
+  return file.url?.trim() || `blob ${file.blobRef?.trim() ?? ""}`;
+}
+
+/** A single path segment that is safe to create. */
+function safeFileName(name: string): string {
+  const base = path.posix.basename(name.replace(/\\/g, "/"));
+  const safe = base.replace(/[^A-Za-z0-9._-]/g, "_").replace(/^\.+/, "_");
+  return safe.length > 0 ? safe : "input";
+}
+
+/** Resolves where to download a file from, its name, and the hashes it must match. */
+async function locate(
+  fluxClient: Pick<FluxMcpClient, "resolveBlob">,
+  file: McpTaskInputFile,
+): Promise<{ url: string; name?: string; mimeType?: string; sha256: string[] }> {
+  const expected = file.sha256?.trim() ? [file.sha256.trim().toLowerCase()] : [];
+  let located: { url: string; name?: string; mimeType?: string; sha256: string[] };
+  const url = file.url?.trim();
+  if (url) {
+    located = { url, name: nameFromSource(url), sha256: expected };
+  } else {
+    const blobRef = file.blobRef!.trim();
+    const blob = await fluxClient.resolveBlob(blobRef);
+    located = {
+      url: blob.url,
+      name: blob.name ?? blobRef,
+      ...(blob.mimeType ? { mimeType: blob.mimeType } : {}),
+      sha256: blob.sha256 ? [...expected, blob.sha256.toLowerCase()] : expected,
+    };
+  }
+  if (!/^https?:\/\//i.test(located.url)) throw new Error("unsupported input URL");
+  return located;
+}
+
+/** Writes content to a workspace-relative path, refusing anything that lands outside the workspace. */
+async function writeInsideWorkspace(root: string, relativePath: string, content: Uint8Array): Promise<void> {
+  const resolved = path.resolve(root, relativePath);
+  if (!isInsideDir(root, resolved)) throw new Error(`${relativePath} is outside the task workspace`);
+  await mkdir(path.dirname(resolved), { recursive: true });
+  const parent = await realpath(path.dirname(resolved));
+  const existing = await realpath(resolved).catch(() => undefined);
+  if ((parent !== root && !isInsideDir(root, parent)) || (existing && !isInsideDir(root, existing))) {
+    throw new Error(`${relativePath} is outside the task workspace`);
+  }
+  await writeFile(resolved, content);
+}
+
+/**
+ * Fetches the packet's input files into `workspaceDir`, one at a time, and
+ * returns them in order. Without a workspace nothing is downloaded; blob refs
+ * are still resolved so the prompt can list every file's URL. Throws on the
+ * first file that fails, naming it.
+ */
+export async function materializeInputFiles(
+  fluxClient: Pick<FluxMcpClient, "resolveBlob">,
+  files: McpTaskInputFile[],
+  workspaceDir: string | undefined,
+  opts: InputFileOptions = {},
+): Promise<MaterializedInputFile[]> {
+  const maxBytes = opts.maxBytes ?? DEFAULT_MAX_BYTES;
+  const root = workspaceDir ? await realpath(workspaceDir) : undefined;
+  const materialized: MaterializedInputFile[] = [];
+  const destinations = new Set<string>();
+  for (const [index, file] of files.entries()) {
+    try {
+      opts.signal?.throwIfAborted();
+      const located = await locate(fluxClient, file);
+      const destination = path.normalize(
+        file.path?.trim() || path.join("inputs", safeFileName(located.name ?? `input-${index + 1}`)),
+      );
+      if (destinations.has(destination)) throw new Error(`another input file is already written to ${destination}`);
+      destinations.add(destination);
+      if (!root) {
+        materialized.push({
+          path: destination,
+          url: located.url,
+          ...(located.mimeType ? { mimeType: located.mimeType } : {}),
+        });
+        continue;
+      }
+
+      const timeout = AbortSignal.timeout(opts.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+      const res = await fetch(located.url, { signal: opts.signal ? AbortSignal.any([timeout, opts.signal]) : timeout });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const content = await readLimited(res, maxBytes, "file");
+      const sha256 = sha256Hex(content);
+      const mismatch = located.sha256.find((expected) => expected !== sha256);
+      if (mismatch) throw new Error(`sha256 mismatch: expected ${mismatch}, got ${sha256}`);
+      await writeInsideWorkspace(root, destination, content);
+
+      const served = res.headers.get("content-type")?.split(";")[0].trim();
+      const mimeType =
+        located.mimeType ??
+        (served && served !== "application/octet-stream" ? served : undefined) ??
+        mimeTypeForName(destination);
+      materialized.push({
+        path: destination,
+        ...(mimeType ? { mimeType } : {}),
+        sizeBytes: content.byteLength,
+        sha256,
+      });
+    } catch (error) {
+      throw new Error(
+        `input file ${describeSource(file)}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+  return materialized;
+}
+
+/** The prompt section listing the input files; empty when there are none. */
+export function inputFilesPrompt(files: MaterializedInputFile[]): string {
+  if (files.length === 0) return "";
+  const downloaded = files.every((file) => !file.url);
+  const lines = [
+    "## Input Files",
+    "",
+    downloaded
+      ? "These files have been downloaded into the working directory:"
+      : "These files are available for download:",
+  ];
+  for (const file of files) {
+    if (file.url) {
+      lines.push(`- ${file.path}: ${file.url}`);
+      continue;
+    }
+    const details = [file.mimeType, file.sizeBytes !== undefined ? `${file.sizeBytes} bytes` : undefined].filter(
+      (detail): detail is string => detail !== undefined,
+    );
+    lines.push(`- ${file.path}${details.length > 0 ? ` (${details.join(", ")})` : ""}`);
+  }
+  return lines.join("\n");
+}
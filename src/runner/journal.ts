@@ -0,0 +1,189 @@
+/**
+ * Durable task journal for crash recovery.
+ *
+ * TaskJournal records every claimed session under `~/.flux/journal/` as one
+ * JSON file per task, so a daemon crash or service restart mid-task doesn't
+ * silently lose the claim. Each entry moves through:
+ *   - "claimed": the server handed us a session
+ *   - "executing": a backend is running the task
+ *   - "completing": a result exists and is being reported (stored in the entry)
+ * The entry is removed once completeTask succeeds.
+ *
+ * On startup, reconcileTaskJournal() re-delivers results that were produced
+ * but never reported, and fails orphaned sessions with a clear reason.
+ */
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { CompleteTaskResult, FluxMcpClient } from "./client.js";
+import { McpHttpError, isTransientRequestError } from "./client.js";
+
+export type JournalState = "claimed" | "executing" | "completing";
+
+export type JournalEntry = {
+  taskId: string;
+  sessionId: string;
+  state: JournalState;
+  backend?: string;
+  claimedAt: string;
+  updatedAt: string;
+  /** Set in the "completing" state: the payload to (re)send to completeTask. */
+  result?: CompleteTaskResult;
+};
+
+export type TaskJournalOptions = {
+  dir?: string;
+};
+
+/** Outcome of reconciling a single journal entry at startup. */
+export type JournalReconcileOutcome = {
+  taskId: string;
+  sessionId: string;
+  state: JournalState;
+  action: "redelivered" | "failed" | "dropped" | "kept";
+  error?: string;
+};
+
+/** Writes JSON via temp file + rename so a crash never leaves a torn file. Owner-only. */
+export function writeJsonAtomic(target: string, value: unknown): void {
+  const tmp = `${target}.${process.pid}.tmp`;
+  writeFileSync(tmp, JSON.stringify(value, null, 2), { mode: 0o600 });
+  renameSync(tmp, target);
+}
+
+/** Maps a task ID to a safe file name. */
+export function entryFileName(taskId: string): string {
+  return `${encodeURIComponent(taskId)}.json`;
+}
+
+function isJournalEntry(value: unknown): value is JournalEntry {
+  if (!value || typeof value !== "object") return false;
+  const v = value as Record<string, unknown>;
+  return (
+    typeof v.taskId === "string" &&
+    typeof v.sessionId === "string" &&
+    (v.state === "claimed" || v.state === "executing" || v.state === "completing")
+  );
+}
+
+export class TaskJournal {
+  private readonly dir: string;
+
+  constructor(opts: TaskJournalOptions = {}) {
+    this.dir = opts.dir || path.join(os.homedir(), ".flux", "journal");
+  }
+
+  getDir(): string {
+    return this.dir;
+  }
+
+  /** Records a newly claimed session, replacing any stale entry for the task. */
+  recordClaim(taskId: string, sessionId: string): void {
+    const now = new Date().toISOString();
+    this.write({ taskId, sessionId, state: "claimed", claimedAt: now, updatedAt: now });
+  }
+
+  /** Marks the task as executing on the given backend. */
+  markExecuting(taskId: string, backend: string): void {
+    this.update(taskId, { state: "executing", backend });
+  }
+
+  /** Stores the result about to be reported so it survives a crash before delivery. */
+  markCompleting(taskId: string, result: CompleteTaskResult): void {
+    this.update(taskId, { state: "completing", result });
+  }
+
+  /** Drops the entry once the server has accepted the completion. */
+  remove(taskId: string): void {
+    rmSync(path.join(this.dir, entryFileName(taskId)), { force: true });
+  }
+
+  /** Lists all journal entries, skipping unreadable or malformed files. */
+  list(): JournalEntry[] {
+    if (!existsSync(this.dir)) return [];
+    const entries: JournalEntry[] = [];
+    for (const file of readdirSync(this.dir)) {
+      if (!file.endsWith(".json")) continue;
+      try {
+        const parsed: unknown = JSON.parse(readFileSync(path.join(this.dir, file), "utf8"));
+        if (isJournalEntry(parsed)) entries.push(parsed);
+      } catch {
+        // Half-written or corrupt entry — nothing recoverable in it.
+      }
+    }
+    return entries;
+  }
+
+  private read(taskId: string): JournalEntry | null {
+    try {
+      const parsed: unknown = JSON.parse(
+        readFileSync(path.join(this.dir, entryFileName(taskId)), "utf8"),
+      );
+      return isJournalEntry(parsed) ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private update(taskId: string, patch: Partial<JournalEntry>): void {
+    const current = this.read(taskId);
+    if (!current) return;
+    this.write({ ...current, ...patch, updatedAt: new Date().toISOString() });
+  }
+
+  private write(entry: JournalEntry): void {
+    mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+    writeJsonAtomic(path.join(this.dir, entryFileName(entry.taskId)), entry);
+  }
+}
+
+/** The failure reported for a session that was claimed but never finished. */
+export function orphanedSessionResult(entry: JournalEntry): CompleteTaskResult {
+  const phase = entry.state === "executing" ? "while executing" : "before execution started";
+  return {
+    status: "failed",
+    output: `Runner restarted ${phase} (claimed ${entry.claimedAt}); the session was orphaned and no result was produced.`,
+  };
+}
+
+/**
+ * Reconciles journal entries left over from a previous run:
+ *   - "completing" entries have their stored result re-sent to completeTask
+ *   - "claimed"/"executing" entries are completed as failed
+ * Entries the server rejects outright (any 4xx but 408/429: session gone,
+ * already completed, invalid) are dropped. Transient and network errors keep
+ * the entry for the next startup.
+ */
+export async function reconcileTaskJournal(
+  journal: TaskJournal,
+  fluxClient: Pick<FluxMcpClient, "completeTask">,
+): Promise<JournalReconcileOutcome[]> {
+  const outcomes: JournalReconcileOutcome[] = [];
+  for (const entry of journal.list()) {
+    const redeliver = entry.state === "completing" && entry.result !== undefined;
+    const result = redeliver && entry.result ? entry.result : orphanedSessionResult(entry);
+    const base = { taskId: entry.taskId, sessionId: entry.sessionId, state: entry.state };
+    try {
+      await fluxClient.completeTask(entry.taskId, entry.sessionId, result);
+      journal.remove(entry.taskId);
+      outcomes.push({ ...base, action: redeliver ? "redelivered" : "failed" });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (error instanceof McpHttpError && !isTransientRequestError(error)) {
+        journal.remove(entry.taskId);
+        outcomes.push({ ...base, action: "dropped", error: message });
+      } else {
+        outcomes.push({ ...base, action: "kept", error: message });
+      }
+    }
+  }
+  return outcomes;
+}
@@ -0,0 +1,332 @@
+/**
+ * Prometheus metrics for the runner.
+ *
+ * A small in-process registry that renders the Prometheus text exposition
+ * format, so the runner needs no client library:
+ *   - Counter: monotonically increasing value per label set
+ *   - Gauge: sampled from a callback at scrape time
+ *   - Histogram: cumulative buckets plus _sum and _count per label set
+ *
+ * createRunnerMetrics() registers the runner's own metrics; MetricsServer
+ * serves them at `GET /metrics` when FLUX_METRICS_PORT is set.
+ */
+import http from "node:http";
+
+export type MetricLabels = Record<string, string>;
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+type MetricOptions = {
+  name: string;
+  help: string;
+  labelNames?: string[];
+};
+
+interface Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: MetricType;
+  render(): string[];
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+/** Orders a label set by the metric's declared label names; unknown labels are dropped. */
+function normalizeLabels(labelNames: string[], labels: MetricLabels): MetricLabels {
+  const normalized: MetricLabels = {};
+  for (const name of labelNames) {
+    normalized[name] = labels[name] ?? "";
+  }
+  return normalized;
+}
+
+export class Counter implements Metric {
+  readonly type = "counter";
+  readonly name: string;
+  readonly help: string;
+  private readonly labelNames: string[];
+  private readonly values = new Map<string, { labels: MetricLabels; value: number }>();
+
+  constructor(opts: MetricOptions) {
+    this.name = opts.name;
+    this.help = opts.help;
+    this.labelNames = opts.labelNames ?? [];
+  }
+
+  /** Adds value (default 1). Negative and non-finite increments are ignored. */
+  inc(labels: MetricLabels = {}, value = 1): void {
+    if (!Number.isFinite(value) || value < 0) return;
+    const normalized = normalizeLabels(this.labelNames, labels);
+    const key = JSON.stringify(normalized);
+    const current = this.values.get(key);
+    if (current) {
+      current.value += value;
+    } else {
+      this.values.set(key, { labels: normalized, value });
+    }
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.values.get(JSON.stringify(normalizeLabels(this.labelNames, labels)))?.value ?? 0;
+  }
+
+  render(): string[] {
+    return [...this.values.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`,
+    );
+  }
+}
+
+export class Gauge implements Metric {
+  readonly type = "gauge";
+  readonly name: string;
+  readonly help: string;
+  private readonly collect: () => number;
+
+  constructor(opts: MetricOptions & { collect: () => number }) {
+    this.name = opts.name;
+    this.help = opts.help;
+    this.collect = opts.collect;
+  }
+
+  render(): string[] {
+    return [`${this.name} ${formatValue(this.collect())}`];
+  }
+}
+
+type HistogramSeries = {
+  labels: MetricLabels;
+  counts: number[];
+  sum: number;
+  count: number;
+};
+
+export class Histogram implements Metric {
+  readonly type = "histogram";
+  readonly name: string;
+  readonly help: string;
+  private readonly labelNames: string[];
+  private readonly buckets: number[];
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(opts: MetricOptions & { buckets: number[] }) {
+    this.name = opts.name;
+    this.help = opts.help;
+    this.labelNames = opts.labelNames ?? [];
+    this.buckets = [...opts.buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    if (!Number.isFinite(value)) return;
+    const normalized = normalizeLabels(this.labelNames, labels);
+    const key = JSON.stringify(normalized);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: normalized, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    for (let i = 0; i < this.buckets.length; i += 1) {
+      if (value <= this.buckets[i]) series.counts[i] += 1;
+    }
+    series.sum += value;
+    series.count += 1;
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${counts[i]}`,
+        );
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric>();
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric already registered: ${metric.name}`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  counter(opts: MetricOptions): Counter {
+    return this.register(new Counter(opts));
+  }
+
+  gauge(opts: MetricOptions & { collect: () => number }): Gauge {
+    return this.register(new Gauge(opts));
+  }
+
+  histogram(opts: MetricOptions & { buckets: number[] }): Histogram {
+    return this.register(new Histogram(opts));
+  }
+
+  /** Renders every metric in the Prometheus text exposition format (0.0.4). */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.render());
+    }
+    return `${lines.join("\n")}\n`;
+  }
+}
+
+/** Execution duration buckets in seconds: tasks range from seconds to an hour. */
+const DURATION_BUCKETS_SECONDS = [1, 5, 15, 30, 60, 120, 300, 600, 1200, 1800, 3600];
+
+/** The runner's metrics, shared by the executor, cadence loop, and daemon. */
+export type RunnerMetrics = {
+  registry: MetricsRegistry;
+  claims: Counter;
+  claimConflicts: Counter;
+  completions: Counter;
+  executionDuration: Histogram;
+  tokens: Counter;
+  costUsd: Counter;
+  heartbeatFailures: Counter;
+  timeouts: Counter;
+  executionRetries: Counter;
+  backendFallbacks: Counter;
+  pushReconnects: Counter;
+  cadenceTickErrors: Counter;
+};
+
+export function createRunnerMetrics(registry = new MetricsRegistry()): RunnerMetrics {
+  return {
+    registry,
+    claims: registry.counter({
+      name: "fluxhive_runner_claims_total",
+      help: "Tasks successfully claimed.",
+    }),
+    claimConflicts: registry.counter({
+      name: "fluxhive_runner_claim_conflicts_total",
+      help: "Claims rejected with 409 because another runner got the task first.",
+    }),
+    completions: registry.counter({
+      name: "fluxhive_runner_completions_total",
+      help: "Task completions reported, by status and backend.",
+      labelNames: ["status", "backend"],
+    }),
+    executionDuration: registry.histogram({
+      name: "fluxhive_runner_execution_duration_seconds",
+      help: "Backend execution time, by backend and status.",
+      labelNames: ["backend", "status"],
+      buckets: DURATION_BUCKETS_SECONDS,
+    }),
+    tokens: registry.counter({
+      name: "fluxhive_runner_tokens_total",
+      help: "Tokens used by executions, by backend and model.",
+      labelNames: ["backend", "model"],
+    }),
+    costUsd: registry.counter({
+      name: "fluxhive_runner_cost_usd_total",
+      help: "Execution cost in USD, by backend and model.",
+      labelNames: ["backend", "model"],
+    }),
+    heartbeatFailures: registry.counter({
+      name: "fluxhive_runner_heartbeat_failures_total",
+      help: "Heartbeat requests that failed, by backend.",
+      labelNames: ["backend"],
+    }),
+    timeouts: registry.counter({
+      name: "fluxhive_runner_timeouts_total",
+      help: "Tasks stopped for exceeding their timeout, by backend.",
+      labelNames: ["backend"],
+    }),
+    executionRetries: registry.counter({
+      name: "fluxhive_runner_execution_retries_total",
+      help: "Backend executions retried after a transient failure, by backend.",
+      labelNames: ["backend"],
+    }),
+    backendFallbacks: registry.counter({
+      name: "fluxhive_runner_backend_fallbacks_total",
+      help: "Tasks run on a fallback backend because the requested one failed preflight.",
+      labelNames: ["requested", "backend"],
+    }),
+    pushReconnects: registry.counter({
+      name: "fluxhive_runner_push_reconnects_total",
+      help: "Push WebSocket reconnect attempts.",
+    }),
+    cadenceTickErrors: registry.counter({
+      name: "fluxhive_runner_cadence_tick_errors_total",
+      help: "Poll ticks that failed.",
+    }),
+  };
+}
+
+export type MetricsServerOptions = {
+  registry: MetricsRegistry;
+  port: number;
+  /** Defaults to 127.0.0.1 so metrics stay off the network unless asked. */
+  host?: string;
+};
+
+/** Serves `GET /metrics` over plain HTTP. */
+export class MetricsServer {
+  private readonly opts: MetricsServerOptions;
+  private server: http.Server | null = null;
+
+  constructor(opts: MetricsServerOptions) {
+    this.opts = opts;
+  }
+
+  /** Starts listening and resolves with the bound port (useful when port is 0). */
+  async start(): Promise<number> {
+    const server = http.createServer((req, res) => {
+      const pathname = (req.url ?? "/").split("?")[0];
+      if (req.method !== "GET" || pathname !== "/metrics") {
+        res.writeHead(404, { "content-type": "text/plain" });
+        res.end("Not found\n");
+        return;
+      }
+      res.writeHead(200, { "content-type": "text/plain; version=0.0.4; charset=utf-8" });
+      res.end(this.opts.registry.render());
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.opts.port, this.opts.host ?? "127.0.0.1", () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    const address = server.address();
+    return typeof address === "object" && address ? address.port : this.opts.port;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+}
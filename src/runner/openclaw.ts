@@ -7,7 +7,13 @@
  *   - Token priority: stored device token → env token → auto-detected gateway token
  *   - Automatic token fallback on "device token mismatch"
  *   - Request timeouts and pending-request tracking
- *   - Agent execution with payload extraction and abort support
+ *   - Agent execution with payload extraction and abort support: an abort
+ *     sends `chat.abort` for the run and waits (bounded) for the gateway's
+ *     ack and final response, so the result says whether the run stopped
+ *   - Reconnecting when the gateway drops with agent runs in flight: backoff,
+ *     re-authentication through the connect challenge, then the run requests
+ *     are re-sent with their original idempotencyKey so the gateway re-attaches
+ *     them; a run that can't be re-attached fails with OpenClawRunInterruptedError
  *
  * The gateway serves as a bridge to run AI agents (Claude, etc.) without
  * needing direct API keys — the gateway handles model routing and billing.
@@ -17,6 +23,7 @@ import { randomUUID } from "node:crypto";
 import { EventEmitter } from "node:events";
 import WebSocket from "ws";
 import type { OpenClawResult } from "../types.js";
+import { computeBackoffMs } from "./client.js";
 import {
   loadOrCreateDeviceIdentity,
   publicKeyBase64Url,
@@ -35,10 +42,30 @@ type Pending = {
   reject: (error: Error) => void;
   expectFinal: boolean;
   timeout: ReturnType<typeof setTimeout>;
+  /** Socket the request was last sent on. */
+  sentOn: WebSocket | null;
+  /** Set for agent runs: how to re-send the request after a reconnect. */
+  replay?: { method: string; params: unknown; runId: string };
+  replayed?: boolean;
 };
 
+/**
+ * An agent run lost with the gateway connection: reconnecting failed, replay
+ * is disabled, or the gateway refused to re-attach it. The run may still have
+ * finished on the gateway, so it must not be blindly re-run.
+ */
+export class OpenClawRunInterruptedError extends Error {
+  readonly runId: string;
+
+  constructor(runId: string, reason: string) {
+    super(`OpenClaw run ${runId} was interrupted: ${reason}`);
+    this.name = "OpenClawRunInterruptedError";
+    this.runId = runId;
+  }
+}
+
 /** Server-initiated event (e.g. connect.challenge, agent progress). */
-type GatewayEventFrame = {
+export type GatewayEventFrame = {
   type: "event";
   event: string;
   payload?: unknown;
@@ -74,6 +101,21 @@ function asMessage(error: unknown): string {
   return String(error);
 }
 
+export type OpenClawReconnectOptions = {
+  /** Reconnect attempts before in-flight runs are reported as interrupted. Defaults to 5. */
+  maxAttempts?: number;
+  /** Defaults to 1s. */
+  baseDelayMs?: number;
+  /** Defaults to 30s. */
+  maxDelayMs?: number;
+  /**
+   * Re-send in-flight runs after reconnecting. Disable for gateways that
+   * don't dedupe `agent` requests by idempotencyKey; runs are then reported
+   * as interrupted as soon as the connection drops. Defaults to true.
+   */
+  replayRuns?: boolean;
+};
+
 export type OpenClawClientOptions = {
   gatewayUrl: string;
   token?: string;
@@ -82,6 +124,9 @@ export type OpenClawClientOptions = {
   clientName?: string;
   clientVersion?: string;
   instanceId?: string;
+  reconnect?: OpenClawReconnectOptions;
+  /** How long an aborted run waits for the gateway to confirm it stopped. Defaults to 5s. */
+  abortTimeoutMs?: number;
 };
 
 export class OpenClawClient extends EventEmitter {
@@ -91,6 +136,7 @@ export class OpenClawClient extends EventEmitter {
   private connectPromise: Promise<void> | null = null;
   private connected = false;
   private connectReject: ((err: Error) => void) | null = null;
+  private reconnecting = false;
   private deviceIdentity: DeviceIdentity;
 
   constructor(opts: OpenClawClientOptions) {
@@ -107,6 +153,104 @@ export class OpenClawClient extends EventEmitter {
     this.pending.clear();
   }
 
+  /** Rejects pending requests matching `filter` with the error `toError` builds for each. */
+  private rejectPending(filter: (pending: Pending) => boolean, toError: (pending: Pending) => Error) {
+    for (const [id, pending] of this.pending) {
+      if (!filter(pending)) continue;
+      this.pending.delete(id);
+      clearTimeout(pending.timeout);
+      pending.reject(toError(pending));
+    }
+  }
+
+  /** Stops waiting for a run's response (and stops replaying it). */
+  private dropRun(runId: string, reason: Error) {
+    this.rejectPending((pending) => pending.replay?.runId === runId, () => reason);
+  }
+
+  private hasPendingRuns(): boolean {
+    for (const pending of this.pending.values()) {
+      if (pending.replay) return true;
+    }
+    return false;
+  }
+
+  /**
+   * The socket dropped (not through close()). Plain requests fail right away;
+   * agent runs wait for a reconnect unless replay is disabled.
+   */
+  private handleDisconnect(error: Error) {
+    const replayRuns = this.opts.reconnect?.replayRuns !== false;
+    this.rejectPending(
+      (pending) => !pending.replay || !replayRuns,
+      (pending) =>
+        pending.replay
+          ? new OpenClawRunInterruptedError(pending.replay.runId, `gateway connection lost (${error.message})`)
+          : error,
+    );
+    if (!this.hasPendingRuns() || this.reconnecting) return;
+    this.emit("disconnected", { error: error.message });
+    void this.reconnect(error);
+  }
+
+  /**
+   * Reconnects with backoff while runs are waiting, then re-sends them. Gives
+   * up after `maxAttempts`, failing the runs as interrupted. Runs that time
+   * out or a close() meanwhile end the loop early.
+   */
+  private async reconnect(cause: Error): Promise<void> {
+    if (this.reconnecting) return;
+    this.reconnecting = true;
+    const policy = {
+      maxAttempts: Math.max(1, this.opts.reconnect?.maxAttempts ?? 5),
+      baseDelayMs: this.opts.reconnect?.baseDelayMs ?? 1_000,
+      maxDelayMs: this.opts.reconnect?.maxDelayMs ?? 30_000,
+    };
+    let lastError = cause;
+    try {
+      for (let attempt = 1; attempt <= policy.maxAttempts; attempt += 1) {
+        const delayMs = computeBackoffMs(attempt - 1, policy);
+        this.emit("reconnecting", { attempt, delayMs });
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+        if (!this.hasPendingRuns()) return;
+        try {
+          await this.connect();
+        } catch (error) {
+          lastError = error instanceof Error ? error : new Error(asMessage(error));
+          continue;
+        }
+        const replayed = this.replayRuns();
+        this.emit("reconnected", { attempt, replayed });
+        return;
+      }
+      this.rejectPending(
+        (pending) => Boolean(pending.replay),
+        (pending) =>
+          new OpenClawRunInterruptedError(
+            pending.replay!.runId,
+            `gateway unreachable after ${policy.maxAttempts} reconnect attempts (${lastError.message})`,
+          ),
+      );
+    } finally {
+      this.reconnecting = false;
+    }
+  }
+
+  /** Re-sends runs started on an earlier socket; returns how many. */
+  private replayRuns(): number {
+    const ws = this.ws;
+    if (!ws) return 0;
+    let replayed = 0;
+    for (const [id, pending] of this.pending) {
+      if (!pending.replay || pending.sentOn === ws) continue;
+      pending.sentOn = ws;
+      pending.replayed = true;
+      ws.send(JSON.stringify({ type: "req", id, method: pending.replay.method, params: pending.replay.params }));
+      replayed += 1;
+    }
+    return replayed;
+  }
+
   /**
    * Processes an incoming WebSocket message.
    * Routes event frames (like connect.challenge) to event handlers,
@@ -152,7 +296,12 @@ export class OpenClawClient extends EventEmitter {
     this.pending.delete(parsed.id);
     clearTimeout(pending.timeout);
     if (!parsed.ok) {
-      pending.reject(new Error(parsed.error?.message || "OpenClaw request failed"));
+      const message = parsed.error?.message || "OpenClaw request failed";
+      pending.reject(
+        pending.replay && pending.replayed
+          ? new OpenClawRunInterruptedError(pending.replay.runId, `gateway could not re-attach the run (${message})`)
+          : new Error(message),
+      );
       return;
     }
     pending.resolve(parsed.payload);
@@ -234,6 +383,7 @@ export class OpenClawClient extends EventEmitter {
         reject,
         expectFinal: false,
         timeout,
+        sentOn: this.ws,
       });
     });
     this.ws.send(
@@ -339,10 +489,12 @@ export class OpenClawClient extends EventEmitter {
         }
       });
       ws.on("close", (code, reason) => {
+        settle(new Error(`OpenClaw gateway closed during connect (${code})`));
+        // close() has already detached this socket and flushed its requests.
+        if (this.ws !== ws) return;
         this.connected = false;
         this.ws = null;
-        this.flushPending(new Error(`OpenClaw gateway closed (${code}): ${String(reason)}`));
-        settle(new Error(`OpenClaw gateway closed during connect (${code})`));
+        this.handleDisconnect(new Error(`OpenClaw gateway closed (${code}): ${String(reason)}`));
       });
       ws.on("error", (error) => {
         settle(error instanceof Error ? error : new Error(asMessage(error)));
@@ -363,11 +515,13 @@ export class OpenClawClient extends EventEmitter {
    * Sends a JSON-RPC-style request to the gateway and awaits the response.
    * Auto-connects if needed. Supports timeouts and "expectFinal" mode
    * (where an intermediate "accepted" response is ignored, waiting for the final result).
+   * With `runId` (the request's idempotencyKey), the request survives a
+   * dropped connection and is re-sent after reconnecting.
    */
   async request<T = unknown>(
     method: string,
     params?: unknown,
-    opts?: { expectFinal?: boolean; timeoutMs?: number },
+    opts?: { expectFinal?: boolean; timeoutMs?: number; runId?: string },
   ): Promise<T> {
     await this.connect();
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
@@ -386,6 +540,8 @@ export class OpenClawClient extends EventEmitter {
         reject,
         expectFinal,
         timeout,
+        sentOn: this.ws,
+        replay: opts?.runId ? { method, params, runId: opts.runId } : undefined,
       });
     });
 
@@ -414,7 +570,8 @@ export class OpenClawClient extends EventEmitter {
    * Runs an agent execution via the gateway.
    * Sends the prompt to the specified agent, waits for completion,
    * and extracts text payloads + usage metrics from the response.
-   * Supports abort signals for cancellation.
+   * On abort, asks the gateway to stop the run (see abortRun); the result
+   * is `aborted` with `cancel` saying whether the gateway confirmed it.
    */
   async execute(opts: {
     prompt: string;
@@ -430,7 +587,18 @@ export class OpenClawClient extends EventEmitter {
     abortSignal?: AbortSignal;
   }): Promise<OpenClawResult> {
     const startedAt = Date.now();
-    const eventHandler = opts.onEvent ? (event: GatewayEventFrame) => opts.onEvent?.(event) : null;
+    if (opts.abortSignal?.aborted) {
+      return { payloads: [], durationMs: 0, aborted: true, cancel: { stopped: true, detail: "aborted before the run started" } };
+    }
+    const idempotencyKey = randomUUID();
+    // Events are broadcast per connection; only forward ones for this run (or untagged ones).
+    const eventHandler = opts.onEvent
+      ? (event: GatewayEventFrame) => {
+          const payload = event.payload as Record<string, unknown> | undefined;
+          if (typeof payload?.runId === "string" && payload.runId !== idempotencyKey) return;
+          opts.onEvent?.(event);
+        }
+      : null;
     if (eventHandler) {
       this.on("event", eventHandler);
     }
@@ -447,29 +615,36 @@ export class OpenClawClient extends EventEmitter {
         ...(opts.to ? { to: opts.to } : {}),
         ...(opts.accountId ? { accountId: opts.accountId } : {}),
         ...(opts.threadId ? { threadId: opts.threadId } : {}),
-        idempotencyKey: randomUUID(),
+        idempotencyKey,
       },
       {
         expectFinal: true,
         timeoutMs: Math.max(30_000, (opts.timeoutSec ?? 120) * 1000 + 30_000),
+        runId: idempotencyKey,
       },
     );
 
-    const aborted =
-      opts.abortSignal && !opts.abortSignal.aborted
-        ? new Promise<Record<string, unknown>>((_, reject) => {
-            opts.abortSignal?.addEventListener(
-              "abort",
-              () => reject(new Error("aborted")),
-              { once: true },
-            );
-          })
-        : null;
+    let onAbort: (() => void) | null = null;
+    const aborted = opts.abortSignal
+      ? new Promise<"aborted">((resolve) => {
+          onAbort = () => resolve("aborted");
+          opts.abortSignal?.addEventListener("abort", onAbort, { once: true });
+        })
+      : null;
 
     let response: Record<string, unknown>;
+    let cancel: OpenClawResult["cancel"];
     try {
-      response = aborted ? await Promise.race([run, aborted]) : await run;
+      const first = aborted ? await Promise.race([run, aborted]) : await run;
+      if (first === "aborted") {
+        const outcome = await this.abortRun(opts.sessionKey, idempotencyKey, run);
+        response = outcome.response ?? {};
+        cancel = outcome.cancel;
+      } else {
+        response = first;
+      }
     } finally {
+      if (onAbort) opts.abortSignal?.removeEventListener("abort", onAbort);
       if (eventHandler) {
         this.off("event", eventHandler);
       }
@@ -507,9 +682,53 @@ export class OpenClawClient extends EventEmitter {
       durationMs:
         typeof result.durationMs === "number" ? result.durationMs : Math.max(0, Date.now() - startedAt),
       aborted: opts.abortSignal?.aborted === true,
+      ...(cancel ? { cancel } : {}),
     };
   }
 
+  /**
+   * Sends `chat.abort` for a run and waits up to `abortTimeoutMs` for the
+   * ack and then the run's final response (which carries partial payloads
+   * and usage). The run counts as stopped when the gateway acks without
+   * saying `aborted: false`; a failed or missing ack leaves it unconfirmed.
+   * Whatever happens, the run's request is dropped so it isn't replayed.
+   */
+  private async abortRun(
+    sessionKey: string,
+    runId: string,
+    run: Promise<Record<string, unknown>>,
+  ): Promise<{ response?: Record<string, unknown>; cancel: NonNullable<OpenClawResult["cancel"]> }> {
+    const timeoutMs = Math.max(0, this.opts.abortTimeoutMs ?? 5_000);
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const deadline = new Promise<"timeout">((resolve) => {
+      timer = setTimeout(() => resolve("timeout"), timeoutMs);
+    });
+    const ack = this.request<Record<string, unknown> | undefined>(
+      "chat.abort",
+      { sessionKey, runId },
+      { timeoutMs: Math.max(1, timeoutMs) },
+    ).then(
+      (payload): NonNullable<OpenClawResult["cancel"]> =>
+        payload?.aborted === false
+          ? { stopped: false, detail: "the gateway had no active run to stop" }
+          : { stopped: true },
+      (error: unknown): NonNullable<OpenClawResult["cancel"]> => ({
+        stopped: false,
+        detail: `chat.abort failed: ${asMessage(error)}`,
+      }),
+    );
+    const acked = await Promise.race([ack, deadline]);
+    const cancel =
+      acked === "timeout"
+        ? { stopped: false, detail: `chat.abort not acknowledged within ${timeoutMs}ms` }
+        : acked;
+    const final = await Promise.race([run.catch(() => undefined), deadline]);
+    if (timer) clearTimeout(timer);
+    const response = final === "timeout" ? undefined : final;
+    this.dropRun(runId, new Error("aborted"));
+    return { response, cancel };
+  }
+
   close() {
     this.connected = false;
     this.connectReject = null;
@@ -519,8 +738,9 @@ export class OpenClawClient extends EventEmitter {
       this.connectPromise = null;
     }
     if (this.ws) {
-      this.ws.close();
+      const ws = this.ws;
       this.ws = null;
+      ws.close();
     }
     this.flushPending(new Error("OpenClaw client closed"));
   }
@@ -9,13 +9,40 @@
  * Accepts multiple backend aliases (openclaw, claude-cli, codex-cli) since
  * when OpenClaw is available it serves as the primary execution path for
  * all agent types.
+ *
+ * Gateway agent events are recorded in a per-task ActivityLog (tool calls,
+ * thinking, lifecycle, errors): its summary rides along with heartbeat
+ * progress and its report is attached to the result's usageJson as
+ * `activity`.
+ *
+ * Media payloads (`mediaUrl`) are read, hashed, and reported as the
+ * result's artifacts, in payload order. Local media is only read from the
+ * OpenClaw media directory (~/.openclaw/media) or the task workspace.
+ *
+ * A cancelled run is stopped on the gateway (`chat.abort`); when the gateway
+ * doesn't confirm it stopped, the output says so and usageJson records
+ * `cancel`, since the agent may still be running (and spending tokens).
+ *
+ * A run the client couldn't re-attach after a gateway reconnect fails as
+ * interrupted and permanent: it may have finished (or had side effects) on
+ * the gateway, so re-running it isn't safe.
  */
-import type { OpenClawClient } from "./openclaw.js";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { OpenClawRunInterruptedError, type GatewayEventFrame, type OpenClawClient } from "./openclaw.js";
 import type { OpenClawResult } from "../types.js";
+import { ActivityLog, type ActivityEntry } from "./activity.js";
+import { fetchMediaArtifact, type FetchArtifactOptions } from "./artifacts.js";
 import {
+  type RunnerArtifact,
+  type RunnerErrorKind,
   type RunnerExecutionBackend,
+  type RunnerExecutionProgress,
   type RunnerExecutionRequest,
   type RunnerExecutionResult,
+  type RunnerPreflightResult,
+  classifyExecutionError,
+  isTransientErrorMessage,
   normalizeExecutionBackend,
   packetInput,
   packetStreamId,
@@ -50,6 +77,20 @@ function extractOutput(result: OpenClawResult): string {
   return lines.join("\n\n");
 }
 
+/** Where OpenClaw writes the media its agents produce. */
+const DEFAULT_MEDIA_DIR = join(homedir(), ".openclaw", "media");
+
+/** Reads every media payload into an artifact; unnamed media are `media-<n>`. */
+async function collectMediaArtifacts(
+  result: OpenClawResult,
+  opts?: FetchArtifactOptions,
+): Promise<RunnerArtifact[]> {
+  const urls = result.payloads
+    .map((payload) => payload.mediaUrl?.trim())
+    .filter((url): url is string => Boolean(url));
+  return await Promise.all(urls.map((url, index) => fetchMediaArtifact(url, `media-${index + 1}`, opts)));
+}
+
 function hasErrorPayload(result: OpenClawResult): boolean {
   return result.payloads.some((payload) => payload.isError === true);
 }
@@ -65,17 +106,105 @@ export function isApprovalError(error: unknown): boolean {
   );
 }
 
+/**
+ * Maps a gateway `agent` event to execution progress.
+ * Assistant stream events carry the cumulative text (or a delta appended to
+ * `currentOutput`); tool stream events become a `tool:<name>` phase.
+ * Returns null for events that carry nothing worth reporting.
+ */
+export function gatewayEventProgress(
+  event: GatewayEventFrame,
+  currentOutput: string,
+): RunnerExecutionProgress | null {
+  if (event.event !== "agent" || !event.payload || typeof event.payload !== "object") {
+    return null;
+  }
+  const payload = event.payload as Record<string, unknown>;
+  const data =
+    payload.data && typeof payload.data === "object"
+      ? (payload.data as Record<string, unknown>)
+      : {};
+  if (payload.stream === "assistant") {
+    if (typeof data.text === "string") return { output: data.text };
+    if (typeof data.delta === "string") return { output: currentOutput + data.delta };
+    return null;
+  }
+  if (payload.stream === "tool" && typeof data.name === "string") {
+    return { phase: `tool:${data.name}` };
+  }
+  return null;
+}
+
+function describeValue(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === "string") return value;
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Maps a gateway `agent` event to an activity entry:
+ *   - tool stream → a tool call on its `start` phase (or when no phase is
+ *     given), and an error when a result comes back with `isError`
+ *   - thinking/reasoning stream → thinking; assistant stream → text
+ *   - lifecycle stream → its phase, or an error for the `error` phase
+ * Returns null for other events and tool updates.
+ */
+export function gatewayEventActivity(event: GatewayEventFrame): Omit<ActivityEntry, "offsetMs"> | null {
+  if (event.event !== "agent" || !event.payload || typeof event.payload !== "object") {
+    return null;
+  }
+  const payload = event.payload as Record<string, unknown>;
+  const data =
+    payload.data && typeof payload.data === "object"
+      ? (payload.data as Record<string, unknown>)
+      : {};
+  const phase = typeof data.phase === "string" ? data.phase : undefined;
+  switch (payload.stream) {
+    case "tool": {
+      const name = typeof data.name === "string" ? data.name : undefined;
+      if (phase === undefined || phase === "start") {
+        return { kind: "tool", name, detail: describeValue(data.args) };
+      }
+      if (phase === "result" && data.isError === true) {
+        return { kind: "error", name, detail: describeValue(data.result) };
+      }
+      return null;
+    }
+    case "thinking":
+    case "reasoning":
+      return { kind: "thinking" };
+    case "assistant":
+      return { kind: "text" };
+    case "lifecycle":
+      if (phase === "error") return { kind: "error", name: "lifecycle", detail: describeValue(data.error) };
+      return phase ? { kind: "lifecycle", name: phase } : null;
+    default:
+      return null;
+  }
+}
+
 export type OpenClawExecutionBackendOptions = {
   client: OpenClawClient;
   orgId: string;
   openclawAgentId?: string;
   aliases?: string[];
+  /**
+   * Limits for reading media payloads. `localRoots` defaults to the OpenClaw
+   * media directory; the task workspace, when there is one, is always allowed.
+   */
+  media?: FetchArtifactOptions;
 };
 
 export class OpenClawExecutionBackend implements RunnerExecutionBackend {
   readonly id = "openclaw";
   private readonly opts: OpenClawExecutionBackendOptions;
   private readonly aliases: Set<string>;
+  /** The gateway agent picks the model; this is the one its last result reported. */
+  private reportedModel: string | undefined;
 
   constructor(opts: OpenClawExecutionBackendOptions) {
     this.opts = opts;
@@ -94,6 +223,32 @@ export class OpenClawExecutionBackend implements RunnerExecutionBackend {
     return Boolean(normalized && this.aliases.has(normalized));
   }
 
+  /** The gateway agent's model, once a result has reported it. */
+  get defaultModel(): string | undefined {
+    return this.reportedModel;
+  }
+
+  /**
+   * Approval errors need a human and are permanent. A gateway that dropped
+   * the connection or didn't answer the connect is transient: the next
+   * attempt reconnects.
+   */
+  classifyError(error: unknown): RunnerErrorKind {
+    if (isApprovalError(error) || error instanceof OpenClawRunInterruptedError) return "permanent";
+    const message = error instanceof Error ? error.message : String(error);
+    if (/OpenClaw gateway (?:closed|is not connected)|OpenClaw connect timeout/.test(message)) {
+      return "transient";
+    }
+    return classifyExecutionError(error);
+  }
+
+  /** Fails when the gateway doesn't answer a health request, so tasks can fall back. */
+  async preflight(): Promise<RunnerPreflightResult> {
+    return (await this.opts.client.ping())
+      ? { ok: true }
+      : { ok: false, reason: "OpenClaw gateway health check failed" };
+  }
+
   /**
    * Derives a session key for the OpenClaw gateway.
    * The key pattern varies by task type to maintain separate conversation contexts:
@@ -117,37 +272,93 @@ export class OpenClawExecutionBackend implements RunnerExecutionBackend {
   }
 
   async execute(request: RunnerExecutionRequest): Promise<RunnerExecutionResult> {
-    const result = await this.opts.client.execute({
-      prompt: request.prompt,
-      sessionKey: this.deriveSessionKey(request.packet),
-      agentId: this.opts.openclawAgentId,
-      abortSignal: request.abortSignal,
-    });
+    let partialOutput = "";
+    const activity = new ActivityLog();
+    let activitySummary = "";
+    const onEvent = (event: GatewayEventFrame) => {
+      const entry = gatewayEventActivity(event);
+      if (entry) activity.record(entry);
+      const summary = activity.summary();
+      const summaryChanged = summary !== activitySummary;
+      activitySummary = summary;
+      const progress = gatewayEventProgress(event, partialOutput);
+      if (progress?.output !== undefined) partialOutput = progress.output;
+      if (!progress && !summaryChanged) return;
+      request.onProgress?.({ ...progress, ...(summaryChanged ? { activity: summary } : {}) });
+    };
+    const withActivity = (usage: Record<string, unknown>): string | undefined => {
+      const fields = activity.size > 0 ? { ...usage, activity: activity.report() } : usage;
+      return Object.keys(fields).length > 0 ? JSON.stringify(fields) : undefined;
+    };
+    let result: OpenClawResult;
+    try {
+      result = await this.opts.client.execute({
+        prompt: request.prompt,
+        sessionKey: this.deriveSessionKey(request.packet),
+        agentId: this.opts.openclawAgentId,
+        timeoutSec: request.timeoutMs ? Math.ceil(request.timeoutMs / 1000) : undefined,
+        onEvent,
+        abortSignal: request.abortSignal,
+      });
+    } catch (error) {
+      if (!(error instanceof OpenClawRunInterruptedError)) throw error;
+      return {
+        status: "failed",
+        output: partialOutput ? `${error.message}\n\nPartial output:\n${partialOutput}` : error.message,
+        durationMs: Math.max(0, Date.now() - request.startedAt),
+        usageJson: withActivity({ interrupted: { runId: error.runId } }),
+        errorKind: "permanent",
+      };
+    }
     const output = extractOutput(result);
+    const artifacts = await collectMediaArtifacts(result, {
+      ...this.opts.media,
+      localRoots: [
+        ...(this.opts.media?.localRoots ?? [DEFAULT_MEDIA_DIR]),
+        ...(request.workspaceDir ? [request.workspaceDir] : []),
+      ],
+    });
     const errored = hasErrorPayload(result);
     const status = result.aborted ? "cancelled" : errored ? "failed" : "done";
     const usageObj: Record<string, unknown> = {};
     if (result.usage?.input !== undefined) usageObj.inputTokens = result.usage.input;
     if (result.usage?.output !== undefined) usageObj.outputTokens = result.usage.output;
     if (result.usage?.total !== undefined) usageObj.tokensUsed = result.usage.total;
-    if (result.model) usageObj.model = result.model;
+    if (result.model) {
+      usageObj.model = result.model;
+      this.reportedModel = result.model;
+    }
     if (result.provider) usageObj.provider = result.provider;
+    if (result.cancel) usageObj.cancel = result.cancel;
+    const cancelNote =
+      status === "cancelled" && result.cancel && !result.cancel.stopped
+        ? `OpenClaw did not confirm the run stopped${result.cancel.detail ? ` (${result.cancel.detail})` : ""}; it may still be running on the gateway.`
+        : undefined;
 
     return {
       status,
       output:
-        output.length > 0
-          ? output
-          : status === "cancelled"
-            ? "Cancelled by user request"
-            : "(empty response)",
+        [
+          output.length > 0
+            ? output
+            : status === "cancelled"
+              ? "Cancelled by user request"
+              : artifacts.length > 0
+                ? `Attached: ${artifacts.map((artifact) => artifact.name).join(", ")}`
+                : "(empty response)",
+          cancelNote,
+        ]
+          .filter(Boolean)
+          .join("\n\n"),
       tokensUsed: result.usage?.total,
       durationMs:
         typeof result.durationMs === "number"
           ? result.durationMs
           : Math.max(0, Date.now() - request.startedAt),
       model: result.model,
-      usageJson: Object.keys(usageObj).length > 0 ? JSON.stringify(usageObj) : undefined,
+      usageJson: withActivity(usageObj),
+      ...(artifacts.length > 0 ? { artifacts } : {}),
+      errorKind: status === "failed" ? (isTransientErrorMessage(output) ? "transient" : "permanent") : undefined,
     };
   }
 }
@@ -0,0 +1,135 @@
+/**
+ * On-disk outbox for task completions that couldn't be delivered.
+ *
+ * When `completeTask` still fails after the client's retries (server down,
+ * network gone), the executor parks the result here instead of losing it.
+ * Entries live under `~/.flux/outbox/` as one JSON file per task and are
+ * flushed in the order they were queued once connectivity returns:
+ *   - Delivered entries are removed
+ *   - Entries the server permanently rejects (4xx other than 408/429) are dropped
+ *   - The first transient failure stops the flush; the rest wait for the next one
+ */
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { CompleteTaskResult, FluxMcpClient } from "./client.js";
+import { isTransientRequestError } from "./client.js";
+import { entryFileName, writeJsonAtomic } from "./journal.js";
+
+export type OutboxEntry = {
+  taskId: string;
+  sessionId: string;
+  result: CompleteTaskResult;
+  queuedAt: string;
+  attempts: number;
+  lastError?: string;
+};
+
+export type CompletionOutboxOptions = {
+  dir?: string;
+};
+
+/** Outcome of trying to deliver one outbox entry. */
+export type OutboxFlushOutcome = {
+  taskId: string;
+  action: "delivered" | "dropped" | "deferred";
+  error?: string;
+};
+
+function isOutboxEntry(value: unknown): value is OutboxEntry {
+  if (!value || typeof value !== "object") return false;
+  const v = value as Record<string, unknown>;
+  return (
+    typeof v.taskId === "string" &&
+    typeof v.sessionId === "string" &&
+    !!v.result &&
+    typeof v.result === "object"
+  );
+}
+
+export class CompletionOutbox {
+  private readonly dir: string;
+  private flushing: Promise<OutboxFlushOutcome[]> | null = null;
+
+  constructor(opts: CompletionOutboxOptions = {}) {
+    this.dir = opts.dir || path.join(os.homedir(), ".flux", "outbox");
+  }
+
+  getDir(): string {
+    return this.dir;
+  }
+
+  /** Durably queues a completion for later delivery. */
+  enqueue(taskId: string, sessionId: string, result: CompleteTaskResult, error?: unknown): void {
+    mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+    const entry: OutboxEntry = {
+      taskId,
+      sessionId,
+      result,
+      queuedAt: new Date().toISOString(),
+      attempts: 1,
+      ...(error !== undefined
+        ? { lastError: error instanceof Error ? error.message : String(error) }
+        : {}),
+    };
+    writeJsonAtomic(path.join(this.dir, entryFileName(taskId)), entry);
+  }
+
+  /** Lists queued completions, oldest first. */
+  list(): OutboxEntry[] {
+    if (!existsSync(this.dir)) return [];
+    const entries: OutboxEntry[] = [];
+    for (const file of readdirSync(this.dir)) {
+      if (!file.endsWith(".json")) continue;
+      try {
+        const parsed: unknown = JSON.parse(readFileSync(path.join(this.dir, file), "utf8"));
+        if (isOutboxEntry(parsed)) entries.push(parsed);
+      } catch {
+        // Corrupt entry — nothing deliverable in it.
+      }
+    }
+    return entries.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+  }
+
+  get size(): number {
+    return this.list().length;
+  }
+
+  /**
+   * Tries to deliver every queued completion. Concurrent calls share the
+   * in-progress flush rather than double-sending.
+   */
+  flush(fluxClient: Pick<FluxMcpClient, "completeTask">): Promise<OutboxFlushOutcome[]> {
+    if (!this.flushing) {
+      this.flushing = this.flushOnce(fluxClient).finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async flushOnce(
+    fluxClient: Pick<FluxMcpClient, "completeTask">,
+  ): Promise<OutboxFlushOutcome[]> {
+    const outcomes: OutboxFlushOutcome[] = [];
+    for (const entry of this.list()) {
+      const file = path.join(this.dir, entryFileName(entry.taskId));
+      try {
+        await fluxClient.completeTask(entry.taskId, entry.sessionId, entry.result);
+        rmSync(file, { force: true });
+        outcomes.push({ taskId: entry.taskId, action: "delivered" });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (!isTransientRequestError(error)) {
+          rmSync(file, { force: true });
+          outcomes.push({ taskId: entry.taskId, action: "dropped", error: message });
+          continue;
+        }
+        writeJsonAtomic(file, { ...entry, attempts: entry.attempts + 1, lastError: message });
+        outcomes.push({ taskId: entry.taskId, action: "deferred", error: message });
+        break;
+      }
+    }
+    return outcomes;
+  }
+}
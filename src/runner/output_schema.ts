@@ -0,0 +1,101 @@
+/**
+ * Structured output validation.
+ *
+ * A packet can require its output to match a JSON Schema
+ * (`execution.outputSchemaJson`). TaskExecutor validates every backend's
+ * `done` result against it after execution:
+ *   - The output must parse as JSON and satisfy the schema (ajv, all errors)
+ *   - The first few ajv errors are summarized as `<path> <message>` pairs
+ *   - With repair attempts configured, the executor re-prompts the backend
+ *     with repairPrompt() — the previous output and the errors — before
+ *     failing the task
+ */
+import { Ajv } from "ajv";
+
+const ajv = new Ajv({
+  allErrors: true,
+  strict: false,
+});
+
+/** Returns null when the output is valid, or a summary of what is wrong with it. */
+export type OutputSchemaValidator = (outputText: string) => string | null;
+
+/** Summarizes up to three ajv errors as `<instancePath> <message>`, joined by `; `. */
+export function summarizeAjvErrors(errors: unknown): string {
+  if (!Array.isArray(errors) || errors.length === 0) return "unknown schema validation error";
+  const messages = errors
+    .slice(0, 3)
+    .map((err) => {
+      if (!err || typeof err !== "object") return null;
+      const row = err as Record<string, unknown>;
+      const pathRaw =
+        typeof row.instancePath === "string" && row.instancePath.length > 0
+          ? row.instancePath
+          : "/";
+      const msg =
+        typeof row.message === "string" && row.message.length > 0
+          ? row.message
+          : "invalid";
+      return `${pathRaw} ${msg}`;
+    })
+    .filter((line): line is string => Boolean(line));
+  return messages.join("; ") || "unknown schema validation error";
+}
+
+/**
+ * Compiles a packet's outputSchemaJson. Throws when it isn't JSON or isn't
+ * a usable JSON Schema, since no output could ever be validated against it.
+ */
+export function compileOutputSchema(outputSchemaJson: string): OutputSchemaValidator {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(outputSchemaJson);
+  } catch {
+    throw new Error("packet execution.outputSchemaJson is not valid JSON");
+  }
+  let validate: ReturnType<typeof ajv.compile>;
+  try {
+    validate = ajv.compile(schema as Record<string, unknown>);
+  } catch (error) {
+    throw new Error(
+      `packet execution.outputSchemaJson is not a valid JSON Schema: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  return (outputText) => {
+    let parsedOutput: unknown;
+    try {
+      parsedOutput = JSON.parse(outputText);
+    } catch {
+      return "output is not valid JSON";
+    }
+    if (validate(parsedOutput)) return null;
+    return summarizeAjvErrors(validate.errors);
+  };
+}
+
+/** The follow-up prompt asking a backend to fix output that failed validation. */
+export function repairPrompt(
+  originalPrompt: string,
+  outputSchemaJson: string,
+  previousOutput: string,
+  errors: string,
+): string {
+  return [
+    originalPrompt,
+    "",
+    "## Output validation failed",
+    "Your previous response did not match the required JSON Schema.",
+    "",
+    "### Previous response",
+    previousOutput,
+    "",
+    "### Errors",
+    errors,
+    "",
+    "### Required JSON Schema",
+    outputSchemaJson,
+    "",
+    "Respond again with only a JSON value that matches the schema.",
+  ].join("\n");
+}
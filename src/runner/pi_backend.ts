@@ -6,14 +6,14 @@
  *   - Uses a model registry (models.json) and auth storage (auth.json)
  *     located in the agent directory (~/.flux/pi-agent by default)
  *   - Supports any provider/model configured in the registry
- *   - Validates output against JSON Schema when execution.outputSchemaJson is set
- *   - Respects task timeouts and abort signals
+ *   - Stops on the abort signal (cancellation, or the executor's task timeout)
  *   - Streams text deltas for progressive output capture
+ *   - Collects declared output files (`execution.outputFiles`) from the
+ *     workspace as artifacts when the run wasn't cancelled
  */
 import os from "node:os";
 import path from "node:path";
 import { access, constants } from "node:fs/promises";
-import { Ajv } from "ajv";
 import {
   AuthStorage,
   ModelRegistry,
@@ -24,36 +24,20 @@ import type {
   RunnerExecutionBackend,
   RunnerExecutionRequest,
   RunnerExecutionResult,
+  RunnerPreflightResult,
 } from "./execution.js";
-import { normalizeExecutionBackend } from "./execution.js";
-
-const ajv = new Ajv({
-  allErrors: true,
-  strict: false,
-});
+import {
+  classifyExecutionError,
+  isTransientErrorMessage,
+  normalizeExecutionBackend,
+} from "./execution.js";
+import { collectOutputFiles } from "./artifacts.js";
 
 type ParsedModelRef = {
   provider: string;
   model: string;
 };
 
-/** Reads the task timeout from the packet (execution or policy), converting seconds to ms. */
-function resolveTaskTimeoutMs(request: RunnerExecutionRequest): number | null {
-  const fromExecution =
-    typeof request.packet.execution?.timeoutSec === "number" &&
-    Number.isFinite(request.packet.execution.timeoutSec)
-      ? request.packet.execution.timeoutSec
-      : null;
-  const fromPolicy =
-    typeof request.packet.policy?.taskTimeoutSeconds === "number" &&
-    Number.isFinite(request.packet.policy.taskTimeoutSeconds)
-      ? request.packet.policy.taskTimeoutSeconds
-      : null;
-  const seconds = fromExecution ?? fromPolicy;
-  if (seconds === null || seconds <= 0) return null;
-  return Math.floor(seconds * 1000);
-}
-
 /** Parses a "provider/model" string into its components. */
 function parseModelRef(raw: string): ParsedModelRef | null {
   const normalized = raw.trim();
@@ -84,62 +68,13 @@ function extractAssistantText(message: AssistantMessage | null): string {
   return chunks.join("").trim();
 }
 
-function summarizeAjvErrors(errors: unknown): string {
-  if (!Array.isArray(errors) || errors.length === 0) return "unknown schema validation error";
-  const messages = errors
-    .slice(0, 3)
-    .map((err) => {
-      if (!err || typeof err !== "object") return null;
-      const row = err as Record<string, unknown>;
-      const pathRaw =
-        typeof row.instancePath === "string" && row.instancePath.length > 0
-          ? row.instancePath
-          : "/";
-      const msg =
-        typeof row.message === "string" && row.message.length > 0
-          ? row.message
-          : "invalid";
-      return `${pathRaw} ${msg}`;
-    })
-    .filter((line): line is string => Boolean(line));
-  return messages.join("; ") || "unknown schema validation error";
-}
-
-/**
- * Validates the output text against a JSON Schema.
- * Returns null if valid, or a human-readable error string if validation fails.
- */
-function validateOutputSchema(
-  outputSchemaJson: string,
-  outputText: string,
-): string | null {
-  let schema: unknown;
-  try {
-    schema = JSON.parse(outputSchemaJson);
-  } catch {
-    return "packet execution.outputSchemaJson is not valid JSON";
-  }
-
-  const validate = ajv.compile(schema as Record<string, unknown>);
-
-  let parsedOutput: unknown;
-  try {
-    parsedOutput = JSON.parse(outputText);
-  } catch {
-    return "output is not valid JSON";
-  }
-
-  const valid = validate(parsedOutput);
-  if (valid) return null;
-  return summarizeAjvErrors(validate.errors);
-}
-
 export type PiExecutionBackendOptions = {
   agentDir?: string;
 };
 
 export class PiExecutionBackend implements RunnerExecutionBackend {
   readonly id = "pi";
+  readonly usesWorkspace = true;
   private readonly agentDir: string;
 
   constructor(opts: PiExecutionBackendOptions = {}) {
@@ -157,7 +92,7 @@ export class PiExecutionBackend implements RunnerExecutionBackend {
     return normalizeExecutionBackend(backend) === "pi";
   }
 
-  async preflight(): Promise<{ ok: true } | { ok: false; reason: string }> {
+  async preflight(): Promise<RunnerPreflightResult> {
     const modelsPath = path.join(this.agentDir, "models.json");
     try {
       await access(modelsPath, constants.R_OK);
@@ -219,7 +154,7 @@ export class PiExecutionBackend implements RunnerExecutionBackend {
     }
 
     const { session } = await createAgentSession({
-      cwd: process.cwd(),
+      cwd: request.workspaceDir ?? process.cwd(),
       agentDir: this.agentDir,
       authStorage,
       modelRegistry,
@@ -236,40 +171,26 @@ export class PiExecutionBackend implements RunnerExecutionBackend {
         event.assistantMessageEvent.type === "text_delta"
       ) {
         streamedText += event.assistantMessageEvent.delta;
+        request.onProgress?.({ output: streamedText });
       }
     });
-    const timeoutMs = resolveTaskTimeoutMs(request);
-    let timedOut = false;
-    let timeoutHandle: ReturnType<typeof setTimeout> | null = null;
     const onAbort = () => {
       void session.abort();
     };
     request.abortSignal.addEventListener("abort", onAbort, { once: true });
-    if (timeoutMs !== null) {
-      timeoutHandle = setTimeout(() => {
-        timedOut = true;
-        void session.abort();
-      }, timeoutMs);
-    }
 
     try {
       try {
         await session.prompt(renderedPrompt);
       } catch (error) {
         const aborted = request.abortSignal.aborted;
-        if (timedOut) {
-          return {
-            status: "failed",
-            output: `PI execution timed out after ${String(timeoutMs)}ms`,
-            durationMs: Math.max(0, Date.now() - request.startedAt),
-          };
-        }
         return {
           status: aborted ? "cancelled" : "failed",
           output: aborted
             ? "Cancelled by user request"
             : `PI execution error: ${error instanceof Error ? error.message : String(error)}`,
           durationMs: Math.max(0, Date.now() - request.startedAt),
+          errorKind: aborted ? undefined : classifyExecutionError(error),
         };
       }
 
@@ -286,22 +207,13 @@ export class PiExecutionBackend implements RunnerExecutionBackend {
         status = "failed";
       }
 
-      let finalOutput =
+      const finalOutput =
         outputText && outputText.trim().length > 0
           ? outputText
           : status === "cancelled"
             ? "Cancelled by user request"
             : "(empty response)";
 
-      const schemaRaw = request.packet.execution?.outputSchemaJson?.trim();
-      if (status === "done" && schemaRaw) {
-        const validationError = validateOutputSchema(schemaRaw, finalOutput);
-        if (validationError) {
-          status = "failed";
-          finalOutput = `PI output validation failed: ${validationError}`;
-        }
-      }
-
       const usage = lastAssistant?.usage;
       const usageObj: Record<string, unknown> = {};
       if (usage?.totalTokens !== undefined) usageObj.tokensUsed = usage.totalTokens;
@@ -309,6 +221,7 @@ export class PiExecutionBackend implements RunnerExecutionBackend {
       if (usage?.output !== undefined) usageObj.outputTokens = usage.output;
       if (usage?.cost?.total !== undefined) usageObj.costUsd = usage.cost.total;
       if (modelRefRaw) usageObj.model = modelRefRaw;
+      const artifacts = status === "cancelled" ? [] : await collectOutputFiles(request);
 
       return {
         status,
@@ -318,12 +231,17 @@ export class PiExecutionBackend implements RunnerExecutionBackend {
         durationMs: Math.max(0, Date.now() - request.startedAt),
         model: modelRefRaw,
         usageJson: Object.keys(usageObj).length > 0 ? JSON.stringify(usageObj) : undefined,
+        // A provider error (rate limit, overload) ends the turn with stopReason "error".
+        errorKind:
+          status === "failed"
+            ? isTransientErrorMessage(lastAssistant?.errorMessage ?? "")
+              ? "transient"
+              : "permanent"
+            : undefined,
+        ...(artifacts.length > 0 ? { artifacts } : {}),
       };
     } finally {
       request.abortSignal.removeEventListener("abort", onAbort);
-      if (timeoutHandle) {
-        clearTimeout(timeoutHandle);
-      }
       unsubscribe();
       session.dispose();
     }
@@ -9,7 +9,11 @@
  *   1. Mints a short-lived push ticket via the REST API
  *   2. Opens a WebSocket with the ticket as a query param
  *   3. Sends periodic pings (every 20s) to keep the connection alive
- *   4. On disconnect, reconnects with exponential backoff (up to 30s)
+ *   4. On disconnect, reconnects with exponential backoff (up to 30s),
+ *      emitting `reconnecting` with the attempt number and delay
+ *
+ * `updateFilters()` swaps the task filters at runtime: the ticket is bound to
+ * them, so the client mints a new one and replaces the socket.
  */
 import { EventEmitter } from "node:events";
 import WebSocket from "ws";
@@ -38,8 +42,11 @@ export type FluxPushClientOptions = {
   costClass?: string;
 };
 
+/** The task filters a push ticket is minted for. */
+export type PushFilters = Pick<FluxPushClientOptions, "streamId" | "backend" | "costClass">;
+
 export class FluxPushClient extends EventEmitter {
-  private readonly opts: FluxPushClientOptions;
+  private opts: FluxPushClientOptions;
   private ws: WebSocket | null = null;
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private pingTimer: ReturnType<typeof setInterval> | null = null;
@@ -56,6 +63,10 @@ export class FluxPushClient extends EventEmitter {
       clearTimeout(this.reconnectTimer);
       this.reconnectTimer = null;
     }
+    this.stopPing();
+  }
+
+  private stopPing() {
     if (this.pingTimer) {
       clearInterval(this.pingTimer);
       this.pingTimer = null;
@@ -64,7 +75,8 @@ export class FluxPushClient extends EventEmitter {
 
   /** Schedules a reconnect with exponential backoff, capped at 30 seconds. */
   private scheduleReconnect() {
-    if (this.closed) {
+    // A failed socket emits both "error" and "close"; schedule only once.
+    if (this.closed || this.reconnectTimer) {
       return;
     }
     const backoff = Math.min(
@@ -72,6 +84,7 @@ export class FluxPushClient extends EventEmitter {
       Math.max(this.opts.reconnectBaseMs, this.opts.reconnectBaseMs * 2 ** this.reconnectAttempt),
     );
     this.reconnectAttempt += 1;
+    this.emit("reconnecting", { attempt: this.reconnectAttempt, delayMs: backoff });
     this.reconnectTimer = setTimeout(() => {
       void this.connect();
     }, backoff);
@@ -129,17 +142,50 @@ export class FluxPushClient extends EventEmitter {
       }
     });
     socket.on("close", () => {
-      this.clearTimers();
+      this.stopPing();
       this.emit("disconnected");
       this.scheduleReconnect();
     });
     socket.on("error", (error) => {
       this.emit("error", error);
-      this.clearTimers();
+      this.stopPing();
       this.scheduleReconnect();
     });
   }
 
+  /**
+   * Reconnects with a ticket for new filters. The old socket is closed
+   * quietly (no `disconnected`); if minting fails, the usual backoff applies.
+   */
+  async updateFilters(filters: PushFilters): Promise<void> {
+    this.opts = {
+      ...this.opts,
+      streamId: filters.streamId,
+      backend: filters.backend,
+      costClass: filters.costClass,
+    };
+    if (this.closed) {
+      return;
+    }
+    const previous = this.ws;
+    this.ws = null;
+    this.clearTimers();
+    if (previous) {
+      previous.removeAllListeners();
+      previous.on("error", () => {
+        // Errors while closing the replaced socket don't matter.
+      });
+      previous.close();
+    }
+    this.reconnectAttempt = 0;
+    try {
+      await this.connect();
+    } catch (error) {
+      this.emit("error", error);
+      this.scheduleReconnect();
+    }
+  }
+
   async start(): Promise<void> {
     this.closed = false;
     await this.connect();
@@ -0,0 +1,204 @@
+/**
+ * Task routing table.
+ *
+ * Routes let one runner serve several streams, cost classes, and backends,
+ * each with an explicit priority. A route has:
+ *   - `match`: task filters (streamId, costClass, requested backend); an
+ *     omitted field matches anything
+ *   - `backend` / `model`: optional overrides applied to matching packets
+ *     before execution (e.g. "stream X → pi with model Y")
+ *   - `priority`: higher routes are polled first and win when several match
+ *
+ * The table feeds the three places that filter tasks:
+ *   - CadenceLoop issues one listTasks query per distinct filter, in priority order
+ *   - The push ticket uses the narrowest single filter covering every route,
+ *     and push events that match no route don't trigger a poll
+ *   - TaskExecutor applies the winning route to the claimed packet
+ *
+ * Filters and event matching take an optional `isAvailable` check: routes
+ * whose target backend is currently unhealthy are left out, so the runner
+ * stops advertising work it can't run until the backend recovers.
+ */
+import type { McpTaskPacket } from "../types.js";
+import { normalizeExecutionBackend } from "./execution.js";
+
+/** Server-side task filters, as accepted by listTasks and push tickets. */
+export type TaskFilter = {
+  streamId?: string;
+  backend?: string;
+  costClass?: string;
+};
+
+export type RouteRule = {
+  name?: string;
+  match?: TaskFilter;
+  /** Backend that executes matching tasks; defaults to the packet's own. */
+  backend?: string;
+  /** Model override written to `execution.model`. */
+  model?: string;
+  /** Higher first; ties keep declaration order. Defaults to 0. */
+  priority?: number;
+};
+
+/** The route a packet matched, after normalization. */
+export type ResolvedRoute = {
+  name: string;
+  backend?: string;
+  model?: string;
+  priority: number;
+};
+
+type NormalizedRule = ResolvedRoute & { match: TaskFilter };
+
+const FILTER_KEYS = ["streamId", "backend", "costClass"] as const;
+
+function normalizeFilter(filter: TaskFilter | undefined): TaskFilter {
+  const normalized: TaskFilter = {};
+  const streamId = filter?.streamId?.trim();
+  const backend = normalizeExecutionBackend(filter?.backend);
+  const costClass = filter?.costClass?.trim();
+  if (streamId) normalized.streamId = streamId;
+  if (backend) normalized.backend = backend;
+  if (costClass) normalized.costClass = costClass;
+  return normalized;
+}
+
+/** The filter fields a packet carries; backend is the one it requests, not a fallback. */
+function packetFilterFields(packet: McpTaskPacket): TaskFilter {
+  return {
+    streamId: packet.task?.streamId || packet.streamId || undefined,
+    backend:
+      normalizeExecutionBackend(packet.execution?.backend) ||
+      normalizeExecutionBackend(packet.prompt?.backend) ||
+      undefined,
+    costClass: packet.execution?.costClass || undefined,
+  };
+}
+
+export class RoutingTable {
+  private readonly rules: NormalizedRule[];
+
+  constructor(rules: RouteRule[]) {
+    this.rules = rules
+      .map((rule, index) => ({
+        name: rule.name?.trim() || `route-${index + 1}`,
+        match: normalizeFilter(rule.match),
+        backend: normalizeExecutionBackend(rule.backend) ?? undefined,
+        model: rule.model?.trim() || undefined,
+        priority: rule.priority ?? 0,
+        index,
+      }))
+      .sort((a, b) => b.priority - a.priority || a.index - b.index)
+      .map(({ index: _index, ...rule }) => rule);
+  }
+
+  get size(): number {
+    return this.rules.length;
+  }
+
+  /** Routes in priority order, for logging and status output. */
+  list(): Array<ResolvedRoute & { match: TaskFilter }> {
+    return this.rules.map((rule) => ({ ...rule, match: { ...rule.match } }));
+  }
+
+  /** Routes whose target backend passes `isAvailable`; routes deferring to the packet always do. */
+  private availableRules(isAvailable?: (backend: string) => boolean): NormalizedRule[] {
+    if (!isAvailable) return this.rules;
+    return this.rules.filter((rule) => {
+      const backend = rule.backend ?? rule.match.backend;
+      return !backend || isAvailable(backend);
+    });
+  }
+
+  /** Distinct listTasks filters, highest priority first. */
+  listFilters(isAvailable?: (backend: string) => boolean): TaskFilter[] {
+    const seen = new Set<string>();
+    const filters: TaskFilter[] = [];
+    for (const rule of this.availableRules(isAvailable)) {
+      const key = JSON.stringify(FILTER_KEYS.map((field) => rule.match[field] ?? null));
+      if (seen.has(key)) continue;
+      seen.add(key);
+      filters.push({ ...rule.match });
+    }
+    return filters;
+  }
+
+  /**
+   * The narrowest single filter that still covers every route: a field is
+   * kept only when all routes filter on the same value. Push only wakes the
+   * poll loop, so a broader ticket costs a few extra polls, never a task.
+   * When no route is available the filter covers them all; matchesEvent()
+   * drops their events meanwhile.
+   */
+  pushFilter(isAvailable?: (backend: string) => boolean): TaskFilter {
+    const filter: TaskFilter = {};
+    const available = this.availableRules(isAvailable);
+    const rules = available.length > 0 ? available : this.rules;
+    if (rules.length === 0) return filter;
+    for (const field of FILTER_KEYS) {
+      const values = new Set(rules.map((rule) => rule.match[field]));
+      const [value] = values;
+      if (values.size === 1 && value) filter[field] = value;
+    }
+    return filter;
+  }
+
+  /** True if a push event could be for a routed task. Fields the event omits match anything. */
+  matchesEvent(event: TaskFilter, isAvailable?: (backend: string) => boolean): boolean {
+    const fields = normalizeFilter(event);
+    return this.availableRules(isAvailable).some((rule) =>
+      FILTER_KEYS.every(
+        (field) => !rule.match[field] || !fields[field] || rule.match[field] === fields[field],
+      ),
+    );
+  }
+
+  /** The highest-priority route whose filters the packet meets, or null. */
+  match(packet: McpTaskPacket): ResolvedRoute | null {
+    const fields = packetFilterFields(packet);
+    const rule = this.rules.find((candidate) =>
+      FILTER_KEYS.every(
+        (field) => !candidate.match[field] || candidate.match[field] === fields[field],
+      ),
+    );
+    if (!rule) return null;
+    const { match: _match, ...route } = rule;
+    return route;
+  }
+
+  /**
+   * Applies the matching route's backend and model overrides. Returns a new
+   * packet when anything changed; the original is never mutated.
+   */
+  apply(packet: McpTaskPacket): { packet: McpTaskPacket; route: ResolvedRoute | null } {
+    const route = this.match(packet);
+    if (!route || (!route.backend && !route.model)) {
+      return { packet, route };
+    }
+    return {
+      packet: {
+        ...packet,
+        execution: {
+          ...packet.execution,
+          ...(route.backend ? { backend: route.backend } : {}),
+          ...(route.model ? { model: route.model } : {}),
+        },
+      },
+      route,
+    };
+  }
+
+  /**
+   * Backends the routes can send tasks to, or null when some route defers to
+   * the packet's own backend (so any backend may be needed).
+   */
+  backends(): string[] | null {
+    const backends = new Set<string>();
+    for (const rule of this.rules) {
+      const backend = rule.backend ?? rule.match.backend;
+      if (!backend) return null;
+      backends.add(backend);
+    }
+    return [...backends];
+  }
+}
@@ -0,0 +1,339 @@
+/**
+ * Declarative runner config file (`~/.flux/runner.yaml`).
+ *
+ * The file covers the same settings as the FLUX_* env vars, grouped by area
+ * (backends, filters, routes, budgets, polling, concurrency, timeouts, execution,
+ * workspaces, logging, metrics, tracing). It is validated against RUNNER_FILE_SCHEMA with ajv, and
+ * every problem is reported with the line and column it came from:
+ *   - YAML syntax errors point at the offending token
+ *   - Schema errors point at the value (or, for unknown keys, the key)
+ *
+ * loadRunnerConfig() layers settings as flags > env > file > defaults, so
+ * the file holds the baseline and env vars or flags override single values.
+ * Secrets (FLUX_TOKEN, gateway tokens) stay out of the file.
+ */
+import { readFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { Ajv, type ErrorObject } from "ajv";
+import YAML, { LineCounter, isMap, isNode, isScalar } from "yaml";
+import type { RouteRule } from "./routing.js";
+import type { BudgetRule } from "./budget.js";
+
+export type RunnerFileConfig = {
+  version?: 1;
+  filters?: {
+    /** Same values as FLUX_BACKEND. */
+    backend?: string;
+    streamId?: string;
+    costClass?: string;
+  };
+  /** Prioritized routes; when present they replace `filters`. */
+  routes?: RouteRule[];
+  budgets?: BudgetRule[];
+  backends?: {
+    allowDirectCli?: boolean;
+    /** Ordered fallback chain, e.g. [openclaw, claude-cli, pi]. */
+    fallbackChain?: string[];
+    /** Seconds between backend health checks. */
+    healthCheckSeconds?: number;
+    openclaw?: {
+      gatewayUrl?: string;
+      agentId?: string;
+    };
+    pi?: {
+      agentDir?: string;
+    };
+  };
+  polling?: {
+    cadenceMinutes?: number;
+    pushReconnectMs?: number;
+  };
+  concurrency?: {
+    max?: number;
+    perBackend?: Record<string, number>;
+  };
+  timeouts?: {
+    heartbeatSeconds?: number;
+    shutdownGraceSeconds?: number;
+  };
+  execution?: {
+    maxAttempts?: number;
+    outputRepairAttempts?: number;
+  };
+  workspaces?: {
+    dir?: string;
+    retention?: "delete" | "keep-failed" | "keep";
+    maxAgeHours?: number;
+  };
+  logging?: {
+    level?: "info" | "warn" | "error";
+  };
+  metrics?: {
+    port?: number;
+    host?: string;
+  };
+  tracing?: {
+    exporter?: "otlp" | "file" | "stdout";
+    /** OTLP/HTTP collector URL; headers stay in the environment since they may hold secrets. */
+    endpoint?: string;
+    file?: string;
+  };
+};
+
+const nonEmptyString = { type: "string", minLength: 1 };
+
+function section(properties: Record<string, unknown>) {
+  return { type: "object", additionalProperties: false, properties };
+}
+
+/** JSON Schema for runner.yaml. Unknown keys are errors so typos don't go unnoticed. */
+export const RUNNER_FILE_SCHEMA = {
+  ...section({
+    version: { const: 1 },
+    filters: section({
+      backend: nonEmptyString,
+      streamId: nonEmptyString,
+      costClass: nonEmptyString,
+    }),
+    routes: {
+      type: "array",
+      items: section({
+        name: nonEmptyString,
+        match: section({
+          backend: nonEmptyString,
+          streamId: nonEmptyString,
+          costClass: nonEmptyString,
+        }),
+        backend: nonEmptyString,
+        model: nonEmptyString,
+        priority: { type: "integer" },
+      }),
+    },
+    budgets: {
+      type: "array",
+      items: {
+        ...section({
+          name: nonEmptyString,
+          period: { enum: ["daily", "monthly"] },
+          match: section({
+            backend: nonEmptyString,
+            model: nonEmptyString,
+            streamId: nonEmptyString,
+          }),
+          maxTokens: { type: "integer", minimum: 1 },
+          maxCostUsd: { type: "number", exclusiveMinimum: 0 },
+          escalate: { type: "boolean" },
+        }),
+        required: ["period"],
+        anyOf: [{ required: ["maxTokens"] }, { required: ["maxCostUsd"] }],
+      },
+    },
+    backends: section({
+      allowDirectCli: { type: "boolean" },
+      fallbackChain: { type: "array", items: nonEmptyString },
+      healthCheckSeconds: { type: "number", minimum: 5 },
+      openclaw: section({
+        gatewayUrl: { type: "string", pattern: "^wss?://" },
+        agentId: nonEmptyString,
+      }),
+      pi: section({
+        agentDir: nonEmptyString,
+      }),
+    }),
+    polling: section({
+      cadenceMinutes: { type: "number", minimum: 1 },
+      pushReconnectMs: { type: "integer", minimum: 250 },
+    }),
+    concurrency: section({
+      max: { type: "integer", minimum: 1 },
+      perBackend: {
+        type: "object",
+        additionalProperties: { type: "integer", minimum: 1 },
+      },
+    }),
+    timeouts: section({
+      heartbeatSeconds: { type: "number", minimum: 10 },
+      shutdownGraceSeconds: { type: "number", minimum: 0 },
+    }),
+    execution: section({
+      maxAttempts: { type: "integer", minimum: 1, maximum: 10 },
+      outputRepairAttempts: { type: "integer", minimum: 0, maximum: 5 },
+    }),
+    workspaces: section({
+      dir: nonEmptyString,
+      retention: { enum: ["delete", "keep-failed", "keep"] },
+      maxAgeHours: { type: "number", minimum: 0 },
+    }),
+    logging: section({
+      level: { enum: ["info", "warn", "error"] },
+    }),
+    metrics: section({
+      port: { type: "integer", minimum: 1, maximum: 65_535 },
+      host: nonEmptyString,
+    }),
+    tracing: section({
+      exporter: { enum: ["otlp", "file", "stdout"] },
+      endpoint: { type: "string", pattern: "^https?://" },
+      file: nonEmptyString,
+    }),
+  }),
+};
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+const validateRunnerFile = ajv.compile(RUNNER_FILE_SCHEMA);
+
+/** One problem found in runner.yaml. `path` is dotted (e.g. `concurrency.max`). */
+export type RunnerFileIssue = {
+  path: string;
+  message: string;
+  line?: number;
+  column?: number;
+};
+
+export type RunnerFileParseResult = {
+  config: RunnerFileConfig;
+  issues: RunnerFileIssue[];
+};
+
+/** Thrown by loadRunnerFile when the file exists but is invalid. */
+export class RunnerFileError extends Error {
+  readonly filePath: string;
+  readonly issues: RunnerFileIssue[];
+
+  constructor(filePath: string, issues: RunnerFileIssue[]) {
+    super(
+      `Invalid runner config ${filePath}:\n${issues.map((issue) => `  ${formatRunnerFileIssue(issue)}`).join("\n")}`,
+    );
+    this.name = "RunnerFileError";
+    this.filePath = filePath;
+    this.issues = issues;
+  }
+}
+
+/** The runner config path: FLUX_RUNNER_CONFIG or ~/.flux/runner.yaml. */
+export function resolveRunnerFilePath(explicit?: string): string {
+  return (
+    explicit?.trim() ||
+    process.env.FLUX_RUNNER_CONFIG?.trim() ||
+    path.join(os.homedir(), ".flux", "runner.yaml")
+  );
+}
+
+/** Expands a leading `~/` in a path from the file. */
+export function expandHomePath(value: string): string {
+  if (value === "~") return os.homedir();
+  if (value.startsWith("~/")) return path.join(os.homedir(), value.slice(2));
+  return value;
+}
+
+/** `line:column path message`, or just `path message` when the position is unknown. */
+export function formatRunnerFileIssue(issue: RunnerFileIssue): string {
+  const where = issue.line !== undefined ? `${issue.line}:${issue.column ?? 1} ` : "";
+  return `${where}${issue.path || "(root)"} ${issue.message}`;
+}
+
+function decodePointer(pointer: string): string[] {
+  if (!pointer) return [];
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+function describeAjvError(error: ErrorObject): string {
+  switch (error.keyword) {
+    case "additionalProperties":
+      return `has unknown key "${String(error.params.additionalProperty)}"`;
+    case "enum":
+      return `must be one of: ${(error.params.allowedValues as unknown[]).join(", ")}`;
+    case "anyOf":
+      return /^\/budgets\/\d+$/.test(error.instancePath)
+        ? "must set maxTokens or maxCostUsd"
+        : error.message ?? "is invalid";
+    case "required":
+      return `is missing "${String(error.params.missingProperty)}"`;
+    case "const":
+      return `must be ${JSON.stringify(error.params.allowedValue)}`;
+    case "pattern":
+      if (error.instancePath.endsWith("/gatewayUrl")) return "must be a ws:// or wss:// URL";
+      if (error.instancePath.endsWith("/endpoint")) return "must be an http:// or https:// URL";
+      return `must match ${String(error.params.pattern)}`;
+    default:
+      return error.message ?? "is invalid";
+  }
+}
+
+/**
+ * Parses and validates runner.yaml text. Never throws: syntax and schema
+ * problems come back as issues, and `config` is only meaningful when there
+ * are none. An empty document is a valid, empty config.
+ */
+export function parseRunnerFile(text: string): RunnerFileParseResult {
+  const lineCounter = new LineCounter();
+  const doc = YAML.parseDocument(text, { lineCounter, prettyErrors: false });
+
+  const position = (offset: number | undefined) => {
+    if (offset === undefined) return {};
+    const { line, col } = lineCounter.linePos(offset);
+    return { line, column: col };
+  };
+
+  if (doc.errors.length > 0) {
+    return {
+      config: {},
+      issues: doc.errors.map((error) => ({
+        path: "",
+        message: error.message,
+        ...position(error.pos[0]),
+      })),
+    };
+  }
+
+  const value: unknown = doc.toJS() ?? {};
+  if (validateRunnerFile(value)) {
+    return { config: value as RunnerFileConfig, issues: [] };
+  }
+
+  // anyOf branches report their own errors; the anyOf error itself says it better.
+  const errors = (validateRunnerFile.errors ?? []).filter((error) => !error.schemaPath.includes("/anyOf/"));
+  const issues = errors.map((error): RunnerFileIssue => {
+    const segments = decodePointer(error.instancePath);
+    let node: unknown = segments.length > 0 ? doc.getIn(segments, true) : doc.contents;
+    // Unknown keys are reported on the parent object; point at the key itself.
+    if (error.keyword === "additionalProperties" && isMap(node)) {
+      const pair = node.items.find(
+        (item) => isScalar(item.key) && item.key.value === error.params.additionalProperty,
+      );
+      if (pair) node = pair.key;
+      segments.push(String(error.params.additionalProperty));
+    }
+    return {
+      path: segments.join("."),
+      message: describeAjvError(error),
+      ...position(isNode(node) ? node.range?.[0] : undefined),
+    };
+  });
+  return { config: {}, issues };
+}
+
+/**
+ * Reads and validates the runner config file. Returns null when the file
+ * doesn't exist; throws RunnerFileError when it is invalid.
+ */
+export function loadRunnerFile(
+  filePath = resolveRunnerFilePath(),
+): { path: string; config: RunnerFileConfig } | null {
+  let text: string;
+  try {
+    text = readFileSync(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+  const { config, issues } = parseRunnerFile(text);
+  if (issues.length > 0) {
+    throw new RunnerFileError(filePath, issues);
+  }
+  return { path: filePath, config };
+}
@@ -10,7 +10,9 @@
  *
  * The service captures non-secret FLUX_* config vars and bakes them into the
  * service definition. Secrets (FLUX_TOKEN, OPENCLAW_*) are loaded at runtime
- * from config files, never stored in the plist/unit. A minimal PATH is
+ * from config files, never stored in the plist/unit. Settings in
+ * ~/.flux/runner.yaml are read by the daemon itself; install only validates
+ * the file and avoids baking defaults that would override it. A minimal PATH is
  * constructed to ensure the
  * service can find node regardless of shell initialization (covers nvm, pnpm,
  * volta, asdf, fnm, bun, and system paths).
@@ -23,6 +25,7 @@ import { join, resolve, dirname, basename, posix, delimiter } from "node:path";
 import { homedir, platform } from "node:os";
 import process from "node:process";
 import { FluxMcpClient } from "./client.js";
+import { loadRunnerFile, resolveRunnerFilePath, type RunnerFileConfig } from "./runner_file.js";
 
 const LABEL = "ai.fluxhive.runner";
 const SYSTEMD_SERVICE_NAME = "fluxhive-runner";
@@ -147,11 +150,58 @@ const ENV_KEYS = [
   "FLUX_RUNNER_VERSION",
   "FLUX_RUNNER_ID",
   "FLUX_MACHINE_ID",
+  "FLUX_RUNNER_CONFIG",
   "FLUX_BACKEND",
+  "FLUX_STREAM_ID",
+  "FLUX_COST_CLASS",
   "FLUX_ALLOW_DIRECT_CLI",
+  "FLUX_HEARTBEAT_SECONDS",
+  "FLUX_LOG_LEVEL",
   "FLUX_PUSH_RECONNECT_MS",
+  "FLUX_MAX_CONCURRENCY",
+  "FLUX_BACKEND_CONCURRENCY",
+  "FLUX_WORKSPACE_DIR",
+  "FLUX_WORKSPACE_RETENTION",
+  "FLUX_WORKSPACE_MAX_AGE_HOURS",
+  "FLUX_SHUTDOWN_GRACE_SECONDS",
+  "FLUX_OUTPUT_REPAIR_ATTEMPTS",
+  "FLUX_HEALTH_CHECK_SECONDS",
+  "FLUX_BACKEND_FALLBACK",
+  "FLUX_EXECUTION_MAX_ATTEMPTS",
+  "FLUX_CONTROL_SOCKET",
+  "FLUX_METRICS_PORT",
+  "FLUX_METRICS_HOST",
+  "FLUX_TRACING",
+  "FLUX_TRACES_FILE",
+  "OTEL_EXPORTER_OTLP_TRACES_ENDPOINT",
+  "OTEL_EXPORTER_OTLP_ENDPOINT",
 ];
 
+/** Default FLUX_SHUTDOWN_GRACE_SECONDS, mirrored from runner/config.ts. */
+const DEFAULT_SHUTDOWN_GRACE_SECONDS = 60;
+
+/** The runner.yaml the service will read, or null if it's missing or invalid. */
+function readRunnerFileConfig(envVars: Record<string, string>): RunnerFileConfig | null {
+  try {
+    return loadRunnerFile(resolveRunnerFilePath(envVars.FLUX_RUNNER_CONFIG))?.config ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * How long the service manager should wait after SIGTERM before SIGKILL:
+ * the daemon's drain grace period plus time to abort and report what's left.
+ */
+function resolveStopTimeoutSec(envVars: Record<string, string>): number {
+  const grace = Number(
+    envVars.FLUX_SHUTDOWN_GRACE_SECONDS ??
+      readRunnerFileConfig(envVars)?.timeouts?.shutdownGraceSeconds,
+  );
+  const graceSec = Number.isFinite(grace) && grace >= 0 ? grace : DEFAULT_SHUTDOWN_GRACE_SECONDS;
+  return Math.ceil(graceSec) + 30;
+}
+
 /** Reads ~/.flux/config.json (written by `access redeem`). */
 function readConfigFile(): { host?: string; token?: string; orgId?: string } | null {
   try {
@@ -162,8 +212,8 @@ function readConfigFile(): { host?: string; token?: string; orgId?: string } | n
   }
 }
 
-/** Collects non-secret FLUX_* env vars for baking into the service definition,
- *  falling back to ~/.flux/config.json for host and orgId. */
+/** Collects non-secret FLUX_* env vars and OTLP endpoints for baking into the
+ *  service definition, falling back to ~/.flux/config.json for host and orgId. */
 function collectEnvVars(): Record<string, string> {
   const vars: Record<string, string> = {};
   for (const key of ENV_KEYS) {
@@ -181,9 +231,9 @@ function collectEnvVars(): Record<string, string> {
   return vars;
 }
 
-/** Applies default values: 1-minute cadence. */
+/** Applies default values: 1-minute cadence, unless runner.yaml sets one. */
 function applyDefaults(envVars: Record<string, string>): void {
-  if (!envVars.FLUX_CADENCE_MINUTES) {
+  if (!envVars.FLUX_CADENCE_MINUTES && !readRunnerFileConfig(envVars)?.polling?.cadenceMinutes) {
     envVars.FLUX_CADENCE_MINUTES = "1";
   }
 }
@@ -204,6 +254,14 @@ function validateEnvVars(envVars: Record<string, string>): void {
     );
     process.exit(1);
   }
+  // An invalid runner.yaml would make the service crash-loop; refuse to install instead.
+  try {
+    loadRunnerFile(resolveRunnerFilePath(envVars.FLUX_RUNNER_CONFIG));
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    console.error("Run 'fluxhive runner config validate' for details.");
+    process.exit(1);
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -257,6 +315,8 @@ function buildPlist(envVars: Record<string, string>): string {
     <true/>
     <key>KeepAlive</key>
     <true/>
+    <key>ExitTimeOut</key>
+    <integer>${resolveStopTimeoutSec(envVars)}</integer>
     <key>ProgramArguments</key>
     <array>
       <string>${plistEscape(nodePath)}</string>
@@ -336,10 +396,13 @@ function launchdRestart(): void {
     process.exit(1);
   }
   const domain = resolveGuiDomain();
-  const res = execLaunchctl(["kickstart", "-k", `${domain}/${LABEL}`]);
-  if (res.code !== 0) {
-    // Fallback: unload + load
-    execLaunchctl(["bootout", `${domain}/${LABEL}`]);
+  // bootout sends SIGTERM and waits up to ExitTimeOut, letting the daemon drain
+  // in-flight tasks before the new instance starts.
+  console.log("Draining in-flight tasks before restart...");
+  execLaunchctl(["bootout", `${domain}/${LABEL}`]);
+  const boot = execLaunchctl(["bootstrap", domain, PLIST_PATH]);
+  if (boot.code !== 0) {
+    // Fallback: legacy unload + load
     execLaunchctl(["unload", PLIST_PATH]);
     const load = execLaunchctl(["load", PLIST_PATH]);
     if (load.code !== 0) {
@@ -353,6 +416,7 @@ function launchdRestart(): void {
 
 function launchdStop(): void {
   const domain = resolveGuiDomain();
+  console.log("Draining in-flight tasks before stopping...");
   execLaunchctl(["bootout", `${domain}/${LABEL}`]);
   execLaunchctl(["unload", PLIST_PATH]);
   console.log(`Stopped ${LABEL}`);
@@ -455,6 +519,9 @@ function buildSystemdUnit(envVars: Record<string, string>): string {
     "Restart=always",
     "RestartSec=5",
     "KillMode=process",
+    `TimeoutStopSec=${resolveStopTimeoutSec(envVars)}`,
+    // `systemctl --user reload` → SIGHUP → config reload without dropping tasks.
+    "ExecReload=/bin/kill -HUP $MAINPID",
     `StandardOutput=append:${STDOUT_LOG}`,
     `StandardError=append:${STDERR_LOG}`,
     ...envLines,
@@ -535,6 +602,8 @@ function systemdRestart(): void {
     console.error("Error: service not installed. Run --service install first.");
     process.exit(1);
   }
+  // systemctl sends SIGTERM and blocks until the daemon drains (bounded by TimeoutStopSec).
+  console.log("Draining in-flight tasks before restart...");
   const res = execSystemctl(["--user", "restart", SYSTEMD_UNIT]);
   if (res.code !== 0) {
     throw new Error(
@@ -545,6 +614,7 @@ function systemdRestart(): void {
 }
 
 function systemdStop(): void {
+  console.log("Draining in-flight tasks before stopping...");
   const res = execSystemctl(["--user", "stop", SYSTEMD_UNIT]);
   if (res.code !== 0 && !res.stdout.includes("not loaded")) {
     throw new Error(
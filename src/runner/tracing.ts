@@ -0,0 +1,402 @@
+/**
+ * Lightweight OpenTelemetry-compatible tracing.
+ *
+ * Tracer creates spans with W3C trace context and exports them in the OTLP
+ * JSON encoding, without pulling in the OpenTelemetry SDK:
+ *   - The active span is carried in AsyncLocalStorage, so nested spans and
+ *     outgoing requests pick up their parent without threading it by hand
+ *   - traceHeaders() returns the `traceparent` header for the active span;
+ *     FluxMcpClient sends it with every request
+ *   - Ended spans are batched and flushed every few seconds (and on shutdown)
+ *     to an exporter: OTLP/HTTP to a collector, or JSON lines to a file or
+ *     stdout when there's no collector
+ *
+ * A Tracer without an exporter still creates spans (so callers don't branch)
+ * but never exports them or propagates context.
+ */
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes } from "node:crypto";
+import { appendFileSync, mkdirSync } from "node:fs";
+import path from "node:path";
+import { performance } from "node:perf_hooks";
+
+export type SpanAttributeValue = string | number | boolean;
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/** OTLP span status codes. */
+export const SpanStatusCode = { UNSET: 0, OK: 1, ERROR: 2 } as const;
+
+/** OTLP span kinds used by the runner. */
+export const SpanKind = { INTERNAL: 1, CLIENT: 3 } as const;
+
+type OtlpAnyValue =
+  | { stringValue: string }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { boolValue: boolean };
+
+type OtlpKeyValue = { key: string; value: OtlpAnyValue };
+
+export type OtlpSpan = {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpKeyValue[];
+  events: Array<{ timeUnixNano: string; name: string; attributes: OtlpKeyValue[] }>;
+  status: { code: number; message?: string };
+};
+
+/** One OTLP/JSON ExportTraceServiceRequest. */
+export type OtlpTraceExport = {
+  resourceSpans: Array<{
+    resource: { attributes: OtlpKeyValue[] };
+    scopeSpans: Array<{ scope: { name: string; version?: string }; spans: OtlpSpan[] }>;
+  }>;
+};
+
+export interface SpanExporter {
+  export(payload: OtlpTraceExport): Promise<void>;
+}
+
+function toAnyValue(value: SpanAttributeValue): OtlpAnyValue {
+  if (typeof value === "string") return { stringValue: value };
+  if (typeof value === "boolean") return { boolValue: value };
+  return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+}
+
+function toKeyValues(attributes: SpanAttributes): OtlpKeyValue[] {
+  const out: OtlpKeyValue[] = [];
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) out.push({ key, value: toAnyValue(value) });
+  }
+  return out;
+}
+
+/** Wall-clock time in nanoseconds with sub-millisecond precision. */
+function nowUnixNano(): bigint {
+  return BigInt(Math.round((performance.timeOrigin + performance.now()) * 1_000)) * 1_000n;
+}
+
+export class Span {
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly parentSpanId?: string;
+  readonly name: string;
+  readonly sampled: boolean;
+  private readonly kind: number;
+  private readonly startTime = nowUnixNano();
+  private endTime: bigint | null = null;
+  private readonly attributes: SpanAttributes;
+  private readonly events: OtlpSpan["events"] = [];
+  private status: OtlpSpan["status"] = { code: SpanStatusCode.UNSET };
+  private readonly onEnd: (span: Span) => void;
+
+  constructor(opts: {
+    name: string;
+    traceId: string;
+    parentSpanId?: string;
+    kind: number;
+    sampled: boolean;
+    attributes?: SpanAttributes;
+    onEnd: (span: Span) => void;
+  }) {
+    this.name = opts.name;
+    this.traceId = opts.traceId;
+    this.spanId = randomBytes(8).toString("hex");
+    this.parentSpanId = opts.parentSpanId;
+    this.kind = opts.kind;
+    this.sampled = opts.sampled;
+    this.attributes = { ...opts.attributes };
+    this.onEnd = opts.onEnd;
+  }
+
+  get ended(): boolean {
+    return this.endTime !== null;
+  }
+
+  setAttribute(key: string, value: SpanAttributeValue | undefined): this {
+    if (value !== undefined) this.attributes[key] = value;
+    return this;
+  }
+
+  setAttributes(attributes: SpanAttributes): this {
+    for (const [key, value] of Object.entries(attributes)) this.setAttribute(key, value);
+    return this;
+  }
+
+  addEvent(name: string, attributes: SpanAttributes = {}): this {
+    this.events.push({ timeUnixNano: nowUnixNano().toString(), name, attributes: toKeyValues(attributes) });
+    return this;
+  }
+
+  /** Marks the span failed and records the error as an `exception` event. */
+  recordError(error: unknown): this {
+    const message = error instanceof Error ? error.message : String(error);
+    this.addEvent("exception", {
+      "exception.type": error instanceof Error ? error.name : typeof error,
+      "exception.message": message,
+    });
+    this.status = { code: SpanStatusCode.ERROR, message };
+    return this;
+  }
+
+  setStatus(code: number, message?: string): this {
+    this.status = message ? { code, message } : { code };
+    return this;
+  }
+
+  /** The W3C `traceparent` value identifying this span. */
+  traceparent(): string {
+    return `00-${this.traceId}-${this.spanId}-${this.sampled ? "01" : "00"}`;
+  }
+
+  end(): void {
+    if (this.endTime !== null) return;
+    this.endTime = nowUnixNano();
+    this.onEnd(this);
+  }
+
+  toOtlp(): OtlpSpan {
+    return {
+      traceId: this.traceId,
+      spanId: this.spanId,
+      ...(this.parentSpanId ? { parentSpanId: this.parentSpanId } : {}),
+      name: this.name,
+      kind: this.kind,
+      startTimeUnixNano: this.startTime.toString(),
+      endTimeUnixNano: (this.endTime ?? nowUnixNano()).toString(),
+      attributes: toKeyValues(this.attributes),
+      events: this.events,
+      status: this.status,
+    };
+  }
+}
+
+const activeSpanStorage = new AsyncLocalStorage<Span>();
+
+/** The span active in the current async context, if any. */
+export function activeSpan(): Span | undefined {
+  return activeSpanStorage.getStore();
+}
+
+/** Trace propagation headers for the active span; empty when not tracing. */
+export function traceHeaders(): Record<string, string> {
+  const span = activeSpan();
+  return span?.sampled ? { traceparent: span.traceparent() } : {};
+}
+
+export type TracerOptions = {
+  serviceName: string;
+  serviceVersion?: string;
+  resourceAttributes?: SpanAttributes;
+  /** Without an exporter, spans are created but never exported or propagated. */
+  exporter?: SpanExporter;
+  flushIntervalMs?: number;
+  maxBatchSize?: number;
+  onExportError?: (error: unknown) => void;
+};
+
+export type StartSpanOptions = {
+  attributes?: SpanAttributes;
+  kind?: number;
+  /** Explicit parent; defaults to the active span. `null` starts a new trace. */
+  parent?: Span | null;
+};
+
+export class Tracer {
+  private readonly opts: TracerOptions;
+  private pending: Span[] = [];
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(opts: TracerOptions) {
+    this.opts = opts;
+  }
+
+  get enabled(): boolean {
+    return this.opts.exporter !== undefined;
+  }
+
+  startSpan(name: string, opts: StartSpanOptions = {}): Span {
+    const parent = opts.parent === undefined ? activeSpan() : (opts.parent ?? undefined);
+    return new Span({
+      name,
+      traceId: parent?.traceId ?? randomBytes(16).toString("hex"),
+      parentSpanId: parent?.spanId,
+      kind: opts.kind ?? SpanKind.INTERNAL,
+      sampled: this.enabled,
+      attributes: opts.attributes,
+      onEnd: (span) => this.onSpanEnd(span),
+    });
+  }
+
+  /** Runs fn with span as the active span. */
+  withSpan<T>(span: Span, fn: () => T): T {
+    return activeSpanStorage.run(span, fn);
+  }
+
+  /**
+   * Starts a span, runs fn inside it, and ends it when fn settles. A thrown
+   * error is recorded on the span and rethrown.
+   */
+  async trace<T>(
+    name: string,
+    opts: StartSpanOptions,
+    fn: (span: Span) => Promise<T>,
+  ): Promise<T> {
+    const span = this.startSpan(name, opts);
+    try {
+      return await this.withSpan(span, () => fn(span));
+    } catch (error) {
+      span.recordError(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  private onSpanEnd(span: Span): void {
+    if (!this.enabled) return;
+    this.pending.push(span);
+    if (this.pending.length >= (this.opts.maxBatchSize ?? 512)) {
+      void this.flush();
+      return;
+    }
+    if (!this.flushTimer) {
+      this.flushTimer = setInterval(() => {
+        void this.flush();
+      }, this.opts.flushIntervalMs ?? 5_000);
+      this.flushTimer.unref?.();
+    }
+  }
+
+  private buildExport(spans: Span[]): OtlpTraceExport {
+    return {
+      resourceSpans: [
+        {
+          resource: {
+            attributes: toKeyValues({
+              "service.name": this.opts.serviceName,
+              "service.version": this.opts.serviceVersion,
+              ...this.opts.resourceAttributes,
+            }),
+          },
+          scopeSpans: [
+            {
+              scope: { name: this.opts.serviceName, version: this.opts.serviceVersion },
+              spans: spans.map((span) => span.toOtlp()),
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  /** Exports every ended span that hasn't been exported yet. Never throws. */
+  flush(): Promise<void> {
+    this.flushing = this.flushing.then(async () => {
+      const exporter = this.opts.exporter;
+      if (!exporter || this.pending.length === 0) return;
+      const batch = this.pending;
+      this.pending = [];
+      try {
+        await exporter.export(this.buildExport(batch));
+      } catch (error) {
+        this.opts.onExportError?.(error);
+      }
+    });
+    return this.flushing;
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flush();
+  }
+}
+
+export type OtlpHttpExporterOptions = {
+  /** Collector base URL (e.g. http://localhost:4318) or the full /v1/traces URL. */
+  endpoint: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+};
+
+/** Sends spans to an OTLP/HTTP collector using the JSON encoding. */
+export class OtlpHttpExporter implements SpanExporter {
+  private readonly opts: OtlpHttpExporterOptions;
+  private readonly url: string;
+
+  constructor(opts: OtlpHttpExporterOptions) {
+    this.opts = opts;
+    const base = opts.endpoint.replace(/\/+$/, "");
+    this.url = base.endsWith("/v1/traces") ? base : `${base}/v1/traces`;
+  }
+
+  async export(payload: OtlpTraceExport): Promise<void> {
+    const res = await fetch(this.url, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...this.opts.headers },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(this.opts.timeoutMs ?? 10_000),
+    });
+    if (!res.ok) {
+      throw new Error(`OTLP export failed: HTTP ${res.status}`);
+    }
+  }
+}
+
+/** Appends each export as one JSON line to a file, or to stdout when no path is given. */
+export class JsonLinesSpanExporter implements SpanExporter {
+  private readonly filePath?: string;
+
+  constructor(opts: { filePath?: string } = {}) {
+    this.filePath = opts.filePath;
+  }
+
+  async export(payload: OtlpTraceExport): Promise<void> {
+    const line = `${JSON.stringify(payload)}\n`;
+    if (!this.filePath) {
+      process.stdout.write(line);
+      return;
+    }
+    mkdirSync(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+    appendFileSync(this.filePath, line, { mode: 0o600 });
+  }
+}
+
+/** Where the daemon sends spans: an OTLP collector, a JSONL file, or stdout. */
+export type TracingMode = "otlp" | "file" | "stdout";
+
+/** Parses a tracing mode name, returning null for unknown values (tracing off). */
+export function parseTracingMode(raw: string | null | undefined): TracingMode | null {
+  const normalized = raw?.trim().toLowerCase();
+  if (normalized === "otlp" || normalized === "file" || normalized === "stdout") {
+    return normalized;
+  }
+  return null;
+}
+
+/** Parses OTEL_EXPORTER_OTLP_HEADERS-style `key=value,key=value` lists. */
+export function parseOtlpHeaders(raw: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const part of (raw ?? "").split(",")) {
+    const index = part.indexOf("=");
+    if (index <= 0) continue;
+    const key = part.slice(0, index).trim();
+    const value = part.slice(index + 1).trim();
+    if (!key) continue;
+    try {
+      headers[key] = decodeURIComponent(value);
+    } catch {
+      headers[key] = value;
+    }
+  }
+  return headers;
+}
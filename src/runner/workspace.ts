@@ -0,0 +1,196 @@
+/**
+ * Per-task workspace management.
+ *
+ * WorkspaceManager gives each claimed task its own directory under
+ * `~/.flux/workspaces/<taskId>` so local backends (Claude CLI, Codex CLI, PI)
+ * don't share — and trample — the daemon's working directory. It handles:
+ *   - Fresh directory creation per task (stale leftovers are replaced)
+ *   - Optional git checkout when the packet names a repository
+ *   - Retention after the task finishes: delete, keep failed, or keep all
+ *   - Pruning retained workspaces older than a configurable age; workspaces
+ *     between prepare() and release() belong to running tasks and are never
+ *     pruned, however old their directory looks
+ */
+import { execFile } from "node:child_process";
+import { mkdir, readdir, rm, stat } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { McpCompleteStatus, McpTaskPacket } from "../types.js";
+
+/**
+ * What happens to a workspace once its task completes:
+ *   - "delete": always removed
+ *   - "keep-failed": kept when the task failed or was cancelled, for inspection
+ *   - "keep": always kept (until pruned by age)
+ */
+export type WorkspaceRetention = "delete" | "keep-failed" | "keep";
+
+export type WorkspaceManagerOptions = {
+  rootDir?: string;
+  retention?: WorkspaceRetention;
+  /** Retained workspaces older than this are removed by prune(). 0 disables pruning. */
+  maxAgeHours?: number;
+};
+
+/** A prepared task directory handed to the execution backend. */
+export type TaskWorkspace = {
+  taskId: string;
+  dir: string;
+  repository?: string;
+  ref?: string;
+};
+
+/** Parses a retention policy name, returning null for unknown values. */
+export function parseWorkspaceRetention(raw: string | null | undefined): WorkspaceRetention | null {
+  const normalized = raw?.trim().toLowerCase();
+  if (normalized === "delete" || normalized === "keep-failed" || normalized === "keep") {
+    return normalized;
+  }
+  return null;
+}
+
+/** Maps a task ID to a safe single-segment directory name. */
+function workspaceDirName(taskId: string): string {
+  const safe = taskId.replace(/[^A-Za-z0-9._-]/g, "_").replace(/^\.+/, "_");
+  return safe.length > 0 ? safe : "_";
+}
+
+/** Full commit SHAs can't be passed to `git clone --branch`. */
+function isCommitSha(ref: string): boolean {
+  return /^[0-9a-f]{40}$/i.test(ref);
+}
+
+/** Env for git subprocesses: inherit everything except Flux/OpenClaw secrets, never prompt. */
+function gitEnv(): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    if (key === "FLUX_TOKEN" || key.startsWith("OPENCLAW_")) continue;
+    env[key] = value;
+  }
+  env.GIT_TERMINAL_PROMPT = "0";
+  return env;
+}
+
+/** Runs a git command, rejecting with stderr on a non-zero exit; `signal` kills it. */
+function runGit(args: string[], cwd: string, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile("git", args, { cwd, env: gitEnv(), maxBuffer: 10 * 1024 * 1024, signal }, (error, _stdout, stderr) => {
+      if (signal?.aborted) {
+        reject(new Error(`git ${args[0]} aborted`));
+        return;
+      }
+      if (error) {
+        const details = String(stderr ?? "").trim() || error.message;
+        reject(new Error(`git ${args[0]} failed: ${details}`));
+        return;
+      }
+      resolve();
+    });
+  });
+}
+
+export class WorkspaceManager {
+  private readonly rootDir: string;
+  private readonly retention: WorkspaceRetention;
+  private readonly maxAgeMs: number;
+  /** Directories of workspaces that have been prepared and not yet released. */
+  private readonly active = new Set<string>();
+
+  constructor(opts: WorkspaceManagerOptions = {}) {
+    this.rootDir = opts.rootDir || path.join(os.homedir(), ".flux", "workspaces");
+    this.retention = opts.retention ?? "keep-failed";
+    this.maxAgeMs = Math.max(0, (opts.maxAgeHours ?? 0) * 3_600_000);
+  }
+
+  getRootDir(): string {
+    return this.rootDir;
+  }
+
+  /**
+   * Creates a fresh workspace for the task, replacing any leftover directory
+   * from a previous attempt. If the packet names a repository, it is cloned
+   * into the workspace (shallow when possible) and the requested ref checked out.
+   * Aborting `signal` kills the checkout and rejects.
+   */
+  async prepare(taskId: string, packet: McpTaskPacket, signal?: AbortSignal): Promise<TaskWorkspace> {
+    const dir = path.join(this.rootDir, workspaceDirName(taskId));
+    this.active.add(dir);
+    try {
+      await this.create(dir, packet, signal);
+    } catch (error) {
+      this.active.delete(dir);
+      throw error;
+    }
+    return {
+      taskId,
+      dir,
+      repository: packet.workspace?.repository?.trim() || undefined,
+      ref: packet.workspace?.ref?.trim() || undefined,
+    };
+  }
+
+  private async create(dir: string, packet: McpTaskPacket, signal?: AbortSignal): Promise<void> {
+    await rm(dir, { recursive: true, force: true });
+    await mkdir(dir, { recursive: true });
+
+    const repository = packet.workspace?.repository?.trim() || undefined;
+    const ref = packet.workspace?.ref?.trim() || undefined;
+    if (repository) {
+      try {
+        if (ref && isCommitSha(ref)) {
+          await runGit(["clone", "--no-checkout", "--", repository, dir], this.rootDir, signal);
+          await runGit(["checkout", "--detach", ref], dir, signal);
+        } else {
+          await runGit(
+            ["clone", "--depth", "1", ...(ref ? ["--branch", ref] : []), "--", repository, dir],
+            this.rootDir,
+            signal,
+          );
+        }
+      } catch (error) {
+        await rm(dir, { recursive: true, force: true });
+        throw error;
+      }
+    }
+  }
+
+  /** Applies the retention policy once the task has completed with the given status. */
+  async release(workspace: TaskWorkspace, status: McpCompleteStatus): Promise<void> {
+    this.active.delete(workspace.dir);
+    const keep =
+      this.retention === "keep" || (this.retention === "keep-failed" && status !== "done");
+    if (!keep) {
+      await rm(workspace.dir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Removes retained workspaces whose last modification is older than the
+   * configured max age, skipping those of running tasks (prepared, not yet
+   * released). Returns the removed directories.
+   */
+  async prune(now = Date.now()): Promise<string[]> {
+    if (this.maxAgeMs <= 0) return [];
+    let entries: string[];
+    try {
+      entries = await readdir(this.rootDir);
+    } catch {
+      return [];
+    }
+    const removed: string[] = [];
+    for (const entry of entries) {
+      const dir = path.join(this.rootDir, entry);
+      if (this.active.has(dir)) continue;
+      try {
+        const info = await stat(dir);
+        if (info.isDirectory() && now - info.mtimeMs > this.maxAgeMs) {
+          await rm(dir, { recursive: true, force: true });
+          removed.push(dir);
+        }
+      } catch {
+        // Entry vanished or is unreadable — skip it.
+      }
+    }
+    return removed;
+  }
+}
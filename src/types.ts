@@ -5,6 +5,9 @@
  * Runner types (McpTaskPacket, McpClaimResponse, etc.) map to the MCP daemon API.
  */
 
+import type { RouteRule } from "./runner/routing.js";
+import type { BudgetRule } from "./runner/budget.js";
+
 export type JsonRecord = Record<string, unknown>;
 
 // ---------------------------------------------------------------------------
@@ -143,8 +146,51 @@ export type RunnerConfig = {
   runnerVersion: string;
   runnerInstanceId: string;
   machineId: string;
+  /** runner.yaml that was loaded, if any. */
+  runnerConfigFile?: string;
+  /** Task filters sent with list/claim queries and push tickets. */
+  backend?: string;
+  streamId?: string;
+  costClass?: string;
+  /** Routing rules from runner.yaml; when non-empty they replace the single filter above. */
+  routes: RouteRule[];
+  /** Daily/monthly token and cost limits from runner.yaml. */
+  budgets: BudgetRule[];
+  /** Allows direct Claude/Codex CLI execution alongside OpenClaw. */
+  allowDirectCli: boolean;
+  /** Ordered backends a task falls back through when its own fails preflight. */
+  backendFallbackChain: string[];
+  /** How often registered backends are re-probed for health. */
+  healthCheckSeconds: number;
+  piAgentDir?: string;
   cadenceMinutes: number;
   pushReconnectMs: number;
+  heartbeatSeconds: number;
+  /** Backend attempts per task, including retries of transient failures. */
+  executionMaxAttempts: number;
+  /** Re-prompts allowed for output that fails the packet's outputSchemaJson. */
+  outputRepairAttempts: number;
+  /** Minimum level of daemon log lines. */
+  logLevel: "info" | "warn" | "error";
+  /** Total number of tasks the runner executes at once. */
+  maxConcurrency: number;
+  /** Per-backend concurrency caps keyed by normalized backend name. */
+  backendConcurrency: Record<string, number>;
+  workspaceDir?: string;
+  workspaceRetention: "delete" | "keep-failed" | "keep";
+  workspaceMaxAgeHours: number;
+  /** How long shutdown waits for in-flight tasks before aborting them. */
+  shutdownGraceSeconds: number;
+  /** Port for the Prometheus `/metrics` endpoint; unset disables it. */
+  metricsPort?: number;
+  metricsHost: string;
+  /** Span exporter; unset disables tracing. */
+  tracing?: "otlp" | "file" | "stdout";
+  /** OTLP/HTTP collector endpoint (OTEL_EXPORTER_OTLP_[TRACES_]ENDPOINT). */
+  otlpEndpoint?: string;
+  otlpHeaders: Record<string, string>;
+  /** JSONL file for `tracing: file`. */
+  tracesFile: string;
   openclawGatewayUrl?: string;
   openclawGatewayToken?: string;
   openclawGatewayPassword?: string;
@@ -195,6 +241,8 @@ export type McpTaskPacket = {
   goal?: string;
   streamId?: string;
   context?: JsonRecord;
+  /** Files the runner fetches into the task workspace before execution. */
+  inputFiles?: McpTaskInputFile[];
   prompt?: {
     backend?: string;
     rendered?: string;
@@ -206,6 +254,10 @@ export type McpTaskPacket = {
     timeoutSec?: number;
     outputSchemaJson?: string;
     allowedTools?: string[];
+    /** Backends to try, in order, when `backend` fails its preflight. */
+    fallbackBackends?: string[];
+    /** Workspace-relative paths of files the task produces; reported as artifacts. */
+    outputFiles?: string[];
   };
   promptPlan?: {
     template?: string;
@@ -215,6 +267,32 @@ export type McpTaskPacket = {
     heartbeatRequired?: boolean;
     taskTimeoutSeconds?: number;
   };
+  /** Optional repository to check out into the task's workspace. */
+  workspace?: {
+    repository?: string;
+    ref?: string;
+  };
+};
+
+/** An input file declared by a packet: a URL or a Flux blob, and where to put it. */
+export type McpTaskInputFile = {
+  /** http(s) URL to download. */
+  url?: string;
+  /** Flux blob reference, resolved to a download URL with GET /blobs/:ref. */
+  blobRef?: string;
+  /** Workspace-relative destination. Defaults to `inputs/<file name>`. */
+  path?: string;
+  /** Expected hex SHA-256; a download that doesn't match fails the task. */
+  sha256?: string;
+};
+
+/** Response from GET /blobs/:ref — where to download a blob, and what to expect. */
+export type McpBlobResponse = {
+  url: string;
+  name?: string;
+  mimeType?: string;
+  sizeBytes?: number;
+  sha256?: string;
 };
 
 export type McpClaimResponse = {
@@ -230,6 +308,21 @@ export type McpHeartbeatResponse = {
 
 export type McpCompleteStatus = "done" | "failed" | "cancelled";
 
+/** A file a task produced, reported with its completion. */
+export type McpTaskArtifact = {
+  name: string;
+  mimeType?: string;
+  sizeBytes?: number;
+  /** Hex SHA-256 of the content; unset when the content couldn't be read. */
+  sha256?: string;
+  /** Set once the content was uploaded to the task's artifacts. */
+  artifactId?: string;
+  /** Where the content can be fetched: the upload's URL, or the remote source. */
+  url?: string;
+  /** Why the content couldn't be read or uploaded. */
+  error?: string;
+};
+
 /** A single text/media payload returned by an OpenClaw agent execution. */
 export type OpenClawPayload = {
   text?: string;
@@ -250,4 +343,9 @@ export type OpenClawResult = {
   provider?: string;
   durationMs?: number;
   aborted?: boolean;
+  /** Set for an aborted run: whether the gateway confirmed it stopped, and if not, why. */
+  cancel?: {
+    stopped: boolean;
+    detail?: string;
+  };
 };
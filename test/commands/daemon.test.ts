@@ -20,6 +20,9 @@ const mockCadenceTriggerNow = vi.fn();
 const mockPushStop = vi.fn();
 const mockOpenclawClose = vi.fn();
 const mockOpenclawExecute = vi.fn();
+const mockWorkspacePrune = vi.fn();
+const mockReconcileJournal = vi.fn();
+const mockOutboxFlush = vi.fn();
 const mockMkdirSync = vi.fn();
 const mockWriteFileSync = vi.fn();
 
@@ -29,7 +32,7 @@ vi.mock("node:fs", () => ({
 }));
 
 vi.mock("../../src/runner/config.js", () => ({
-  loadRunnerConfig: () => mockLoadRunnerConfig(),
+  loadRunnerConfig: (...args: unknown[]) => mockLoadRunnerConfig(...args),
   fetchSkillManifest: (...args: unknown[]) => mockFetchSkillManifest(...args),
 }));
 
@@ -46,6 +49,7 @@ vi.mock("../../src/runner/openclaw.js", () => ({
     ping: mockPing,
     close: mockOpenclawClose,
     execute: mockOpenclawExecute,
+    on: vi.fn(),
   })),
 }));
 
@@ -70,11 +74,16 @@ vi.mock("../../src/runner/cadence.js", () => ({
 }));
 
 vi.mock("../../src/runner/openclaw_backend.js", () => ({
-  OpenClawExecutionBackend: vi.fn(),
+  OpenClawExecutionBackend: vi.fn().mockImplementation((opts: { client: { ping: () => Promise<boolean> } }) => ({
+    id: "openclaw",
+    preflight: async () =>
+      (await opts.client.ping()) ? { ok: true } : { ok: false, reason: "OpenClaw gateway health check failed" },
+  })),
 }));
 
 vi.mock("../../src/runner/pi_backend.js", () => ({
   PiExecutionBackend: vi.fn().mockImplementation(() => ({
+    id: "pi",
     preflight: mockPreflight,
     getAgentDir: () => "/tmp/pi",
   })),
@@ -84,6 +93,47 @@ vi.mock("../../src/runner/claude_cli_backend.js", () => ({
   ClaudeCliExecutionBackend: vi.fn(),
 }));
 
+vi.mock("../../src/runner/codex_cli_backend.js", () => ({
+  CodexCliExecutionBackend: vi.fn(),
+}));
+
+vi.mock("../../src/runner/workspace.js", () => ({
+  WorkspaceManager: vi.fn().mockImplementation(() => ({
+    prune: mockWorkspacePrune,
+    getRootDir: () => "/tmp/workspaces",
+  })),
+}));
+
+vi.mock("../../src/runner/journal.js", () => ({
+  TaskJournal: vi.fn().mockImplementation(() => ({
+    getDir: () => "/tmp/journal",
+  })),
+  reconcileTaskJournal: (...args: unknown[]) => mockReconcileJournal(...args),
+}));
+
+vi.mock("../../src/runner/outbox.js", () => ({
+  CompletionOutbox: vi.fn().mockImplementation(() => ({
+    flush: mockOutboxFlush,
+  })),
+}));
+
+vi.mock("../../src/runner/budget.js", () => ({
+  BudgetTracker: vi.fn().mockImplementation(() => ({
+    size: 0,
+    status: () => [],
+    exhausted: () => null,
+    getFilePath: () => "/tmp/budgets.json",
+  })),
+}));
+
+vi.mock("../../src/runner/control.js", () => ({
+  ControlServer: vi.fn().mockImplementation(() => ({
+    start: vi.fn().mockResolvedValue(undefined),
+    stop: vi.fn().mockResolvedValue(undefined),
+    getSocketPath: () => "/tmp/runner.sock",
+  })),
+}));
+
 // We need access to the private normalizeWsUrl and log, but they're module-private.
 // We'll test them indirectly through runDaemon or test the registerDaemonCommand path.
 
@@ -102,8 +152,17 @@ function baseConfig() {
     runnerVersion: "1.0",
     runnerInstanceId: "inst-1",
     machineId: "mach-1",
+    routes: [],
+    budgets: [],
+    allowDirectCli: false,
+    backendFallbackChain: [],
+    healthCheckSeconds: 30,
     cadenceMinutes: 1,
     pushReconnectMs: 5000,
+    heartbeatSeconds: 30,
+    executionMaxAttempts: 3,
+    outputRepairAttempts: 0,
+    logLevel: "info",
     openclawGatewayUrl: "",
     openclawGatewayToken: "",
     openclawGatewayPassword: "",
@@ -124,6 +183,9 @@ function setupDefaults() {
   });
   mockHello.mockResolvedValue({});
   mockPreflight.mockResolvedValue({ ok: false, reason: "no models.json" });
+  mockWorkspacePrune.mockResolvedValue([]);
+  mockReconcileJournal.mockResolvedValue([]);
+  mockOutboxFlush.mockResolvedValue([]);
 }
 
 describe("daemon command", () => {
@@ -134,8 +196,6 @@ describe("daemon command", () => {
     vi.clearAllMocks();
     setupDefaults();
     process.env = { ...origEnv };
-    delete process.env.FLUX_BACKEND;
-    delete process.env.FLUX_ALLOW_DIRECT_CLI;
   });
 
   afterEach(() => {
@@ -169,9 +229,45 @@ describe("daemon command", () => {
     expect(exitCode).toBe(1);
   });
 
+  it("passes daemon flags to loadRunnerConfig and filters to the cadence loop", async () => {
+    mockLoadRunnerConfig.mockResolvedValue({ ...baseConfig(), streamId: "stream-1", costClass: "cheap" });
+    mockPreflight.mockResolvedValue({ ok: true });
+    mockCadenceStart.mockImplementation(() => {
+      throw new Error("break");
+    });
+    process.exit = ((code: number) => {
+      throw new Error(`process.exit(${code})`);
+    }) as never;
+    const { CadenceLoop } = await import("../../src/runner/cadence.js");
+
+    const program = new Command();
+    registerDaemonCommand(program);
+    program.exitOverride();
+
+    await expect(
+      program.parseAsync([
+        "node", "fluxhive", "daemon",
+        "--config", "/etc/flux/runner.yaml",
+        "--backend", "pi",
+        "--max-concurrency", "4",
+        "--log-level", "warn",
+      ]),
+    ).rejects.toThrow();
+    expect(mockLoadRunnerConfig).toHaveBeenCalledWith({
+      configPath: "/etc/flux/runner.yaml",
+      backend: "pi",
+      maxConcurrency: 4,
+      cadenceMinutes: undefined,
+      logLevel: "warn",
+    });
+    expect(CadenceLoop).toHaveBeenCalledWith(
+      expect.objectContaining({ streamId: "stream-1", costClass: "cheap" }),
+    );
+  });
+
   it("throws when no execution backend registered", async () => {
-    // FLUX_ALLOW_DIRECT_CLI is unset, openclaw is not configured, PI preflight fails
-    // and FLUX_BACKEND is unset — all backends will be skipped or disabled
+    // allowDirectCli is off, openclaw is not configured, PI preflight fails
+    // and no backend filter is set — all backends will be skipped or disabled
     mockPreflight.mockResolvedValue({ ok: false, reason: "no models" });
 
     let exitCode: number | undefined;
@@ -216,8 +312,8 @@ describe("daemon command", () => {
     expect(mockPreflight).toHaveBeenCalled();
   });
 
-  it("enables claude-cli when FLUX_ALLOW_DIRECT_CLI=1", async () => {
-    process.env.FLUX_ALLOW_DIRECT_CLI = "1";
+  it("enables claude-cli when allowDirectCli is set", async () => {
+    mockLoadRunnerConfig.mockResolvedValue({ ...baseConfig(), allowDirectCli: true });
     mockPreflight.mockResolvedValue({ ok: false, reason: "nope" });
 
     mockCadenceStart.mockImplementation(() => {
@@ -239,6 +335,83 @@ describe("daemon command", () => {
     expect(mockCadenceStart).toHaveBeenCalled();
   });
 
+  it("enables codex-cli when the backend filter is codex-cli", async () => {
+    mockLoadRunnerConfig.mockResolvedValue({ ...baseConfig(), backend: "codex" });
+    const { CodexCliExecutionBackend } = await import("../../src/runner/codex_cli_backend.js");
+
+    mockCadenceStart.mockImplementation(() => {
+      throw new Error("break");
+    });
+
+    process.exit = ((code: number) => {
+      throw new Error(`process.exit(${code})`);
+    }) as never;
+
+    const program = new Command();
+    registerDaemonCommand(program);
+    program.exitOverride();
+
+    await expect(
+      program.parseAsync(["node", "fluxhive", "daemon"]),
+    ).rejects.toThrow();
+    expect(CodexCliExecutionBackend).toHaveBeenCalled();
+    expect(mockCadenceStart).toHaveBeenCalled();
+    // PI is not compatible with a codex-cli filter
+    expect(mockPreflight).not.toHaveBeenCalled();
+  });
+
+  it("registers the backends routes target and hands the table to the cadence loop", async () => {
+    mockLoadRunnerConfig.mockResolvedValue({
+      ...baseConfig(),
+      routes: [
+        { match: { streamId: "s-1" }, backend: "pi" },
+        { match: { costClass: "cheap" }, backend: "codex" },
+      ],
+    });
+    mockPreflight.mockResolvedValue({ ok: true });
+    mockCadenceStart.mockImplementation(() => {
+      throw new Error("break");
+    });
+    process.exit = ((code: number) => {
+      throw new Error(`process.exit(${code})`);
+    }) as never;
+    const { CodexCliExecutionBackend } = await import("../../src/runner/codex_cli_backend.js");
+    const { ClaudeCliExecutionBackend } = await import("../../src/runner/claude_cli_backend.js");
+    const { CadenceLoop } = await import("../../src/runner/cadence.js");
+
+    const program = new Command();
+    registerDaemonCommand(program);
+    program.exitOverride();
+
+    await expect(program.parseAsync(["node", "fluxhive", "daemon"])).rejects.toThrow();
+    expect(mockPreflight).toHaveBeenCalled();
+    expect(CodexCliExecutionBackend).toHaveBeenCalled();
+    expect(ClaudeCliExecutionBackend).not.toHaveBeenCalled();
+    const [cadenceOpts] = vi.mocked(CadenceLoop).mock.calls.at(-1)!;
+    expect(cadenceOpts.routing?.listFilters()).toEqual([{ streamId: "s-1" }, { costClass: "cheap" }]);
+  });
+
+  it("does not register codex-cli when no backend filter is set", async () => {
+    const { CodexCliExecutionBackend } = await import("../../src/runner/codex_cli_backend.js");
+    mockPreflight.mockResolvedValue({ ok: true });
+    mockCadenceStart.mockImplementation(() => {
+      throw new Error("break");
+    });
+
+    process.exit = ((code: number) => {
+      throw new Error(`process.exit(${code})`);
+    }) as never;
+
+    const program = new Command();
+    registerDaemonCommand(program);
+    program.exitOverride();
+
+    await expect(
+      program.parseAsync(["node", "fluxhive", "daemon"]),
+    ).rejects.toThrow();
+    expect(CodexCliExecutionBackend).not.toHaveBeenCalled();
+  });
+
   it("enables openclaw backend when gateway URL configured and ping succeeds", async () => {
     const config = baseConfig();
     config.openclawGatewayUrl = "ws://localhost:18789";
@@ -289,6 +462,41 @@ describe("daemon command", () => {
     expect(mockOpenclawClose).toHaveBeenCalled();
   });
 
+  it("keeps an unhealthy gateway registered and runs on the healthy fallback", async () => {
+    const config = {
+      ...baseConfig(),
+      backend: "openclaw",
+      backendFallbackChain: ["openclaw", "pi"],
+      openclawGatewayUrl: "ws://localhost:18789",
+    };
+    mockLoadRunnerConfig.mockResolvedValue(config);
+    mockPing.mockResolvedValue(false);
+    mockPreflight.mockResolvedValue({ ok: true });
+    mockCadenceStart.mockImplementation(() => {
+      throw new Error("break");
+    });
+    process.exit = ((code: number) => {
+      throw new Error(`process.exit(${code})`);
+    }) as never;
+    const { TaskExecutor } = await import("../../src/runner/executor.js");
+
+    const program = new Command();
+    registerDaemonCommand(program);
+    program.exitOverride();
+
+    await expect(program.parseAsync(["node", "fluxhive", "daemon"])).rejects.toThrow("process.exit(1)");
+    // The gateway stays open for the health monitor to re-probe.
+    expect(mockOpenclawClose).not.toHaveBeenCalled();
+    expect(mockPreflight).toHaveBeenCalled();
+    expect(mockCadenceStart).toHaveBeenCalled();
+    expect(TaskExecutor).toHaveBeenCalledWith(
+      expect.objectContaining({
+        executionBackends: [expect.objectContaining({ getAgentDir: expect.any(Function) })],
+        fallbackChain: ["openclaw", "pi"],
+      }),
+    );
+  });
+
   it("starts push client when WS URL is available", async () => {
     mockPreflight.mockResolvedValue({ ok: true });
     mockHandshake.mockResolvedValue({
@@ -350,8 +558,8 @@ describe("daemon command", () => {
     expect(mockPushStart).toHaveBeenCalled();
   });
 
-  it("throws when FLUX_BACKEND=pi and PI preflight fails", async () => {
-    process.env.FLUX_BACKEND = "pi";
+  it("throws when the backend filter is pi and PI preflight fails", async () => {
+    mockLoadRunnerConfig.mockResolvedValue({ ...baseConfig(), backend: "pi" });
     mockPreflight.mockResolvedValue({ ok: false, reason: "no models" });
 
     process.exit = ((code: number) => {
@@ -391,6 +599,86 @@ describe("daemon command", () => {
     expect(mockCadenceStart).toHaveBeenCalled();
   });
 
+  it("prunes expired workspaces and hands the manager to the executor", async () => {
+    const { TaskExecutor } = await import("../../src/runner/executor.js");
+    mockPreflight.mockResolvedValue({ ok: true });
+    mockCadenceStart.mockImplementation(() => {
+      throw new Error("break");
+    });
+
+    process.exit = ((code: number) => {
+      throw new Error(`process.exit(${code})`);
+    }) as never;
+
+    const program = new Command();
+    registerDaemonCommand(program);
+    program.exitOverride();
+
+    await expect(
+      program.parseAsync(["node", "fluxhive", "daemon"]),
+    ).rejects.toThrow();
+    expect(mockWorkspacePrune).toHaveBeenCalled();
+    expect(TaskExecutor).toHaveBeenCalledWith(
+      expect.objectContaining({ workspaces: expect.objectContaining({ prune: mockWorkspacePrune }) }),
+    );
+  });
+
+  it("reconciles the task journal before polling and hands it to the executor", async () => {
+    const { TaskExecutor } = await import("../../src/runner/executor.js");
+    mockPreflight.mockResolvedValue({ ok: true });
+    mockReconcileJournal.mockResolvedValue([
+      { taskId: "t1", sessionId: "s1", state: "executing", action: "failed" },
+    ]);
+    mockCadenceStart.mockImplementation(() => {
+      expect(mockReconcileJournal).toHaveBeenCalled();
+      throw new Error("break");
+    });
+
+    process.exit = ((code: number) => {
+      throw new Error(`process.exit(${code})`);
+    }) as never;
+
+    const program = new Command();
+    registerDaemonCommand(program);
+    program.exitOverride();
+
+    await expect(
+      program.parseAsync(["node", "fluxhive", "daemon"]),
+    ).rejects.toThrow("process.exit(1)");
+    expect(mockReconcileJournal).toHaveBeenCalledWith(
+      expect.objectContaining({ getDir: expect.any(Function) }),
+      expect.objectContaining({ whoami: mockWhoami }),
+    );
+    expect(TaskExecutor).toHaveBeenCalledWith(
+      expect.objectContaining({ journal: expect.objectContaining({ getDir: expect.any(Function) }) }),
+    );
+  });
+
+  it("flushes the completion outbox at startup and hands it to the executor", async () => {
+    const { TaskExecutor } = await import("../../src/runner/executor.js");
+    mockPreflight.mockResolvedValue({ ok: true });
+    mockOutboxFlush.mockResolvedValue([{ taskId: "t1", action: "delivered" }]);
+    mockCadenceStart.mockImplementation(() => {
+      throw new Error("break");
+    });
+
+    process.exit = ((code: number) => {
+      throw new Error(`process.exit(${code})`);
+    }) as never;
+
+    const program = new Command();
+    registerDaemonCommand(program);
+    program.exitOverride();
+
+    await expect(
+      program.parseAsync(["node", "fluxhive", "daemon"]),
+    ).rejects.toThrow("process.exit(1)");
+    expect(mockOutboxFlush).toHaveBeenCalledWith(expect.objectContaining({ whoami: mockWhoami }));
+    expect(TaskExecutor).toHaveBeenCalledWith(
+      expect.objectContaining({ outbox: expect.objectContaining({ flush: mockOutboxFlush }) }),
+    );
+  });
+
   it("saves initial SKILL.md to ~/.flux/SKILL.md on startup", async () => {
     mockPreflight.mockResolvedValue({ ok: true });
     mockCadenceStart.mockImplementation(() => {
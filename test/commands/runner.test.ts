@@ -1,5 +1,8 @@
-import { describe, expect, it, vi, beforeEach } from "vitest";
+import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
 import { Command } from "commander";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
 
 const mockHandleServiceCommand = vi.fn();
 
@@ -7,22 +10,47 @@ vi.mock("../../src/runner/service.js", () => ({
   handleServiceCommand: (...args: unknown[]) => mockHandleServiceCommand(...args),
 }));
 
+const mockRequestControl = vi.fn();
+
+vi.mock("../../src/runner/control.js", () => {
+  class ControlUnavailableError extends Error {}
+  return {
+    ControlUnavailableError,
+    requestControl: (...args: unknown[]) => mockRequestControl(...args),
+  };
+});
+
 const mockError = vi.fn();
+const mockJson = vi.fn();
+const mockKeyValue = vi.fn();
 vi.mock("../../src/output.js", () => ({
   error: (...args: unknown[]) => mockError(...args),
+  json: (...args: unknown[]) => mockJson(...args),
+  keyValue: (...args: unknown[]) => mockKeyValue(...args),
+  table: vi.fn(),
+  bold: (text: string) => text,
+  green: (text: string) => text,
+  yellow: (text: string) => text,
+  red: (text: string) => text,
 }));
 
+const { ControlUnavailableError } = await import("../../src/runner/control.js");
+
 const { registerRunnerCommands } = await import("../../src/commands/runner.ts");
 
 function makeProgram() {
   const program = new Command();
+  program.option("--json");
   registerRunnerCommands(program);
   program.exitOverride();
   return program;
 }
 
 describe("runner commands", () => {
-  beforeEach(() => vi.clearAllMocks());
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRequestControl.mockRejectedValue(new ControlUnavailableError("/tmp/runner.sock"));
+  });
 
   for (const action of ["install", "status", "stop", "restart"] as const) {
     it(`calls handleServiceCommand("${action}")`, async () => {
@@ -69,4 +97,159 @@ describe("runner commands", () => {
     await makeProgram().parseAsync(["node", "fluxhive", "runner", "install"]);
     expect(mockError).toHaveBeenCalledWith("something broke");
   });
+
+  describe("daemon control", () => {
+    const status = {
+      pid: 42,
+      version: "1.0",
+      runnerInstanceId: "inst-1",
+      startedAt: "2026-01-01T00:00:00.000Z",
+      uptimeMs: 90_000,
+      state: "running",
+      backends: ["pi"],
+      push: { enabled: true, connected: true },
+      maxConcurrency: 2,
+      inFlight: [{ taskId: "task-1", backend: "pi", startedAt: "2026-01-01T00:01:00.000Z", elapsedMs: 30_000 }],
+      lastPollAt: "2026-01-01T00:01:00.000Z",
+      counters: { polls: 3 },
+    };
+
+    it("status prints live daemon state before the service status", async () => {
+      mockRequestControl.mockResolvedValue(status);
+      mockHandleServiceCommand.mockImplementation(() => {
+        throw new Error("process.exit(0)");
+      });
+
+      await makeProgram().parseAsync(["node", "fluxhive", "runner", "status"]);
+
+      expect(mockRequestControl).toHaveBeenCalledWith("GET", "/status", expect.anything());
+      expect(mockKeyValue).toHaveBeenCalledWith(
+        expect.arrayContaining([["In flight", "1/2"], ["Push", "connected"]]),
+      );
+      expect(mockHandleServiceCommand).toHaveBeenCalledWith("status");
+    });
+
+    it("status lists unhealthy backends with the reason", async () => {
+      mockRequestControl.mockResolvedValue({
+        ...status,
+        unhealthyBackends: [
+          { backend: "openclaw", reason: "OpenClaw gateway health check failed", since: "2026-01-01T00:00:30.000Z" },
+        ],
+      });
+      mockHandleServiceCommand.mockImplementation(() => {
+        throw new Error("process.exit(0)");
+      });
+
+      await makeProgram().parseAsync(["node", "fluxhive", "runner", "status"]);
+
+      expect(mockKeyValue).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          ["Backends", "pi"],
+          ["Unhealthy", "openclaw (OpenClaw gateway health check failed)"],
+        ]),
+      );
+    });
+
+    it("status --json prints only the daemon status", async () => {
+      mockRequestControl.mockResolvedValue(status);
+
+      await makeProgram().parseAsync(["node", "fluxhive", "--json", "runner", "status"]);
+
+      expect(mockJson).toHaveBeenCalledWith(status);
+      expect(mockHandleServiceCommand).not.toHaveBeenCalled();
+    });
+
+    for (const action of ["pause", "resume"] as const) {
+      it(`${action} posts to the control socket`, async () => {
+        mockRequestControl.mockResolvedValue(status);
+
+        await makeProgram().parseAsync(["node", "fluxhive", "runner", action]);
+
+        expect(mockRequestControl).toHaveBeenCalledWith("POST", `/${action}`);
+      });
+    }
+
+    it("drain passes the timeout and waits long enough for it", async () => {
+      mockRequestControl.mockResolvedValue({ idle: true, status });
+
+      await makeProgram().parseAsync(["node", "fluxhive", "runner", "drain", "--timeout", "30"]);
+
+      expect(mockRequestControl).toHaveBeenCalledWith("POST", "/drain", {
+        body: { timeoutSeconds: 30 },
+        timeoutMs: 35_000,
+      });
+    });
+
+    it("poll reports the daemon as unreachable", async () => {
+      await makeProgram().parseAsync(["node", "fluxhive", "runner", "poll"]);
+
+      expect(mockRequestControl).toHaveBeenCalledWith("POST", "/poll");
+      expect(mockError).toHaveBeenCalled();
+    });
+  });
+
+  describe("config validate", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "flux-runner-cmd-test-"));
+      process.exitCode = undefined;
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+      process.exitCode = undefined;
+    });
+
+    it("prints each problem with its line and column", async () => {
+      const file = path.join(dir, "runner.yaml");
+      fs.writeFileSync(file, "concurrency:\n  max: 0\nlogging:\n  level: debug\n");
+      const stderr = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      await makeProgram().parseAsync(["node", "fluxhive", "runner", "config", "validate", "--file", file]);
+
+      expect(stderr).toHaveBeenCalledWith("  2:8 concurrency.max must be >= 1");
+      expect(stderr).toHaveBeenCalledWith("  4:10 logging.level must be one of: info, warn, error");
+      expect(mockError).toHaveBeenCalledWith(`2 problem(s) in ${file}`);
+      stderr.mockRestore();
+    });
+
+    it("reports a valid file", async () => {
+      const file = path.join(dir, "runner.yaml");
+      fs.writeFileSync(file, "concurrency:\n  max: 2\n");
+      const stdout = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await makeProgram().parseAsync(["node", "fluxhive", "runner", "config", "validate", "--file", file]);
+
+      expect(stdout).toHaveBeenCalledWith(`${file} is valid.`);
+      expect(mockError).not.toHaveBeenCalled();
+      stdout.mockRestore();
+    });
+
+    it("--json prints the issues and sets a failing exit code", async () => {
+      const file = path.join(dir, "runner.yaml");
+      fs.writeFileSync(file, "bogus: true\n");
+
+      await makeProgram().parseAsync(["node", "fluxhive", "--json", "runner", "config", "validate", "--file", file]);
+
+      expect(mockJson).toHaveBeenCalledWith({
+        file,
+        valid: false,
+        issues: [{ path: "bogus", message: 'has unknown key "bogus"', line: 1, column: 1 }],
+      });
+      expect(process.exitCode).toBe(1);
+    });
+
+    it("errors when the file does not exist", async () => {
+      mockError.mockImplementationOnce(() => {
+        throw new Error("exit");
+      });
+      const file = path.join(dir, "missing.yaml");
+
+      await expect(
+        makeProgram().parseAsync(["node", "fluxhive", "runner", "config", "validate", "--file", file]),
+      ).rejects.toThrow("exit");
+      expect(mockError).toHaveBeenCalledWith(`No runner config at ${file}`);
+    });
+  });
 });
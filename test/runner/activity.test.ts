@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { ActivityLog } from "../../src/runner/activity.ts";
+
+describe("ActivityLog", () => {
+  it("stamps entries with their offset and collapses streamed blocks", () => {
+    let clock = 1_000;
+    const log = new ActivityLog({ now: () => clock });
+
+    log.record({ kind: "thinking" });
+    clock += 100;
+    log.record({ kind: "thinking" });
+    log.record({ kind: "tool", name: "bash", detail: "ls\n  -la" });
+    clock += 50;
+    log.record({ kind: "text" });
+    log.record({ kind: "text" });
+
+    expect(log.size).toBe(3);
+    expect(log.report()).toEqual({
+      counts: { thinking: 1, tool: 1, text: 1 },
+      tools: { bash: 1 },
+      entries: [
+        { offsetMs: 0, kind: "thinking" },
+        { offsetMs: 100, kind: "tool", name: "bash", detail: "ls -la" },
+        { offsetMs: 150, kind: "text" },
+      ],
+    });
+  });
+
+  it("keeps the most recent entries and counts the dropped ones", () => {
+    const log = new ActivityLog({ maxEntries: 2 });
+    for (const name of ["read", "bash", "write"]) log.record({ kind: "tool", name });
+
+    const report = log.report();
+    expect(report.entries.map((entry) => entry.name)).toEqual(["bash", "write"]);
+    expect(report.dropped).toBe(1);
+    expect(report.counts).toEqual({ tool: 3 });
+  });
+
+  it("truncates long details", () => {
+    const log = new ActivityLog();
+    log.record({ kind: "error", detail: "x".repeat(500) });
+
+    const detail = log.report().entries[0].detail!;
+    expect(detail).toHaveLength(200);
+    expect(detail.endsWith("…")).toBe(true);
+  });
+
+  it("summarizes tool calls, thinking, and errors", () => {
+    const log = new ActivityLog();
+    expect(log.summary()).toBe("");
+
+    log.record({ kind: "text" });
+    log.record({ kind: "lifecycle", name: "start" });
+    expect(log.summary()).toBe("");
+
+    for (const name of ["bash", "read", "bash", "grep", "edit", "write", "ls"]) {
+      log.record({ kind: "tool", name });
+      log.record({ kind: "thinking" });
+    }
+    log.record({ kind: "error", detail: "exit 1" });
+
+    expect(log.summary()).toBe("7 tool calls (bash ×2, read, grep, edit, write, …), 7 thinking blocks, 1 error");
+  });
+});
@@ -0,0 +1,234 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import {
+  collectWorkspaceArtifacts,
+  fetchMediaArtifact,
+  mimeTypeForName,
+  uploadArtifacts,
+} from "../../src/runner/artifacts.ts";
+
+const sha256 = (content: string) => createHash("sha256").update(content).digest("hex");
+
+describe("fetchMediaArtifact", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it("reads data: URLs and names them from the fallback and mime type", async () => {
+    const url = `data:image/png;base64,${Buffer.from("png-bytes").toString("base64")}`;
+
+    await expect(fetchMediaArtifact(url, "media-1")).resolves.toEqual({
+      name: "media-1.png",
+      mimeType: "image/png",
+      bytes: Buffer.from("png-bytes"),
+      sizeBytes: 9,
+      sha256: sha256("png-bytes"),
+    });
+  });
+
+  it("reads local files by path or file:// URL inside the allowed roots", async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "flux-artifacts-test-"));
+    const filePath = path.join(dir, "report.md");
+    fs.writeFileSync(filePath, "# Report\n");
+
+    const expected = {
+      name: "report.md",
+      mimeType: "text/markdown",
+      bytes: Buffer.from("# Report\n"),
+      sizeBytes: 9,
+      sha256: sha256("# Report\n"),
+    };
+    await expect(fetchMediaArtifact(filePath, "media-1", { localRoots: [dir] })).resolves.toEqual(expected);
+    await expect(fetchMediaArtifact(pathToFileURL(filePath).href, "media-1", { localRoots: [dir] })).resolves.toEqual(
+      expected,
+    );
+  });
+
+  it("refuses local files outside the allowed roots, including through symlinks", async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "flux-artifacts-test-"));
+    const media = path.join(dir, "media");
+    fs.mkdirSync(media);
+    fs.writeFileSync(path.join(dir, "config.json"), '{"token":"secret"}');
+    fs.symlinkSync(path.join(dir, "config.json"), path.join(media, "linked.json"));
+    const refused = {
+      name: "config.json",
+      mimeType: "application/json",
+      error: "outside the allowed media directories",
+    };
+
+    await expect(
+      fetchMediaArtifact(path.join(dir, "config.json"), "media-1", { localRoots: [media] }),
+    ).resolves.toEqual(refused);
+    await expect(
+      fetchMediaArtifact(path.join(media, "..", "config.json"), "media-1", { localRoots: [media] }),
+    ).resolves.toEqual(refused);
+    await expect(
+      fetchMediaArtifact(path.join(media, "linked.json"), "media-1", { localRoots: [media] }),
+    ).resolves.toEqual({ ...refused, name: "linked.json" });
+    await expect(fetchMediaArtifact(path.join(dir, "config.json"), "media-1")).resolves.toEqual(refused);
+  });
+
+  it("downloads http(s) media and keeps the URL", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response("chart", { headers: { "content-type": "image/svg+xml; charset=utf-8" } }),
+    );
+
+    await expect(fetchMediaArtifact("https://gateway.example/media/chart%201.svg?sig=x", "media-1")).resolves.toEqual({
+      name: "chart 1.svg",
+      url: "https://gateway.example/media/chart%201.svg?sig=x",
+      mimeType: "image/svg+xml",
+      bytes: Buffer.from("chart"),
+      sizeBytes: 5,
+      sha256: sha256("chart"),
+    });
+  });
+
+  it("reports media it can't read without a hash", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValueOnce(new Response("missing", { status: 404 }));
+    await expect(fetchMediaArtifact("https://gateway.example/a.pdf", "media-1")).resolves.toEqual({
+      name: "a.pdf",
+      url: "https://gateway.example/a.pdf",
+      mimeType: "application/pdf",
+      error: "HTTP 404",
+    });
+
+    vi.spyOn(globalThis, "fetch").mockResolvedValueOnce(new Response("x".repeat(20)));
+    await expect(fetchMediaArtifact("https://gateway.example/big.bin", "media-1", { maxBytes: 10 })).resolves.toMatchObject({
+      error: "artifact is 20 bytes, over the 10-byte limit",
+    });
+
+    await expect(fetchMediaArtifact("relative/file.txt", "media-1")).resolves.toEqual({
+      name: "file.txt",
+      mimeType: "text/plain",
+      error: "unsupported media URL",
+    });
+  });
+});
+
+describe("collectWorkspaceArtifacts", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it("collects declared files by relative path and flags the ones it can't use", async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "flux-artifacts-test-"));
+    const workspace = path.join(dir, "workspace");
+    fs.mkdirSync(path.join(workspace, "out"), { recursive: true });
+    fs.writeFileSync(path.join(workspace, "out", "report.md"), "# Report\n");
+    fs.writeFileSync(path.join(workspace, "big.log"), "x".repeat(20));
+    fs.writeFileSync(path.join(dir, "secret.txt"), "secret");
+    fs.symlinkSync(path.join(dir, "secret.txt"), path.join(workspace, "link.txt"));
+
+    const artifacts = await collectWorkspaceArtifacts(
+      workspace,
+      ["./out/report.md", "out", "missing.csv", "../secret.txt", "link.txt", "big.log"],
+      { maxBytes: 10 },
+    );
+
+    expect(artifacts).toEqual([
+      {
+        name: "out/report.md",
+        mimeType: "text/markdown",
+        path: path.join(fs.realpathSync(workspace), "out", "report.md"),
+        sizeBytes: 9,
+      },
+      { name: "out", error: "not a regular file" },
+      { name: "missing.csv", mimeType: "text/csv", error: "not found" },
+      { name: "../secret.txt", mimeType: "text/plain", error: "outside the task workspace" },
+      { name: "link.txt", mimeType: "text/plain", error: "outside the task workspace" },
+      { name: "big.log", mimeType: "text/plain", error: "artifact is 20 bytes, over the 10-byte limit" },
+    ]);
+  });
+
+  it("reports every file as an error without a workspace", async () => {
+    await expect(collectWorkspaceArtifacts(undefined, ["report.md"])).resolves.toEqual([
+      { name: "report.md", mimeType: "text/markdown", error: "no workspace to collect from" },
+    ]);
+  });
+});
+
+describe("uploadArtifacts", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it("uploads content from bytes or disk and returns metadata in order", async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "flux-artifacts-test-"));
+    const filePath = path.join(dir, "report.md");
+    fs.writeFileSync(filePath, "# Report\n");
+    const uploadArtifact = vi
+      .fn()
+      .mockResolvedValueOnce({ artifactId: "art-1", url: "https://files.example.com/art-1" })
+      .mockResolvedValueOnce({ artifactId: "art-2" });
+
+    const reported = await uploadArtifacts({ uploadArtifact }, "task-1", "session-1", [
+      { name: "report.md", mimeType: "text/markdown", path: filePath, sizeBytes: 9 },
+      { name: "chart.png", mimeType: "image/png", bytes: Buffer.from("png"), url: "https://cdn.example.com/chart.png" },
+      { name: "gone.png", url: "https://cdn.example.com/gone.png", error: "HTTP 404" },
+    ]);
+
+    expect(reported).toEqual([
+      {
+        name: "report.md",
+        mimeType: "text/markdown",
+        sizeBytes: 9,
+        sha256: sha256("# Report\n"),
+        url: "https://files.example.com/art-1",
+        artifactId: "art-1",
+      },
+      {
+        name: "chart.png",
+        mimeType: "image/png",
+        sizeBytes: 3,
+        sha256: sha256("png"),
+        url: "https://cdn.example.com/chart.png",
+        artifactId: "art-2",
+      },
+      { name: "gone.png", url: "https://cdn.example.com/gone.png", error: "HTTP 404" },
+    ]);
+    expect(uploadArtifact).toHaveBeenCalledTimes(2);
+    expect(uploadArtifact).toHaveBeenCalledWith("task-1", "session-1", {
+      name: "report.md",
+      mimeType: "text/markdown",
+      content: Buffer.from("# Report\n"),
+      sha256: sha256("# Report\n"),
+    });
+  });
+
+  it("keeps the metadata of artifacts that fail to upload", async () => {
+    const uploadArtifact = vi.fn().mockRejectedValue(new Error("HTTP 500"));
+
+    await expect(
+      uploadArtifacts({ uploadArtifact }, "task-1", "session-1", [
+        { name: "notes.txt", bytes: Buffer.from("notes") },
+        { name: "vanished.txt", path: "/nonexistent/flux-artifact/vanished.txt" },
+      ]),
+    ).resolves.toEqual([
+      { name: "notes.txt", sizeBytes: 5, sha256: sha256("notes"), error: "upload failed: HTTP 500" },
+      { name: "vanished.txt", error: expect.stringContaining("ENOENT") },
+    ]);
+    expect(uploadArtifact).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("mimeTypeForName", () => {
+  it("maps known extensions, case-insensitively", () => {
+    expect(mimeTypeForName("photo.JPG")).toBe("image/jpeg");
+    expect(mimeTypeForName("changes.patch")).toBe("text/x-diff");
+    expect(mimeTypeForName("binary")).toBeUndefined();
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, expect, it, afterEach, beforeEach, vi } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { BudgetTracker, packetBudgetSubject, type BudgetRule } from "../../src/runner/budget.ts";
+
+describe("BudgetTracker", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "flux-budget-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function makeTracker(
+    budgets: BudgetRule[],
+    clock: { now: Date },
+    extra: Partial<ConstructorParameters<typeof BudgetTracker>[0]> = {},
+  ) {
+    return new BudgetTracker({
+      budgets,
+      filePath: path.join(dir, "budgets.json"),
+      now: () => clock.now,
+      ...extra,
+    });
+  }
+
+  it("exhausts a daily budget and resets it at the next UTC day", () => {
+    const clock = { now: new Date("2026-10-19T10:00:00Z") };
+    const tracker = makeTracker([{ period: "daily", match: { backend: "pi" }, maxTokens: 1_000 }], clock);
+
+    expect(tracker.record({ backend: "pi", model: "m" }, { tokensUsed: 600 })).toEqual([]);
+    expect(tracker.exhausted({ backend: "pi" })).toBeNull();
+
+    const [exhausted] = tracker.record({ backend: "pi", model: "m" }, { tokensUsed: 400 });
+    expect(exhausted).toMatchObject({
+      name: "daily:pi/*/*",
+      tokensUsed: 1_000,
+      exhausted: true,
+      resetsAt: "2026-10-20T00:00:00.000Z",
+    });
+    expect(tracker.exhausted({ backend: "pi" })?.name).toBe("daily:pi/*/*");
+    expect(tracker.exhausted({ backend: "claude-cli" })).toBeNull();
+
+    clock.now = new Date("2026-10-20T00:00:01Z");
+    expect(tracker.exhausted({ backend: "pi" })).toBeNull();
+  });
+
+  it("sums a monthly cost budget across days and reports it once", () => {
+    const clock = { now: new Date("2026-10-01T12:00:00Z") };
+    const onExhausted = vi.fn();
+    const tracker = makeTracker(
+      [{ name: "october", period: "monthly", match: { streamId: "s-1" }, maxCostUsd: 5, escalate: true }],
+      clock,
+      { onExhausted },
+    );
+
+    tracker.record({ backend: "pi", streamId: "s-1" }, { costUsd: 3 });
+    tracker.record({ backend: "pi", streamId: "s-2" }, { costUsd: 10 });
+    clock.now = new Date("2026-10-15T12:00:00Z");
+    const exhausted = tracker.record({ backend: "codex", streamId: "s-1" }, { costUsd: 2 });
+    tracker.record({ backend: "pi", streamId: "s-1" }, { costUsd: 1 });
+
+    expect(exhausted).toHaveLength(1);
+    expect(exhausted[0]).toMatchObject({
+      name: "october",
+      costUsd: 5,
+      escalate: true,
+      resetsAt: "2026-11-01T00:00:00.000Z",
+    });
+    expect(onExhausted).toHaveBeenCalledTimes(1);
+    expect(tracker.status()[0]).toMatchObject({ costUsd: 6, exhausted: true });
+  });
+
+  it("only applies a rule when the subject has every field it matches on", () => {
+    const clock = { now: new Date("2026-10-19T10:00:00Z") };
+    const tracker = makeTracker(
+      [{ period: "daily", match: { streamId: "s-1", model: "big" }, maxTokens: 10 }],
+      clock,
+    );
+    tracker.record({ backend: "pi", streamId: "s-1", model: "big" }, { tokensUsed: 10 });
+
+    expect(tracker.exhausted({ backend: "pi", streamId: "s-1", model: "big" })).not.toBeNull();
+    expect(tracker.exhausted({ backend: "pi", streamId: "s-1" })).toBeNull();
+    expect(tracker.exhausted({ backend: "pi" })).toBeNull();
+  });
+
+  it("persists usage so a new tracker (or new rules) sees what was already spent", () => {
+    const clock = { now: new Date("2026-10-19T10:00:00Z") };
+    makeTracker([], clock).record({ backend: "claude" }, { tokensUsed: 50, costUsd: 0.5 });
+
+    const onExhausted = vi.fn();
+    const reloaded = makeTracker([{ period: "daily", maxCostUsd: 0.5 }], clock, { onExhausted });
+
+    expect(reloaded.exhausted({ backend: "claude-cli" })?.costUsd).toBe(0.5);
+    expect(reloaded.record({ backend: "claude-cli" }, { costUsd: 0.1 })).toEqual([]);
+    expect(onExhausted).not.toHaveBeenCalled();
+    expect(fs.statSync(reloaded.getFilePath()).mode & 0o777).toBe(0o600);
+
+    reloaded.setRules([{ period: "daily", match: { backend: "pi" }, maxTokens: 1 }]);
+    expect(reloaded.exhausted({ backend: "claude-cli" })).toBeNull();
+  });
+
+  it("keeps counting in memory when the file can't be written", () => {
+    fs.writeFileSync(path.join(dir, "blocker"), "");
+    const onPersistError = vi.fn();
+    const tracker = new BudgetTracker({
+      budgets: [{ period: "daily", maxTokens: 5 }],
+      filePath: path.join(dir, "blocker", "budgets.json"),
+      onPersistError,
+    });
+
+    tracker.record({ backend: "pi" }, { tokensUsed: 5 });
+
+    expect(onPersistError).toHaveBeenCalledTimes(1);
+    expect(tracker.exhausted({ backend: "pi" })).not.toBeNull();
+  });
+});
+
+describe("packetBudgetSubject", () => {
+  it("charges the resolved backend, requested model, and stream", () => {
+    expect(
+      packetBudgetSubject({ task: { id: "t", streamId: "s-1" }, execution: { model: "big" } }, "pi"),
+    ).toEqual({ backend: "pi", model: "big", streamId: "s-1" });
+    expect(packetBudgetSubject({ task: { id: "t" } }, null)).toEqual({
+      backend: undefined,
+      model: undefined,
+      streamId: undefined,
+    });
+  });
+
+  it("falls back to the backend's default model when the packet names none", () => {
+    expect(packetBudgetSubject({ task: { id: "t" } }, "claude-cli", "claude-cli")).toMatchObject({
+      model: "claude-cli",
+    });
+    expect(
+      packetBudgetSubject({ task: { id: "t" }, execution: { model: "opus" } }, "claude-cli", "claude-cli"),
+    ).toMatchObject({ model: "opus" });
+  });
+
+  it("lets a model-scoped budget block a packet that doesn't name a model", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "flux-budget-test-"));
+    try {
+      const tracker = new BudgetTracker({
+        budgets: [{ period: "daily", match: { model: "claude-cli" }, maxTokens: 100 }],
+        filePath: path.join(dir, "budgets.json"),
+      });
+      tracker.record({ backend: "claude-cli", model: "claude-cli" }, { tokensUsed: 150 });
+      const packet = { task: { id: "t" }, execution: { backend: "claude-cli" } };
+
+      expect(tracker.exhausted(packetBudgetSubject(packet, "claude-cli", "claude-cli"))).toMatchObject({
+        name: "daily:*/claude-cli/*",
+      });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,5 +1,8 @@
 import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
 import { CadenceLoop } from "../../src/runner/cadence.ts";
+import { createRunnerMetrics } from "../../src/runner/metrics.ts";
+import { RoutingTable } from "../../src/runner/routing.ts";
+import type { BudgetTracker } from "../../src/runner/budget.ts";
 import type { McpTaskPacket, McpTaskListResponse } from "../../src/types.ts";
 
 type FluxClientMock = {
@@ -31,6 +34,12 @@ function makeLoop(
     streamId?: string;
     backend?: string;
     costClass?: string;
+    maxConcurrency?: number;
+    backendConcurrency?: Record<string, number>;
+    routing?: RoutingTable;
+    budget?: BudgetTracker;
+    isBackendAvailable?: (backend: string, packet?: McpTaskPacket) => boolean;
+    defaultModel?: (backend: string) => string | undefined;
     onError?: (error: unknown) => void;
   } = {},
 ): CadenceLoop {
@@ -42,6 +51,12 @@ function makeLoop(
     streamId: overrides.streamId,
     backend: overrides.backend,
     costClass: overrides.costClass,
+    maxConcurrency: overrides.maxConcurrency,
+    backendConcurrency: overrides.backendConcurrency,
+    routing: overrides.routing,
+    budget: overrides.budget,
+    isBackendAvailable: overrides.isBackendAvailable,
+    defaultModel: overrides.defaultModel,
     onError: overrides.onError,
   });
 }
@@ -334,6 +349,165 @@ describe("CadenceLoop", () => {
     loop.stop();
   });
 
+  it("queries each route filter in priority order and limits by the routed backend", async () => {
+    const client = createClientMock();
+    const { executor } = deferredExecutor();
+    const routing = new RoutingTable([
+      { match: { costClass: "cheap" }, backend: "claude-cli" },
+      { match: { streamId: "s-1" }, backend: "pi", priority: 10 },
+    ]);
+    const cheap: McpTaskPacket[] = [
+      { task: { id: "cheap-1" }, execution: { costClass: "cheap" } },
+      { task: { id: "cheap-2" }, execution: { costClass: "cheap" } },
+    ];
+    client.listTasks.mockResolvedValueOnce({ tasks: [] }).mockResolvedValueOnce({ tasks: cheap });
+
+    const loop = makeLoop(client, executor, {
+      routing,
+      maxConcurrency: 3,
+      backendConcurrency: { "claude-cli": 1 },
+    });
+    loop.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(client.listTasks.mock.calls.map(([query]) => [query.streamId, query.costClass])).toEqual([
+      ["s-1", undefined],
+      [undefined, "cheap"],
+    ]);
+    expect(executor.claimAndExecuteFromPacket).toHaveBeenCalledTimes(1);
+    expect(executor.claimAndExecuteFromPacket).toHaveBeenCalledWith(cheap[0]);
+
+    loop.stop();
+  });
+
+  it("reconfigure() polls right away with new filters and restarts the interval", async () => {
+    const client = createClientMock();
+    const executor = createExecutorMock();
+    client.listTasks.mockResolvedValue({ tasks: [] });
+
+    const loop = makeLoop(client, executor, { intervalMs: 60_000, streamId: "s-1" });
+    loop.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(client.listTasks).toHaveBeenCalledTimes(1);
+
+    loop.reconfigure({ intervalMs: 5_000, streamId: "s-2", costClass: "cheap" });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(client.listTasks).toHaveBeenCalledTimes(2);
+    expect(client.listTasks).toHaveBeenLastCalledWith(
+      expect.objectContaining({ streamId: "s-2", costClass: "cheap" }),
+    );
+
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(client.listTasks).toHaveBeenCalledTimes(3);
+
+    loop.stop();
+  });
+
+  it("leaves tasks unclaimed while their budget is exhausted", async () => {
+    const client = createClientMock();
+    const executor = createExecutorMock();
+    const tasks: McpTaskPacket[] = [
+      { task: { id: "pi-1", streamId: "s-1" }, execution: { backend: "pi" } },
+      { task: { id: "cli-1", streamId: "s-1" }, execution: { backend: "claude-cli" } },
+    ];
+    client.listTasks.mockResolvedValue({ tasks });
+    const exhausted = vi.fn((subject: { backend?: string }) =>
+      subject.backend === "pi" ? ({ name: "daily:pi/*/*" } as never) : null,
+    );
+
+    const loop = makeLoop(client, executor, { budget: { exhausted } as unknown as BudgetTracker });
+    loop.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(exhausted).toHaveBeenCalledWith({ backend: "pi", model: undefined, streamId: "s-1" });
+    expect(executor.claimAndExecuteFromPacket).toHaveBeenCalledTimes(1);
+    expect(executor.claimAndExecuteFromPacket).toHaveBeenCalledWith(tasks[1]);
+    expect(loop.getStats().budgetSkipped).toBe(1);
+
+    loop.stop();
+  });
+
+  it("checks budgets against the backend's default model when a task names none", async () => {
+    const client = createClientMock();
+    const executor = createExecutorMock();
+    const tasks: McpTaskPacket[] = [
+      { task: { id: "cli-1" }, execution: { backend: "claude-cli" } },
+      { task: { id: "cli-2" }, execution: { backend: "claude-cli", model: "haiku" } },
+    ];
+    client.listTasks.mockResolvedValue({ tasks });
+    const exhausted = vi.fn((subject: { model?: string }) =>
+      subject.model === "claude-cli" ? ({ name: "daily:*/claude-cli/*" } as never) : null,
+    );
+
+    const loop = makeLoop(client, executor, {
+      budget: { exhausted } as unknown as BudgetTracker,
+      defaultModel: (backend) => (backend === "claude-cli" ? "claude-cli" : undefined),
+    });
+    loop.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(exhausted).toHaveBeenCalledWith({ backend: "claude-cli", model: "claude-cli", streamId: undefined });
+    expect(executor.claimAndExecuteFromPacket).toHaveBeenCalledTimes(1);
+    expect(executor.claimAndExecuteFromPacket).toHaveBeenCalledWith(tasks[1]);
+    expect(loop.getStats().budgetSkipped).toBe(1);
+
+    loop.stop();
+  });
+
+  it("leaves tasks unclaimed while no healthy backend can run them", async () => {
+    const client = createClientMock();
+    const executor = createExecutorMock();
+    const tasks: McpTaskPacket[] = [
+      { task: { id: "pi-1" }, execution: { backend: "pi" } },
+      { task: { id: "cli-1" }, execution: { backend: "claude-cli" } },
+    ];
+    client.listTasks.mockResolvedValue({ tasks });
+    const isBackendAvailable = vi.fn((backend: string) => backend !== "pi");
+
+    const loop = makeLoop(client, executor, { isBackendAvailable });
+    loop.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(isBackendAvailable).toHaveBeenCalledWith("pi", tasks[0]);
+    expect(executor.claimAndExecuteFromPacket).toHaveBeenCalledTimes(1);
+    expect(executor.claimAndExecuteFromPacket).toHaveBeenCalledWith(tasks[1]);
+    expect(loop.getStats().unavailableSkipped).toBe(1);
+
+    loop.stop();
+  });
+
+  it("stops polling filters whose backend is unavailable", async () => {
+    const client = createClientMock();
+    const executor = createExecutorMock();
+    client.listTasks.mockResolvedValue({ tasks: [] });
+    let piHealthy = false;
+    const isBackendAvailable = (backend: string) => backend !== "pi" || piHealthy;
+
+    const single = makeLoop(client, executor, { backend: "pi", isBackendAvailable });
+    single.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(client.listTasks).not.toHaveBeenCalled();
+
+    piHealthy = true;
+    single.triggerNow();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(client.listTasks).toHaveBeenCalledTimes(1);
+    single.stop();
+
+    client.listTasks.mockClear();
+    piHealthy = false;
+    const routing = new RoutingTable([
+      { match: { streamId: "s-research" }, backend: "pi", priority: 10 },
+      { match: { costClass: "cheap" }, backend: "claude-cli" },
+    ]);
+    const routed = makeLoop(client, executor, { routing, isBackendAvailable });
+    routed.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(client.listTasks).toHaveBeenCalledTimes(1);
+    expect(client.listTasks).toHaveBeenCalledWith(expect.objectContaining({ costClass: "cheap" }));
+    routed.stop();
+  });
+
   it("uses default listLimit of 10", async () => {
     const client = createClientMock();
     const executor = createExecutorMock();
@@ -414,4 +588,249 @@ describe("CadenceLoop", () => {
 
     loop.stop();
   });
+
+  // ---------------------------------------------------------------------------
+  // Worker pool
+  // ---------------------------------------------------------------------------
+
+  function deferredExecutor() {
+    const executor = createExecutorMock();
+    const releases: Array<() => void> = [];
+    executor.claimAndExecuteFromPacket.mockImplementation(
+      () => new Promise<void>((resolve) => releases.push(resolve)),
+    );
+    return { executor, releases };
+  }
+
+  it("runs tasks one at a time by default", async () => {
+    const client = createClientMock();
+    const { executor, releases } = deferredExecutor();
+    client.listTasks.mockResolvedValueOnce({ tasks: makeTasks(3) });
+
+    const loop = makeLoop(client, executor);
+    loop.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(executor.claimAndExecuteFromPacket).toHaveBeenCalledTimes(1);
+    releases[0]!();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(executor.claimAndExecuteFromPacket).toHaveBeenCalledTimes(2);
+
+    loop.stop();
+  });
+
+  it("runs up to maxConcurrency tasks in parallel and claims more as slots free", async () => {
+    const client = createClientMock();
+    const { executor, releases } = deferredExecutor();
+    client.listTasks.mockResolvedValueOnce({ tasks: makeTasks(3) });
+
+    const loop = makeLoop(client, executor, { maxConcurrency: 2 });
+    loop.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(executor.claimAndExecuteFromPacket).toHaveBeenCalledTimes(2);
+    expect(loop.activeCount).toBe(2);
+
+    releases[1]!();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(executor.claimAndExecuteFromPacket).toHaveBeenCalledTimes(3);
+    expect(loop.activeCount).toBe(2);
+
+    loop.stop();
+  });
+
+  it("skips tasks whose backend is at capacity and retries them when a slot frees", async () => {
+    const client = createClientMock();
+    const { executor, releases } = deferredExecutor();
+    const piTasks: McpTaskPacket[] = [
+      { task: { id: "pi-1" }, execution: { backend: "pi" } },
+      { task: { id: "pi-2" }, execution: { backend: "pi" } },
+    ];
+    const cliTask: McpTaskPacket = { task: { id: "cli-1" }, execution: { backend: "claude-cli" } };
+    client.listTasks
+      .mockResolvedValueOnce({ tasks: [...piTasks, cliTask] })
+      .mockResolvedValueOnce({ tasks: [piTasks[1]] });
+
+    const loop = makeLoop(client, executor, { maxConcurrency: 3, backendConcurrency: { pi: 1 } });
+    loop.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(executor.claimAndExecuteFromPacket).toHaveBeenCalledTimes(2);
+    expect(executor.claimAndExecuteFromPacket).toHaveBeenCalledWith(piTasks[0]);
+    expect(executor.claimAndExecuteFromPacket).toHaveBeenCalledWith(cliTask);
+    expect(executor.claimAndExecuteFromPacket).not.toHaveBeenCalledWith(piTasks[1]);
+
+    releases[0]!();
+    await vi.advanceTimersByTimeAsync(0);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(client.listTasks).toHaveBeenCalledTimes(2);
+    expect(executor.claimAndExecuteFromPacket).toHaveBeenCalledWith(piTasks[1]);
+
+    loop.stop();
+  });
+
+  it("does not dispatch a task that is already running", async () => {
+    const client = createClientMock();
+    const { executor } = deferredExecutor();
+    const tasks = makeTasks(1);
+    client.listTasks.mockResolvedValue({ tasks });
+
+    const loop = makeLoop(client, executor, { maxConcurrency: 2 });
+    loop.start();
+    await vi.advanceTimersByTimeAsync(0);
+    loop.triggerNow();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(client.listTasks).toHaveBeenCalledTimes(2);
+    expect(executor.claimAndExecuteFromPacket).toHaveBeenCalledTimes(1);
+
+    loop.stop();
+  });
+
+  it("reports task execution errors through onError without stopping the drain", async () => {
+    const client = createClientMock();
+    const executor = createExecutorMock();
+    const onError = vi.fn();
+    const failure = new Error("boom");
+    executor.claimAndExecuteFromPacket.mockRejectedValueOnce(failure);
+    client.listTasks.mockResolvedValueOnce({ tasks: makeTasks(2) });
+
+    const loop = makeLoop(client, executor, { onError });
+    loop.start();
+    await vi.advanceTimersByTimeAsync(0);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(onError).toHaveBeenCalledWith(failure);
+    expect(executor.claimAndExecuteFromPacket).toHaveBeenCalledTimes(2);
+
+    loop.stop();
+  });
+
+  // ---------------------------------------------------------------------------
+  // Drain on shutdown
+  // ---------------------------------------------------------------------------
+
+  it("waitForIdle() resolves true once in-flight tasks finish, without claiming more", async () => {
+    const client = createClientMock();
+    const { executor, releases } = deferredExecutor();
+    client.listTasks.mockResolvedValueOnce({ tasks: makeTasks(3) });
+
+    const loop = makeLoop(client, executor, { maxConcurrency: 2 });
+    loop.start();
+    await vi.advanceTimersByTimeAsync(0);
+    loop.stop();
+
+    let idle: boolean | undefined;
+    void loop.waitForIdle(60_000).then((value) => {
+      idle = value;
+    });
+    releases[0]!();
+    releases[1]!();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(idle).toBe(true);
+    expect(loop.activeCount).toBe(0);
+    expect(executor.claimAndExecuteFromPacket).toHaveBeenCalledTimes(2);
+  });
+
+  it("waitForIdle() resolves false when tasks outlast the timeout", async () => {
+    const client = createClientMock();
+    const { executor } = deferredExecutor();
+    client.listTasks.mockResolvedValueOnce({ tasks: makeTasks(1) });
+
+    const loop = makeLoop(client, executor);
+    loop.start();
+    await vi.advanceTimersByTimeAsync(0);
+    loop.stop();
+
+    const idle = loop.waitForIdle(5_000);
+    await vi.advanceTimersByTimeAsync(5_000);
+
+    expect(await idle).toBe(false);
+    expect(loop.activeCount).toBe(1);
+  });
+
+  it("waitForIdle() resolves immediately when nothing is running", async () => {
+    const loop = makeLoop(createClientMock(), createExecutorMock());
+    expect(await loop.waitForIdle(1_000)).toBe(true);
+  });
+
+  // ---------------------------------------------------------------------------
+  // Pause / resume and status
+  // ---------------------------------------------------------------------------
+
+  it("pause() stops claiming while in-flight tasks finish, resume() polls again", async () => {
+    const client = createClientMock();
+    const { executor, releases } = deferredExecutor();
+    client.listTasks.mockResolvedValue({ tasks: makeTasks(1) });
+
+    const loop = makeLoop(client, executor);
+    loop.start();
+    await vi.advanceTimersByTimeAsync(0);
+    loop.pause();
+    expect(loop.isPaused).toBe(true);
+
+    releases[0]!();
+    loop.triggerNow();
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(client.listTasks).toHaveBeenCalledTimes(1);
+    expect(loop.activeCount).toBe(0);
+
+    loop.resume();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(loop.isPaused).toBe(false);
+    expect(client.listTasks).toHaveBeenCalledTimes(2);
+
+    loop.stop();
+  });
+
+  it("reports in-flight tasks and counters", async () => {
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    const client = createClientMock();
+    const { executor, releases } = deferredExecutor();
+    executor.claimAndExecuteFromPacket
+      .mockImplementationOnce(() => Promise.reject(new Error("boom")))
+      .mockImplementation(() => new Promise<void>((resolve) => releases.push(resolve)));
+    client.listTasks.mockResolvedValueOnce({ tasks: makeTasks(2) });
+
+    const loop = makeLoop(client, executor, { maxConcurrency: 2, onError: () => {} });
+    loop.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(loop.listInFlight()).toEqual([
+      { taskId: "task-1", backend: "claude-cli", startedAt: Date.parse("2026-01-01T00:00:00Z") },
+    ]);
+    expect(loop.getStats()).toEqual({
+      polls: 1,
+      pollErrors: 0,
+      dispatched: 2,
+      finished: 1,
+      taskErrors: 1,
+      budgetSkipped: 0,
+      unavailableSkipped: 0,
+      lastPollAt: Date.parse("2026-01-01T00:00:00Z"),
+    });
+
+    loop.stop();
+  });
+
+  it("counts failed ticks in metrics", async () => {
+    const client = createClientMock();
+    client.listTasks.mockRejectedValueOnce(new Error("offline"));
+    const metrics = createRunnerMetrics();
+
+    const loop = new CadenceLoop({
+      client: client as never,
+      executor: createExecutorMock() as never,
+      intervalMs: 60_000,
+      metrics,
+      onError: () => {},
+    });
+    loop.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(metrics.cadenceTickErrors.get()).toBe(1);
+    loop.stop();
+  });
 });
@@ -1,6 +1,8 @@
 import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
 import { EventEmitter } from "node:events";
-import { parseClaudeCliOutput } from "../../src/runner/claude_cli_backend.js";
+import os from "node:os";
+import path from "node:path";
+import { parseClaudeCliOutput, parseClaudeStreamLine } from "../../src/runner/claude_cli_backend.js";
 
 // ---------------------------------------------------------------------------
 // parseClaudeCliOutput (pure function tests)
@@ -45,6 +47,66 @@ describe("parseClaudeCliOutput", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// stream-json events, as printed by `claude -p --output-format stream-json
+// --verbose --include-partial-messages`
+// ---------------------------------------------------------------------------
+
+function streamLine(event: Record<string, unknown>): string {
+  return `${JSON.stringify(event)}\n`;
+}
+
+function textDelta(text: string): string {
+  return streamLine({
+    type: "stream_event",
+    session_id: "s1",
+    event: { type: "content_block_delta", index: 0, delta: { type: "text_delta", text } },
+  });
+}
+
+function assistantMessage(text: string): string {
+  return streamLine({
+    type: "assistant",
+    session_id: "s1",
+    message: { role: "assistant", content: [{ type: "text", text }] },
+  });
+}
+
+function resultEvent(result: string, isError = false): string {
+  return streamLine({
+    type: "result",
+    subtype: isError ? "error_during_execution" : "success",
+    is_error: isError,
+    result,
+    session_id: "s1",
+  });
+}
+
+describe("parseClaudeStreamLine", () => {
+  it("reads text deltas, assistant message text, and the result", () => {
+    expect(parseClaudeStreamLine(textDelta("Hel"))).toEqual({ kind: "text", text: "Hel", partial: true });
+    expect(parseClaudeStreamLine(assistantMessage("Hello"))).toEqual({ kind: "text", text: "Hello", partial: false });
+    expect(parseClaudeStreamLine(resultEvent("Hello"))).toMatchObject({
+      kind: "result",
+      envelope: { type: "result", result: "Hello" },
+    });
+  });
+
+  it("ignores system, tool, and non-JSON lines", () => {
+    expect(parseClaudeStreamLine(streamLine({ type: "system", subtype: "init", session_id: "s1" }))).toBeNull();
+    expect(
+      parseClaudeStreamLine(
+        streamLine({
+          type: "stream_event",
+          event: { type: "content_block_delta", delta: { type: "input_json_delta", partial_json: "{" } },
+        }),
+      ),
+    ).toBeNull();
+    expect(parseClaudeStreamLine("")).toBeNull();
+    expect(parseClaudeStreamLine("not json")).toBeNull();
+  });
+});
+
 // ---------------------------------------------------------------------------
 // ClaudeCliExecutionBackend (with mocked child_process and fs)
 // ---------------------------------------------------------------------------
@@ -53,8 +115,10 @@ class MockChildProcess extends EventEmitter {
   stdout = new EventEmitter();
   stderr = new EventEmitter();
   killed = false;
+  signals: string[] = [];
   kill(signal?: string) {
     this.killed = true;
+    if (signal) this.signals.push(signal);
   }
 }
 
@@ -106,7 +170,8 @@ describe("ClaudeCliExecutionBackend", () => {
     const p = backend.execute(makeRequest() as never);
 
     // Simulate stdout
-    child.stdout.emit("data", Buffer.from(JSON.stringify({ result: "ok" })));
+    child.stdout.emit("data", Buffer.from(streamLine({ type: "system", subtype: "init" }) + assistantMessage("ok")));
+    child.stdout.emit("data", Buffer.from(resultEvent("ok")));
     child.emit("close", 0);
 
     const result = await p;
@@ -114,6 +179,22 @@ describe("ClaudeCliExecutionBackend", () => {
     expect(result.output).toContain("ok");
   });
 
+  it("fails a run whose result event is an error", async () => {
+    const child = new MockChildProcess();
+    vi.mocked(spawn).mockReturnValue(child as never);
+
+    const backend = new ClaudeCliExecutionBackend();
+    const p = backend.execute(makeRequest() as never);
+    child.stdout.emit("data", Buffer.from(resultEvent("API Error: 529 overloaded_error", true)));
+    child.emit("close", 0);
+
+    expect(await p).toMatchObject({
+      status: "failed",
+      output: "claude-cli failed: API Error: 529 overloaded_error",
+      errorKind: "transient",
+    });
+  });
+
   it("execute returns failed on non-zero exit", async () => {
     const child = new MockChildProcess();
     vi.mocked(spawn).mockReturnValue(child as never);
@@ -127,6 +208,20 @@ describe("ClaudeCliExecutionBackend", () => {
     const result = await p;
     expect(result.status).toBe("failed");
     expect(result.output).toContain("error message");
+    expect(result.errorKind).toBe("permanent");
+  });
+
+  it("marks rate-limit failures as transient", async () => {
+    const child = new MockChildProcess();
+    vi.mocked(spawn).mockReturnValue(child as never);
+
+    const backend = new ClaudeCliExecutionBackend();
+    const p = backend.execute(makeRequest() as never);
+
+    child.stderr.emit("data", Buffer.from("API Error: 429 rate_limit_error"));
+    child.emit("close", 1);
+
+    expect(await p).toMatchObject({ status: "failed", errorKind: "transient" });
   });
 
   it("execute returns cancelled on abort", async () => {
@@ -144,6 +239,28 @@ describe("ClaudeCliExecutionBackend", () => {
     expect(result.status).toBe("cancelled");
   });
 
+  it("sends SIGKILL when the child ignores SIGTERM after an abort", async () => {
+    vi.useFakeTimers();
+    try {
+      const child = new MockChildProcess();
+      vi.mocked(spawn).mockReturnValue(child as never);
+      const ac = new AbortController();
+
+      const backend = new ClaudeCliExecutionBackend();
+      const p = backend.execute(makeRequest({ abortSignal: ac.signal }) as never);
+
+      ac.abort();
+      expect(child.signals).toEqual(["SIGTERM"]);
+      await vi.advanceTimersByTimeAsync(5_000);
+      expect(child.signals).toEqual(["SIGTERM", "SIGKILL"]);
+      child.emit("close", null);
+
+      expect((await p).status).toBe("cancelled");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
   it("execute returns (empty response) when stdout is empty", async () => {
     const child = new MockChildProcess();
     vi.mocked(spawn).mockReturnValue(child as never);
@@ -191,6 +308,10 @@ describe("ClaudeCliExecutionBackend", () => {
       expect.arrayContaining(["--model", "sonnet", "--allowedTools", "Read,Write"]),
       expect.anything(),
     );
+    const args = vi.mocked(spawn).mock.calls[0][1] as string[];
+    expect(args.slice(args.indexOf("--output-format"))).toEqual(
+      expect.arrayContaining(["--output-format", "stream-json", "--verbose", "--include-partial-messages"]),
+    );
   });
 
   it("spawn env does NOT contain FLUX_TOKEN or OPENCLAW_* secrets", async () => {
@@ -231,6 +352,81 @@ describe("ClaudeCliExecutionBackend", () => {
     if (origOcAgent === undefined) delete process.env.OPENCLAW_AGENT_ID; else process.env.OPENCLAW_AGENT_ID = origOcAgent;
   });
 
+  it("reports streamed assistant text as progress", async () => {
+    const child = new MockChildProcess();
+    vi.mocked(spawn).mockReturnValue(child as never);
+    const onProgress = vi.fn();
+
+    const backend = new ClaudeCliExecutionBackend();
+    const p = backend.execute(makeRequest({ onProgress }) as never);
+    child.stdout.emit("data", Buffer.from(streamLine({ type: "system", subtype: "init" }) + textDelta("part one ")));
+    // A line split across chunks is only read once it is complete.
+    const delta = textDelta("part two");
+    child.stdout.emit("data", Buffer.from(delta.slice(0, 20)));
+    expect(onProgress).toHaveBeenLastCalledWith({ output: "part one " });
+    child.stdout.emit("data", Buffer.from(delta.slice(20)));
+    // The complete message repeats the deltas and adds nothing.
+    child.stdout.emit("data", Buffer.from(assistantMessage("part one part two")));
+    child.stdout.emit("data", Buffer.from(streamLine({ type: "user", message: { content: [{ type: "tool_result" }] } })));
+    child.stdout.emit("data", Buffer.from(assistantMessage("Done.")));
+    child.stdout.emit("data", Buffer.from(resultEvent("Done.")));
+    child.emit("close", 0);
+    await p;
+
+    expect(onProgress.mock.calls.map(([progress]) => progress.output)).toEqual([
+      "part one ",
+      "part one part two",
+      "part one part two\n\nDone.",
+    ]);
+  });
+
+  it("spawns in the task workspace when one is provided", async () => {
+    const child = new MockChildProcess();
+    vi.mocked(spawn).mockReturnValue(child as never);
+
+    const backend = new ClaudeCliExecutionBackend();
+    const p = backend.execute(makeRequest({ workspaceDir: "/ws/task-1" }) as never);
+    child.emit("close", 0);
+    await p;
+
+    expect(spawn).toHaveBeenCalledWith(
+      "claude",
+      expect.any(Array),
+      expect.objectContaining({ cwd: "/ws/task-1" }),
+    );
+  });
+
+  it("collects the packet's declared output files from the workspace", async () => {
+    const fs = await vi.importActual<typeof import("node:fs")>("node:fs");
+    const workspaceDir = fs.mkdtempSync(path.join(os.tmpdir(), "flux-claude-test-"));
+    fs.writeFileSync(path.join(workspaceDir, "summary.md"), "# Summary\n");
+    const child = new MockChildProcess();
+    vi.mocked(spawn).mockReturnValue(child as never);
+
+    try {
+      const backend = new ClaudeCliExecutionBackend();
+      const p = backend.execute(
+        makeRequest({
+          workspaceDir,
+          packet: {
+            execution: { backend: "claude-cli", outputFiles: ["summary.md", "missing.csv"] },
+            prompt: { rendered: "Do something" },
+          },
+        }) as never,
+      );
+      child.stdout.emit("data", Buffer.from(resultEvent("ok")));
+      child.emit("close", 0);
+      const result = await p;
+
+      expect(result.artifacts).toEqual([
+        expect.objectContaining({ name: "summary.md", mimeType: "text/markdown", sizeBytes: 10 }),
+        { name: "missing.csv", mimeType: "text/csv", error: "not found" },
+      ]);
+    } finally {
+      fs.rmSync(workspaceDir, { recursive: true, force: true });
+    }
+  });
+
   it("uses CLAUDE_BIN env var when set and exists", async () => {
     const origEnv = process.env.CLAUDE_BIN;
     process.env.CLAUDE_BIN = "/custom/claude";
@@ -1,5 +1,13 @@
 import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
-import { FluxMcpClient, McpHttpError, wsUrlToHttpOrigin } from "../../src/runner/client.ts";
+import {
+  FluxMcpClient,
+  McpHttpError,
+  computeBackoffMs,
+  isTransientRequestError,
+  parseRetryAfterMs,
+  wsUrlToHttpOrigin,
+} from "../../src/runner/client.ts";
+import { Tracer } from "../../src/runner/tracing.ts";
 
 // ---------------------------------------------------------------------------
 // Mock global fetch
@@ -8,11 +16,17 @@ import { FluxMcpClient, McpHttpError, wsUrlToHttpOrigin } from "../../src/runner
 const fetchMock = vi.fn();
 vi.stubGlobal("fetch", fetchMock);
 
-function mockFetchResponse(status: number, body: unknown, ok?: boolean) {
+function mockFetchResponse(
+  status: number,
+  body: unknown,
+  ok?: boolean,
+  headers: Record<string, string> = {},
+) {
   const text = typeof body === "string" ? body : JSON.stringify(body);
   fetchMock.mockResolvedValueOnce({
     ok: ok ?? (status >= 200 && status < 300),
     status,
+    headers: new Headers(headers),
     text: async () => text,
   });
 }
@@ -53,14 +67,168 @@ describe("wsUrlToHttpOrigin", () => {
   });
 });
 
+describe("parseRetryAfterMs", () => {
+  it("parses delta-seconds", () => {
+    expect(parseRetryAfterMs("3")).toBe(3000);
+  });
+
+  it("parses HTTP dates relative to now", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    expect(parseRetryAfterMs("Thu, 01 Jan 2026 00:00:05 GMT", now)).toBe(5000);
+  });
+
+  it("returns null for missing or invalid values", () => {
+    expect(parseRetryAfterMs(null)).toBeNull();
+    expect(parseRetryAfterMs("soon")).toBeNull();
+  });
+});
+
+describe("computeBackoffMs", () => {
+  const policy = { maxAttempts: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+
+  it("grows exponentially with jitter in the upper half", () => {
+    expect(computeBackoffMs(0, policy, () => 0)).toBe(50);
+    expect(computeBackoffMs(0, policy, () => 1)).toBe(100);
+    expect(computeBackoffMs(2, policy, () => 0)).toBe(200);
+  });
+
+  it("caps at maxDelayMs", () => {
+    expect(computeBackoffMs(10, policy, () => 1)).toBe(1000);
+  });
+});
+
+describe("isTransientRequestError", () => {
+  it("treats network errors, 408, 429, and 5xx as transient", () => {
+    expect(isTransientRequestError(new TypeError("fetch failed"))).toBe(true);
+    expect(isTransientRequestError(new McpHttpError("x", { status: 408 }))).toBe(true);
+    expect(isTransientRequestError(new McpHttpError("x", { status: 429 }))).toBe(true);
+    expect(isTransientRequestError(new McpHttpError("x", { status: 503 }))).toBe(true);
+    expect(isTransientRequestError(Object.assign(new Error("read"), { code: "ECONNRESET" }))).toBe(true);
+    expect(isTransientRequestError(new DOMException("timed out", "TimeoutError"))).toBe(true);
+  });
+
+  it("treats errors that aren't request failures as permanent", () => {
+    expect(isTransientRequestError(new Error("EACCES: permission denied"))).toBe(false);
+    expect(isTransientRequestError(new SyntaxError("Unexpected token"))).toBe(false);
+  });
+
+  it("treats other 4xx responses as permanent", () => {
+    expect(isTransientRequestError(new McpHttpError("x", { status: 400 }))).toBe(false);
+    expect(isTransientRequestError(new McpHttpError("x", { status: 409 }))).toBe(false);
+  });
+});
+
+describe("FluxMcpClient retries", () => {
+  let client: FluxMcpClient;
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.useFakeTimers();
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    client = new FluxMcpClient({
+      baseUrl: "https://api.example.com/mcp/v1",
+      token: "tok",
+      retry: { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 10_000 },
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("retries 503 with backoff and returns the eventual success", async () => {
+    mockFetchResponse(503, { message: "unavailable" });
+    mockFetchResponse(503, { message: "unavailable" });
+    mockFetchResponse(200, { ok: true });
+
+    const result = client.completeTask("t1", "s1", { status: "done", output: "ok" });
+    await vi.advanceTimersByTimeAsync(50);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(100);
+
+    await expect(result).resolves.toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("waits at least as long as Retry-After on 429", async () => {
+    mockFetchResponse(429, { message: "slow down" }, false, { "retry-after": "2" });
+    mockFetchResponse(200, { sessionId: "s1" });
+
+    const result = client.claimTask("t1", {
+      runnerType: "r",
+      runnerVersion: "1",
+      runnerInstanceId: "i",
+      machineId: "m",
+    });
+    await vi.advanceTimersByTimeAsync(1_999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toEqual({ sessionId: "s1" });
+  });
+
+  it("throws instead of retrying early when Retry-After exceeds maxDelayMs", async () => {
+    mockFetchResponse(503, { message: "maintenance" }, false, { "retry-after": "60" });
+    mockFetchResponse(200, { ok: true });
+
+    await expect(client.completeTask("t1", "s1", { status: "done", output: "ok" })).rejects.toThrow("maintenance");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up after maxAttempts and throws the last error", async () => {
+    mockFetchResponse(503, { message: "down 1" });
+    mockFetchResponse(503, { message: "down 2" });
+    mockFetchResponse(503, { message: "down 3" });
+
+    const result = client.whoami();
+    const assertion = expect(result).rejects.toThrow("down 3");
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry permanent errors", async () => {
+    mockFetchResponse(400, { message: "bad request" });
+
+    await expect(client.whoami()).rejects.toThrow("bad request");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries network errors for idempotent requests only", async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError("fetch failed"));
+    mockFetchResponse(200, { shouldAbort: false });
+
+    const heartbeat = client.heartbeat("t1", "s1");
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(heartbeat).resolves.toEqual({ shouldAbort: false });
+
+    fetchMock.mockRejectedValueOnce(new TypeError("fetch failed"));
+    await expect(
+      client.claimTask("t1", { runnerType: "r", runnerVersion: "1", runnerInstanceId: "i", machineId: "m" }),
+    ).rejects.toThrow("fetch failed");
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry 502 for non-idempotent requests", async () => {
+    mockFetchResponse(502, { message: "bad gateway" });
+
+    await expect(client.hello()).rejects.toThrow("bad gateway");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
 describe("FluxMcpClient", () => {
   let client: FluxMcpClient;
 
   beforeEach(() => {
     fetchMock.mockReset();
+    // Retries are covered in their own block; here each mocked response is final.
     client = new FluxMcpClient({
       baseUrl: "https://api.example.com/mcp/v1/",
       token: "test-token-abc",
+      retry: { maxAttempts: 1 },
     });
   });
 
@@ -81,6 +249,21 @@ describe("FluxMcpClient", () => {
     expect((init.headers as Record<string, string>).authorization).toBe("Bearer test-token-abc");
   });
 
+  it("sends a traceparent header for requests inside a sampled span", async () => {
+    mockFetchResponse(200, { ok: true });
+    mockFetchResponse(200, { ok: true });
+    const tracer = new Tracer({ serviceName: "test", exporter: { export: async () => {} } });
+    const span = tracer.startSpan("task.run");
+
+    await tracer.withSpan(span, () => client.hello());
+    await client.hello();
+
+    const [, traced] = fetchMock.mock.calls[0] as [string, RequestInit];
+    const [, untraced] = fetchMock.mock.calls[1] as [string, RequestInit];
+    expect((traced.headers as Record<string, string>).traceparent).toBe(span.traceparent());
+    expect((untraced.headers as Record<string, string>).traceparent).toBeUndefined();
+  });
+
   it("strips trailing slashes from baseUrl", async () => {
     mockFetchResponse(200, { id: "user-1" });
     await client.whoami();
@@ -399,6 +582,93 @@ describe("FluxMcpClient", () => {
     });
   });
 
+  // ---------------------------------------------------------------------------
+  // uploadArtifact
+  // ---------------------------------------------------------------------------
+
+  describe("uploadArtifact()", () => {
+    const artifact = {
+      name: "out/report.md",
+      mimeType: "text/markdown",
+      content: Buffer.from("hello world"),
+      sha256: "abc123",
+    };
+
+    it("creates the artifact, uploads chunks, then completes it", async () => {
+      mockFetchResponse(200, { artifactId: "art-1" });
+      mockFetchResponse(200, { ok: true });
+      mockFetchResponse(200, { ok: true });
+      mockFetchResponse(200, { ok: true });
+      mockFetchResponse(200, { artifactId: "art-1", url: "https://files.example.com/art-1" });
+
+      const uploaded = await client.uploadArtifact("task-1", "session-1", artifact, { chunkBytes: 4 });
+
+      expect(uploaded).toEqual({ artifactId: "art-1", url: "https://files.example.com/art-1" });
+      const calls = fetchMock.mock.calls as [string, RequestInit][];
+      expect(calls.map(([url, init]) => `${init.method} ${new URL(url).pathname}`)).toEqual([
+        "POST /mcp/v1/tasks/task-1/artifacts",
+        "PUT /mcp/v1/tasks/task-1/artifacts/art-1/chunks/0",
+        "PUT /mcp/v1/tasks/task-1/artifacts/art-1/chunks/1",
+        "PUT /mcp/v1/tasks/task-1/artifacts/art-1/chunks/2",
+        "POST /mcp/v1/tasks/task-1/artifacts/art-1/complete",
+      ]);
+      expect(JSON.parse(calls[0][1].body as string)).toEqual({
+        sessionId: "session-1",
+        name: "out/report.md",
+        mimeType: "text/markdown",
+        sizeBytes: 11,
+        sha256: "abc123",
+      });
+      const chunks = calls.slice(1, 4).map(([, init]) => JSON.parse(init.body as string));
+      expect(chunks.map((chunk) => chunk.offset)).toEqual([0, 4, 8]);
+      expect(Buffer.concat(chunks.map((chunk) => Buffer.from(chunk.data, "base64"))).toString()).toBe("hello world");
+      expect(JSON.parse(calls[4][1].body as string)).toEqual({ sessionId: "session-1", chunks: 3, sha256: "abc123" });
+    });
+
+    it("uses the server's smaller chunk size", async () => {
+      mockFetchResponse(200, { artifactId: "art-1", chunkBytes: 6 });
+      mockFetchResponse(200, { ok: true });
+      mockFetchResponse(200, { ok: true });
+      mockFetchResponse(200, { ok: true });
+
+      const uploaded = await client.uploadArtifact("task-1", "session-1", artifact);
+
+      expect(uploaded).toEqual({ artifactId: "art-1" });
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+
+    it("refuses artifacts over the limit before sending anything", async () => {
+      await expect(client.uploadArtifact("task-1", "session-1", artifact, { maxBytes: 10 })).rejects.toThrow(
+        "artifact out/report.md is 11 bytes, over the 10-byte upload limit",
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("stops when the server's limit is lower", async () => {
+      mockFetchResponse(200, { artifactId: "art-1", maxBytes: 8 });
+
+      await expect(client.uploadArtifact("task-1", "session-1", artifact)).rejects.toThrow("over the 8-byte upload limit");
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // resolveBlob
+  // ---------------------------------------------------------------------------
+
+  describe("resolveBlob()", () => {
+    it("gets the blob's download URL and metadata", async () => {
+      const blob = { url: "https://blobs.example.com/b1?sig=x", name: "spec.md", sizeBytes: 7, sha256: "abc" };
+      mockFetchResponse(200, blob);
+
+      await expect(client.resolveBlob("blob/1")).resolves.toEqual(blob);
+
+      const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+      expect(url).toBe("https://api.example.com/mcp/v1/blobs/blob%2F1");
+      expect(init.method).toBe("GET");
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // escalateTask
   // ---------------------------------------------------------------------------
@@ -0,0 +1,284 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+import { EventEmitter } from "node:events";
+import { parseCodexCliOutput, parseCodexProgressLine } from "../../src/runner/codex_cli_backend.js";
+
+function jsonl(...events: Array<Record<string, unknown>>): string {
+  return events.map((event) => JSON.stringify(event)).join("\n") + "\n";
+}
+
+// ---------------------------------------------------------------------------
+// parseCodexCliOutput (pure function tests)
+// ---------------------------------------------------------------------------
+
+describe("parseCodexCliOutput", () => {
+  it("uses the last agent message as output", () => {
+    const stdout = jsonl(
+      { type: "thread.started", thread_id: "t-1" },
+      { type: "item.completed", item: { type: "reasoning", text: "thinking" } },
+      { type: "item.completed", item: { type: "agent_message", text: "first" } },
+      { type: "item.completed", item: { type: "agent_message", text: "final answer" } },
+    );
+    expect(parseCodexCliOutput(stdout).output).toBe("final answer");
+  });
+
+  it("sums usage across turn.completed events", () => {
+    const stdout = jsonl(
+      { type: "turn.completed", usage: { input_tokens: 100, cached_input_tokens: 40, output_tokens: 10 } },
+      { type: "turn.completed", usage: { input_tokens: 50, output_tokens: 5, cost_usd: 0.02 } },
+    );
+    const parsed = parseCodexCliOutput(stdout);
+    expect(parsed.inputTokens).toBe(150);
+    expect(parsed.cachedInputTokens).toBe(40);
+    expect(parsed.outputTokens).toBe(15);
+    expect(parsed.costUsd).toBe(0.02);
+  });
+
+  it("captures turn.failed and error messages", () => {
+    expect(parseCodexCliOutput(jsonl({ type: "turn.failed", error: { message: "rate limited" } })).error)
+      .toBe("rate limited");
+    expect(parseCodexCliOutput(jsonl({ type: "error", message: "stream closed" })).error)
+      .toBe("stream closed");
+  });
+
+  it("ignores non-JSON lines between events", () => {
+    const stdout = `warning: something\n${jsonl({ type: "item.completed", item: { type: "agent_message", text: "ok" } })}`;
+    expect(parseCodexCliOutput(stdout).output).toBe("ok");
+  });
+
+  it("falls back to raw trimmed stdout when no events are recognized", () => {
+    expect(parseCodexCliOutput("  plain output  ").output).toBe("plain output");
+  });
+});
+
+describe("parseCodexProgressLine", () => {
+  it("reads completed agent messages as output and reasoning as activity", () => {
+    expect(
+      parseCodexProgressLine(JSON.stringify({ type: "item.completed", item: { id: "item_1", type: "agent_message", text: "hi" } })),
+    ).toEqual({ output: "hi" });
+    expect(
+      parseCodexProgressLine(
+        JSON.stringify({ type: "item.completed", item: { id: "item_0", type: "reasoning", text: "**Planning**\n\nRead the file" } }),
+      ),
+    ).toEqual({ activity: "Reasoning: **Planning** Read the file" });
+  });
+
+  it("ignores other events and items", () => {
+    expect(parseCodexProgressLine(JSON.stringify({ type: "turn.started" }))).toBeNull();
+    expect(
+      parseCodexProgressLine(
+        JSON.stringify({ type: "item.completed", item: { type: "command_execution", command: "ls", status: "completed" } }),
+      ),
+    ).toBeNull();
+    expect(parseCodexProgressLine("warning: something")).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// CodexCliExecutionBackend (with mocked child_process and fs)
+// ---------------------------------------------------------------------------
+
+class MockChildProcess extends EventEmitter {
+  stdout = new EventEmitter();
+  stderr = new EventEmitter();
+  killed = false;
+  kill(_signal?: string) {
+    this.killed = true;
+  }
+}
+
+vi.mock("node:child_process", () => ({
+  spawn: vi.fn(),
+}));
+
+vi.mock("node:fs", () => ({
+  existsSync: vi.fn(() => false),
+}));
+
+const { spawn } = await import("node:child_process");
+const { existsSync } = await import("node:fs");
+const { CodexCliExecutionBackend } = await import("../../src/runner/codex_cli_backend.ts");
+
+function makeRequest(overrides: Record<string, unknown> = {}) {
+  return {
+    taskId: "task-1",
+    taskType: "demo",
+    prompt: "Do something",
+    startedAt: Date.now(),
+    abortSignal: new AbortController().signal,
+    packet: {
+      execution: { backend: "codex-cli" },
+      prompt: { rendered: "Do something" },
+    },
+    ...overrides,
+  };
+}
+
+describe("CodexCliExecutionBackend", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(existsSync).mockReturnValue(false);
+  });
+
+  it("canExecute returns true for codex-cli and its alias", () => {
+    const backend = new CodexCliExecutionBackend();
+    expect(backend.canExecute("codex-cli")).toBe(true);
+    expect(backend.canExecute("codex")).toBe(true);
+    expect(backend.canExecute("claude-cli")).toBe(false);
+  });
+
+  it("execute returns done with output, tokens, and usageJson", async () => {
+    const child = new MockChildProcess();
+    vi.mocked(spawn).mockReturnValue(child as never);
+
+    const backend = new CodexCliExecutionBackend();
+    const p = backend.execute(makeRequest() as never);
+
+    child.stdout.emit("data", Buffer.from(jsonl(
+      { type: "item.completed", item: { type: "agent_message", text: "all done" } },
+      { type: "turn.completed", usage: { input_tokens: 20, output_tokens: 5 } },
+    )));
+    child.emit("close", 0);
+
+    const result = await p;
+    expect(result.status).toBe("done");
+    expect(result.output).toBe("all done");
+    expect(result.tokensUsed).toBe(25);
+    expect(result.model).toBe("codex-cli");
+    expect(JSON.parse(result.usageJson!)).toEqual({ tokensUsed: 25, inputTokens: 20, outputTokens: 5 });
+  });
+
+  it("reports agent messages and reasoning as progress while the run goes on", async () => {
+    const child = new MockChildProcess();
+    vi.mocked(spawn).mockReturnValue(child as never);
+    const onProgress = vi.fn();
+
+    const backend = new CodexCliExecutionBackend();
+    const p = backend.execute(makeRequest({ onProgress }) as never);
+
+    const reasoning = jsonl({ type: "item.completed", item: { id: "item_0", type: "reasoning", text: "Inspecting files" } });
+    child.stdout.emit("data", Buffer.from(jsonl({ type: "thread.started", thread_id: "t-1" }) + reasoning.slice(0, 10)));
+    expect(onProgress).not.toHaveBeenCalled();
+    child.stdout.emit("data", Buffer.from(reasoning.slice(10)));
+    child.stdout.emit("data", Buffer.from(jsonl(
+      { type: "item.completed", item: { id: "item_1", type: "agent_message", text: "Found it." } },
+      { type: "item.completed", item: { id: "item_2", type: "command_execution", command: "ls", status: "completed" } },
+      { type: "item.completed", item: { id: "item_3", type: "agent_message", text: "All done." } },
+    )));
+    child.emit("close", 0);
+    await p;
+
+    expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+      { activity: "Reasoning: Inspecting files" },
+      { output: "Found it.", activity: "Reasoning: Inspecting files" },
+      { output: "Found it.\n\nAll done.", activity: "Reasoning: Inspecting files" },
+    ]);
+  });
+
+  it("execute returns failed on non-zero exit", async () => {
+    const child = new MockChildProcess();
+    vi.mocked(spawn).mockReturnValue(child as never);
+
+    const backend = new CodexCliExecutionBackend();
+    const p = backend.execute(makeRequest() as never);
+
+    child.stderr.emit("data", Buffer.from("not logged in"));
+    child.emit("close", 1);
+
+    const result = await p;
+    expect(result.status).toBe("failed");
+    expect(result.output).toContain("not logged in");
+  });
+
+  it("execute returns failed when the turn fails even with exit 0", async () => {
+    const child = new MockChildProcess();
+    vi.mocked(spawn).mockReturnValue(child as never);
+
+    const backend = new CodexCliExecutionBackend();
+    const p = backend.execute(makeRequest() as never);
+
+    child.stdout.emit("data", Buffer.from(jsonl({ type: "turn.failed", error: { message: "quota exceeded" } })));
+    child.emit("close", 0);
+
+    const result = await p;
+    expect(result.status).toBe("failed");
+    expect(result.output).toBe("codex-cli failed: quota exceeded");
+  });
+
+  it("execute returns cancelled on abort and kills the child", async () => {
+    const child = new MockChildProcess();
+    vi.mocked(spawn).mockReturnValue(child as never);
+    const ac = new AbortController();
+
+    const backend = new CodexCliExecutionBackend();
+    const p = backend.execute(makeRequest({ abortSignal: ac.signal }) as never);
+
+    ac.abort();
+    child.emit("close", null);
+
+    const result = await p;
+    expect(result.status).toBe("cancelled");
+    expect(child.killed).toBe(true);
+  });
+
+  it("passes exec flags, model, and prompt through args", async () => {
+    const child = new MockChildProcess();
+    vi.mocked(spawn).mockReturnValue(child as never);
+
+    const backend = new CodexCliExecutionBackend();
+    const p = backend.execute(makeRequest({
+      prompt: "-starts with a dash",
+      packet: { execution: { backend: "codex-cli", model: "gpt-5-codex" } },
+    }) as never);
+
+    child.emit("close", 0);
+    await p;
+
+    expect(spawn).toHaveBeenCalledWith(
+      "codex",
+      ["exec", "--json", "--skip-git-repo-check", "--model", "gpt-5-codex", "--", "-starts with a dash"],
+      expect.anything(),
+    );
+  });
+
+  it("spawn env only contains allowlisted variables", async () => {
+    const origToken = process.env.FLUX_TOKEN;
+    const origOcToken = process.env.OPENCLAW_GATEWAY_TOKEN;
+    process.env.FLUX_TOKEN = "secret-tok";
+    process.env.OPENCLAW_GATEWAY_TOKEN = "secret-gw-tok";
+
+    const child = new MockChildProcess();
+    vi.mocked(spawn).mockReturnValue(child as never);
+
+    const backend = new CodexCliExecutionBackend();
+    const p = backend.execute(makeRequest() as never);
+    child.emit("close", 0);
+    await p;
+
+    const spawnEnv = vi.mocked(spawn).mock.calls[0][2]?.env as Record<string, string> | undefined;
+    expect(spawnEnv).toBeDefined();
+    expect(spawnEnv).not.toHaveProperty("FLUX_TOKEN");
+    expect(spawnEnv).not.toHaveProperty("OPENCLAW_GATEWAY_TOKEN");
+
+    if (origToken === undefined) delete process.env.FLUX_TOKEN; else process.env.FLUX_TOKEN = origToken;
+    if (origOcToken === undefined) delete process.env.OPENCLAW_GATEWAY_TOKEN; else process.env.OPENCLAW_GATEWAY_TOKEN = origOcToken;
+  });
+
+  it("uses CODEX_BIN env var when set and exists", async () => {
+    const origEnv = process.env.CODEX_BIN;
+    process.env.CODEX_BIN = "/custom/codex";
+    vi.mocked(existsSync).mockImplementation((p) => p === "/custom/codex");
+
+    const child = new MockChildProcess();
+    vi.mocked(spawn).mockReturnValue(child as never);
+
+    const backend = new CodexCliExecutionBackend();
+    const p = backend.execute(makeRequest() as never);
+    child.emit("close", 0);
+    await p;
+
+    expect(spawn).toHaveBeenCalledWith("/custom/codex", expect.any(Array), expect.anything());
+
+    if (origEnv === undefined) delete process.env.CODEX_BIN;
+    else process.env.CODEX_BIN = origEnv;
+  });
+});
@@ -347,6 +347,28 @@ describe("loadRunnerConfig", () => {
     expect(config.openclawAgentId).toBe("agent-x");
   });
 
+  it("parses concurrency limits from env vars", async () => {
+    process.env.FLUX_MAX_CONCURRENCY = "4";
+    process.env.FLUX_BACKEND_CONCURRENCY = "pi=2, claude=1,bogus,codex=0";
+    const skillMd = buildSkillMd();
+    mockFetchSkillMd(skillMd);
+
+    const config = await loadRunnerConfig();
+    expect(config.maxConcurrency).toBe(4);
+    expect(config.backendConcurrency).toEqual({ pi: 2, "claude-cli": 1 });
+  });
+
+  it("defaults to a single worker with no per-backend limits", async () => {
+    delete process.env.FLUX_MAX_CONCURRENCY;
+    delete process.env.FLUX_BACKEND_CONCURRENCY;
+    const skillMd = buildSkillMd();
+    mockFetchSkillMd(skillMd);
+
+    const config = await loadRunnerConfig();
+    expect(config.maxConcurrency).toBe(1);
+    expect(config.backendConcurrency).toEqual({});
+  });
+
   it("enforces minimum cadenceMinutes of 1", async () => {
     process.env.FLUX_CADENCE_MINUTES = "0";
     const skillMd = buildSkillMd();
@@ -356,6 +378,17 @@ describe("loadRunnerConfig", () => {
     expect(config.cadenceMinutes).toBe(1);
   });
 
+  it("defaults health checks to every 30s and enforces a 5s minimum", async () => {
+    delete process.env.FLUX_HEALTH_CHECK_SECONDS;
+    mockFetchSkillMd(buildSkillMd());
+    expect((await loadRunnerConfig()).healthCheckSeconds).toBe(30);
+
+    process.env.FLUX_HEALTH_CHECK_SECONDS = "1";
+    mockFetchSkillMd(buildSkillMd());
+    expect((await loadRunnerConfig()).healthCheckSeconds).toBe(5);
+    delete process.env.FLUX_HEALTH_CHECK_SECONDS;
+  });
+
   it("enforces minimum pushReconnectMs of 250", async () => {
     process.env.FLUX_PUSH_RECONNECT_MS = "50";
     const skillMd = buildSkillMd();
@@ -365,6 +398,202 @@ describe("loadRunnerConfig", () => {
     expect(config.pushReconnectMs).toBe(250);
   });
 
+  it("defaults the shutdown grace period to 60s and clamps negatives to 0", async () => {
+    delete process.env.FLUX_SHUTDOWN_GRACE_SECONDS;
+    mockFetchSkillMd(buildSkillMd());
+    expect((await loadRunnerConfig()).shutdownGraceSeconds).toBe(60);
+
+    process.env.FLUX_SHUTDOWN_GRACE_SECONDS = "-5";
+    mockFetchSkillMd(buildSkillMd());
+    expect((await loadRunnerConfig()).shutdownGraceSeconds).toBe(0);
+  });
+
+  it("defaults to 3 execution attempts and keeps FLUX_EXECUTION_MAX_ATTEMPTS within 1-10", async () => {
+    delete process.env.FLUX_EXECUTION_MAX_ATTEMPTS;
+    mockFetchSkillMd(buildSkillMd());
+    expect((await loadRunnerConfig()).executionMaxAttempts).toBe(3);
+
+    process.env.FLUX_EXECUTION_MAX_ATTEMPTS = "0";
+    mockFetchSkillMd(buildSkillMd());
+    expect((await loadRunnerConfig()).executionMaxAttempts).toBe(1);
+
+    process.env.FLUX_EXECUTION_MAX_ATTEMPTS = "50";
+    mockFetchSkillMd(buildSkillMd());
+    expect((await loadRunnerConfig()).executionMaxAttempts).toBe(10);
+    delete process.env.FLUX_EXECUTION_MAX_ATTEMPTS;
+  });
+
+  it("enables metrics only for a valid FLUX_METRICS_PORT, on loopback by default", async () => {
+    delete process.env.FLUX_METRICS_HOST;
+    process.env.FLUX_METRICS_PORT = "9464";
+    mockFetchSkillMd(buildSkillMd());
+    const config = await loadRunnerConfig();
+    expect(config.metricsPort).toBe(9464);
+    expect(config.metricsHost).toBe("127.0.0.1");
+
+    process.env.FLUX_METRICS_PORT = "70000";
+    mockFetchSkillMd(buildSkillMd());
+    expect((await loadRunnerConfig()).metricsPort).toBeUndefined();
+  });
+
+  it("reads tracing settings from FLUX_TRACING and the standard OTEL variables", async () => {
+    process.env.FLUX_TRACING = "OTLP";
+    delete process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT;
+    process.env.OTEL_EXPORTER_OTLP_ENDPOINT = "http://collector:4318";
+    process.env.OTEL_EXPORTER_OTLP_HEADERS = "x-api-key=abc%3D,x-team=runners";
+    delete process.env.FLUX_TRACES_FILE;
+    mockFetchSkillMd(buildSkillMd());
+    const config = await loadRunnerConfig();
+    expect(config.tracing).toBe("otlp");
+    expect(config.otlpEndpoint).toBe("http://collector:4318");
+    expect(config.otlpHeaders).toEqual({ "x-api-key": "abc=", "x-team": "runners" });
+    expect(config.tracesFile).toBe(path.join(tempDir, ".flux", "traces.jsonl"));
+
+    process.env.FLUX_TRACING = "jaeger";
+    mockFetchSkillMd(buildSkillMd());
+    expect((await loadRunnerConfig()).tracing).toBeUndefined();
+  });
+
+  it("loads ~/.flux/.env without overriding exported variables", async () => {
+    const envPath = path.join(tempDir, ".flux", ".env");
+    fs.mkdirSync(path.dirname(envPath), { recursive: true });
+    fs.writeFileSync(envPath, "OTEL_EXPORTER_OTLP_ENDPOINT=http://from-dotenv:4318\nFLUX_HOST=https://ignored.test\n");
+    delete process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT;
+    delete process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+    try {
+      mockFetchSkillMd(buildSkillMd());
+      const config = await loadRunnerConfig();
+      expect(config.otlpEndpoint).toBe("http://from-dotenv:4318");
+      expect(config.fluxHost).toBe("https://fluxhive.test");
+    } finally {
+      fs.rmSync(envPath, { force: true });
+    }
+  });
+
+  describe("runner.yaml", () => {
+    const runnerFilePath = path.join(tempDir, ".flux", "runner.yaml");
+
+    beforeEach(() => {
+      delete process.env.FLUX_RUNNER_CONFIG;
+      delete process.env.FLUX_MAX_CONCURRENCY;
+      delete process.env.FLUX_BACKEND;
+      delete process.env.FLUX_ALLOW_DIRECT_CLI;
+      delete process.env.FLUX_LOG_LEVEL;
+      delete process.env.FLUX_BACKEND_CONCURRENCY;
+      delete process.env.FLUX_OUTPUT_REPAIR_ATTEMPTS;
+      delete process.env.FLUX_BACKEND_FALLBACK;
+      delete process.env.FLUX_TRACING;
+      delete process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT;
+      delete process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+      fs.mkdirSync(path.dirname(runnerFilePath), { recursive: true });
+      fs.writeFileSync(
+        runnerFilePath,
+        [
+          "filters:",
+          "  backend: claude-cli",
+          "  streamId: stream-1",
+          "backends:",
+          "  allowDirectCli: true",
+          "  fallbackChain: [OpenClaw, claude, pi, pi]",
+          "  healthCheckSeconds: 60",
+          "  pi:",
+          "    agentDir: ~/agents/pi",
+          "polling:",
+          "  cadenceMinutes: 5",
+          "concurrency:",
+          "  max: 3",
+          "  perBackend:",
+          "    claude: 2",
+          "logging:",
+          "  level: warn",
+          "routes:",
+          "  - match: { costClass: cheap }",
+          "    backend: pi",
+          "execution:",
+          "  maxAttempts: 5",
+          "  outputRepairAttempts: 2",
+          "budgets:",
+          "  - period: daily",
+          "    maxCostUsd: 10",
+          "tracing:",
+          "  exporter: otlp",
+          "  endpoint: http://collector:4318",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    afterEach(() => {
+      fs.rmSync(runnerFilePath, { force: true });
+    });
+
+    it("uses the file as the baseline", async () => {
+      mockFetchSkillMd(buildSkillMd());
+      const config = await loadRunnerConfig();
+
+      expect(config.runnerConfigFile).toBe(runnerFilePath);
+      expect(config.backend).toBe("claude-cli");
+      expect(config.streamId).toBe("stream-1");
+      expect(config.allowDirectCli).toBe(true);
+      expect(config.piAgentDir).toBe(path.join(tempDir, "agents", "pi"));
+      expect(config.cadenceMinutes).toBe(5);
+      expect(config.maxConcurrency).toBe(3);
+      expect(config.backendConcurrency).toEqual({ "claude-cli": 2 });
+      expect(config.logLevel).toBe("warn");
+      expect(config.routes).toEqual([{ match: { costClass: "cheap" }, backend: "pi" }]);
+      expect(config.budgets).toEqual([{ period: "daily", maxCostUsd: 10 }]);
+      expect(config.outputRepairAttempts).toBe(2);
+      expect(config.executionMaxAttempts).toBe(5);
+      expect(config.backendFallbackChain).toEqual(["openclaw", "claude-cli", "pi"]);
+      expect(config.healthCheckSeconds).toBe(60);
+      expect(config.tracing).toBe("otlp");
+      expect(config.otlpEndpoint).toBe("http://collector:4318");
+    });
+
+    it("lets env vars override the file and flags override both", async () => {
+      process.env.FLUX_MAX_CONCURRENCY = "6";
+      process.env.FLUX_ALLOW_DIRECT_CLI = "0";
+      process.env.FLUX_LOG_LEVEL = "error";
+      process.env.FLUX_OUTPUT_REPAIR_ATTEMPTS = "0";
+      process.env.FLUX_BACKEND_FALLBACK = "pi, codex";
+      mockFetchSkillMd(buildSkillMd());
+      const fromEnv = await loadRunnerConfig();
+      delete process.env.FLUX_OUTPUT_REPAIR_ATTEMPTS;
+      delete process.env.FLUX_BACKEND_FALLBACK;
+      expect(fromEnv.backendFallbackChain).toEqual(["pi", "codex-cli"]);
+      expect(fromEnv.maxConcurrency).toBe(6);
+      expect(fromEnv.allowDirectCli).toBe(false);
+      expect(fromEnv.logLevel).toBe("error");
+      expect(fromEnv.outputRepairAttempts).toBe(0);
+
+      mockFetchSkillMd(buildSkillMd());
+      const fromFlags = await loadRunnerConfig({ maxConcurrency: 2, logLevel: "info", backend: "pi" });
+      expect(fromFlags.maxConcurrency).toBe(2);
+      expect(fromFlags.logLevel).toBe("info");
+      expect(fromFlags.backend).toBe("pi");
+    });
+
+    it("reads the file named by the --config flag", async () => {
+      const otherPath = path.join(tempDir, "other-runner.yaml");
+      fs.writeFileSync(otherPath, "concurrency:\n  max: 8\n");
+      try {
+        mockFetchSkillMd(buildSkillMd());
+        const config = await loadRunnerConfig({ configPath: otherPath });
+        expect(config.runnerConfigFile).toBe(otherPath);
+        expect(config.maxConcurrency).toBe(8);
+      } finally {
+        fs.rmSync(otherPath, { force: true });
+      }
+    });
+
+    it("refuses to start with an invalid file", async () => {
+      fs.writeFileSync(runnerFilePath, "concurrency:\n  max: lots\n");
+      mockFetchSkillMd(buildSkillMd());
+
+      await expect(loadRunnerConfig()).rejects.toThrow("2:8 concurrency.max must be integer");
+    });
+  });
+
   it("falls back to ~/.flux/config.json for FLUX_TOKEN and FLUX_HOST", async () => {
     delete process.env.FLUX_TOKEN;
     delete process.env.FLUX_HOST;
@@ -0,0 +1,63 @@
+import { describe, expect, it, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { ConfigWatcher } from "../../src/runner/config_watch.ts";
+
+describe("ConfigWatcher", () => {
+  let dir: string;
+  let watcher: ConfigWatcher | undefined;
+
+  afterEach(() => {
+    watcher?.stop();
+    watcher = undefined;
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function watchFiles(paths: string[]) {
+    const changes: string[][] = [];
+    watcher = new ConfigWatcher({ paths, debounceMs: 50, onChange: (changed) => changes.push(changed) });
+    const watched = watcher.start();
+    return { changes, watched };
+  }
+
+  it("reports one debounced change for a burst of writes, including atomic replaces", async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "flux-config-watch-test-"));
+    const filePath = path.join(dir, "runner.yaml");
+    fs.writeFileSync(filePath, "version: 1\n");
+    const { changes, watched } = watchFiles([filePath]);
+    expect(watched).toEqual([dir]);
+
+    fs.writeFileSync(filePath, "version: 1\nlogging:\n  level: warn\n");
+    fs.writeFileSync(`${filePath}.tmp`, "version: 1\n");
+    fs.renameSync(`${filePath}.tmp`, filePath);
+
+    await expect.poll(() => changes, { timeout: 2_000 }).toEqual([[filePath]]);
+  });
+
+  it("ignores other files in the directory and skips missing directories", async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "flux-config-watch-test-"));
+    const filePath = path.join(dir, "runner.yaml");
+    const { changes, watched } = watchFiles([filePath, path.join(dir, "missing", "openclaw.json")]);
+    expect(watched).toEqual([dir]);
+
+    fs.writeFileSync(path.join(dir, "SKILL.md"), "# skill\n");
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    expect(changes).toEqual([]);
+
+    fs.writeFileSync(filePath, "version: 1\n");
+    await expect.poll(() => changes, { timeout: 2_000 }).toEqual([[filePath]]);
+  });
+
+  it("stops reporting after stop()", async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "flux-config-watch-test-"));
+    const filePath = path.join(dir, "runner.yaml");
+    const { changes } = watchFiles([filePath]);
+
+    watcher!.stop();
+    fs.writeFileSync(filePath, "version: 1\n");
+    await new Promise((resolve) => setTimeout(resolve, 150));
+
+    expect(changes).toEqual([]);
+  });
+});
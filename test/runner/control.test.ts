@@ -0,0 +1,157 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import net from "node:net";
+import os from "node:os";
+import path from "node:path";
+import {
+  ControlServer,
+  ControlUnavailableError,
+  requestControl,
+  resolveControlSocketPath,
+  type ControlHandlers,
+  type RunnerStatus,
+} from "../../src/runner/control.ts";
+
+function makeStatus(overrides: Partial<RunnerStatus> = {}): RunnerStatus {
+  return {
+    pid: 1,
+    version: "1.0",
+    runnerInstanceId: "inst-1",
+    startedAt: "2026-01-01T00:00:00.000Z",
+    uptimeMs: 1_000,
+    state: "running",
+    backends: ["pi"],
+    push: { enabled: false, connected: false },
+    maxConcurrency: 1,
+    inFlight: [],
+    lastPollAt: null,
+    counters: {},
+    ...overrides,
+  };
+}
+
+function makeHandlers(): ControlHandlers & { [K in keyof ControlHandlers]: ReturnType<typeof vi.fn> } {
+  return {
+    status: vi.fn(() => makeStatus()),
+    pause: vi.fn(),
+    resume: vi.fn(),
+    drain: vi.fn().mockResolvedValue(true),
+    poll: vi.fn(() => true),
+  };
+}
+
+describe("ControlServer", () => {
+  let dir: string;
+  let socketPath: string;
+  let server: ControlServer | null;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "flux-control-test-"));
+    socketPath = path.join(dir, "runner.sock");
+    server = null;
+  });
+
+  afterEach(async () => {
+    await server?.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function startServer(handlers: ControlHandlers, defaultDrainTimeoutMs?: number) {
+    server = new ControlServer({ socketPath, handlers, defaultDrainTimeoutMs });
+    await server.start();
+    return server;
+  }
+
+  it("serves status on an owner-only socket", async () => {
+    const handlers = makeHandlers();
+    handlers.status.mockReturnValue(makeStatus({ backends: ["pi", "claude-cli"] }));
+    await startServer(handlers);
+
+    const status = await requestControl<RunnerStatus>("GET", "/status", { socketPath });
+
+    expect(status.backends).toEqual(["pi", "claude-cli"]);
+    expect(fs.statSync(socketPath).mode & 0o777).toBe(0o600);
+  });
+
+  it("routes pause, resume, and poll to the handlers", async () => {
+    const handlers = makeHandlers();
+    handlers.poll.mockReturnValue(false);
+    await startServer(handlers);
+
+    await requestControl("POST", "/pause", { socketPath });
+    await requestControl("POST", "/resume", { socketPath });
+    const poll = await requestControl("POST", "/poll", { socketPath });
+
+    expect(handlers.pause).toHaveBeenCalledTimes(1);
+    expect(handlers.resume).toHaveBeenCalledTimes(1);
+    expect(poll).toEqual({ triggered: false });
+  });
+
+  it("drains with the requested timeout, falling back to the default", async () => {
+    const handlers = makeHandlers();
+    handlers.drain.mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+    await startServer(handlers, 45_000);
+
+    const first = await requestControl("POST", "/drain", { socketPath, body: { timeoutSeconds: 5 } });
+    const second = await requestControl("POST", "/drain", { socketPath });
+
+    expect(handlers.drain).toHaveBeenNthCalledWith(1, 5_000);
+    expect(handlers.drain).toHaveBeenNthCalledWith(2, 45_000);
+    expect(first).toMatchObject({ idle: false, status: { state: "running" } });
+    expect(second).toMatchObject({ idle: true });
+  });
+
+  it("rejects unknown endpoints with the server's message", async () => {
+    await startServer(makeHandlers());
+
+    await expect(requestControl("POST", "/status", { socketPath })).rejects.toThrow(
+      "Unknown control endpoint: POST /status",
+    );
+  });
+
+  it("replaces a stale socket file left by a crashed daemon", async () => {
+    fs.writeFileSync(socketPath, "");
+    await startServer(makeHandlers());
+
+    await expect(requestControl("GET", "/status", { socketPath })).resolves.toMatchObject({ pid: 1 });
+  });
+
+  it("refuses to start when another daemon is listening", async () => {
+    const other = net.createServer();
+    await new Promise<void>((resolve) => other.listen(socketPath, resolve));
+    try {
+      const second = new ControlServer({ socketPath, handlers: makeHandlers() });
+      await expect(second.start()).rejects.toThrow("Another runner is already listening");
+    } finally {
+      await new Promise<void>((resolve) => other.close(() => resolve()));
+    }
+  });
+
+  it("removes the socket on stop", async () => {
+    const started = await startServer(makeHandlers());
+    await started.stop();
+    server = null;
+
+    expect(fs.existsSync(socketPath)).toBe(false);
+    await expect(requestControl("GET", "/status", { socketPath })).rejects.toBeInstanceOf(
+      ControlUnavailableError,
+    );
+  });
+});
+
+describe("resolveControlSocketPath", () => {
+  const original = process.env.FLUX_CONTROL_SOCKET;
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.FLUX_CONTROL_SOCKET;
+    else process.env.FLUX_CONTROL_SOCKET = original;
+  });
+
+  it("prefers an explicit path, then FLUX_CONTROL_SOCKET, then ~/.flux/runner.sock", () => {
+    process.env.FLUX_CONTROL_SOCKET = "/tmp/env.sock";
+    expect(resolveControlSocketPath("/tmp/explicit.sock")).toBe("/tmp/explicit.sock");
+    expect(resolveControlSocketPath()).toBe("/tmp/env.sock");
+    delete process.env.FLUX_CONTROL_SOCKET;
+    expect(resolveControlSocketPath()).toBe(path.join(os.homedir(), ".flux", "runner.sock"));
+  });
+});
@@ -1,10 +1,16 @@
 import { describe, expect, it } from "vitest";
 import {
+  classifyExecutionError,
+  isTransientErrorMessage,
   normalizeExecutionBackend,
+  normalizeFallbackBackend,
   packetInput,
+  packetInputFiles,
+  packetOutputFiles,
   packetStreamId,
   packetTaskId,
   packetTaskType,
+  packetTimeoutMs,
   renderPrompt,
   resolvePacketBackend,
 } from "../../src/runner/execution.ts";
@@ -20,6 +26,13 @@ describe("execution helpers", () => {
     expect(normalizeExecutionBackend("PI")).toBe("pi");
   });
 
+  it("keeps openclaw as its own name in fallback chains", () => {
+    expect(normalizeExecutionBackend("openclaw")).toBe("claude-cli");
+    expect(normalizeFallbackBackend(" OpenClaw ")).toBe("openclaw");
+    expect(normalizeFallbackBackend("claude")).toBe("claude-cli");
+    expect(normalizeFallbackBackend("")).toBeNull();
+  });
+
   it("reads packet ids/types/stream/input from task first", () => {
     const packet: McpTaskPacket = {
       taskId: "fallback-task",
@@ -93,4 +106,40 @@ describe("execution helpers", () => {
     expect(resolvePacketBackend(packetFallback, "claude-code")).toBe("claude-cli");
     expect(resolvePacketBackend(packetFallback)).toBe("claude-cli");
   });
+
+  it("reads the timeout from execution, then policy", () => {
+    expect(packetTimeoutMs({ execution: { timeoutSec: 90 }, policy: { taskTimeoutSeconds: 30 } })).toBe(90_000);
+    expect(packetTimeoutMs({ policy: { taskTimeoutSeconds: 1.5 } })).toBe(1_500);
+    expect(packetTimeoutMs({ execution: { timeoutSec: 0 } })).toBeNull();
+    expect(packetTimeoutMs({})).toBeNull();
+  });
+
+  it("reads declared input files that name a URL or blob ref", () => {
+    const files = [
+      { url: "https://data.example.com/data.csv", sha256: "abc" },
+      { blobRef: "blob-1", path: "spec.md" },
+      { url: " ", path: "empty" },
+      "data.csv" as never,
+    ];
+    expect(packetInputFiles({ inputFiles: files })).toEqual(files.slice(0, 2));
+    expect(packetInputFiles({})).toEqual([]);
+  });
+
+  it("reads declared output files, skipping blanks and non-strings", () => {
+    expect(packetOutputFiles({ execution: { outputFiles: [" out/report.md ", "", 3 as never, "diff.patch"] } })).toEqual([
+      "out/report.md",
+      "diff.patch",
+    ]);
+    expect(packetOutputFiles({})).toEqual([]);
+  });
+
+  it("classifies network errors, rate limits, and overloads as transient", () => {
+    expect(classifyExecutionError(Object.assign(new Error("read failed"), { code: "ECONNRESET" }))).toBe("transient");
+    expect(classifyExecutionError(new Error("fetch failed", { cause: { code: "EAI_AGAIN" } }))).toBe("transient");
+    expect(classifyExecutionError(new Error("429 Too Many Requests"))).toBe("transient");
+    expect(classifyExecutionError("provider overloaded")).toBe("transient");
+    expect(classifyExecutionError(new Error("Model not found: x/y"))).toBe("permanent");
+    expect(isTransientErrorMessage("API Error: 503 Service Unavailable")).toBe(true);
+    expect(isTransientErrorMessage("invalid api key")).toBe(false);
+  });
 });
@@ -1,6 +1,13 @@
 import { describe, expect, it, vi } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
 import { McpHttpError } from "../../src/runner/client.ts";
 import { TaskExecutor } from "../../src/runner/executor.ts";
+import { createRunnerMetrics } from "../../src/runner/metrics.ts";
+import { RoutingTable } from "../../src/runner/routing.ts";
+import { BudgetTracker } from "../../src/runner/budget.ts";
+import { Tracer, type OtlpSpan, type OtlpTraceExport } from "../../src/runner/tracing.ts";
 import type { RunnerExecutionBackend, RunnerExecutionRequest } from "../../src/runner/execution.ts";
 import type { McpTaskPacket } from "../../src/types.ts";
 
@@ -9,6 +16,8 @@ type FluxClientMock = {
   completeTask: ReturnType<typeof vi.fn>;
   escalateTask: ReturnType<typeof vi.fn>;
   heartbeat: ReturnType<typeof vi.fn>;
+  uploadArtifact: ReturnType<typeof vi.fn>;
+  resolveBlob: ReturnType<typeof vi.fn>;
 };
 
 function createFluxClientMock(): FluxClientMock {
@@ -17,6 +26,8 @@ function createFluxClientMock(): FluxClientMock {
     completeTask: vi.fn().mockResolvedValue({ ok: true }),
     escalateTask: vi.fn().mockResolvedValue({ ok: true }),
     heartbeat: vi.fn().mockResolvedValue({ shouldAbort: false }),
+    uploadArtifact: vi.fn().mockResolvedValue({ artifactId: "art-1" }),
+    resolveBlob: vi.fn(),
   };
 }
 
@@ -29,11 +40,14 @@ function makeBackend(options: {
     tokensUsed?: number;
     costUsd?: number;
     durationMs?: number;
+    model?: string;
   }>;
+  preflight?: RunnerExecutionBackend["preflight"];
 } = {}): RunnerExecutionBackend {
   return {
     id: options.id ?? "test-backend",
     canExecute: options.canExecute ?? (() => true),
+    ...(options.preflight ? { preflight: options.preflight } : {}),
     execute:
       options.execute ??
       (async () => {
@@ -45,7 +59,11 @@ function makeBackend(options: {
   };
 }
 
-function makeExecutor(fluxClient: FluxClientMock, backends: RunnerExecutionBackend[]) {
+function makeExecutor(
+  fluxClient: FluxClientMock,
+  backends: RunnerExecutionBackend[],
+  extra: Partial<ConstructorParameters<typeof TaskExecutor>[0]> = {},
+) {
   return new TaskExecutor({
     fluxClient: fluxClient as never,
     executionBackends: backends,
@@ -55,6 +73,7 @@ function makeExecutor(fluxClient: FluxClientMock, backends: RunnerExecutionBacke
     machineId: "machine-1",
     backend: undefined,
     heartbeatMs: 10,
+    ...extra,
   });
 }
 
@@ -139,6 +158,83 @@ describe("TaskExecutor", () => {
     expect(fluxClient.heartbeat).not.toHaveBeenCalled();
   });
 
+  it("uploads the backend's artifacts and reports them with the completion", async () => {
+    const fluxClient = createFluxClientMock();
+    const packet: McpTaskPacket = {
+      task: { id: "task-1", type: "demo" },
+      execution: { backend: "claude-cli" },
+      policy: { heartbeatRequired: false },
+    };
+    fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+    const backend = makeBackend({
+      execute: async () => ({
+        status: "done",
+        output: "done output",
+        artifacts: [
+          { name: "chart.png", mimeType: "image/png", bytes: Buffer.from("png") },
+          { name: "missing.csv", error: "not found" },
+        ],
+      }),
+    });
+    const executor = makeExecutor(fluxClient, [backend]);
+
+    await executor.claimAndExecuteTask("task-1");
+
+    expect(fluxClient.uploadArtifact).toHaveBeenCalledTimes(1);
+    expect(fluxClient.uploadArtifact).toHaveBeenCalledWith(
+      "task-1",
+      "session-1",
+      expect.objectContaining({ name: "chart.png", content: Buffer.from("png") }),
+    );
+    expect(fluxClient.completeTask).toHaveBeenCalledWith(
+      "task-1",
+      "session-1",
+      expect.objectContaining({
+        status: "done",
+        artifacts: [
+          {
+            name: "chart.png",
+            mimeType: "image/png",
+            sizeBytes: 3,
+            sha256: "8f8cbb7dcf46e0bc7d53265749a6c17d116093a6ba95e442764060c76fd4a86c",
+            artifactId: "art-1",
+          },
+          { name: "missing.csv", error: "not found" },
+        ],
+      }),
+    );
+  });
+
+  it("executes on the matching route's backend and model", async () => {
+    const fluxClient = createFluxClientMock();
+    const packet: McpTaskPacket = {
+      task: { id: "task-1", type: "demo", streamId: "s-1" },
+      execution: { backend: "claude-cli" },
+      policy: { heartbeatRequired: false },
+      prompt: { rendered: "Do a thing" },
+    };
+    fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+    const execute = vi.fn(async () => ({ status: "done" as const, output: "ok" }));
+    const backends = [
+      makeBackend({ id: "claude", canExecute: (name) => name === "claude-cli" }),
+      makeBackend({ id: "pi", canExecute: (name) => name === "pi", execute }),
+    ];
+    const routing = new RoutingTable([{ match: { streamId: "s-1" }, backend: "pi", model: "small" }]);
+    const executor = makeExecutor(fluxClient, backends, { routing });
+
+    await executor.claimAndExecuteTask("task-1");
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    const [request] = execute.mock.calls[0] as unknown as [RunnerExecutionRequest];
+    expect(request.packet.execution).toEqual({ backend: "pi", model: "small" });
+    expect(packet.execution).toEqual({ backend: "claude-cli" });
+    expect(fluxClient.completeTask).toHaveBeenCalledWith(
+      "task-1",
+      "session-1",
+      expect.objectContaining({ status: "done" }),
+    );
+  });
+
   it("marks task cancelled when heartbeat requests abort", async () => {
     vi.useFakeTimers();
     try {
@@ -181,6 +277,492 @@ describe("TaskExecutor", () => {
     }
   });
 
+  describe("fallback chains", () => {
+    function fallbackPacket(execution: McpTaskPacket["execution"]): McpTaskPacket {
+      return {
+        task: { id: "task-1", type: "demo" },
+        execution,
+        policy: { heartbeatRequired: false },
+        prompt: { rendered: "Do a thing" },
+      };
+    }
+
+    function chainBackends(openclawOk: boolean) {
+      const openclawExecute = vi.fn(async () => ({ status: "done" as const, output: "from openclaw" }));
+      const piExecute = vi.fn(async () => ({ status: "done" as const, output: "from pi", tokensUsed: 5 }));
+      const openclawPreflight = vi.fn(async () =>
+        openclawOk ? { ok: true as const } : { ok: false as const, reason: "OpenClaw gateway health check failed" },
+      );
+      const backends = [
+        makeBackend({
+          id: "openclaw",
+          canExecute: (name) => name === "claude-cli" || name === "codex-cli",
+          execute: openclawExecute,
+          preflight: openclawPreflight,
+        }),
+        makeBackend({ id: "pi", canExecute: (name) => name === "pi", execute: piExecute }),
+      ];
+      return { backends, openclawExecute, piExecute, openclawPreflight };
+    }
+
+    it("runs the packet's next fallback when its backend fails preflight", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({
+        sessionId: "session-1",
+        packet: fallbackPacket({ backend: "openclaw", fallbackBackends: ["claude-cli", "pi"] }),
+      });
+      const { backends, openclawExecute, piExecute } = chainBackends(false);
+      const metrics = createRunnerMetrics();
+      const executor = makeExecutor(fluxClient, backends, { metrics });
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(openclawExecute).not.toHaveBeenCalled();
+      expect(piExecute).toHaveBeenCalledTimes(1);
+      const [, , result] = fluxClient.completeTask.mock.calls[0];
+      expect(result).toMatchObject({ status: "done", output: "from pi", tokensUsed: 5 });
+      expect(JSON.parse(result.usageJson)).toEqual({
+        fallback: {
+          requested: "claude-cli",
+          backend: "pi",
+          skipped: [{ backend: "openclaw", reason: "OpenClaw gateway health check failed" }],
+        },
+      });
+      expect(metrics.registry.render()).toContain(
+        'fluxhive_runner_backend_fallbacks_total{requested="claude-cli",backend="pi"} 1',
+      );
+    });
+
+    it("falls back along the runner's chain from the requested backend's position", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet: fallbackPacket({ backend: "pi" }) });
+      const { backends, openclawExecute } = chainBackends(true);
+      const executor = makeExecutor(fluxClient, [backends[0]], {
+        fallbackChain: ["pi", "openclaw"],
+      });
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(openclawExecute).toHaveBeenCalledTimes(1);
+      const [, , result] = fluxClient.completeTask.mock.calls[0];
+      expect(JSON.parse(result.usageJson).fallback).toEqual({
+        requested: "pi",
+        backend: "openclaw",
+        skipped: [{ backend: "pi", reason: "not available on this runner" }],
+      });
+    });
+
+    it("runs on the requested backend without a preflight when it has no fallbacks", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({
+        sessionId: "session-1",
+        packet: fallbackPacket({ backend: "claude-cli" }),
+      });
+      const { backends, openclawExecute, openclawPreflight } = chainBackends(false);
+      // The task's backend is last in the chain, so nothing comes after it.
+      const executor = makeExecutor(fluxClient, backends, { fallbackChain: ["pi", "openclaw"] });
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(openclawPreflight).not.toHaveBeenCalled();
+      expect(openclawExecute).toHaveBeenCalledTimes(1);
+      expect(fluxClient.completeTask.mock.calls[0][2].usageJson).toBeUndefined();
+    });
+
+    it("fails the task with every skipped backend when none is available", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({
+        sessionId: "session-1",
+        packet: fallbackPacket({ backend: "openclaw", fallbackBackends: ["codex-cli"] }),
+      });
+      const { backends } = chainBackends(false);
+      const executor = makeExecutor(fluxClient, [backends[0]]);
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(fluxClient.completeTask).toHaveBeenCalledWith(
+        "task-1",
+        "session-1",
+        {
+          status: "failed",
+          output:
+            "No execution backend available for claude-cli: openclaw (OpenClaw gateway health check failed)",
+        },
+      );
+    });
+  });
+
+  it("supports a backend when it or a later fallback is registered", () => {
+    const pi = makeBackend({ id: "pi", canExecute: (name) => name === "pi" });
+    const executor = makeExecutor(createFluxClientMock(), [pi], { fallbackChain: ["claude-cli", "pi"] });
+
+    expect(executor.supportsBackend("pi")).toBe(true);
+    expect(executor.supportsBackend("claude-cli")).toBe(true);
+    expect(executor.supportsBackend("codex-cli")).toBe(false);
+    expect(
+      executor.supportsBackend("codex-cli", {
+        task: { id: "task-1" },
+        execution: { backend: "codex-cli", fallbackBackends: ["pi"] },
+      }),
+    ).toBe(true);
+
+    executor.reconfigure({ executionBackends: [] });
+    expect(executor.supportsBackend("pi")).toBe(false);
+  });
+
+  describe("retries", () => {
+    function retryPacket(extra: Partial<McpTaskPacket> = {}): McpTaskPacket {
+      return {
+        task: { id: "task-1", type: "demo" },
+        execution: { backend: "pi" },
+        policy: { heartbeatRequired: false },
+        ...extra,
+      };
+    }
+    const fastRetry = { retry: { baseDelayMs: 5, maxDelayMs: 5 } };
+
+    it("retries a transient error and records each attempt in usageJson", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet: retryPacket() });
+      const execute = vi
+        .fn<RunnerExecutionBackend["execute"]>()
+        .mockRejectedValueOnce(Object.assign(new Error("socket closed"), { code: "ECONNRESET" }))
+        .mockResolvedValueOnce({ status: "done", output: "ok", tokensUsed: 7, usageJson: '{"inputTokens":4}' });
+      const metrics = createRunnerMetrics();
+      const executor = makeExecutor(fluxClient, [makeBackend({ execute })], { ...fastRetry, metrics });
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(execute).toHaveBeenCalledTimes(2);
+      const result = fluxClient.completeTask.mock.calls[0][2];
+      expect(result).toMatchObject({ status: "done", output: "ok", tokensUsed: 7 });
+      expect(JSON.parse(result.usageJson)).toEqual({
+        inputTokens: 4,
+        attempts: [
+          {
+            attempt: 1,
+            status: "error",
+            errorKind: "transient",
+            error: "socket closed",
+            durationMs: expect.any(Number),
+            retryInMs: expect.any(Number),
+          },
+          { attempt: 2, status: "done", durationMs: expect.any(Number) },
+        ],
+      });
+      expect(metrics.registry.render()).toContain(
+        'fluxhive_runner_execution_retries_total{backend="test-backend"} 1',
+      );
+    });
+
+    it("does not retry permanent failures", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet: retryPacket() });
+      const execute = vi.fn(async () => ({ status: "failed" as const, output: "bad request", errorKind: "permanent" as const }));
+      const executor = makeExecutor(fluxClient, [makeBackend({ execute })], fastRetry);
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(fluxClient.completeTask).toHaveBeenCalledWith(
+        "task-1",
+        "session-1",
+        expect.objectContaining({ status: "failed", output: "bad request", usageJson: undefined }),
+      );
+    });
+
+    it("reports the last failure once attempts run out, with the usage of every attempt", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet: retryPacket() });
+      const execute = vi.fn(async () => ({
+        status: "failed" as const,
+        output: "429 rate limited",
+        errorKind: "transient" as const,
+        tokensUsed: 2,
+      }));
+      const executor = makeExecutor(fluxClient, [makeBackend({ execute })], {
+        retry: { maxAttempts: 3, baseDelayMs: 5, maxDelayMs: 5 },
+      });
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(execute).toHaveBeenCalledTimes(3);
+      const result = fluxClient.completeTask.mock.calls[0][2];
+      expect(result).toMatchObject({ status: "failed", output: "429 rate limited", tokensUsed: 6 });
+      expect(JSON.parse(result.usageJson).attempts).toHaveLength(3);
+    });
+
+    it("uses the backend's own classification for thrown errors", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet: retryPacket() });
+      const execute = vi
+        .fn<RunnerExecutionBackend["execute"]>()
+        .mockRejectedValueOnce(new Error("provider hiccup"))
+        .mockResolvedValueOnce({ status: "done", output: "ok" });
+      const backend = { ...makeBackend({ execute }), classifyError: () => "transient" as const };
+      const executor = makeExecutor(fluxClient, [backend], fastRetry);
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(execute).toHaveBeenCalledTimes(2);
+      expect(fluxClient.completeTask).toHaveBeenCalledWith(
+        "task-1",
+        "session-1",
+        expect.objectContaining({ status: "done" }),
+      );
+    });
+
+    it("stops retrying when the next attempt would start after the timeout", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({
+        sessionId: "session-1",
+        packet: retryPacket({ execution: { backend: "pi", timeoutSec: 1 } }),
+      });
+      const execute = vi.fn(async () => {
+        throw Object.assign(new Error("connect ETIMEDOUT"), { code: "ETIMEDOUT" });
+      });
+      const executor = makeExecutor(fluxClient, [makeBackend({ execute })], {
+        retry: { baseDelayMs: 5_000, maxDelayMs: 5_000 },
+      });
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(fluxClient.completeTask).toHaveBeenCalledWith(
+        "task-1",
+        "session-1",
+        expect.objectContaining({
+          status: "failed",
+          output: "Runner execution error (demo): connect ETIMEDOUT",
+        }),
+      );
+    });
+  });
+
+  describe("output schema", () => {
+    const outputSchemaJson = JSON.stringify({
+      type: "object",
+      required: ["name"],
+      properties: { name: { type: "string" } },
+    });
+
+    function schemaPacket(): McpTaskPacket {
+      return {
+        task: { id: "task-1", type: "demo" },
+        execution: { backend: "claude-cli", outputSchemaJson },
+        policy: { heartbeatRequired: false },
+      };
+    }
+
+    it("fails a task whose output does not match the schema", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet: schemaPacket() });
+      const execute = vi.fn(async () => ({ status: "done" as const, output: '{"wrong":"field"}' }));
+      const executor = makeExecutor(fluxClient, [makeBackend({ execute })]);
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(fluxClient.completeTask).toHaveBeenCalledWith(
+        "task-1",
+        "session-1",
+        expect.objectContaining({
+          status: "failed",
+          output: "Output validation failed: / must have required property 'name'",
+        }),
+      );
+    });
+
+    it("re-prompts with the validation errors and sums usage across attempts", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet: schemaPacket() });
+      const prompts: string[] = [];
+      const outputs = ["not json", '{"name":1}', '{"name":"ok"}'];
+      const execute = vi.fn(async (request: RunnerExecutionRequest) => {
+        prompts.push(request.prompt);
+        return { status: "done" as const, output: outputs[prompts.length - 1], tokensUsed: 10, costUsd: 0.5 };
+      });
+      const executor = makeExecutor(fluxClient, [makeBackend({ execute })], { outputRepairAttempts: 2 });
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(execute).toHaveBeenCalledTimes(3);
+      expect(prompts[1]).toContain("### Errors\noutput is not valid JSON");
+      expect(prompts[2]).toContain('### Previous response\n{"name":1}');
+      expect(prompts[2]).toContain("/name must be string");
+      expect(fluxClient.completeTask).toHaveBeenCalledWith(
+        "task-1",
+        "session-1",
+        expect.objectContaining({
+          status: "done",
+          output: '{"name":"ok"}',
+          tokensUsed: 30,
+          costUsd: 1.5,
+        }),
+      );
+      const usage = JSON.parse(fluxClient.completeTask.mock.calls[0][2].usageJson);
+      expect(usage.outputRepairs).toBe(2);
+      expect(usage.attempts.map((attempt: { status: string }) => attempt.status)).toEqual(["done", "done", "done"]);
+    });
+
+    it("fails once the repair attempts run out", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet: schemaPacket() });
+      const execute = vi.fn(async () => ({ status: "done" as const, output: "{}" }));
+      const executor = makeExecutor(fluxClient, [makeBackend({ execute })], { outputRepairAttempts: 1 });
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(execute).toHaveBeenCalledTimes(2);
+      expect(fluxClient.completeTask).toHaveBeenCalledWith(
+        "task-1",
+        "session-1",
+        expect.objectContaining({
+          status: "failed",
+          output: "Output validation failed after 1 repair attempt(s): / must have required property 'name'",
+        }),
+      );
+    });
+
+    it("fails without executing when the schema is unusable", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({
+        sessionId: "session-1",
+        packet: { ...schemaPacket(), execution: { backend: "claude-cli", outputSchemaJson: "{bad json" } },
+      });
+      const execute = vi.fn(async () => ({ status: "done" as const, output: "{}" }));
+      const executor = makeExecutor(fluxClient, [makeBackend({ execute })]);
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(execute).not.toHaveBeenCalled();
+      expect(fluxClient.completeTask).toHaveBeenCalledWith(
+        "task-1",
+        "session-1",
+        expect.objectContaining({
+          status: "failed",
+          output: "Runner execution error (demo): packet execution.outputSchemaJson is not valid JSON",
+        }),
+      );
+    });
+  });
+
+  describe("timeouts", () => {
+    it("aborts a task that runs past its timeout and reports it as timed out", async () => {
+      vi.useFakeTimers();
+      try {
+        const fluxClient = createFluxClientMock();
+        const packet: McpTaskPacket = {
+          task: { id: "task-1", type: "demo" },
+          execution: { backend: "pi", timeoutSec: 30 },
+          policy: { heartbeatRequired: false },
+        };
+        fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+        let request: RunnerExecutionRequest | undefined;
+        const backend = makeBackend({
+          execute: async (req) => {
+            request = req;
+            req.onProgress?.({ output: "halfway" });
+            await new Promise<void>((resolve) => {
+              req.abortSignal.addEventListener("abort", () => resolve(), { once: true });
+            });
+            return { status: "cancelled", output: "Cancelled by user request", tokensUsed: 5 };
+          },
+        });
+        const metrics = createRunnerMetrics();
+        const executor = makeExecutor(fluxClient, [backend], { metrics });
+
+        const running = executor.claimAndExecuteTask("task-1");
+        await vi.advanceTimersByTimeAsync(29_000);
+        expect(fluxClient.completeTask).not.toHaveBeenCalled();
+        await vi.advanceTimersByTimeAsync(1_000);
+        await running;
+
+        expect(request?.timeoutMs).toBe(30_000);
+        expect(request?.abortSignal.aborted).toBe(true);
+        expect(fluxClient.completeTask).toHaveBeenCalledWith(
+          "task-1",
+          "session-1",
+          expect.objectContaining({
+            status: "failed",
+            output: "Task timed out after 30s. Partial output:\nhalfway",
+            tokensUsed: 5,
+            usageJson: JSON.stringify({ timedOut: true, timeoutMs: 30_000 }),
+          }),
+        );
+        expect(metrics.registry.render()).toContain('fluxhive_runner_timeouts_total{backend="test-backend"} 1');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("completes without a backend that ignores the abort once the grace period ends", async () => {
+      vi.useFakeTimers();
+      try {
+        const fluxClient = createFluxClientMock();
+        const packet: McpTaskPacket = {
+          task: { id: "task-1", type: "demo" },
+          execution: { backend: "pi" },
+          policy: { heartbeatRequired: false, taskTimeoutSeconds: 5 },
+        };
+        fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+        const backend = makeBackend({ execute: () => new Promise(() => {}) });
+        const executor = makeExecutor(fluxClient, [backend], { timeoutGraceMs: 2_000 });
+
+        const running = executor.claimAndExecuteTask("task-1");
+        await vi.advanceTimersByTimeAsync(6_000);
+        expect(fluxClient.completeTask).not.toHaveBeenCalled();
+        await vi.advanceTimersByTimeAsync(1_000);
+        await running;
+
+        expect(fluxClient.completeTask).toHaveBeenCalledWith(
+          "task-1",
+          "session-1",
+          expect.objectContaining({ status: "failed", output: "Task timed out after 5s" }),
+        );
+        expect(executor.activeCount).toBe(0);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("reports a backend error after the timeout as timed out", async () => {
+      vi.useFakeTimers();
+      try {
+        const fluxClient = createFluxClientMock();
+        const packet: McpTaskPacket = {
+          task: { id: "task-1", type: "demo" },
+          execution: { backend: "pi", timeoutSec: 1 },
+          policy: { heartbeatRequired: false },
+        };
+        fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+        const backend = makeBackend({
+          execute: (req) =>
+            new Promise((_resolve, reject) => {
+              req.abortSignal.addEventListener("abort", () => reject(new Error("aborted")), { once: true });
+            }),
+        });
+        const executor = makeExecutor(fluxClient, [backend]);
+
+        const running = executor.claimAndExecuteTask("task-1");
+        await vi.advanceTimersByTimeAsync(1_000);
+        await running;
+
+        expect(fluxClient.completeTask).toHaveBeenCalledWith(
+          "task-1",
+          "session-1",
+          expect.objectContaining({
+            status: "failed",
+            output: "Task timed out after 1s",
+            usageJson: JSON.stringify({ timedOut: true, timeoutMs: 1_000 }),
+          }),
+        );
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
   it("escalates OpenClaw approval errors", async () => {
     const fluxClient = createFluxClientMock();
     const packet: McpTaskPacket = {
@@ -221,4 +803,906 @@ describe("TaskExecutor", () => {
 
     expect(fluxClient.claimTask).not.toHaveBeenCalled();
   });
+
+  describe("progress heartbeats", () => {
+    const packet: McpTaskPacket = {
+      task: { id: "task-1", type: "demo" },
+      execution: { backend: "claude-cli" },
+      policy: { heartbeatRequired: false },
+    };
+
+    it("forwards backend progress through a throttled heartbeat", async () => {
+      vi.useFakeTimers();
+      try {
+        const fluxClient = createFluxClientMock();
+        fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+        let finish: () => void = () => {};
+        const backend = makeBackend({
+          execute: async ({ onProgress }) => {
+            onProgress?.({ output: "first" });
+            await vi.advanceTimersByTimeAsync(0);
+            onProgress?.({ output: "second" });
+            onProgress?.({ phase: "tool:bash", output: "third" });
+            await new Promise<void>((resolve) => {
+              finish = resolve;
+            });
+            return { status: "done", output: "final" };
+          },
+        });
+        const executor = makeExecutor(fluxClient, [backend], { progressIntervalMs: 1_000 });
+
+        const running = executor.claimAndExecuteTask("task-1");
+        await vi.advanceTimersByTimeAsync(0);
+        expect(fluxClient.heartbeat).toHaveBeenCalledTimes(1);
+        expect(fluxClient.heartbeat).toHaveBeenLastCalledWith("task-1", "session-1", {
+          phase: "executing",
+          progress: "first",
+        });
+
+        await vi.advanceTimersByTimeAsync(999);
+        expect(fluxClient.heartbeat).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(fluxClient.heartbeat).toHaveBeenCalledTimes(2);
+        expect(fluxClient.heartbeat).toHaveBeenLastCalledWith("task-1", "session-1", {
+          phase: "tool:bash",
+          progress: "third",
+        });
+
+        finish();
+        await running;
+        await vi.advanceTimersByTimeAsync(5_000);
+        expect(fluxClient.heartbeat).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("keeps only the tail of long progress output", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+      const backend = makeBackend({
+        execute: async ({ onProgress }) => {
+          onProgress?.({ output: `${"a".repeat(5_000)}END` });
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          return { status: "done", output: "final" };
+        },
+      });
+      const executor = makeExecutor(fluxClient, [backend]);
+
+      await executor.claimAndExecuteTask("task-1");
+
+      const progress = fluxClient.heartbeat.mock.calls[0][2].progress as string;
+      expect(progress).toHaveLength(2_000);
+      expect(progress.startsWith("…")).toBe(true);
+      expect(progress.endsWith("END")).toBe(true);
+    });
+
+    it("puts the backend's activity digest above the output tail", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+      const backend = makeBackend({
+        execute: async ({ onProgress }) => {
+          onProgress?.({ phase: "tool:bash", activity: "1 tool call (bash)" });
+          onProgress?.({ output: "partial" });
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          return { status: "done", output: "final" };
+        },
+      });
+      const executor = makeExecutor(fluxClient, [backend]);
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(fluxClient.heartbeat).toHaveBeenCalledWith("task-1", "session-1", {
+        phase: "tool:bash",
+        progress: "Activity: 1 tool call (bash)\n\npartial",
+      });
+    });
+
+    it("aborts the task when a progress heartbeat requests it", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+      fluxClient.heartbeat.mockResolvedValue({ shouldAbort: true });
+      const backend = makeBackend({
+        execute: async ({ onProgress, abortSignal }) => {
+          onProgress?.({ output: "working" });
+          await new Promise<void>((resolve) => {
+            abortSignal.addEventListener("abort", () => resolve(), { once: true });
+          });
+          return { status: "done", output: "ignored" };
+        },
+      });
+      const executor = makeExecutor(fluxClient, [backend]);
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(fluxClient.completeTask).toHaveBeenCalledWith(
+        "task-1",
+        "session-1",
+        expect.objectContaining({ status: "cancelled" }),
+      );
+    });
+  });
+
+  describe("journal", () => {
+    function makeJournal() {
+      return {
+        recordClaim: vi.fn(),
+        markExecuting: vi.fn(),
+        markCompleting: vi.fn(),
+        remove: vi.fn(),
+      };
+    }
+
+    const packet: McpTaskPacket = {
+      task: { id: "task-1", type: "demo" },
+      execution: { backend: "claude-cli" },
+      policy: { heartbeatRequired: false },
+    };
+
+    it("journals each stage and drops the entry once completion is accepted", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+      const journal = makeJournal();
+      const executor = makeExecutor(fluxClient, [makeBackend()], { journal: journal as never });
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(journal.recordClaim).toHaveBeenCalledWith("task-1", "session-1");
+      expect(journal.markExecuting).toHaveBeenCalledWith("task-1", "test-backend");
+      expect(journal.markCompleting).toHaveBeenCalledWith(
+        "task-1",
+        expect.objectContaining({ status: "done", output: "ok" }),
+      );
+      expect(journal.remove).toHaveBeenCalledWith("task-1");
+      expect(journal.remove.mock.invocationCallOrder[0]).toBeGreaterThan(
+        fluxClient.completeTask.mock.invocationCallOrder[0],
+      );
+    });
+
+    it("keeps the produced result journaled when delivery fails", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+      fluxClient.completeTask.mockRejectedValue(new Error("ECONNRESET"));
+      const journal = makeJournal();
+      const executor = makeExecutor(fluxClient, [makeBackend()], { journal: journal as never });
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(fluxClient.completeTask).toHaveBeenCalledTimes(1);
+      expect(journal.markCompleting).toHaveBeenCalledTimes(1);
+      expect(journal.markCompleting).toHaveBeenCalledWith(
+        "task-1",
+        expect.objectContaining({ status: "done", output: "ok" }),
+      );
+      expect(journal.remove).not.toHaveBeenCalled();
+    });
+
+    it("drops the journaled result when Flux rejects the completion", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+      fluxClient.completeTask.mockRejectedValue(new McpHttpError("session expired", { status: 410 }));
+      const journal = makeJournal();
+      const executor = makeExecutor(fluxClient, [makeBackend()], { journal: journal as never });
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(fluxClient.completeTask).toHaveBeenCalledTimes(1);
+      expect(journal.remove).toHaveBeenCalledWith("task-1");
+      expect(warn).toHaveBeenCalledWith("[runner] completion for task-1 rejected; result dropped: session expired");
+      warn.mockRestore();
+    });
+
+    it("still runs the task when the journal can't be written", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+      const journal = makeJournal();
+      journal.recordClaim.mockImplementation(() => {
+        throw new Error("ENOSPC");
+      });
+      const executor = makeExecutor(fluxClient, [makeBackend()], { journal: journal as never });
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(fluxClient.completeTask).toHaveBeenCalledWith(
+        "task-1",
+        "session-1",
+        expect.objectContaining({ status: "done" }),
+      );
+    });
+  });
+
+  describe("outbox", () => {
+    const packet: McpTaskPacket = {
+      task: { id: "task-1", type: "demo" },
+      execution: { backend: "claude-cli" },
+      policy: { heartbeatRequired: false },
+    };
+
+    it("queues the result when delivery fails transiently", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+      const deliveryError = new McpHttpError("unavailable", { status: 503 });
+      fluxClient.completeTask.mockRejectedValue(deliveryError);
+      const outbox = { enqueue: vi.fn() };
+      const journal = { recordClaim: vi.fn(), markExecuting: vi.fn(), markCompleting: vi.fn(), remove: vi.fn() };
+      const executor = makeExecutor(fluxClient, [makeBackend()], {
+        outbox: outbox as never,
+        journal: journal as never,
+      });
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(outbox.enqueue).toHaveBeenCalledWith(
+        "task-1",
+        "session-1",
+        expect.objectContaining({ status: "done", output: "ok" }),
+        deliveryError,
+      );
+      expect(fluxClient.completeTask).toHaveBeenCalledTimes(1);
+      expect(journal.remove).toHaveBeenCalledWith("task-1");
+    });
+
+    it("doesn't queue results the server permanently rejects", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+      fluxClient.completeTask.mockRejectedValue(new McpHttpError("conflict", { status: 409 }));
+      const outbox = { enqueue: vi.fn() };
+      const executor = makeExecutor(fluxClient, [makeBackend()], { outbox: outbox as never });
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(outbox.enqueue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("workspaces", () => {
+    function makeWorkspaces() {
+      return {
+        prepare: vi.fn().mockResolvedValue({ taskId: "task-1", dir: "/ws/task-1" }),
+        release: vi.fn().mockResolvedValue(undefined),
+      };
+    }
+
+    const packet: McpTaskPacket = {
+      task: { id: "task-1", type: "demo" },
+      execution: { backend: "claude-cli" },
+      policy: { heartbeatRequired: false },
+    };
+
+    it("runs workspace-aware backends in a prepared workspace and releases it", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+      const workspaces = makeWorkspaces();
+      const execute = vi.fn().mockResolvedValue({ status: "done", output: "ok" });
+      const backend = { ...makeBackend({ execute }), usesWorkspace: true };
+      const executor = makeExecutor(fluxClient, [backend], { workspaces: workspaces as never });
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(workspaces.prepare).toHaveBeenCalledWith("task-1", packet, expect.any(AbortSignal));
+      expect(execute).toHaveBeenCalledWith(expect.objectContaining({ workspaceDir: "/ws/task-1" }));
+      expect(workspaces.release).toHaveBeenCalledWith({ taskId: "task-1", dir: "/ws/task-1" }, "done");
+    });
+
+    it("releases with the failure status when execution throws", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+      const workspaces = makeWorkspaces();
+      const backend = {
+        ...makeBackend({ execute: async () => { throw new Error("boom"); } }),
+        usesWorkspace: true,
+      };
+      const executor = makeExecutor(fluxClient, [backend], { workspaces: workspaces as never });
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(workspaces.release).toHaveBeenCalledWith(expect.anything(), "failed");
+    });
+
+    it("skips workspaces for backends that don't use them", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+      const workspaces = makeWorkspaces();
+      const execute = vi.fn().mockResolvedValue({ status: "done", output: "ok" });
+      const executor = makeExecutor(fluxClient, [makeBackend({ execute })], { workspaces: workspaces as never });
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(workspaces.prepare).not.toHaveBeenCalled();
+      expect(execute).toHaveBeenCalledWith(expect.objectContaining({ workspaceDir: undefined }));
+    });
+
+    it("fails the task when the workspace cannot be prepared", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+      const workspaces = makeWorkspaces();
+      workspaces.prepare.mockRejectedValue(new Error("git clone failed: denied"));
+      const execute = vi.fn();
+      const backend = { ...makeBackend({ execute }), usesWorkspace: true };
+      const executor = makeExecutor(fluxClient, [backend], { workspaces: workspaces as never });
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(execute).not.toHaveBeenCalled();
+      expect(fluxClient.completeTask).toHaveBeenCalledWith(
+        "task-1",
+        "session-1",
+        expect.objectContaining({
+          status: "failed",
+          output: "Runner failed to prepare workspace: git clone failed: denied",
+        }),
+      );
+    });
+
+    it("tracks the task while its workspace is prepared and aborts the checkout", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+      const workspaces = makeWorkspaces();
+      let checkoutSignal: AbortSignal | undefined;
+      let checkoutStarted!: () => void;
+      const started = new Promise<void>((resolve) => { checkoutStarted = resolve; });
+      workspaces.prepare.mockImplementation((_taskId: string, _packet: McpTaskPacket, signal: AbortSignal) => {
+        checkoutSignal = signal;
+        checkoutStarted();
+        return new Promise((_resolve, reject) => {
+          signal.addEventListener("abort", () => reject(new Error("git clone aborted")));
+        });
+      });
+      const execute = vi.fn();
+      const backend = { ...makeBackend({ execute }), usesWorkspace: true };
+      const executor = makeExecutor(fluxClient, [backend], { workspaces: workspaces as never });
+
+      const run = executor.claimAndExecuteTask("task-1");
+      await started;
+
+      expect(executor.activeCount).toBe(1);
+      expect(executor.abortAll("Runner shutting down")).toBe(1);
+      await run;
+
+      expect(checkoutSignal?.aborted).toBe(true);
+      expect(execute).not.toHaveBeenCalled();
+      expect(executor.activeCount).toBe(0);
+      expect(fluxClient.completeTask).toHaveBeenCalledWith(
+        "task-1",
+        "session-1",
+        expect.objectContaining({ status: "cancelled", output: "Runner shutting down" }),
+      );
+    });
+  });
+
+  describe("input files", () => {
+    const packet: McpTaskPacket = {
+      task: { id: "task-1", type: "demo" },
+      prompt: { rendered: "Summarize the data." },
+      execution: { backend: "claude-cli" },
+      policy: { heartbeatRequired: false },
+      inputFiles: [{ url: "https://data.example.com/data.csv" }],
+    };
+
+    function withWorkspace(run: (dir: string) => Promise<void>) {
+      return async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "flux-executor-inputs-"));
+        try {
+          await run(dir);
+        } finally {
+          vi.restoreAllMocks();
+          fs.rmSync(dir, { recursive: true, force: true });
+        }
+      };
+    }
+
+    it(
+      "downloads input files into the workspace and lists them in the prompt",
+      withWorkspace(async (dir) => {
+        vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("a,b\n", { headers: { "content-type": "text/csv" } }));
+        const fluxClient = createFluxClientMock();
+        fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+        const workspaces = {
+          prepare: vi.fn().mockResolvedValue({ taskId: "task-1", dir }),
+          release: vi.fn().mockResolvedValue(undefined),
+        };
+        let downloaded: string | undefined;
+        const execute = vi.fn(async () => {
+          downloaded = fs.readFileSync(path.join(dir, "inputs", "data.csv"), "utf8");
+          return { status: "done" as const, output: "ok" };
+        });
+        const backend = { ...makeBackend({ execute }), usesWorkspace: true };
+        const executor = makeExecutor(fluxClient, [backend], { workspaces: workspaces as never });
+
+        await executor.claimAndExecuteTask("task-1");
+
+        expect(downloaded).toBe("a,b\n");
+        expect(execute).toHaveBeenCalledWith(
+          expect.objectContaining({
+            prompt: [
+              "Summarize the data.",
+              "",
+              "## Input Files",
+              "",
+              "These files have been downloaded into the working directory:",
+              "- inputs/data.csv (text/csv, 4 bytes)",
+            ].join("\n"),
+          }),
+        );
+      }),
+    );
+
+    it(
+      "fails the task and releases the workspace when an input file can't be fetched",
+      withWorkspace(async (dir) => {
+        vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("gone", { status: 404 }));
+        const fluxClient = createFluxClientMock();
+        fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+        const workspaces = {
+          prepare: vi.fn().mockResolvedValue({ taskId: "task-1", dir }),
+          release: vi.fn().mockResolvedValue(undefined),
+        };
+        const execute = vi.fn();
+        const backend = { ...makeBackend({ execute }), usesWorkspace: true };
+        const executor = makeExecutor(fluxClient, [backend], { workspaces: workspaces as never });
+
+        await executor.claimAndExecuteTask("task-1");
+
+        expect(execute).not.toHaveBeenCalled();
+        expect(fluxClient.completeTask).toHaveBeenCalledWith(
+          "task-1",
+          "session-1",
+          expect.objectContaining({
+            status: "failed",
+            output: "Runner failed to fetch input files: input file https://data.example.com/data.csv: HTTP 404",
+          }),
+        );
+        expect(workspaces.release).toHaveBeenCalledWith({ taskId: "task-1", dir }, "failed");
+      }),
+    );
+
+    it(
+      "aborts input downloads when the task is cancelled",
+      withWorkspace(async (dir) => {
+        let downloadStarted!: () => void;
+        const started = new Promise<void>((resolve) => { downloadStarted = resolve; });
+        vi.spyOn(globalThis, "fetch").mockImplementation((_url, init) => {
+          downloadStarted();
+          return new Promise((_resolve, reject) => {
+            init?.signal?.addEventListener("abort", () => reject(new Error("This operation was aborted")));
+          });
+        });
+        const fluxClient = createFluxClientMock();
+        fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+        const workspaces = {
+          prepare: vi.fn().mockResolvedValue({ taskId: "task-1", dir }),
+          release: vi.fn().mockResolvedValue(undefined),
+        };
+        const execute = vi.fn();
+        const backend = { ...makeBackend({ execute }), usesWorkspace: true };
+        const executor = makeExecutor(fluxClient, [backend], { workspaces: workspaces as never });
+
+        const run = executor.claimAndExecuteTask("task-1");
+        await started;
+        executor.abortAll("Runner shutting down");
+        await run;
+
+        expect(execute).not.toHaveBeenCalled();
+        expect(fluxClient.completeTask).toHaveBeenCalledWith(
+          "task-1",
+          "session-1",
+          expect.objectContaining({ status: "cancelled", output: "Runner shutting down" }),
+        );
+        expect(workspaces.release).toHaveBeenCalledWith({ taskId: "task-1", dir }, "cancelled");
+      }),
+    );
+
+    it("lists download URLs for backends without a workspace", async () => {
+      const fetchMock = vi.spyOn(globalThis, "fetch");
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({
+        sessionId: "session-1",
+        packet: { ...packet, inputFiles: [{ blobRef: "blob-1", path: "spec.md" }] },
+      });
+      fluxClient.resolveBlob.mockResolvedValue({ url: "https://blobs.example.com/blob-1?sig=x" });
+      const execute = vi.fn().mockResolvedValue({ status: "done", output: "ok" });
+      const executor = makeExecutor(fluxClient, [makeBackend({ execute })]);
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(execute).toHaveBeenCalledWith(
+        expect.objectContaining({
+          prompt: expect.stringContaining(
+            "These files are available for download:\n- spec.md: https://blobs.example.com/blob-1?sig=x",
+          ),
+        }),
+      );
+      fetchMock.mockRestore();
+    });
+  });
+
+  describe("abortAll", () => {
+    const packet: McpTaskPacket = {
+      task: { id: "task-1", type: "demo" },
+      execution: { backend: "claude-cli" },
+      policy: { heartbeatRequired: false },
+    };
+
+    function abortableBackend() {
+      let started: () => void = () => {};
+      const running = new Promise<void>((resolve) => {
+        started = resolve;
+      });
+      const backend = makeBackend({
+        execute: (request) =>
+          new Promise((resolve) => {
+            started();
+            request.abortSignal.addEventListener("abort", () =>
+              resolve({ status: "cancelled", output: "partial" }),
+            );
+          }),
+      });
+      return { backend, running };
+    }
+
+    it("aborts running tasks and reports them cancelled with the reason", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+      const { backend, running } = abortableBackend();
+      const executor = makeExecutor(fluxClient, [backend]);
+
+      const execution = executor.claimAndExecuteTask("task-1");
+      await running;
+      expect(executor.activeCount).toBe(1);
+
+      expect(executor.abortAll("Runner shutting down")).toBe(1);
+      await execution;
+
+      expect(fluxClient.completeTask).toHaveBeenCalledWith(
+        "task-1",
+        "session-1",
+        expect.objectContaining({ status: "cancelled", output: "Runner shutting down" }),
+      );
+      expect(executor.activeCount).toBe(0);
+    });
+
+    it("reports the reason when the backend throws after the abort", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+      const backend = makeBackend({
+        execute: (request) =>
+          new Promise((_, reject) => {
+            request.abortSignal.addEventListener("abort", () => reject(new Error("aborted")));
+          }),
+      });
+      const executor = makeExecutor(fluxClient, [backend]);
+
+      const execution = executor.claimAndExecuteTask("task-1");
+      await vi.waitFor(() => expect(executor.activeCount).toBe(1));
+      executor.abortAll("Runner shutting down");
+      await execution;
+
+      expect(fluxClient.completeTask).toHaveBeenCalledWith(
+        "task-1",
+        "session-1",
+        expect.objectContaining({ status: "cancelled", output: "Runner shutting down" }),
+      );
+    });
+
+    it("is a no-op when nothing is running", () => {
+      const executor = makeExecutor(createFluxClientMock(), [makeBackend()]);
+      expect(executor.abortAll("Runner shutting down")).toBe(0);
+    });
+  });
+
+  describe("reconfigure", () => {
+    const packet: McpTaskPacket = {
+      task: { id: "task-1", type: "demo" },
+      execution: { backend: "claude-cli" },
+      policy: { heartbeatRequired: false },
+    };
+
+    it("runs new claims on the new backends while a running task keeps its own", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockImplementation(async (taskId: string) => ({
+        sessionId: `session-${taskId}`,
+        packet: { ...packet, task: { id: taskId, type: "demo" } },
+      }));
+      let finishOld: () => void = () => {};
+      const oldBackend = makeBackend({
+        id: "old",
+        execute: () =>
+          new Promise((resolve) => {
+            finishOld = () => resolve({ status: "done", output: "old" });
+          }),
+      });
+      const newBackend = makeBackend({ id: "new", execute: async () => ({ status: "done", output: "new" }) });
+      const executor = makeExecutor(fluxClient, [oldBackend]);
+
+      const first = executor.claimAndExecuteTask("task-1");
+      await vi.waitFor(() => expect(executor.activeCount).toBe(1));
+      executor.reconfigure({ executionBackends: [newBackend] });
+      const idle = vi.fn();
+      void executor.whenBackendIdle(oldBackend).then(idle);
+
+      await executor.claimAndExecuteTask("task-2");
+      expect(fluxClient.completeTask).toHaveBeenCalledWith(
+        "task-2",
+        "session-task-2",
+        expect.objectContaining({ output: "new" }),
+      );
+      expect(idle).not.toHaveBeenCalled();
+
+      finishOld();
+      await first;
+      expect(fluxClient.completeTask).toHaveBeenCalledWith(
+        "task-1",
+        "session-task-1",
+        expect.objectContaining({ output: "old" }),
+      );
+      expect(idle).toHaveBeenCalledTimes(1);
+      await expect(executor.whenBackendIdle(newBackend)).resolves.toBeUndefined();
+    });
+  });
+
+  describe("budgets", () => {
+    it("charges usage and escalates the task that exhausts an escalating budget", async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "flux-executor-budget-test-"));
+      try {
+        const fluxClient = createFluxClientMock();
+        const packet: McpTaskPacket = {
+          task: { id: "task-1", type: "demo", streamId: "s-1" },
+          execution: { backend: "pi" },
+          policy: { heartbeatRequired: false },
+        };
+        fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+        const backend = makeBackend({
+          execute: async () => ({ status: "done", output: "ok", tokensUsed: 120, costUsd: 1.5, model: "big" }),
+        });
+        const budget = new BudgetTracker({
+          budgets: [
+            { name: "pi-daily", period: "daily", match: { backend: "pi", model: "big" }, maxCostUsd: 1, escalate: true },
+            { period: "daily", match: { streamId: "s-1" }, maxTokens: 100 },
+          ],
+          filePath: path.join(dir, "budgets.json"),
+        });
+        const executor = makeExecutor(fluxClient, [backend], { budget });
+
+        await executor.claimAndExecuteTask("task-1");
+
+        expect(budget.status().map((status) => status.exhausted)).toEqual([true, true]);
+        expect(fluxClient.completeTask).toHaveBeenCalledWith(
+          "task-1",
+          "session-1",
+          expect.objectContaining({ status: "done" }),
+        );
+        expect(fluxClient.escalateTask).toHaveBeenCalledTimes(1);
+        expect(fluxClient.escalateTask).toHaveBeenCalledWith(
+          "task-1",
+          "session-1",
+          'Runner daily budget "pi-daily" exhausted ($1.50/$1.00)',
+          expect.stringContaining("Raise the budget in runner.yaml"),
+        );
+        expect(fluxClient.escalateTask.mock.invocationCallOrder[0]).toBeLessThan(
+          fluxClient.completeTask.mock.invocationCallOrder[0],
+        );
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("logs a failed budget escalation and still completes the task", async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "flux-executor-budget-test-"));
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      try {
+        const fluxClient = createFluxClientMock();
+        fluxClient.escalateTask.mockRejectedValue(new Error("session closed"));
+        fluxClient.claimTask.mockResolvedValue({
+          sessionId: "session-1",
+          packet: { task: { id: "task-1", type: "demo" }, execution: { backend: "pi" }, policy: { heartbeatRequired: false } },
+        });
+        const backend = makeBackend({ execute: async () => ({ status: "done", output: "ok", tokensUsed: 120 }) });
+        const budget = new BudgetTracker({
+          budgets: [{ name: "daily-tokens", period: "daily", maxTokens: 100, escalate: true }],
+          filePath: path.join(dir, "budgets.json"),
+        });
+        const executor = makeExecutor(fluxClient, [backend], { budget });
+
+        await executor.claimAndExecuteTask("task-1");
+
+        expect(warn).toHaveBeenCalledWith(
+          "[runner] budget escalation for task-1 failed (daily-tokens): Error: session closed",
+        );
+        expect(fluxClient.completeTask).toHaveBeenCalledWith(
+          "task-1",
+          "session-1",
+          expect.objectContaining({ status: "done" }),
+        );
+      } finally {
+        warn.mockRestore();
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("metrics", () => {
+    const packet: McpTaskPacket = {
+      task: { id: "task-1", type: "demo" },
+      execution: { backend: "claude-cli" },
+      policy: { heartbeatRequired: false },
+    };
+
+    it("records claims, completions, duration, tokens, and cost", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+      const metrics = createRunnerMetrics();
+      const backend = makeBackend({
+        id: "claude-cli",
+        execute: async () => ({ status: "done", output: "ok", tokensUsed: 120, costUsd: 0.5, durationMs: 2_000, model: "sonnet" }),
+      });
+      const executor = makeExecutor(fluxClient, [backend], { metrics });
+
+      await executor.claimAndExecuteTask("task-1");
+
+      expect(metrics.claims.get()).toBe(1);
+      expect(metrics.completions.get({ status: "done", backend: "claude-cli" })).toBe(1);
+      expect(metrics.tokens.get({ backend: "claude-cli", model: "sonnet" })).toBe(120);
+      expect(metrics.costUsd.get({ backend: "claude-cli", model: "sonnet" })).toBe(0.5);
+      expect(metrics.registry.render()).toContain(
+        'fluxhive_runner_execution_duration_seconds_sum{backend="claude-cli",status="done"} 2',
+      );
+      expect(executor.getCompletionCounts()).toEqual({ done: 1, failed: 0, cancelled: 0 });
+    });
+
+    it("counts claim conflicts and unsupported-backend failures", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask
+        .mockRejectedValueOnce(new McpHttpError("conflict", { status: 409 }))
+        .mockResolvedValueOnce({ sessionId: "session-2", packet });
+      const metrics = createRunnerMetrics();
+      const executor = makeExecutor(fluxClient, [makeBackend({ canExecute: () => false })], { metrics });
+
+      await executor.claimAndExecuteTask("task-1");
+      await executor.claimAndExecuteTask("task-2");
+
+      expect(metrics.claimConflicts.get()).toBe(1);
+      expect(metrics.claims.get()).toBe(1);
+      expect(metrics.completions.get({ status: "failed", backend: "claude-cli" })).toBe(1);
+    });
+
+    it("counts heartbeat failures by backend", async () => {
+      vi.useFakeTimers();
+      try {
+        const fluxClient = createFluxClientMock();
+        fluxClient.claimTask.mockResolvedValue({
+          sessionId: "session-1",
+          packet: { ...packet, policy: { heartbeatRequired: true } },
+        });
+        fluxClient.heartbeat.mockRejectedValue(new Error("timeout"));
+        const metrics = createRunnerMetrics();
+        let finish: () => void = () => {};
+        const backend = makeBackend({
+          id: "pi",
+          execute: () =>
+            new Promise((resolve) => {
+              finish = () => resolve({ status: "done", output: "ok" });
+            }),
+        });
+        const executor = makeExecutor(fluxClient, [backend], { metrics, heartbeatMs: 10_000 });
+
+        const execution = executor.claimAndExecuteTask("task-1");
+        await vi.advanceTimersByTimeAsync(20_000);
+        finish();
+        await execution;
+
+        expect(metrics.heartbeatFailures.get({ backend: "pi" })).toBe(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe("tracing", () => {
+    const packet: McpTaskPacket = {
+      task: { id: "task-1", type: "demo" },
+      execution: { backend: "pi" },
+      policy: { heartbeatRequired: false },
+    };
+
+    function makeTracer() {
+      const exports: OtlpTraceExport[] = [];
+      const tracer = new Tracer({
+        serviceName: "test",
+        exporter: { export: async (payload) => void exports.push(payload) },
+      });
+      const spans = async (): Promise<OtlpSpan[]> => {
+        await tracer.flush();
+        return exports.flatMap((e) => e.resourceSpans.flatMap((r) => r.scopeSpans.flatMap((s) => s.spans)));
+      };
+      return { tracer, spans };
+    }
+
+    function attr(span: OtlpSpan | undefined, key: string): unknown {
+      const value = span?.attributes.find((a) => a.key === key)?.value;
+      return value ? Object.values(value)[0] : undefined;
+    }
+
+    it("traces claim, execution, and completion under one task.run span", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+      const { tracer, spans } = makeTracer();
+      const backend = makeBackend({
+        id: "pi",
+        execute: async () => ({ status: "done", output: "ok", tokensUsed: 42, costUsd: 0.25, model: "gpt" }),
+      });
+      const executor = makeExecutor(fluxClient, [backend], { tracer });
+
+      await executor.claimAndExecuteTask("task-1");
+
+      const all = await spans();
+      const byName = Object.fromEntries(all.map((span) => [span.name, span]));
+      const run = byName["task.run"];
+      expect(Object.keys(byName).sort()).toEqual(["task.claim", "task.complete", "task.execute", "task.run"]);
+      for (const name of ["task.claim", "task.execute", "task.complete"]) {
+        expect(byName[name].traceId).toBe(run.traceId);
+        expect(byName[name].parentSpanId).toBe(run.spanId);
+      }
+      expect(attr(run, "flux.task.id")).toBe("task-1");
+      expect(attr(run, "flux.session.id")).toBe("session-1");
+      expect(attr(byName["task.execute"], "runner.backend")).toBe("pi");
+      expect(attr(byName["task.execute"], "gen_ai.request.model")).toBe("gpt");
+      expect(attr(byName["task.execute"], "gen_ai.usage.total_tokens")).toBe("42");
+      expect(attr(byName["task.execute"], "runner.cost_usd")).toBe(0.25);
+    });
+
+    it("marks a failed execution span as an error", async () => {
+      const fluxClient = createFluxClientMock();
+      fluxClient.claimTask.mockResolvedValue({ sessionId: "session-1", packet });
+      const { tracer, spans } = makeTracer();
+      const backend = makeBackend({
+        id: "pi",
+        execute: async () => {
+          throw new Error("model exploded");
+        },
+      });
+      const executor = makeExecutor(fluxClient, [backend], { tracer });
+
+      await executor.claimAndExecuteTask("task-1");
+
+      const execute = (await spans()).find((span) => span.name === "task.execute");
+      expect(execute?.status).toEqual({ code: 2, message: "model exploded" });
+      expect(attr(execute, "flux.task.status")).toBe("failed");
+    });
+
+    it("parents heartbeat spans to the run span", async () => {
+      vi.useFakeTimers();
+      try {
+        const fluxClient = createFluxClientMock();
+        fluxClient.claimTask.mockResolvedValue({
+          sessionId: "session-1",
+          packet: { ...packet, policy: { heartbeatRequired: true } },
+        });
+        const { tracer, spans } = makeTracer();
+        let finish: () => void = () => {};
+        const backend = makeBackend({
+          id: "pi",
+          execute: () =>
+            new Promise((resolve) => {
+              finish = () => resolve({ status: "done", output: "ok" });
+            }),
+        });
+        const executor = makeExecutor(fluxClient, [backend], { tracer, heartbeatMs: 10_000 });
+
+        const execution = executor.claimAndExecuteTask("task-1");
+        await vi.advanceTimersByTimeAsync(10_000);
+        finish();
+        await execution;
+
+        const all = await spans();
+        const run = all.find((span) => span.name === "task.run");
+        const heartbeats = all.filter((span) => span.name === "task.heartbeat");
+        expect(heartbeats.length).toBeGreaterThan(0);
+        expect(heartbeats.every((span) => span.parentSpanId === run?.spanId)).toBe(true);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
 });
@@ -0,0 +1,118 @@
+import { describe, expect, it, vi, afterEach } from "vitest";
+import { BackendHealthMonitor } from "../../src/runner/health.ts";
+import type { RunnerExecutionBackend, RunnerPreflightResult } from "../../src/runner/execution.ts";
+
+function makeBackend(id: string, preflight?: () => Promise<RunnerPreflightResult>): RunnerExecutionBackend {
+  return {
+    id,
+    canExecute: (name) => name === id,
+    execute: vi.fn(),
+    ...(preflight ? { preflight } : {}),
+  };
+}
+
+describe("BackendHealthMonitor", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("records probe results and treats backends without a preflight as healthy", async () => {
+    const gateway = makeBackend("openclaw", async () => ({ ok: false, reason: "gateway down" }));
+    const cli = makeBackend("claude-cli");
+    const monitor = new BackendHealthMonitor({ now: () => new Date("2026-01-01T00:00:00Z") });
+
+    expect(monitor.isHealthy(gateway)).toBe(true);
+    const results = await monitor.check([gateway, cli]);
+
+    expect(results).toEqual([
+      {
+        backend: "openclaw",
+        healthy: false,
+        reason: "gateway down",
+        since: "2026-01-01T00:00:00.000Z",
+        checkedAt: "2026-01-01T00:00:00.000Z",
+      },
+      {
+        backend: "claude-cli",
+        healthy: true,
+        reason: undefined,
+        since: "2026-01-01T00:00:00.000Z",
+        checkedAt: "2026-01-01T00:00:00.000Z",
+      },
+    ]);
+    expect(monitor.healthy([gateway, cli])).toEqual([cli]);
+  });
+
+  it("reports transitions, not the first probe or unchanged states", async () => {
+    let ok = false;
+    let clock = Date.parse("2026-01-01T00:00:00Z");
+    const gateway = makeBackend("openclaw", async () => (ok ? { ok: true } : { ok: false, reason: "down" }));
+    const onTransition = vi.fn();
+    const onChange = vi.fn();
+    const monitor = new BackendHealthMonitor({ onTransition, onChange, now: () => new Date(clock) });
+    monitor.setBackends([gateway]);
+
+    await monitor.check();
+    clock += 30_000;
+    await monitor.check();
+    expect(onTransition).not.toHaveBeenCalled();
+    expect(monitor.status()[0].since).toBe("2026-01-01T00:00:00.000Z");
+
+    ok = true;
+    clock += 30_000;
+    await monitor.check();
+    expect(onTransition).toHaveBeenCalledWith(
+      expect.objectContaining({ backend: "openclaw", healthy: true, since: "2026-01-01T00:01:00.000Z" }),
+    );
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(monitor.isHealthy(gateway)).toBe(true);
+  });
+
+  it("fails probes that throw or time out", async () => {
+    vi.useFakeTimers();
+    const throwing = makeBackend("pi", async () => {
+      throw new Error("no models.json");
+    });
+    const hanging = makeBackend("openclaw", () => new Promise(() => {}));
+    const monitor = new BackendHealthMonitor({ probeTimeoutMs: 1_000 });
+
+    const check = monitor.check([throwing, hanging]);
+    await vi.advanceTimersByTimeAsync(1_000);
+    const results = await check;
+
+    expect(results.map((result) => [result.backend, result.healthy, result.reason])).toEqual([
+      ["pi", false, "no models.json"],
+      ["openclaw", false, "health check timed out after 1000ms"],
+    ]);
+  });
+
+  it("re-probes on the interval until stopped", async () => {
+    vi.useFakeTimers();
+    const preflight = vi.fn(async () => ({ ok: true as const }));
+    const monitor = new BackendHealthMonitor({ intervalMs: 10_000 });
+    monitor.setBackends([makeBackend("pi", preflight)]);
+    monitor.start();
+
+    await vi.advanceTimersByTimeAsync(20_000);
+    expect(preflight).toHaveBeenCalledTimes(2);
+
+    monitor.reconfigure({ intervalMs: 5_000 });
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(preflight).toHaveBeenCalledTimes(3);
+
+    monitor.stop();
+    await vi.advanceTimersByTimeAsync(20_000);
+    expect(preflight).toHaveBeenCalledTimes(3);
+  });
+
+  it("forgets backends that are no longer registered", async () => {
+    const pi = makeBackend("pi", async () => ({ ok: false, reason: "no models" }));
+    const monitor = new BackendHealthMonitor();
+    await monitor.check([pi]);
+    expect(monitor.status()).toHaveLength(1);
+
+    monitor.setBackends([]);
+    expect(monitor.status()).toEqual([]);
+    expect(monitor.isHealthy(pi)).toBe(true);
+  });
+});
@@ -0,0 +1,194 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { inputFilesPrompt, materializeInputFiles } from "../../src/runner/inputs.ts";
+
+const sha256 = (content: string) => createHash("sha256").update(content).digest("hex");
+
+describe("materializeInputFiles", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  function makeWorkspace(): string {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "flux-inputs-test-"));
+    return dir;
+  }
+
+  it("downloads URLs and blobs into the workspace and verifies their hashes", async () => {
+    const workspace = makeWorkspace();
+    const fetchMock = vi
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(new Response("a,b\n1,2\n", { headers: { "content-type": "text/csv" } }))
+      .mockResolvedValueOnce(new Response("# Spec\n", { headers: { "content-type": "application/octet-stream" } }));
+    const resolveBlob = vi.fn().mockResolvedValue({
+      url: "https://blobs.example.com/b1?sig=x",
+      name: "spec.md",
+      sha256: sha256("# Spec\n"),
+    });
+
+    const files = await materializeInputFiles(
+      { resolveBlob },
+      [
+        { url: "https://data.example.com/exports/data.csv", sha256: sha256("a,b\n1,2\n").toUpperCase() },
+        { blobRef: "blob-1", path: "docs/./spec.md" },
+      ],
+      workspace,
+    );
+
+    expect(files).toEqual([
+      { path: "inputs/data.csv", mimeType: "text/csv", sizeBytes: 8, sha256: sha256("a,b\n1,2\n") },
+      { path: "docs/spec.md", mimeType: "text/markdown", sizeBytes: 7, sha256: sha256("# Spec\n") },
+    ]);
+    expect(resolveBlob).toHaveBeenCalledWith("blob-1");
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      "https://data.example.com/exports/data.csv",
+      "https://blobs.example.com/b1?sig=x",
+    ]);
+    expect(fs.readFileSync(path.join(workspace, "inputs", "data.csv"), "utf8")).toBe("a,b\n1,2\n");
+    expect(fs.readFileSync(path.join(workspace, "docs", "spec.md"), "utf8")).toBe("# Spec\n");
+  });
+
+  it("fails on a hash mismatch, naming the file", async () => {
+    const workspace = makeWorkspace();
+    vi.spyOn(globalThis, "fetch").mockResolvedValueOnce(new Response("tampered"));
+
+    await expect(
+      materializeInputFiles(
+        { resolveBlob: vi.fn() },
+        [{ url: "https://data.example.com/data.csv", sha256: sha256("original") }],
+        workspace,
+      ),
+    ).rejects.toThrow(
+      `input file https://data.example.com/data.csv: sha256 mismatch: expected ${sha256("original")}, got ${sha256("tampered")}`,
+    );
+    expect(fs.existsSync(path.join(workspace, "inputs", "data.csv"))).toBe(false);
+  });
+
+  it("refuses paths outside the workspace, including through symlinks", async () => {
+    const workspace = makeWorkspace();
+    fs.mkdirSync(path.join(workspace, "outside"));
+    fs.mkdirSync(path.join(workspace, "task"));
+    fs.symlinkSync(path.join(workspace, "outside"), path.join(workspace, "task", "linked"));
+    vi.spyOn(globalThis, "fetch").mockImplementation(async () => new Response("data"));
+
+    await expect(
+      materializeInputFiles(
+        { resolveBlob: vi.fn() },
+        [{ url: "https://data.example.com/a.txt", path: "../a.txt" }],
+        path.join(workspace, "task"),
+      ),
+    ).rejects.toThrow("input file https://data.example.com/a.txt: ../a.txt is outside the task workspace");
+    await expect(
+      materializeInputFiles(
+        { resolveBlob: vi.fn() },
+        [{ url: "https://data.example.com/a.txt", path: "linked/a.txt" }],
+        path.join(workspace, "task"),
+      ),
+    ).rejects.toThrow("linked/a.txt is outside the task workspace");
+    expect(fs.readdirSync(path.join(workspace, "outside"))).toEqual([]);
+  });
+
+  it("fails on HTTP errors, oversized files, unsupported URLs, and duplicate paths", async () => {
+    const workspace = makeWorkspace();
+    const resolveBlob = vi.fn();
+
+    vi.spyOn(globalThis, "fetch").mockResolvedValueOnce(new Response("missing", { status: 404 }));
+    await expect(
+      materializeInputFiles({ resolveBlob }, [{ url: "https://data.example.com/a.txt" }], workspace),
+    ).rejects.toThrow("input file https://data.example.com/a.txt: HTTP 404");
+
+    vi.spyOn(globalThis, "fetch").mockResolvedValueOnce(new Response("x".repeat(20)));
+    await expect(
+      materializeInputFiles({ resolveBlob }, [{ url: "https://data.example.com/a.txt" }], workspace, { maxBytes: 10 }),
+    ).rejects.toThrow("input file https://data.example.com/a.txt: file is 20 bytes, over the 10-byte limit");
+
+    await expect(
+      materializeInputFiles({ resolveBlob }, [{ url: "file:///etc/passwd" }], workspace),
+    ).rejects.toThrow("input file file:///etc/passwd: unsupported input URL");
+
+    vi.spyOn(globalThis, "fetch").mockImplementation(async () => new Response("data"));
+    await expect(
+      materializeInputFiles(
+        { resolveBlob },
+        [{ url: "https://a.example.com/data.txt" }, { url: "https://b.example.com/data.txt" }],
+        workspace,
+      ),
+    ).rejects.toThrow("input file https://b.example.com/data.txt: another input file is already written to inputs/data.txt");
+  });
+
+  it("stops downloading once the signal aborts", async () => {
+    const workspace = makeWorkspace();
+    const controller = new AbortController();
+    const fetchMock = vi.spyOn(globalThis, "fetch").mockImplementation(async (_url, init) => {
+      controller.abort();
+      init?.signal?.throwIfAborted();
+      return new Response("unreachable");
+    });
+
+    await expect(
+      materializeInputFiles(
+        { resolveBlob: vi.fn() },
+        [{ url: "https://data.example.com/a.txt" }, { url: "https://data.example.com/b.txt" }],
+        workspace,
+        { signal: controller.signal },
+      ),
+    ).rejects.toThrow("input file https://data.example.com/a.txt: This operation was aborted");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fs.existsSync(path.join(workspace, "inputs", "a.txt"))).toBe(false);
+  });
+
+  it("only resolves URLs without a workspace", async () => {
+    const fetchMock = vi.spyOn(globalThis, "fetch");
+    const resolveBlob = vi.fn().mockResolvedValue({ url: "https://blobs.example.com/b1", mimeType: "application/pdf" });
+
+    await expect(
+      materializeInputFiles(
+        { resolveBlob },
+        [{ url: "https://data.example.com/data.csv" }, { blobRef: "blob 1" }],
+        undefined,
+      ),
+    ).resolves.toEqual([
+      { path: "inputs/data.csv", url: "https://data.example.com/data.csv" },
+      { path: "inputs/blob_1", url: "https://blobs.example.com/b1", mimeType: "application/pdf" },
+    ]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("inputFilesPrompt", () => {
+  it("lists downloaded files by workspace path", () => {
+    expect(
+      inputFilesPrompt([
+        { path: "inputs/data.csv", mimeType: "text/csv", sizeBytes: 8, sha256: "abc" },
+        { path: "notes", sizeBytes: 3 },
+      ]),
+    ).toBe(
+      [
+        "## Input Files",
+        "",
+        "These files have been downloaded into the working directory:",
+        "- inputs/data.csv (text/csv, 8 bytes)",
+        "- notes (3 bytes)",
+      ].join("\n"),
+    );
+  });
+
+  it("lists remote files by URL, and nothing when there are no files", () => {
+    expect(inputFilesPrompt([{ path: "inputs/data.csv", url: "https://data.example.com/data.csv" }])).toBe(
+      [
+        "## Input Files",
+        "",
+        "These files are available for download:",
+        "- inputs/data.csv: https://data.example.com/data.csv",
+      ].join("\n"),
+    );
+    expect(inputFilesPrompt([])).toBe("");
+  });
+});
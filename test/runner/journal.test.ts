@@ -0,0 +1,181 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { McpHttpError } from "../../src/runner/client.ts";
+import {
+  TaskJournal,
+  orphanedSessionResult,
+  reconcileTaskJournal,
+} from "../../src/runner/journal.ts";
+
+describe("TaskJournal", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "flux-journal-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("returns no entries when the directory doesn't exist", () => {
+    const journal = new TaskJournal({ dir: path.join(dir, "missing") });
+    expect(journal.list()).toEqual([]);
+  });
+
+  it("tracks a session through claimed, executing, and completing", () => {
+    const journal = new TaskJournal({ dir });
+
+    journal.recordClaim("task-1", "session-1");
+    expect(journal.list()).toEqual([
+      expect.objectContaining({ taskId: "task-1", sessionId: "session-1", state: "claimed" }),
+    ]);
+
+    journal.markExecuting("task-1", "pi");
+    expect(journal.list()[0]).toMatchObject({ state: "executing", backend: "pi" });
+
+    journal.markCompleting("task-1", { status: "done", output: "ok" });
+    expect(journal.list()[0]).toMatchObject({
+      state: "completing",
+      backend: "pi",
+      result: { status: "done", output: "ok" },
+    });
+  });
+
+  it("removes entries and ignores updates for unknown tasks", () => {
+    const journal = new TaskJournal({ dir });
+    journal.recordClaim("task-1", "session-1");
+
+    journal.remove("task-1");
+    journal.markExecuting("task-1", "pi");
+
+    expect(journal.list()).toEqual([]);
+  });
+
+  it("stores task IDs with path separators in a single file", () => {
+    const journal = new TaskJournal({ dir });
+    journal.recordClaim("../evil/task", "session-1");
+
+    expect(fs.readdirSync(dir)).toHaveLength(1);
+    expect(journal.list()[0].taskId).toBe("../evil/task");
+  });
+
+  it("skips corrupt and temporary files", () => {
+    const journal = new TaskJournal({ dir });
+    journal.recordClaim("task-1", "session-1");
+    fs.writeFileSync(path.join(dir, "broken.json"), "{not json");
+    fs.writeFileSync(path.join(dir, "task-2.json.123.tmp"), "{}");
+
+    expect(journal.list().map((entry) => entry.taskId)).toEqual(["task-1"]);
+  });
+
+  it("writes entries with owner-only permissions", () => {
+    const journal = new TaskJournal({ dir });
+    journal.recordClaim("task-1", "session-1");
+
+    const mode = fs.statSync(path.join(dir, "task-1.json")).mode & 0o777;
+    expect(mode).toBe(0o600);
+  });
+});
+
+describe("reconcileTaskJournal", () => {
+  let dir: string;
+  let journal: TaskJournal;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "flux-journal-test-"));
+    journal = new TaskJournal({ dir });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("re-delivers results that were produced but never reported", async () => {
+    journal.recordClaim("task-1", "session-1");
+    journal.markCompleting("task-1", { status: "done", output: "finished", tokensUsed: 5 });
+    const completeTask = vi.fn().mockResolvedValue({ ok: true });
+
+    const outcomes = await reconcileTaskJournal(journal, { completeTask });
+
+    expect(completeTask).toHaveBeenCalledWith("task-1", "session-1", {
+      status: "done",
+      output: "finished",
+      tokensUsed: 5,
+    });
+    expect(outcomes).toEqual([
+      { taskId: "task-1", sessionId: "session-1", state: "completing", action: "redelivered" },
+    ]);
+    expect(journal.list()).toEqual([]);
+  });
+
+  it("fails orphaned sessions with a clear reason", async () => {
+    journal.recordClaim("task-1", "session-1");
+    journal.markExecuting("task-1", "claude-cli");
+    const completeTask = vi.fn().mockResolvedValue({ ok: true });
+
+    const outcomes = await reconcileTaskJournal(journal, { completeTask });
+
+    expect(completeTask).toHaveBeenCalledWith(
+      "task-1",
+      "session-1",
+      expect.objectContaining({
+        status: "failed",
+        output: expect.stringContaining("Runner restarted while executing"),
+      }),
+    );
+    expect(outcomes[0].action).toBe("failed");
+    expect(journal.list()).toEqual([]);
+  });
+
+  it("drops entries whose session the server no longer accepts", async () => {
+    journal.recordClaim("task-1", "session-1");
+    const completeTask = vi.fn().mockRejectedValue(
+      new McpHttpError("conflict", { status: 409 }),
+    );
+
+    const outcomes = await reconcileTaskJournal(journal, { completeTask });
+
+    expect(outcomes[0]).toMatchObject({ action: "dropped", error: "conflict" });
+    expect(journal.list()).toEqual([]);
+  });
+
+  it("drops entries the server rejects as invalid", async () => {
+    journal.recordClaim("task-1", "session-1");
+    journal.markCompleting("task-1", { status: "done", output: "finished" });
+    const completeTask = vi.fn().mockRejectedValue(new McpHttpError("invalid result", { status: 422 }));
+
+    const outcomes = await reconcileTaskJournal(journal, { completeTask });
+
+    expect(outcomes[0]).toMatchObject({ action: "dropped", error: "invalid result" });
+    expect(journal.list()).toEqual([]);
+  });
+
+  it("keeps entries when delivery fails transiently", async () => {
+    journal.recordClaim("task-1", "session-1");
+    journal.markCompleting("task-1", { status: "done", output: "finished" });
+    const completeTask = vi.fn().mockRejectedValue(new Error("ECONNREFUSED"));
+
+    const outcomes = await reconcileTaskJournal(journal, { completeTask });
+
+    expect(outcomes[0]).toMatchObject({ action: "kept", error: "ECONNREFUSED" });
+    expect(journal.list()).toHaveLength(1);
+  });
+});
+
+describe("orphanedSessionResult", () => {
+  it("distinguishes sessions that never started executing", () => {
+    const result = orphanedSessionResult({
+      taskId: "task-1",
+      sessionId: "session-1",
+      state: "claimed",
+      claimedAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+    expect(result.status).toBe("failed");
+    expect(result.output).toContain("before execution started");
+    expect(result.output).toContain("2026-01-01T00:00:00.000Z");
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, expect, it, afterEach } from "vitest";
+import {
+  MetricsRegistry,
+  MetricsServer,
+  createRunnerMetrics,
+} from "../../src/runner/metrics.ts";
+
+describe("MetricsRegistry", () => {
+  it("renders counters with HELP/TYPE headers and labels in declared order", () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter({
+      name: "demo_total",
+      help: "Demo counter.",
+      labelNames: ["status", "backend"],
+    });
+
+    counter.inc({ backend: "pi", status: "done" });
+    counter.inc({ status: "done", backend: "pi" }, 2);
+    counter.inc({ status: "failed", backend: "claude-cli" });
+    counter.inc({ status: "failed", backend: "claude-cli" }, -5);
+
+    expect(counter.get({ status: "done", backend: "pi" })).toBe(3);
+    expect(registry.render()).toBe(
+      [
+        "# HELP demo_total Demo counter.",
+        "# TYPE demo_total counter",
+        'demo_total{status="done",backend="pi"} 3',
+        'demo_total{status="failed",backend="claude-cli"} 1',
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("escapes label values", () => {
+    const registry = new MetricsRegistry();
+    registry.counter({ name: "x_total", help: "x", labelNames: ["model"] }).inc({ model: 'a"b\\c\nd' });
+
+    expect(registry.render()).toContain('x_total{model="a\\"b\\\\c\\nd"} 1');
+  });
+
+  it("renders cumulative histogram buckets with sum and count", () => {
+    const registry = new MetricsRegistry();
+    const histogram = registry.histogram({
+      name: "duration_seconds",
+      help: "Duration.",
+      labelNames: ["backend"],
+      buckets: [5, 1],
+    });
+
+    histogram.observe({ backend: "pi" }, 0.5);
+    histogram.observe({ backend: "pi" }, 3);
+    histogram.observe({ backend: "pi" }, 10);
+
+    const lines = registry.render().split("\n");
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        "# TYPE duration_seconds histogram",
+        'duration_seconds_bucket{backend="pi",le="1"} 1',
+        'duration_seconds_bucket{backend="pi",le="5"} 2',
+        'duration_seconds_bucket{backend="pi",le="+Inf"} 3',
+        'duration_seconds_sum{backend="pi"} 13.5',
+        'duration_seconds_count{backend="pi"} 3',
+      ]),
+    );
+  });
+
+  it("samples gauges at render time", () => {
+    const registry = new MetricsRegistry();
+    let value = 1;
+    registry.gauge({ name: "in_flight", help: "In flight.", collect: () => value });
+    value = 4;
+
+    expect(registry.render()).toContain("in_flight 4");
+  });
+
+  it("rejects duplicate metric names", () => {
+    const registry = new MetricsRegistry();
+    registry.counter({ name: "dup_total", help: "x" });
+    expect(() => registry.counter({ name: "dup_total", help: "x" })).toThrow("already registered");
+  });
+});
+
+describe("createRunnerMetrics", () => {
+  it("registers the runner metric families", () => {
+    const metrics = createRunnerMetrics();
+    metrics.claims.inc();
+
+    const text = metrics.registry.render();
+    for (const name of [
+      "fluxhive_runner_claims_total",
+      "fluxhive_runner_claim_conflicts_total",
+      "fluxhive_runner_completions_total",
+      "fluxhive_runner_execution_duration_seconds",
+      "fluxhive_runner_tokens_total",
+      "fluxhive_runner_cost_usd_total",
+      "fluxhive_runner_heartbeat_failures_total",
+      "fluxhive_runner_push_reconnects_total",
+      "fluxhive_runner_cadence_tick_errors_total",
+    ]) {
+      expect(text).toContain(`# TYPE ${name} `);
+    }
+    expect(text).toContain("fluxhive_runner_claims_total 1");
+  });
+});
+
+describe("MetricsServer", () => {
+  let server: MetricsServer | null = null;
+
+  afterEach(async () => {
+    await server?.stop();
+    server = null;
+  });
+
+  it("serves the registry at /metrics on loopback", async () => {
+    const metrics = createRunnerMetrics();
+    metrics.pushReconnects.inc();
+    server = new MetricsServer({ registry: metrics.registry, port: 0 });
+    const port = await server.start();
+
+    const res = await fetch(`http://127.0.0.1:${port}/metrics`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toContain("text/plain; version=0.0.4");
+    expect(await res.text()).toContain("fluxhive_runner_push_reconnects_total 1");
+
+    const missing = await fetch(`http://127.0.0.1:${port}/other`);
+    expect(missing.status).toBe(404);
+  });
+});
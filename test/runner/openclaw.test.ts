@@ -49,7 +49,7 @@ vi.mock("../../src/runner/device-identity.js", () => ({
   clearDeviceToken: vi.fn(),
 }));
 
-const { OpenClawClient } = await import("../../src/runner/openclaw.ts");
+const { OpenClawClient, OpenClawRunInterruptedError } = await import("../../src/runner/openclaw.ts");
 
 function getWs(client: InstanceType<typeof OpenClawClient>): MockWebSocket {
   return (client as unknown as { ws: MockWebSocket }).ws;
@@ -97,7 +97,14 @@ async function connectedClient(opts?: Record<string, unknown>) {
   const p = client.connect();
   await flush();
   const ws = getWs(client);
+  await handshake(ws);
+  await p;
+
+  return { client, ws };
+}
 
+/** Answers the connect challenge on an opened socket. */
+async function handshake(ws: MockWebSocket) {
   // Gateway sends challenge
   ws.emit(
     "message",
@@ -114,9 +121,6 @@ async function connectedClient(opts?: Record<string, unknown>) {
   // Flush microtask so sendConnect sets this.connected = true, then nudge
   await flush();
   nudge(ws);
-  await p;
-
-  return { client, ws };
 }
 
 // ---------------------------------------------------------------------------
@@ -294,13 +298,89 @@ describe("OpenClawClient", () => {
       client.close();
     });
 
-    it("handles abort signal", async () => {
-      const { client } = await connectedClient();
+    it("cancels the run on the gateway when aborted and returns its final response", async () => {
+      const { client, ws } = await connectedClient();
+      const ac = new AbortController();
+      const p = client.execute({ prompt: "Hello", sessionKey: "s1", abortSignal: ac.signal });
+      await flush();
+      const agent = JSON.parse(ws.sentMessages[ws.sentMessages.length - 1]) as {
+        id: string;
+        params: { idempotencyKey: string };
+      };
+
+      ac.abort();
+      await flush();
+      const abort = JSON.parse(ws.sentMessages[ws.sentMessages.length - 1]) as Record<string, unknown>;
+      expect(abort).toMatchObject({
+        method: "chat.abort",
+        params: { sessionKey: "s1", runId: agent.params.idempotencyKey },
+      });
+      sendResponse(ws, abort.id as string, true, { ok: true, aborted: true });
+      sendResponse(ws, agent.id, true, {
+        result: { payloads: [{ text: "partial" }], usage: { total: 5 } },
+      });
+
+      await expect(p).resolves.toMatchObject({
+        aborted: true,
+        cancel: { stopped: true },
+        payloads: [{ text: "partial" }],
+        usage: { total: 5 },
+      });
+      client.close();
+    });
+
+    it("reports a run the gateway had no record of as not stopped", async () => {
+      const { client, ws } = await connectedClient({ abortTimeoutMs: 20 });
       const ac = new AbortController();
       const p = client.execute({ prompt: "Hello", sessionKey: "s1", abortSignal: ac.signal });
       await flush();
+
       ac.abort();
-      await expect(p).rejects.toThrow("aborted");
+      await flush();
+      sendResponse(ws, lastSentId(ws), true, { ok: true, aborted: false });
+
+      await expect(p).resolves.toMatchObject({
+        aborted: true,
+        payloads: [],
+        cancel: { stopped: false, detail: "the gateway had no active run to stop" },
+      });
+      expect((client as unknown as { pending: Map<string, unknown> }).pending.size).toBe(0);
+      client.close();
+    });
+
+    it("reports a failed or unanswered chat.abort as not stopped", async () => {
+      const { client, ws } = await connectedClient({ abortTimeoutMs: 20 });
+      const failing = new AbortController();
+      const failed = client.execute({ prompt: "Hello", sessionKey: "s1", abortSignal: failing.signal });
+      await flush();
+      failing.abort();
+      await flush();
+      sendResponse(ws, lastSentId(ws), false);
+      await expect(failed).resolves.toMatchObject({
+        cancel: { stopped: false, detail: "chat.abort failed: fail" },
+      });
+
+      const silent = new AbortController();
+      const unanswered = client.execute({ prompt: "Hello", sessionKey: "s2", abortSignal: silent.signal });
+      await flush();
+      silent.abort();
+      await expect(unanswered).resolves.toMatchObject({
+        cancel: { stopped: false, detail: "chat.abort not acknowledged within 20ms" },
+      });
+      client.close();
+    });
+
+    it("doesn't start a run whose signal is already aborted", async () => {
+      const { client, ws } = await connectedClient();
+      const sent = ws.sentMessages.length;
+      const ac = new AbortController();
+      ac.abort();
+
+      await expect(client.execute({ prompt: "Hello", sessionKey: "s1", abortSignal: ac.signal })).resolves.toMatchObject({
+        aborted: true,
+        cancel: { stopped: true },
+      });
+      expect(ws.sentMessages).toHaveLength(sent);
       client.close();
     });
 
@@ -333,6 +413,39 @@ describe("OpenClawClient", () => {
       client.close();
     });
 
+    it("drops gateway events tagged with another run's ID", async () => {
+      const { client, ws } = await connectedClient();
+      const events: unknown[] = [];
+      const p = client.execute({
+        prompt: "Hello",
+        sessionKey: "s1",
+        onEvent: (e) => events.push(e),
+      });
+      await flush();
+      const id = lastSentId(ws);
+      const sent = JSON.parse(ws.sentMessages[ws.sentMessages.length - 1]) as { params: Record<string, unknown> };
+      const runId = sent.params.idempotencyKey as string;
+
+      ws.emit(
+        "message",
+        JSON.stringify({ type: "event", event: "agent", payload: { runId: "other-run", stream: "assistant" } }),
+      );
+      ws.emit(
+        "message",
+        JSON.stringify({ type: "event", event: "agent", payload: { runId, stream: "assistant" } }),
+      );
+      ws.emit(
+        "message",
+        JSON.stringify({ type: "res", id, ok: true, payload: { result: { payloads: [] } } }),
+      );
+
+      await p;
+      expect(events).toEqual([
+        { type: "event", event: "agent", payload: { runId, stream: "assistant" } },
+      ]);
+      client.close();
+    });
+
     it("handles empty result payload gracefully", async () => {
       const { client, ws } = await connectedClient();
       const p = client.execute({ prompt: "Hello", sessionKey: "s1" });
@@ -373,6 +486,90 @@ describe("OpenClawClient", () => {
     });
   });
 
+  describe("reconnect", () => {
+    const fastReconnect = { baseDelayMs: 1, maxDelayMs: 1 };
+
+    it("re-authenticates and re-sends in-flight runs with the same request", async () => {
+      const { client, ws } = await connectedClient({ reconnect: fastReconnect });
+      const reconnected = vi.fn();
+      client.on("reconnected", reconnected);
+      const p = client.execute({ prompt: "Hello", sessionKey: "s1", timeoutSec: 10 });
+      await flush();
+      const original = JSON.parse(ws.sentMessages[ws.sentMessages.length - 1]) as Record<string, unknown>;
+
+      ws.emit("close", 1006, "abnormal");
+      await flush();
+      const next = getWs(client);
+      expect(next).not.toBe(ws);
+      await handshake(next);
+      await flush();
+
+      const replayed = JSON.parse(next.sentMessages[next.sentMessages.length - 1]) as Record<string, unknown>;
+      expect(replayed).toEqual(original);
+      expect(reconnected).toHaveBeenCalledWith({ attempt: 1, replayed: 1 });
+
+      sendResponse(next, replayed.id as string, true, {
+        result: { payloads: [{ text: "output" }] },
+      });
+      await expect(p).resolves.toMatchObject({ payloads: [{ text: "output" }] });
+      client.close();
+    });
+
+    it("fails plain requests right away", async () => {
+      const { client, ws } = await connectedClient({ reconnect: fastReconnect });
+      const p = client.request("status");
+      await flush();
+      ws.emit("close", 1006, "abnormal");
+      await expect(p).rejects.toThrow("OpenClaw gateway closed (1006): abnormal");
+      client.close();
+    });
+
+    it("reports runs as interrupted when the gateway stays unreachable", async () => {
+      const { client, ws } = await connectedClient({ reconnect: { ...fastReconnect, maxAttempts: 2 } });
+      const p = client.execute({ prompt: "Hello", sessionKey: "s1", timeoutSec: 10 });
+      const rejected = expect(p).rejects.toThrow(
+        /interrupted: gateway unreachable after 2 reconnect attempts \(OpenClaw gateway closed during connect \(1006\)\)/,
+      );
+      await flush();
+
+      ws.emit("close", 1006, "abnormal");
+      for (let attempt = 0; attempt < 2; attempt += 1) {
+        await flush();
+        getWs(client).emit("close", 1006, "refused");
+      }
+      await rejected;
+      await expect(p).rejects.toBeInstanceOf(OpenClawRunInterruptedError);
+      client.close();
+    });
+
+    it("reports runs as interrupted immediately when replay is disabled", async () => {
+      const { client, ws } = await connectedClient({ reconnect: { ...fastReconnect, replayRuns: false } });
+      const p = client.execute({ prompt: "Hello", sessionKey: "s1", timeoutSec: 10 });
+      await flush();
+
+      ws.emit("close", 1006, "abnormal");
+      await expect(p).rejects.toThrow(/interrupted: gateway connection lost/);
+      await flush();
+      expect(getWs(client)).toBeNull();
+    });
+
+    it("reports runs as interrupted when the gateway rejects the replay", async () => {
+      const { client, ws } = await connectedClient({ reconnect: fastReconnect });
+      const p = client.execute({ prompt: "Hello", sessionKey: "s1", timeoutSec: 10 });
+      await flush();
+
+      ws.emit("close", 1006, "abnormal");
+      await flush();
+      const next = getWs(client);
+      await handshake(next);
+      await flush();
+      sendResponse(next, lastSentId(next), false);
+
+      await expect(p).rejects.toThrow(/interrupted: gateway could not re-attach the run \(fail\)/);
+      client.close();
+    });
+  });
+
   describe("close", () => {
     it("flushes pending requests", async () => {
       const { client, ws } = await connectedClient();
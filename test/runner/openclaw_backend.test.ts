@@ -1,5 +1,14 @@
 import { describe, expect, it, vi } from "vitest";
-import { OpenClawExecutionBackend, isApprovalError } from "../../src/runner/openclaw_backend.ts";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  OpenClawExecutionBackend,
+  gatewayEventActivity,
+  gatewayEventProgress,
+  isApprovalError,
+} from "../../src/runner/openclaw_backend.ts";
+import { OpenClawRunInterruptedError } from "../../src/runner/openclaw.ts";
 import type { RunnerExecutionRequest } from "../../src/runner/execution.ts";
 import type { McpTaskPacket, OpenClawResult } from "../../src/types.ts";
 
@@ -9,11 +18,13 @@ import type { McpTaskPacket, OpenClawResult } from "../../src/types.ts";
 
 type OpenClawClientMock = {
   execute: ReturnType<typeof vi.fn>;
+  ping: ReturnType<typeof vi.fn>;
 };
 
 function createOpenClawClientMock(): OpenClawClientMock {
   return {
     execute: vi.fn(),
+    ping: vi.fn(),
   };
 }
 
@@ -49,6 +60,9 @@ function makeRequest(overrides: Partial<RunnerExecutionRequest> = {}): RunnerExe
       prompt: { rendered: "Do something" },
       execution: { backend: "openclaw" },
     },
+    onProgress: overrides.onProgress,
+    timeoutMs: overrides.timeoutMs,
+    workspaceDir: overrides.workspaceDir,
   };
 }
 
@@ -149,6 +163,33 @@ describe("OpenClawExecutionBackend.canExecute", () => {
 // Session key derivation
 // ---------------------------------------------------------------------------
 
+describe("OpenClawExecutionBackend.classifyError", () => {
+  it("treats dropped gateway connections as transient and approvals as permanent", () => {
+    const backend = makeBackend(createOpenClawClientMock());
+    expect(backend.classifyError(new Error("OpenClaw gateway closed (1006): "))).toBe("transient");
+    expect(backend.classifyError(new Error("OpenClaw connect timeout"))).toBe("transient");
+    expect(backend.classifyError(new Error("exec.approval required"))).toBe("permanent");
+    expect(backend.classifyError(new Error("unknown agent"))).toBe("permanent");
+    expect(
+      backend.classifyError(new OpenClawRunInterruptedError("run-1", "gateway connection lost (OpenClaw gateway closed (1006): )")),
+    ).toBe("permanent");
+  });
+});
+
+describe("OpenClawExecutionBackend.preflight", () => {
+  it("fails when the gateway doesn't answer a health request", async () => {
+    const client = createOpenClawClientMock();
+    client.ping.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+    const backend = makeBackend(client);
+
+    await expect(backend.preflight()).resolves.toEqual({ ok: true });
+    await expect(backend.preflight()).resolves.toEqual({
+      ok: false,
+      reason: "OpenClaw gateway health check failed",
+    });
+  });
+});
+
 describe("OpenClawExecutionBackend session key derivation", () => {
   it("derives correct session key for conductor-chat tasks", async () => {
     const client = createOpenClawClientMock();
@@ -174,6 +215,16 @@ describe("OpenClawExecutionBackend session key derivation", () => {
     );
   });
 
+  it("passes the task timeout to the gateway", async () => {
+    const client = createOpenClawClientMock();
+    client.execute.mockResolvedValue(makeSuccessResult());
+
+    const backend = makeBackend(client, { orgId: "org-42" });
+    await backend.execute(makeRequest({ timeoutMs: 90_500 }));
+
+    expect(client.execute).toHaveBeenCalledWith(expect.objectContaining({ timeoutSec: 91 }));
+  });
+
   it("falls back to 'main' thread for conductor-chat without threadId", async () => {
     const client = createOpenClawClientMock();
     client.execute.mockResolvedValue(makeSuccessResult());
@@ -340,6 +391,25 @@ describe("OpenClawExecutionBackend.execute", () => {
     expect(result.output).toBe("Something went wrong");
   });
 
+  it("fails permanently, keeping partial output, when the run was interrupted", async () => {
+    const client = createOpenClawClientMock();
+    client.execute.mockImplementation(async (opts: { onEvent?: (event: unknown) => void }) => {
+      opts.onEvent?.({ type: "event", event: "agent", payload: { stream: "assistant", data: { text: "Half done" } } });
+      throw new OpenClawRunInterruptedError("run-1", "gateway unreachable after 5 reconnect attempts");
+    });
+
+    const backend = makeBackend(client);
+    const result = await backend.execute(makeRequest({ onProgress: vi.fn() }));
+
+    expect(result).toMatchObject({
+      status: "failed",
+      output:
+        "OpenClaw run run-1 was interrupted: gateway unreachable after 5 reconnect attempts\n\nPartial output:\nHalf done",
+      errorKind: "permanent",
+    });
+    expect(JSON.parse(result.usageJson!)).toMatchObject({ interrupted: { runId: "run-1" }, activity: { counts: { text: 1 } } });
+  });
+
   it("returns cancelled status when aborted", async () => {
     const client = createOpenClawClientMock();
     client.execute.mockResolvedValue(
@@ -357,6 +427,103 @@ describe("OpenClawExecutionBackend.execute", () => {
     expect(result.output).toBe("Cancelled by user request");
   });
 
+  it("says so when the gateway didn't confirm a cancelled run stopped", async () => {
+    const client = createOpenClawClientMock();
+    client.execute.mockResolvedValue(
+      makeSuccessResult({
+        aborted: true,
+        payloads: [],
+        usage: undefined,
+        model: undefined,
+        cancel: { stopped: false, detail: "chat.abort failed: unknown method" },
+      }),
+    );
+
+    const result = await makeBackend(client).execute(makeRequest());
+
+    expect(result.status).toBe("cancelled");
+    expect(result.output).toBe(
+      "Cancelled by user request\n\nOpenClaw did not confirm the run stopped (chat.abort failed: unknown method); it may still be running on the gateway.",
+    );
+    expect(JSON.parse(result.usageJson!)).toEqual({
+      cancel: { stopped: false, detail: "chat.abort failed: unknown method" },
+    });
+  });
+
+  it("reports media payloads as artifacts", async () => {
+    const client = createOpenClawClientMock();
+    client.execute.mockResolvedValue(
+      makeSuccessResult({
+        payloads: [
+          { text: "Here is the chart" },
+          { mediaUrl: `data:image/png;base64,${Buffer.from("png").toString("base64")}` },
+        ],
+      }),
+    );
+
+    const result = await makeBackend(client).execute(makeRequest());
+
+    expect(result.output).toBe("Here is the chart");
+    expect(result.artifacts).toEqual([
+      {
+        name: "media-1.png",
+        mimeType: "image/png",
+        bytes: Buffer.from("png"),
+        sizeBytes: 3,
+        sha256: "8f8cbb7dcf46e0bc7d53265749a6c17d116093a6ba95e442764060c76fd4a86c",
+      },
+    ]);
+  });
+
+  it("reports the gateway agent's model as its default once a result names it", async () => {
+    const client = createOpenClawClientMock();
+    client.execute.mockResolvedValue(makeSuccessResult({ model: "claude-sonnet" }));
+    const backend = makeBackend(client);
+
+    expect(backend.defaultModel).toBeUndefined();
+    await backend.execute(makeRequest());
+    expect(backend.defaultModel).toBe("claude-sonnet");
+  });
+
+  it("reads local media only from the task workspace", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "flux-openclaw-media-test-"));
+    try {
+      fs.mkdirSync(path.join(dir, "workspace"));
+      fs.writeFileSync(path.join(dir, "workspace", "chart.png"), "png");
+      fs.writeFileSync(path.join(dir, "secret.txt"), "secret");
+      const client = createOpenClawClientMock();
+      client.execute.mockResolvedValue(
+        makeSuccessResult({
+          payloads: [
+            { mediaUrl: path.join(dir, "workspace", "chart.png") },
+            { mediaUrl: path.join(dir, "secret.txt") },
+          ],
+        }),
+      );
+
+      const result = await makeBackend(client).execute(makeRequest({ workspaceDir: path.join(dir, "workspace") }));
+
+      expect(result.artifacts).toEqual([
+        expect.objectContaining({ name: "chart.png", bytes: Buffer.from("png"), sizeBytes: 3 }),
+        { name: "secret.txt", mimeType: "text/plain", error: "outside the allowed media directories" },
+      ]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("lists the attachments when a run returns only media", async () => {
+    const client = createOpenClawClientMock();
+    client.execute.mockResolvedValue(makeSuccessResult({ payloads: [{ mediaUrl: "relative.png" }] }));
+
+    const result = await makeBackend(client).execute(makeRequest());
+
+    expect(result.output).toBe("Attached: relative.png");
+    expect(result.artifacts).toEqual([
+      { name: "relative.png", mimeType: "image/png", error: "unsupported media URL" },
+    ]);
+  });
+
   it("concatenates multiple text payloads with double newlines", async () => {
     const client = createOpenClawClientMock();
     client.execute.mockResolvedValue(
@@ -378,7 +545,7 @@ describe("OpenClawExecutionBackend.execute", () => {
     const client = createOpenClawClientMock();
     client.execute.mockResolvedValue(
       makeSuccessResult({
-        payloads: [{ mediaUrl: "https://example.com/image.png" }],
+        payloads: [{ text: "", isError: false }],
       }),
     );
 
@@ -451,6 +618,140 @@ describe("OpenClawExecutionBackend.execute", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Progress from gateway events
+// ---------------------------------------------------------------------------
+
+describe("gatewayEventProgress", () => {
+  it("uses cumulative assistant text when present", () => {
+    const event = { type: "event" as const, event: "agent", payload: { stream: "assistant", data: { text: "Hello world" } } };
+    expect(gatewayEventProgress(event, "Hello")).toEqual({ output: "Hello world" });
+  });
+
+  it("appends assistant deltas to the current output", () => {
+    const event = { type: "event" as const, event: "agent", payload: { stream: "assistant", data: { delta: " world" } } };
+    expect(gatewayEventProgress(event, "Hello")).toEqual({ output: "Hello world" });
+  });
+
+  it("maps tool events to a tool phase", () => {
+    const event = { type: "event" as const, event: "agent", payload: { stream: "tool", data: { name: "bash" } } };
+    expect(gatewayEventProgress(event, "")).toEqual({ phase: "tool:bash" });
+  });
+
+  it("ignores unrelated events", () => {
+    expect(gatewayEventProgress({ type: "event", event: "tick" }, "")).toBeNull();
+    expect(
+      gatewayEventProgress({ type: "event", event: "agent", payload: { stream: "lifecycle", data: {} } }, ""),
+    ).toBeNull();
+  });
+});
+
+describe("OpenClawExecutionBackend progress", () => {
+  it("forwards gateway events to onProgress", async () => {
+    const client = createOpenClawClientMock();
+    client.execute.mockImplementation(async (opts: { onEvent?: (event: unknown) => void }) => {
+      opts.onEvent?.({ type: "event", event: "agent", payload: { stream: "assistant", data: { delta: "Hel" } } });
+      opts.onEvent?.({ type: "event", event: "agent", payload: { stream: "assistant", data: { delta: "lo" } } });
+      opts.onEvent?.({ type: "event", event: "health" });
+      return makeSuccessResult();
+    });
+    const onProgress = vi.fn();
+
+    await makeBackend(client).execute(makeRequest({ onProgress }));
+
+    expect(onProgress.mock.calls).toEqual([[{ output: "Hel" }], [{ output: "Hello" }]]);
+  });
+
+  it("reports an activity digest when tool calls, thinking, or errors arrive", async () => {
+    const client = createOpenClawClientMock();
+    client.execute.mockImplementation(async (opts: { onEvent?: (event: unknown) => void }) => {
+      const agent = (stream: string, data: Record<string, unknown>) =>
+        opts.onEvent?.({ type: "event", event: "agent", payload: { stream, data } });
+      agent("thinking", { delta: "Plan" });
+      agent("tool", { phase: "start", name: "bash", args: { command: "ls" } });
+      agent("tool", { phase: "result", name: "bash", result: "a.txt" });
+      return makeSuccessResult();
+    });
+    const onProgress = vi.fn();
+
+    await makeBackend(client).execute(makeRequest({ onProgress }));
+
+    expect(onProgress.mock.calls).toEqual([
+      [{ activity: "1 thinking block" }],
+      [{ phase: "tool:bash", activity: "1 tool call (bash), 1 thinking block" }],
+      [{ phase: "tool:bash" }],
+    ]);
+  });
+
+  it("attaches the activity log to usageJson, with or without a progress callback", async () => {
+    const client = createOpenClawClientMock();
+    client.execute.mockImplementation(async (opts: { onEvent?: (event: unknown) => void }) => {
+      opts.onEvent?.({
+        type: "event",
+        event: "agent",
+        payload: { stream: "tool", data: { name: "read", args: { path: "README.md" } } },
+      });
+      return makeSuccessResult();
+    });
+
+    const result = await makeBackend(client).execute(makeRequest());
+
+    expect(JSON.parse(result.usageJson!)).toEqual({
+      inputTokens: 100,
+      outputTokens: 50,
+      tokensUsed: 150,
+      model: "claude-3.5-sonnet",
+      activity: {
+        counts: { tool: 1 },
+        tools: { read: 1 },
+        entries: [{ offsetMs: expect.any(Number), kind: "tool", name: "read", detail: '{"path":"README.md"}' }],
+      },
+    });
+  });
+
+  it("leaves usageJson free of activity when the gateway sent no events", async () => {
+    const client = createOpenClawClientMock();
+    client.execute.mockResolvedValue(makeSuccessResult());
+
+    const result = await makeBackend(client).execute(makeRequest());
+
+    expect(JSON.parse(result.usageJson!)).not.toHaveProperty("activity");
+  });
+});
+
+describe("gatewayEventActivity", () => {
+  const agent = (stream: string, data: Record<string, unknown> = {}) => ({
+    type: "event" as const,
+    event: "agent",
+    payload: { stream, data },
+  });
+
+  it("records tool starts and failed tool results", () => {
+    expect(gatewayEventActivity(agent("tool", { phase: "start", name: "bash", args: "ls" }))).toEqual({
+      kind: "tool",
+      name: "bash",
+      detail: "ls",
+    });
+    expect(gatewayEventActivity(agent("tool", { phase: "update", name: "bash" }))).toBeNull();
+    expect(gatewayEventActivity(agent("tool", { phase: "result", name: "bash", result: "ok" }))).toBeNull();
+    expect(
+      gatewayEventActivity(agent("tool", { phase: "result", name: "bash", isError: true, result: "exit 1" })),
+    ).toEqual({ kind: "error", name: "bash", detail: "exit 1" });
+  });
+
+  it("maps thinking, text, and lifecycle streams", () => {
+    expect(gatewayEventActivity(agent("reasoning", { delta: "…" }))).toEqual({ kind: "thinking" });
+    expect(gatewayEventActivity(agent("assistant", { delta: "Hi" }))).toEqual({ kind: "text" });
+    expect(gatewayEventActivity(agent("lifecycle", { phase: "start" }))).toEqual({ kind: "lifecycle", name: "start" });
+    expect(gatewayEventActivity(agent("lifecycle", { phase: "error", error: "model overloaded" }))).toEqual({
+      kind: "error",
+      name: "lifecycle",
+      detail: "model overloaded",
+    });
+    expect(gatewayEventActivity({ type: "event", event: "health" })).toBeNull();
+  });
+});
+
 // ---------------------------------------------------------------------------
 // id property
 // ---------------------------------------------------------------------------
@@ -0,0 +1,103 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { McpHttpError } from "../../src/runner/client.ts";
+import { CompletionOutbox } from "../../src/runner/outbox.ts";
+
+describe("CompletionOutbox", () => {
+  let dir: string;
+  let outbox: CompletionOutbox;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "flux-outbox-test-"));
+    outbox = new CompletionOutbox({ dir });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("is empty when nothing has been queued", () => {
+    expect(new CompletionOutbox({ dir: path.join(dir, "missing") }).list()).toEqual([]);
+  });
+
+  it("persists queued completions with the delivery error", () => {
+    outbox.enqueue("task-1", "session-1", { status: "done", output: "ok" }, new Error("ECONNREFUSED"));
+
+    const reopened = new CompletionOutbox({ dir });
+    expect(reopened.list()).toEqual([
+      expect.objectContaining({
+        taskId: "task-1",
+        sessionId: "session-1",
+        result: { status: "done", output: "ok" },
+        attempts: 1,
+        lastError: "ECONNREFUSED",
+      }),
+    ]);
+    expect(reopened.size).toBe(1);
+  });
+
+  it("delivers entries oldest first and removes them", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T00:00:02Z"));
+    outbox.enqueue("task-b", "s-b", { status: "done", output: "b" });
+    vi.setSystemTime(new Date("2026-01-01T00:00:01Z"));
+    outbox.enqueue("task-a", "s-a", { status: "failed", output: "a" });
+    vi.useRealTimers();
+    const completeTask = vi.fn().mockResolvedValue({ ok: true });
+
+    const outcomes = await outbox.flush({ completeTask });
+
+    expect(completeTask.mock.calls.map((call) => call[0])).toEqual(["task-a", "task-b"]);
+    expect(outcomes).toEqual([
+      { taskId: "task-a", action: "delivered" },
+      { taskId: "task-b", action: "delivered" },
+    ]);
+    expect(outbox.list()).toEqual([]);
+  });
+
+  it("stops at the first transient failure and records the attempt", async () => {
+    outbox.enqueue("task-1", "s-1", { status: "done", output: "1" });
+    outbox.enqueue("task-2", "s-2", { status: "done", output: "2" });
+    const completeTask = vi.fn().mockRejectedValue(new McpHttpError("unavailable", { status: 503 }));
+
+    const outcomes = await outbox.flush({ completeTask });
+
+    expect(completeTask).toHaveBeenCalledTimes(1);
+    expect(outcomes).toEqual([
+      { taskId: expect.any(String), action: "deferred", error: "unavailable" },
+    ]);
+    const deferred = outbox.list().find((entry) => entry.taskId === outcomes[0].taskId);
+    expect(deferred).toMatchObject({ attempts: 2, lastError: "unavailable" });
+    expect(outbox.size).toBe(2);
+  });
+
+  it("drops entries the server permanently rejects", async () => {
+    outbox.enqueue("task-1", "s-1", { status: "done", output: "1" });
+    const completeTask = vi.fn().mockRejectedValue(new McpHttpError("session expired", { status: 409 }));
+
+    const outcomes = await outbox.flush({ completeTask });
+
+    expect(outcomes).toEqual([{ taskId: "task-1", action: "dropped", error: "session expired" }]);
+    expect(outbox.list()).toEqual([]);
+  });
+
+  it("shares an in-progress flush between concurrent callers", async () => {
+    outbox.enqueue("task-1", "s-1", { status: "done", output: "1" });
+    let release: () => void = () => {};
+    const completeTask = vi.fn().mockImplementation(
+      () => new Promise<void>((resolve) => {
+        release = resolve;
+      }),
+    );
+
+    const first = outbox.flush({ completeTask });
+    const second = outbox.flush({ completeTask });
+    release();
+
+    expect(await first).toBe(await second);
+    expect(completeTask).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import {
+  compileOutputSchema,
+  repairPrompt,
+  summarizeAjvErrors,
+} from "../../src/runner/output_schema.ts";
+
+const schema = JSON.stringify({
+  type: "object",
+  required: ["name"],
+  properties: { name: { type: "string" }, count: { type: "integer" } },
+});
+
+describe("compileOutputSchema", () => {
+  it("accepts output that matches the schema", () => {
+    expect(compileOutputSchema(schema)('{"name":"test"}')).toBeNull();
+  });
+
+  it("summarizes schema violations", () => {
+    expect(compileOutputSchema(schema)('{"count":"x"}')).toBe(
+      "/ must have required property 'name'; /count must be integer",
+    );
+  });
+
+  it("rejects output that is not JSON", () => {
+    expect(compileOutputSchema(schema)("plain text, not json")).toBe("output is not valid JSON");
+  });
+
+  it("throws for a schema that is not valid JSON", () => {
+    expect(() => compileOutputSchema("{bad json")).toThrow(
+      "packet execution.outputSchemaJson is not valid JSON",
+    );
+  });
+
+  it("throws for a schema that cannot be compiled", () => {
+    expect(() => compileOutputSchema(JSON.stringify({ type: "nonsense" }))).toThrow(
+      /not a valid JSON Schema/,
+    );
+  });
+});
+
+describe("summarizeAjvErrors", () => {
+  it("keeps the first three errors", () => {
+    const errors = ["/a", "/b", "/c", "/d"].map((instancePath) => ({ instancePath, message: "bad" }));
+    expect(summarizeAjvErrors(errors)).toBe("/a bad; /b bad; /c bad");
+    expect(summarizeAjvErrors(null)).toBe("unknown schema validation error");
+  });
+});
+
+describe("repairPrompt", () => {
+  it("includes the original prompt, previous output, errors, and schema", () => {
+    const prompt = repairPrompt("Summarize the report", schema, '{"count":1}', "/ must have required property 'name'");
+
+    expect(prompt.startsWith("Summarize the report\n")).toBe(true);
+    expect(prompt).toContain('### Previous response\n{"count":1}');
+    expect(prompt).toContain("### Errors\n/ must have required property 'name'");
+    expect(prompt).toContain(`### Required JSON Schema\n${schema}`);
+  });
+});
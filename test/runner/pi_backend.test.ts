@@ -176,6 +176,34 @@ describe("PiExecutionBackend", () => {
     expect(result.output).toBe("Hello world");
   });
 
+  it("reports cumulative streamed text as progress", async () => {
+    mockFind.mockReturnValue({ api: "openai", baseUrl: "https://api.test" });
+    mockGetApiKey.mockResolvedValue("key-123");
+    mockSubscribe.mockImplementation((cb: (event: unknown) => void) => {
+      cb({
+        type: "message_update",
+        assistantMessageEvent: { type: "text_delta", delta: "Hello " },
+      });
+      cb({
+        type: "message_update",
+        assistantMessageEvent: { type: "text_delta", delta: "world" },
+      });
+      return vi.fn();
+    });
+    mockPrompt.mockResolvedValue(undefined);
+    const onProgress = vi.fn();
+
+    const backend = new PiExecutionBackend({ agentDir: "/tmp/agent" });
+    await backend.execute({
+      taskId: "t1", taskType: "demo", prompt: "", startedAt: Date.now(),
+      abortSignal: new AbortController().signal,
+      packet: { prompt: { rendered: "hello" }, execution: { backend: "pi", model: "prov/mod" } },
+      onProgress,
+    } as never);
+
+    expect(onProgress.mock.calls).toEqual([[{ output: "Hello " }], [{ output: "Hello world" }]]);
+  });
+
   it("falls back to session messages when no streamed text", async () => {
     mockFind.mockReturnValue({ api: "openai", baseUrl: "https://api.test" });
     mockGetApiKey.mockResolvedValue("key-123");
@@ -243,125 +271,6 @@ describe("PiExecutionBackend", () => {
     expect(result.output).toContain("model error");
   });
 
-  it("validates output against JSON schema when provided", async () => {
-    mockFind.mockReturnValue({ api: "openai", baseUrl: "https://api.test" });
-    mockGetApiKey.mockResolvedValue("key-123");
-    mockSubscribe.mockImplementation((cb: (event: unknown) => void) => {
-      cb({
-        type: "message_update",
-        assistantMessageEvent: { type: "text_delta", delta: '{"name":"test"}' },
-      });
-      return vi.fn();
-    });
-    mockPrompt.mockResolvedValue(undefined);
-
-    const backend = new PiExecutionBackend({ agentDir: "/tmp/agent" });
-    const result = await backend.execute({
-      taskId: "t1", taskType: "demo", prompt: "", startedAt: Date.now(),
-      abortSignal: new AbortController().signal,
-      packet: {
-        prompt: { rendered: "hello" },
-        execution: {
-          backend: "pi",
-          model: "prov/mod",
-          outputSchemaJson: JSON.stringify({
-            type: "object",
-            properties: { name: { type: "string" } },
-            required: ["name"],
-          }),
-        },
-      },
-    } as never);
-    expect(result.status).toBe("done");
-  });
-
-  it("fails when output does not match JSON schema", async () => {
-    mockFind.mockReturnValue({ api: "openai", baseUrl: "https://api.test" });
-    mockGetApiKey.mockResolvedValue("key-123");
-    mockSubscribe.mockImplementation((cb: (event: unknown) => void) => {
-      cb({
-        type: "message_update",
-        assistantMessageEvent: { type: "text_delta", delta: '{"wrong":"field"}' },
-      });
-      return vi.fn();
-    });
-    mockPrompt.mockResolvedValue(undefined);
-
-    const backend = new PiExecutionBackend({ agentDir: "/tmp/agent" });
-    const result = await backend.execute({
-      taskId: "t1", taskType: "demo", prompt: "", startedAt: Date.now(),
-      abortSignal: new AbortController().signal,
-      packet: {
-        prompt: { rendered: "hello" },
-        execution: {
-          backend: "pi",
-          model: "prov/mod",
-          outputSchemaJson: JSON.stringify({
-            type: "object",
-            required: ["name"],
-            properties: { name: { type: "string" } },
-          }),
-        },
-      },
-    } as never);
-    expect(result.status).toBe("failed");
-    expect(result.output).toContain("validation failed");
-  });
-
-  it("fails when outputSchemaJson is not valid JSON", async () => {
-    mockFind.mockReturnValue({ api: "openai", baseUrl: "https://api.test" });
-    mockGetApiKey.mockResolvedValue("key-123");
-    mockSubscribe.mockImplementation((cb: (event: unknown) => void) => {
-      cb({
-        type: "message_update",
-        assistantMessageEvent: { type: "text_delta", delta: '{"a":1}' },
-      });
-      return vi.fn();
-    });
-    mockPrompt.mockResolvedValue(undefined);
-
-    const backend = new PiExecutionBackend({ agentDir: "/tmp/agent" });
-    const result = await backend.execute({
-      taskId: "t1", taskType: "demo", prompt: "", startedAt: Date.now(),
-      abortSignal: new AbortController().signal,
-      packet: {
-        prompt: { rendered: "hello" },
-        execution: { backend: "pi", model: "prov/mod", outputSchemaJson: "{bad json" },
-      },
-    } as never);
-    expect(result.status).toBe("failed");
-    expect(result.output).toContain("not valid JSON");
-  });
-
-  it("fails when output is not valid JSON but schema requires it", async () => {
-    mockFind.mockReturnValue({ api: "openai", baseUrl: "https://api.test" });
-    mockGetApiKey.mockResolvedValue("key-123");
-    mockSubscribe.mockImplementation((cb: (event: unknown) => void) => {
-      cb({
-        type: "message_update",
-        assistantMessageEvent: { type: "text_delta", delta: "plain text, not json" },
-      });
-      return vi.fn();
-    });
-    mockPrompt.mockResolvedValue(undefined);
-
-    const backend = new PiExecutionBackend({ agentDir: "/tmp/agent" });
-    const result = await backend.execute({
-      taskId: "t1", taskType: "demo", prompt: "", startedAt: Date.now(),
-      abortSignal: new AbortController().signal,
-      packet: {
-        prompt: { rendered: "hello" },
-        execution: {
-          backend: "pi",
-          model: "prov/mod",
-          outputSchemaJson: JSON.stringify({ type: "object" }),
-        },
-      },
-    } as never);
-    expect(result.status).toBe("failed");
-    expect(result.output).toContain("output is not valid JSON");
-  });
-
   it("returns (empty response) when no output and not cancelled", async () => {
     mockFind.mockReturnValue({ api: "openai", baseUrl: "https://api.test" });
     mockGetApiKey.mockResolvedValue("key-123");
@@ -289,6 +289,31 @@ describe("FluxPushClient", () => {
     pushClient.stop();
   });
 
+  it("emits 'reconnecting' once per drop, even when error and close both fire", async () => {
+    const fluxClient = createFluxClientMock();
+    fluxClient.mintPushTicket.mockResolvedValue({ ticket: "t1" });
+
+    const pushClient = makePushClient(fluxClient, { reconnectBaseMs: 100 });
+    const reconnecting = vi.fn();
+    pushClient.on("reconnecting", reconnecting);
+    pushClient.on("error", () => {});
+
+    await pushClient.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    const ws = (pushClient as unknown as { ws: MockWebSocket }).ws;
+    ws.emit("error", new Error("reset"));
+    ws.emit("close");
+
+    expect(reconnecting).toHaveBeenCalledTimes(1);
+    expect(reconnecting).toHaveBeenCalledWith({ attempt: 1, delayMs: 100 });
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(fluxClient.mintPushTicket).toHaveBeenCalledTimes(2);
+
+    pushClient.stop();
+  });
+
   it("does not reconnect after stop()", async () => {
     const fluxClient = createFluxClientMock();
     const pushClient = makePushClient(fluxClient, { reconnectBaseMs: 50 });
@@ -305,6 +330,51 @@ describe("FluxPushClient", () => {
     expect(fluxClient.mintPushTicket).toHaveBeenCalledTimes(1);
   });
 
+  it("updateFilters() mints a ticket for the new filters and replaces the socket quietly", async () => {
+    const fluxClient = createFluxClientMock();
+    const pushClient = makePushClient(fluxClient, { reconnectBaseMs: 100 });
+    const disconnected = vi.fn();
+    const connected = vi.fn();
+    pushClient.on("disconnected", disconnected);
+    pushClient.on("connected", connected);
+
+    await pushClient.start();
+    await vi.advanceTimersByTimeAsync(0);
+    const first = (pushClient as unknown as { ws: MockWebSocket }).ws;
+
+    await pushClient.updateFilters({ streamId: "stream-2", backend: undefined, costClass: "cheap" });
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(first.closeCalled).toBe(true);
+    expect(disconnected).not.toHaveBeenCalled();
+    expect(connected).toHaveBeenCalledTimes(2);
+    expect(fluxClient.mintPushTicket).toHaveBeenCalledTimes(2);
+    expect(fluxClient.mintPushTicket).toHaveBeenLastCalledWith(
+      expect.objectContaining({ streamId: "stream-2", backend: undefined, costClass: "cheap" }),
+    );
+
+    pushClient.stop();
+  });
+
+  it("updateFilters() falls back to a backoff reconnect when minting fails", async () => {
+    const fluxClient = createFluxClientMock();
+    const pushClient = makePushClient(fluxClient, { reconnectBaseMs: 100 });
+    const errorHandler = vi.fn();
+    pushClient.on("error", errorHandler);
+
+    await pushClient.start();
+    await vi.advanceTimersByTimeAsync(0);
+    fluxClient.mintPushTicket.mockRejectedValueOnce(new Error("Network error"));
+
+    await pushClient.updateFilters({ streamId: "stream-2" });
+    expect(errorHandler).toHaveBeenCalledWith(expect.objectContaining({ message: "Network error" }));
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(fluxClient.mintPushTicket).toHaveBeenCalledTimes(3);
+
+    pushClient.stop();
+  });
+
   // ---------------------------------------------------------------------------
   // mintPushTicket failure
   // ---------------------------------------------------------------------------
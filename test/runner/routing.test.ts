@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { RoutingTable } from "../../src/runner/routing.ts";
+import type { McpTaskPacket } from "../../src/types.ts";
+
+function makeTable() {
+  return new RoutingTable([
+    { name: "cheap", match: { costClass: "cheap" }, backend: "claude" },
+    { name: "research", match: { streamId: "s-research" }, backend: "pi", model: "big", priority: 10 },
+    { match: { streamId: "s-research", costClass: "cheap" }, priority: 10 },
+  ]);
+}
+
+describe("RoutingTable", () => {
+  it("orders routes by priority, keeping declaration order for ties", () => {
+    const table = makeTable();
+
+    expect(table.size).toBe(3);
+    expect(table.list().map((route) => route.name)).toEqual(["research", "route-3", "cheap"]);
+    expect(table.list()[2]).toEqual({
+      name: "cheap",
+      match: { costClass: "cheap" },
+      backend: "claude-cli",
+      model: undefined,
+      priority: 0,
+    });
+  });
+
+  it("lists one filter per distinct match, highest priority first", () => {
+    const table = new RoutingTable([
+      { match: { costClass: "cheap" } },
+      { match: { streamId: "s-1" }, priority: 5 },
+      { match: { costClass: "cheap" }, backend: "pi" },
+    ]);
+
+    expect(table.listFilters()).toEqual([{ streamId: "s-1" }, { costClass: "cheap" }]);
+  });
+
+  it("keeps only the push filter fields every route agrees on", () => {
+    expect(makeTable().pushFilter()).toEqual({});
+    expect(
+      new RoutingTable([
+        { match: { streamId: "s-1", costClass: "cheap" } },
+        { match: { streamId: "s-1" }, backend: "pi" },
+      ]).pushFilter(),
+    ).toEqual({ streamId: "s-1" });
+  });
+
+  it("matches push events, treating fields the event omits as wildcards", () => {
+    const table = new RoutingTable([{ match: { streamId: "s-1", backend: "pi" } }]);
+
+    expect(table.matchesEvent({ streamId: "s-1" })).toBe(true);
+    expect(table.matchesEvent({})).toBe(true);
+    expect(table.matchesEvent({ streamId: "s-2" })).toBe(false);
+    expect(table.matchesEvent({ streamId: "s-1", backend: "claude" })).toBe(false);
+  });
+
+  it("leaves out routes whose backend is unavailable", () => {
+    const table = new RoutingTable([
+      { match: { streamId: "s-1" }, backend: "pi", priority: 5 },
+      { match: { streamId: "s-2", costClass: "cheap" }, backend: "claude" },
+      { match: { costClass: "cheap" } },
+    ]);
+    const withoutPi = (backend: string) => backend !== "pi";
+
+    expect(table.listFilters(withoutPi)).toEqual([{ streamId: "s-2", costClass: "cheap" }, { costClass: "cheap" }]);
+    expect(table.pushFilter(withoutPi)).toEqual({ costClass: "cheap" });
+    expect(table.matchesEvent({ streamId: "s-1", costClass: "standard" }, withoutPi)).toBe(false);
+    expect(table.matchesEvent({ streamId: "s-1", costClass: "standard" })).toBe(true);
+    // With nothing available the push filter still covers every route.
+    expect(new RoutingTable([{ match: { streamId: "s-1" }, backend: "pi" }]).pushFilter(() => false)).toEqual({
+      streamId: "s-1",
+    });
+  });
+
+  it("picks the highest-priority matching route for a packet", () => {
+    const table = makeTable();
+    const packet = (overrides: Partial<McpTaskPacket>): McpTaskPacket => ({ task: { id: "t" }, ...overrides });
+
+    expect(table.match(packet({ streamId: "s-research", execution: { costClass: "cheap" } }))?.name).toBe(
+      "research",
+    );
+    expect(table.match(packet({ execution: { costClass: "cheap" } }))?.name).toBe("cheap");
+    expect(table.match(packet({ task: { id: "t", streamId: "other" } }))).toBeNull();
+  });
+
+  it("applies backend and model overrides without mutating the packet", () => {
+    const table = makeTable();
+    const packet: McpTaskPacket = {
+      task: { id: "t", streamId: "s-research" },
+      execution: { backend: "claude-cli", costClass: "cheap" },
+    };
+
+    const { packet: routed, route } = table.apply(packet);
+
+    expect(route?.name).toBe("research");
+    expect(routed.execution).toEqual({ backend: "pi", model: "big", costClass: "cheap" });
+    expect(packet.execution).toEqual({ backend: "claude-cli", costClass: "cheap" });
+    expect(table.apply({ task: { id: "t" } }).packet).toEqual({ task: { id: "t" } });
+  });
+
+  it("reports the backends routes target, or null when one defers to the packet", () => {
+    expect(
+      new RoutingTable([{ backend: "pi" }, { match: { backend: "codex" } }]).backends(),
+    ).toEqual(["pi", "codex-cli"]);
+    expect(makeTable().backends()).toBeNull();
+  });
+});
@@ -0,0 +1,239 @@
+import { describe, expect, it, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  RunnerFileError,
+  expandHomePath,
+  formatRunnerFileIssue,
+  loadRunnerFile,
+  parseRunnerFile,
+  resolveRunnerFilePath,
+} from "../../src/runner/runner_file.ts";
+
+describe("parseRunnerFile", () => {
+  it("accepts a complete config", () => {
+    const { config, issues } = parseRunnerFile(
+      [
+        "version: 1",
+        "filters:",
+        "  backend: pi",
+        "  streamId: stream-1",
+        "backends:",
+        "  allowDirectCli: true",
+        "  fallbackChain: [openclaw, claude-cli, pi]",
+        "  healthCheckSeconds: 60",
+        "  openclaw:",
+        "    gatewayUrl: ws://127.0.0.1:18789",
+        "  pi:",
+        "    agentDir: ~/agents/pi",
+        "polling:",
+        "  cadenceMinutes: 5",
+        "concurrency:",
+        "  max: 3",
+        "  perBackend:",
+        "    pi: 2",
+        "timeouts:",
+        "  heartbeatSeconds: 15",
+        "  shutdownGraceSeconds: 120",
+        "execution:",
+        "  maxAttempts: 4",
+        "  outputRepairAttempts: 2",
+        "workspaces:",
+        "  retention: keep",
+        "logging:",
+        "  level: warn",
+        "metrics:",
+        "  port: 9464",
+        "tracing:",
+        "  exporter: file",
+        "",
+      ].join("\n"),
+    );
+
+    expect(issues).toEqual([]);
+    expect(config.concurrency).toEqual({ max: 3, perBackend: { pi: 2 } });
+    expect(config.backends?.openclaw?.gatewayUrl).toBe("ws://127.0.0.1:18789");
+    expect(config.logging?.level).toBe("warn");
+  });
+
+  it("validates routes", () => {
+    const valid = parseRunnerFile(
+      [
+        "routes:",
+        "  - name: research",
+        "    match:",
+        "      streamId: s-research",
+        "    backend: pi",
+        "    model: big",
+        "    priority: 10",
+        "  - match: { costClass: cheap }",
+        "    backend: claude-cli",
+        "",
+      ].join("\n"),
+    );
+    expect(valid.issues).toEqual([]);
+    expect(valid.config.routes).toHaveLength(2);
+
+    const invalid = parseRunnerFile("routes:\n  - backend: pi\n    priority: high\n    mach: {}\n");
+    expect(invalid.issues).toEqual([
+      { path: "routes.0.mach", message: 'has unknown key "mach"', line: 4, column: 5 },
+      { path: "routes.0.priority", message: "must be integer", line: 3, column: 15 },
+    ]);
+  });
+
+  it("validates budgets", () => {
+    const valid = parseRunnerFile(
+      [
+        "budgets:",
+        "  - name: pi-daily",
+        "    period: daily",
+        "    match: { backend: pi }",
+        "    maxCostUsd: 5",
+        "    escalate: true",
+        "  - period: monthly",
+        "    maxTokens: 2000000",
+        "",
+      ].join("\n"),
+    );
+    expect(valid.issues).toEqual([]);
+    expect(valid.config.budgets).toHaveLength(2);
+
+    const invalid = parseRunnerFile("budgets:\n  - period: weekly\n  - name: none\n    period: daily\n");
+    expect(invalid.issues).toEqual([
+      { path: "budgets.0", message: "must set maxTokens or maxCostUsd", line: 2, column: 5 },
+      { path: "budgets.0.period", message: "must be one of: daily, monthly", line: 2, column: 13 },
+      { path: "budgets.1", message: "must set maxTokens or maxCostUsd", line: 3, column: 5 },
+    ]);
+    expect(parseRunnerFile("budgets:\n  - maxTokens: 10\n").issues).toEqual([
+      { path: "budgets.0", message: 'is missing "period"', line: 2, column: 5 },
+    ]);
+  });
+
+  it("treats an empty document as an empty config", () => {
+    expect(parseRunnerFile("")).toEqual({ config: {}, issues: [] });
+    expect(parseRunnerFile("# nothing yet\n")).toEqual({ config: {}, issues: [] });
+  });
+
+  it("reports schema errors at the line and column of the offending value", () => {
+    const { issues } = parseRunnerFile(
+      [
+        "concurrency:",
+        "  max: 0",
+        "  perBackend:",
+        "    pi: two",
+        "logging:",
+        "  level: debug",
+        "backends:",
+        "  openclaw:",
+        "    gatewayUrl: http://gateway",
+        "timeouts:",
+        "  heartbeatSeconds: 5",
+        "tracing:",
+        "  endpoint: collector:4318",
+        "",
+      ].join("\n"),
+    );
+
+    expect(issues).toEqual(
+      expect.arrayContaining([
+        { path: "concurrency.max", message: "must be >= 1", line: 2, column: 8 },
+        { path: "concurrency.perBackend.pi", message: "must be integer", line: 4, column: 9 },
+        { path: "logging.level", message: "must be one of: info, warn, error", line: 6, column: 10 },
+        {
+          path: "backends.openclaw.gatewayUrl",
+          message: "must be a ws:// or wss:// URL",
+          line: 9,
+          column: 17,
+        },
+        { path: "timeouts.heartbeatSeconds", message: "must be >= 10", line: 11, column: 21 },
+        { path: "tracing.endpoint", message: "must be an http:// or https:// URL", line: 13, column: 13 },
+      ]),
+    );
+  });
+
+  it("points unknown keys at the key itself", () => {
+    const { issues } = parseRunnerFile("polling:\n  cadenceMinutes: 5\n  cadenceMinuets: 5\n");
+
+    expect(issues).toEqual([
+      {
+        path: "polling.cadenceMinuets",
+        message: 'has unknown key "cadenceMinuets"',
+        line: 3,
+        column: 3,
+      },
+    ]);
+  });
+
+  it("reports YAML syntax errors with their position", () => {
+    const { issues } = parseRunnerFile("polling:\n  cadenceMinutes: 5\n bad indent: [\n");
+
+    expect(issues.length).toBeGreaterThan(0);
+    expect(issues[0].line).toBeGreaterThanOrEqual(2);
+    expect(issues[0].path).toBe("");
+  });
+
+  it("rejects a top-level value that is not a mapping", () => {
+    const { issues } = parseRunnerFile("- pi\n- claude-cli\n");
+
+    expect(issues).toEqual([{ path: "", message: "must be object", line: 1, column: 1 }]);
+  });
+});
+
+describe("formatRunnerFileIssue", () => {
+  it("prefixes the position when known", () => {
+    expect(formatRunnerFileIssue({ path: "a.b", message: "must be integer", line: 3, column: 5 })).toBe(
+      "3:5 a.b must be integer",
+    );
+    expect(formatRunnerFileIssue({ path: "", message: "must be object" })).toBe("(root) must be object");
+  });
+});
+
+describe("loadRunnerFile", () => {
+  let dir: string;
+  const original = process.env.FLUX_RUNNER_CONFIG;
+
+  afterEach(() => {
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+    if (original === undefined) delete process.env.FLUX_RUNNER_CONFIG;
+    else process.env.FLUX_RUNNER_CONFIG = original;
+  });
+
+  it("returns null when the file does not exist", () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "flux-runner-file-test-"));
+    expect(loadRunnerFile(path.join(dir, "runner.yaml"))).toBeNull();
+  });
+
+  it("throws RunnerFileError listing every issue", () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "flux-runner-file-test-"));
+    const filePath = path.join(dir, "runner.yaml");
+    fs.writeFileSync(filePath, "concurrency:\n  max: -1\nextra: true\n");
+
+    let caught: unknown;
+    try {
+      loadRunnerFile(filePath);
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(RunnerFileError);
+    expect((caught as RunnerFileError).issues).toHaveLength(2);
+    expect((caught as Error).message).toContain(`Invalid runner config ${filePath}`);
+    expect((caught as Error).message).toContain("2:8 concurrency.max must be >= 1");
+  });
+
+  it("resolves the path from FLUX_RUNNER_CONFIG, then ~/.flux/runner.yaml", () => {
+    process.env.FLUX_RUNNER_CONFIG = "/etc/flux/runner.yaml";
+    expect(resolveRunnerFilePath("/tmp/explicit.yaml")).toBe("/tmp/explicit.yaml");
+    expect(resolveRunnerFilePath()).toBe("/etc/flux/runner.yaml");
+    delete process.env.FLUX_RUNNER_CONFIG;
+    expect(resolveRunnerFilePath()).toBe(path.join(os.homedir(), ".flux", "runner.yaml"));
+  });
+});
+
+describe("expandHomePath", () => {
+  it("expands a leading ~/ only", () => {
+    expect(expandHomePath("~/agents")).toBe(path.join(os.homedir(), "agents"));
+    expect(expandHomePath("/abs/~/x")).toBe("/abs/~/x");
+  });
+});
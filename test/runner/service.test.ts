@@ -428,6 +428,110 @@ describe("plist XML structure (install output)", () => {
     expect(content).not.toContain("OPENCLAW_AGENT_ID");
   });
 
+  it("gives the service manager the shutdown grace period plus slack before SIGKILL", () => {
+    process.env.FLUX_SHUTDOWN_GRACE_SECONDS = "120";
+    try {
+      handleServiceCommand("install");
+    } catch {
+      // expected exit
+    }
+
+    const plistPath = path.join(tempDir, "Library", "LaunchAgents", "ai.fluxhive.runner.plist");
+    const unitPath = path.join(tempDir, ".config", "systemd", "user", "fluxhive-runner.service");
+    if (fs.existsSync(plistPath)) {
+      const content = fs.readFileSync(plistPath, "utf8");
+      expect(content).toContain("<key>ExitTimeOut</key>\n    <integer>150</integer>");
+    } else if (fs.existsSync(unitPath)) {
+      const content = fs.readFileSync(unitPath, "utf8");
+      expect(content).toContain("TimeoutStopSec=150");
+      expect(content).toContain("ExecReload=/bin/kill -HUP $MAINPID");
+    }
+  });
+
+  it("passes execution settings through to the service environment", () => {
+    const settings: Record<string, string> = {
+      FLUX_OUTPUT_REPAIR_ATTEMPTS: "2",
+      FLUX_HEALTH_CHECK_SECONDS: "45",
+      FLUX_BACKEND_FALLBACK: "openclaw,pi",
+      FLUX_EXECUTION_MAX_ATTEMPTS: "4",
+    };
+    Object.assign(process.env, settings);
+    try {
+      handleServiceCommand("install");
+    } catch {
+      // expected exit
+    }
+
+    const plistPath = path.join(tempDir, "Library", "LaunchAgents", "ai.fluxhive.runner.plist");
+    const unitPath = path.join(tempDir, ".config", "systemd", "user", "fluxhive-runner.service");
+    const content = fs.existsSync(plistPath)
+      ? fs.readFileSync(plistPath, "utf8")
+      : fs.readFileSync(unitPath, "utf8");
+    for (const [key, value] of Object.entries(settings)) {
+      expect(content).toMatch(new RegExp(`Environment=${key}=${value}\\n|<key>${key}</key>\\s*<string>${value}</string>`));
+    }
+  });
+
+  it("passes OTLP endpoints through but keeps OTLP headers out of the service definition", () => {
+    process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT = "http://collector:4318/v1/traces";
+    process.env.OTEL_EXPORTER_OTLP_HEADERS = "x-api-key=secret";
+    try {
+      handleServiceCommand("install");
+    } catch {
+      // expected exit
+    }
+
+    const plistPath = path.join(tempDir, "Library", "LaunchAgents", "ai.fluxhive.runner.plist");
+    const unitPath = path.join(tempDir, ".config", "systemd", "user", "fluxhive-runner.service");
+    const content = fs.existsSync(plistPath)
+      ? fs.readFileSync(plistPath, "utf8")
+      : fs.readFileSync(unitPath, "utf8");
+    expect(content).toContain("http://collector:4318/v1/traces");
+    expect(content).not.toContain("OTEL_EXPORTER_OTLP_HEADERS");
+    expect(content).not.toContain("secret");
+  });
+
+  describe("with ~/.flux/runner.yaml", () => {
+    const runnerFilePath = path.join(tempDir, ".flux", "runner.yaml");
+
+    beforeEach(() => {
+      delete process.env.FLUX_SHUTDOWN_GRACE_SECONDS;
+      delete process.env.FLUX_CADENCE_MINUTES;
+      delete process.env.FLUX_RUNNER_CONFIG;
+      fs.mkdirSync(path.dirname(runnerFilePath), { recursive: true });
+    });
+
+    afterEach(() => {
+      fs.rmSync(runnerFilePath, { force: true });
+    });
+
+    it("uses the file's grace period and does not bake a cadence that would override it", () => {
+      fs.writeFileSync(runnerFilePath, "polling:\n  cadenceMinutes: 10\ntimeouts:\n  shutdownGraceSeconds: 70\n");
+      try {
+        handleServiceCommand("install");
+      } catch {
+        // expected exit
+      }
+
+      const plistPath = path.join(tempDir, "Library", "LaunchAgents", "ai.fluxhive.runner.plist");
+      const unitPath = path.join(tempDir, ".config", "systemd", "user", "fluxhive-runner.service");
+      const content = fs.existsSync(plistPath)
+        ? fs.readFileSync(plistPath, "utf8")
+        : fs.readFileSync(unitPath, "utf8");
+      expect(content).toMatch(/<integer>100<\/integer>|TimeoutStopSec=100/);
+      expect(content).not.toContain("FLUX_CADENCE_MINUTES");
+    });
+
+    it("refuses to install with an invalid file", () => {
+      fs.writeFileSync(runnerFilePath, "concurrency:\n  max: none\n");
+      const stderr = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      expect(() => handleServiceCommand("install")).toThrow("process.exit(1)");
+      expect(stderr).toHaveBeenCalledWith(expect.stringContaining("2:8 concurrency.max must be integer"));
+      stderr.mockRestore();
+    });
+  });
+
   it("plist creates log directory", () => {
     if (os.platform() !== "darwin") return;
 
@@ -0,0 +1,211 @@
+import { describe, expect, it, vi, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  JsonLinesSpanExporter,
+  OtlpHttpExporter,
+  SpanKind,
+  Tracer,
+  activeSpan,
+  parseOtlpHeaders,
+  parseTracingMode,
+  traceHeaders,
+  type OtlpTraceExport,
+} from "../../src/runner/tracing.ts";
+
+function makeTracer(overrides: Partial<ConstructorParameters<typeof Tracer>[0]> = {}) {
+  const exports: OtlpTraceExport[] = [];
+  const tracer = new Tracer({
+    serviceName: "fluxhive-runner",
+    serviceVersion: "1.2.3",
+    resourceAttributes: { "service.instance.id": "inst-1" },
+    exporter: { export: async (payload) => void exports.push(payload) },
+    ...overrides,
+  });
+  return { tracer, exports };
+}
+
+describe("Tracer", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("parents spans to the active span and starts new traces for parent: null", async () => {
+    const { tracer } = makeTracer();
+    const root = tracer.startSpan("task.run", { parent: null });
+
+    await tracer.withSpan(root, async () => {
+      expect(activeSpan()).toBe(root);
+      await Promise.resolve();
+      const child = tracer.startSpan("task.claim");
+      expect(child.traceId).toBe(root.traceId);
+      expect(child.parentSpanId).toBe(root.spanId);
+
+      const other = tracer.startSpan("task.run", { parent: null });
+      expect(other.traceId).not.toBe(root.traceId);
+      expect(other.parentSpanId).toBeUndefined();
+    });
+    expect(activeSpan()).toBeUndefined();
+  });
+
+  it("returns traceparent headers only inside a sampled span", () => {
+    const { tracer } = makeTracer();
+    const span = tracer.startSpan("task.run");
+    const disabled = new Tracer({ serviceName: "off" });
+    const unsampled = disabled.startSpan("task.run");
+
+    expect(traceHeaders()).toEqual({});
+    expect(tracer.withSpan(span, () => traceHeaders())).toEqual({
+      traceparent: `00-${span.traceId}-${span.spanId}-01`,
+    });
+    expect(disabled.withSpan(unsampled, () => traceHeaders())).toEqual({});
+    expect(disabled.enabled).toBe(false);
+  });
+
+  it("exports ended spans in the OTLP JSON shape on flush", async () => {
+    const { tracer, exports } = makeTracer();
+    const span = tracer.startSpan("task.claim", {
+      kind: SpanKind.CLIENT,
+      attributes: { "flux.task.id": "task-1", retries: 2, ratio: 0.5, ok: true, skipped: undefined },
+    });
+    span.addEvent("claimed", { "flux.session.id": "s-1" });
+    span.end();
+    span.end();
+
+    await tracer.flush();
+
+    expect(exports).toHaveLength(1);
+    const [resourceSpans] = exports[0].resourceSpans;
+    expect(resourceSpans.resource.attributes).toEqual([
+      { key: "service.name", value: { stringValue: "fluxhive-runner" } },
+      { key: "service.version", value: { stringValue: "1.2.3" } },
+      { key: "service.instance.id", value: { stringValue: "inst-1" } },
+    ]);
+    const [otlp] = resourceSpans.scopeSpans[0].spans;
+    expect(otlp).toMatchObject({
+      traceId: span.traceId,
+      spanId: span.spanId,
+      name: "task.claim",
+      kind: SpanKind.CLIENT,
+      status: { code: 0 },
+      attributes: [
+        { key: "flux.task.id", value: { stringValue: "task-1" } },
+        { key: "retries", value: { intValue: "2" } },
+        { key: "ratio", value: { doubleValue: 0.5 } },
+        { key: "ok", value: { boolValue: true } },
+      ],
+    });
+    expect(otlp.events).toHaveLength(1);
+    expect(BigInt(otlp.endTimeUnixNano)).toBeGreaterThanOrEqual(BigInt(otlp.startTimeUnixNano));
+  });
+
+  it("records errors thrown inside trace() and rethrows them", async () => {
+    const { tracer, exports } = makeTracer();
+
+    await expect(
+      tracer.trace("task.execute", {}, async () => {
+        throw new Error("boom");
+      }),
+    ).rejects.toThrow("boom");
+    await tracer.flush();
+
+    const [otlp] = exports[0].resourceSpans[0].scopeSpans[0].spans;
+    expect(otlp.status).toEqual({ code: 2, message: "boom" });
+    expect(otlp.events[0]).toMatchObject({ name: "exception" });
+  });
+
+  it("flushes on an interval and reports export errors without throwing", async () => {
+    vi.useFakeTimers();
+    try {
+      const onExportError = vi.fn();
+      const exporter = { export: vi.fn().mockRejectedValue(new Error("collector down")) };
+      const tracer = new Tracer({ serviceName: "test", exporter, flushIntervalMs: 1_000, onExportError });
+
+      tracer.startSpan("a").end();
+      expect(exporter.export).not.toHaveBeenCalled();
+      await vi.advanceTimersByTimeAsync(1_000);
+
+      expect(exporter.export).toHaveBeenCalledTimes(1);
+      expect(onExportError).toHaveBeenCalledWith(expect.objectContaining({ message: "collector down" }));
+      await tracer.shutdown();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("never exports when no exporter is configured", async () => {
+    const tracer = new Tracer({ serviceName: "off" });
+    tracer.startSpan("a").end();
+    await expect(tracer.shutdown()).resolves.toBeUndefined();
+  });
+});
+
+describe("OtlpHttpExporter", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("posts to <endpoint>/v1/traces with the configured headers", async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+    vi.stubGlobal("fetch", fetchMock);
+    const exporter = new OtlpHttpExporter({
+      endpoint: "http://collector:4318/",
+      headers: { "x-api-key": "abc" },
+    });
+
+    await exporter.export({ resourceSpans: [] });
+
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("http://collector:4318/v1/traces");
+    expect(init.headers).toEqual({ "content-type": "application/json", "x-api-key": "abc" });
+    expect(JSON.parse(init.body as string)).toEqual({ resourceSpans: [] });
+  });
+
+  it("throws on non-2xx responses", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ ok: false, status: 503 }));
+    const exporter = new OtlpHttpExporter({ endpoint: "http://collector:4318/v1/traces" });
+
+    await expect(exporter.export({ resourceSpans: [] })).rejects.toThrow("HTTP 503");
+  });
+});
+
+describe("JsonLinesSpanExporter", () => {
+  it("appends one JSON line per export to an owner-only file", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "flux-traces-test-"));
+    try {
+      const filePath = path.join(dir, "nested", "traces.jsonl");
+      const exporter = new JsonLinesSpanExporter({ filePath });
+
+      await exporter.export({ resourceSpans: [] });
+      await exporter.export({ resourceSpans: [] });
+
+      const lines = fs.readFileSync(filePath, "utf8").trim().split("\n");
+      expect(lines.map((line) => JSON.parse(line))).toEqual([{ resourceSpans: [] }, { resourceSpans: [] }]);
+      expect(fs.statSync(filePath).mode & 0o777).toBe(0o600);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("parseOtlpHeaders", () => {
+  it("parses comma-separated key=value pairs and decodes values", () => {
+    expect(parseOtlpHeaders("api-key=a%20b, x-team = runners,broken,=nokey,bad=%E0")).toEqual({
+      "api-key": "a b",
+      "x-team": "runners",
+      bad: "%E0",
+    });
+    expect(parseOtlpHeaders(undefined)).toEqual({});
+  });
+});
+
+describe("parseTracingMode", () => {
+  it("accepts otlp, file, and stdout case-insensitively", () => {
+    expect(parseTracingMode(" OTLP ")).toBe("otlp");
+    expect(parseTracingMode("file")).toBe("file");
+    expect(parseTracingMode("stdout")).toBe("stdout");
+    expect(parseTracingMode("zipkin")).toBeNull();
+    expect(parseTracingMode(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+vi.mock("node:child_process", () => ({
+  execFile: vi.fn(),
+}));
+
+const { execFile } = await import("node:child_process");
+const { WorkspaceManager, parseWorkspaceRetention } = await import("../../src/runner/workspace.ts");
+
+type ExecFileCallback = (error: Error | null, stdout: string, stderr: string) => void;
+
+function mockGit(impl: (args: string[], cwd: string) => { error?: Error; stderr?: string } | void) {
+  vi.mocked(execFile).mockImplementation(((
+    _cmd: string,
+    args: string[],
+    opts: { cwd: string },
+    cb: ExecFileCallback,
+  ) => {
+    const outcome = impl(args, opts.cwd) || {};
+    cb(outcome.error ?? null, "", outcome.stderr ?? "");
+  }) as never);
+}
+
+describe("parseWorkspaceRetention", () => {
+  it("accepts known policies case-insensitively", () => {
+    expect(parseWorkspaceRetention("delete")).toBe("delete");
+    expect(parseWorkspaceRetention(" Keep-Failed ")).toBe("keep-failed");
+    expect(parseWorkspaceRetention("keep")).toBe("keep");
+  });
+
+  it("returns null for unknown or missing values", () => {
+    expect(parseWorkspaceRetention("forever")).toBeNull();
+    expect(parseWorkspaceRetention(undefined)).toBeNull();
+  });
+});
+
+describe("WorkspaceManager", () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "flux-ws-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it("creates an empty per-task directory without a repository", async () => {
+    const manager = new WorkspaceManager({ rootDir });
+    const workspace = await manager.prepare("task-1", {});
+
+    expect(workspace.dir).toBe(path.join(rootDir, "task-1"));
+    expect(fs.readdirSync(workspace.dir)).toEqual([]);
+    expect(execFile).not.toHaveBeenCalled();
+  });
+
+  it("sanitizes task IDs into a single path segment", async () => {
+    const manager = new WorkspaceManager({ rootDir });
+    const workspace = await manager.prepare("../../etc/passwd", {});
+
+    expect(path.dirname(workspace.dir)).toBe(rootDir);
+    expect(path.basename(workspace.dir)).not.toContain("/");
+  });
+
+  it("replaces leftovers from a previous attempt", async () => {
+    const manager = new WorkspaceManager({ rootDir });
+    const stale = path.join(rootDir, "task-1");
+    fs.mkdirSync(stale, { recursive: true });
+    fs.writeFileSync(path.join(stale, "old.txt"), "stale");
+
+    const workspace = await manager.prepare("task-1", {});
+
+    expect(fs.existsSync(path.join(workspace.dir, "old.txt"))).toBe(false);
+  });
+
+  it("shallow-clones the packet repository at the requested branch", async () => {
+    mockGit(() => {});
+    const manager = new WorkspaceManager({ rootDir });
+    const workspace = await manager.prepare("task-1", {
+      workspace: { repository: "https://git.test/repo.git", ref: "main" },
+    });
+
+    expect(execFile).toHaveBeenCalledWith(
+      "git",
+      ["clone", "--depth", "1", "--branch", "main", "--", "https://git.test/repo.git", workspace.dir],
+      expect.objectContaining({ cwd: rootDir }),
+      expect.any(Function),
+    );
+    expect(workspace.repository).toBe("https://git.test/repo.git");
+  });
+
+  it("does a full clone and detached checkout for commit SHAs", async () => {
+    mockGit(() => {});
+    const sha = "a".repeat(40);
+    const manager = new WorkspaceManager({ rootDir });
+    const workspace = await manager.prepare("task-1", {
+      workspace: { repository: "git@git.test:repo.git", ref: sha },
+    });
+
+    const calls = vi.mocked(execFile).mock.calls.map((call) => call[1]);
+    expect(calls).toEqual([
+      ["clone", "--no-checkout", "--", "git@git.test:repo.git", workspace.dir],
+      ["checkout", "--detach", sha],
+    ]);
+  });
+
+  it("strips secrets from the git environment", async () => {
+    mockGit(() => {});
+    const origToken = process.env.FLUX_TOKEN;
+    process.env.FLUX_TOKEN = "secret";
+    try {
+      const manager = new WorkspaceManager({ rootDir });
+      await manager.prepare("task-1", { workspace: { repository: "https://git.test/repo.git" } });
+      const env = (vi.mocked(execFile).mock.calls[0][2] as { env: Record<string, string> }).env;
+      expect(env).not.toHaveProperty("FLUX_TOKEN");
+      expect(env.GIT_TERMINAL_PROMPT).toBe("0");
+    } finally {
+      if (origToken === undefined) delete process.env.FLUX_TOKEN;
+      else process.env.FLUX_TOKEN = origToken;
+    }
+  });
+
+  it("removes the directory and rejects when the clone fails", async () => {
+    mockGit(() => ({ error: new Error("exit 128"), stderr: "repository not found" }));
+    const manager = new WorkspaceManager({ rootDir });
+
+    await expect(
+      manager.prepare("task-1", { workspace: { repository: "https://git.test/missing.git" } }),
+    ).rejects.toThrow("git clone failed: repository not found");
+    expect(fs.existsSync(path.join(rootDir, "task-1"))).toBe(false);
+  });
+
+  it("passes the abort signal to git and rejects once it fires", async () => {
+    const controller = new AbortController();
+    mockGit(() => {
+      controller.abort();
+      return { error: Object.assign(new Error("The operation was aborted"), { name: "AbortError" }) };
+    });
+    const manager = new WorkspaceManager({ rootDir });
+
+    await expect(
+      manager.prepare("task-1", { workspace: { repository: "https://git.test/repo.git" } }, controller.signal),
+    ).rejects.toThrow("git clone aborted");
+    expect(vi.mocked(execFile).mock.calls[0][2]).toMatchObject({ signal: controller.signal });
+    expect(fs.existsSync(path.join(rootDir, "task-1"))).toBe(false);
+  });
+
+  it("release deletes workspaces under the delete policy", async () => {
+    const manager = new WorkspaceManager({ rootDir, retention: "delete" });
+    const workspace = await manager.prepare("task-1", {});
+
+    await manager.release(workspace, "failed");
+
+    expect(fs.existsSync(workspace.dir)).toBe(false);
+  });
+
+  it("release keeps only unsuccessful workspaces under keep-failed", async () => {
+    const manager = new WorkspaceManager({ rootDir, retention: "keep-failed" });
+    const done = await manager.prepare("task-done", {});
+    const failed = await manager.prepare("task-failed", {});
+
+    await manager.release(done, "done");
+    await manager.release(failed, "failed");
+
+    expect(fs.existsSync(done.dir)).toBe(false);
+    expect(fs.existsSync(failed.dir)).toBe(true);
+  });
+
+  it("release keeps everything under the keep policy", async () => {
+    const manager = new WorkspaceManager({ rootDir, retention: "keep" });
+    const workspace = await manager.prepare("task-1", {});
+
+    await manager.release(workspace, "done");
+
+    expect(fs.existsSync(workspace.dir)).toBe(true);
+  });
+
+  it("prune removes workspaces older than maxAgeHours", async () => {
+    const manager = new WorkspaceManager({ rootDir, retention: "keep", maxAgeHours: 1 });
+    const old = await manager.prepare("task-old", {});
+    const fresh = await manager.prepare("task-fresh", {});
+    await manager.release(old, "done");
+    await manager.release(fresh, "done");
+    const twoHoursAgo = new Date(Date.now() - 2 * 3_600_000);
+    fs.utimesSync(old.dir, twoHoursAgo, twoHoursAgo);
+
+    const removed = await manager.prune();
+
+    expect(removed).toEqual([old.dir]);
+    expect(fs.existsSync(fresh.dir)).toBe(true);
+  });
+
+  it("prune skips the workspaces of running tasks, however old", async () => {
+    const manager = new WorkspaceManager({ rootDir, retention: "keep", maxAgeHours: 0.5 });
+    const running = await manager.prepare("task-running", {});
+    const twoHoursAgo = new Date(Date.now() - 2 * 3_600_000);
+    fs.utimesSync(running.dir, twoHoursAgo, twoHoursAgo);
+
+    expect(await manager.prune()).toEqual([]);
+    expect(fs.existsSync(running.dir)).toBe(true);
+
+    await manager.release(running, "done");
+    fs.utimesSync(running.dir, twoHoursAgo, twoHoursAgo);
+    expect(await manager.prune()).toEqual([running.dir]);
+  });
+
+  it("prune is a no-op when max age is disabled or the root is missing", async () => {
+    expect(await new WorkspaceManager({ rootDir, maxAgeHours: 0 }).prune()).toEqual([]);
+    expect(
+      await new WorkspaceManager({ rootDir: path.join(rootDir, "missing"), maxAgeHours: 1 }).prune(),
+    ).toEqual([]);
+  });
+});